@@ -0,0 +1,65 @@
+// backend_service/schemas/comp.model.js
+const mongoose = require("mongoose");
+
+// A sold comp shared across deals - one document per sale
+const compSchema = new mongoose.Schema(
+  {
+    // Library key: the same house sold on the same day is the same comp
+    normalizedAddress: { type: String, required: true },
+    saleDate: { type: String, required: true }, // YYYY-MM-DD when parseable
+
+    address: { type: String, required: true, trim: true },
+    soldPrice: { type: Number, required: true, min: 0 },
+    soldDate: { type: String, required: true }, // As entered (e.g. MM/DD/YY)
+    beds: { type: Number, default: 0 },
+    baths: { type: Number, default: 0 },
+    sqft: { type: Number, default: 0 },
+    propertyType: { type: String, default: "" },
+    yearBuilt: { type: Number, default: 0 },
+    pricePerSqft: { type: Number, default: 0 },
+    description: { type: String },
+    zillowLink: { type: String },
+    zestimate: { type: Number },
+    rentZestimate: { type: Number },
+    lotSize: { type: Number },
+    hasPool: { type: Boolean },
+    parkingSpaces: { type: Number },
+    daysOnMarket: { type: Number },
+    photos: [
+      {
+        _id: false,
+        id: String,
+        url: String,
+        isPrimary: Boolean,
+      },
+    ],
+    lat: { type: Number },
+    lng: { type: Number },
+    // GeoJSON copy of lat/lng for radius searches (set by the comp service)
+    location: {
+      type: { type: String, enum: ["Point"] },
+      coordinates: { type: [Number], default: undefined }, // [lng, lat]
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (doc, ret) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        delete ret.location;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+compSchema.index({ normalizedAddress: 1, saleDate: 1 }, { unique: true });
+compSchema.index({ location: "2dsphere" });
+compSchema.index({ saleDate: -1 });
+
+const Comp = mongoose.model("Comp", compSchema);
+module.exports = Comp;
@@ -10,6 +10,22 @@ const unitDetailSchema = new mongoose.Schema({
   afterRehabMarketRent: { type: Number },
   strAnnualRevenue: { type: Number },
   strAnnualExpenses: { type: Number },
+  // Seasonal STR bookings (12 values, January first)
+  strMonthlyADR: { type: [Number], default: undefined },
+  strMonthlyOccupancy: { type: [Number], default: undefined },
+  strCleaningFee: { type: Number },
+  strCleaningCost: { type: Number },
+  strAverageStayNights: { type: Number },
+  mtrMonthlyRent: { type: Number },
+  mtrOccupancyPercent: { type: Number },
+  mtrMonthlyUtilities: { type: Number },
+  mtrFurnishingCost: { type: Number },
+  // In-place lease on an occupied unit
+  currentRent: { type: Number },
+  leaseEndDate: { type: String }, // YYYY-MM-DD, unset = month-to-month
+  securityDeposit: { type: Number },
+  tenantType: { type: String, enum: ["market", "section8"] },
+  markToMarketPlan: { type: String, enum: ["turnover", "renew", "keep"] },
 });
 
 const zillowCompSchema = new mongoose.Schema({
@@ -27,6 +43,10 @@ const zillowCompSchema = new mongoose.Schema({
   zillowLink: { type: String },
   zestimate: { type: Number },
   rentZestimate: { type: Number },
+  lotSize: { type: Number },
+  hasPool: { type: Boolean },
+  parkingSpaces: { type: Number },
+  daysOnMarket: { type: Number },
   photos: [
     {
       id: String,
@@ -36,8 +56,161 @@ const zillowCompSchema = new mongoose.Schema({
   ],
   lat: { type: Number },
   lng: { type: Number },
+  libraryId: { type: String }, // Shared comp library entry (see comp.model.js)
+  libraryUpdatedAt: { type: Date }, // Version of the library entry this copies
 });
 
+// Rental listing used to price unit market rents
+const rentCompSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true },
+    address: { type: String, default: "" },
+    monthlyRent: { type: Number, required: true, min: 0 },
+    listedDate: { type: String },
+    beds: { type: Number },
+    baths: { type: Number },
+    sqft: { type: Number },
+    condition: {
+      type: String,
+      enum: ["dated", "average", "renovated"],
+      default: "average",
+    },
+    hasPool: { type: Boolean },
+    propertyType: { type: String },
+    link: { type: String },
+    lat: { type: Number },
+    lng: { type: Number },
+  },
+  { _id: false }
+);
+
+// Summary of the ARV confidence report (band from adjusted comp price spread)
+const arvConfidenceSchema = new mongoose.Schema(
+  {
+    low: { type: Number, required: true },
+    high: { type: Number, required: true },
+    bandPercent: { type: Number, required: true, min: 0 },
+    level: { type: String, enum: ["High", "Medium", "Low"], required: true },
+    compCount: { type: Number, default: 0 },
+    outlierCount: { type: Number, default: 0 },
+    warningCount: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const operatingExpenseLineSchema = new mongoose.Schema(
+  {
+    key: {
+      type: String,
+      enum: [
+        "management",
+        "maintenance",
+        "capexReserve",
+        "utilities",
+        "hoa",
+        "lawnPest",
+        "turnover",
+      ],
+      required: true,
+    },
+    basis: {
+      type: String,
+      enum: ["percentOfIncome", "annual", "perUnitMonthly"],
+      default: "percentOfIncome",
+    },
+    amount: { type: Number, default: 0 },
+    growthPercent: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const loanStructureSchema = new mongoose.Schema(
+  {
+    type: {
+      type: String,
+      enum: ["fixed", "interest-only", "arm", "balloon", "seller"],
+      default: "fixed",
+    },
+    interestOnlyYears: { type: Number },
+    armInitialFixedYears: { type: Number },
+    armAdjustmentIntervalYears: { type: Number },
+    armFullyIndexedRate: { type: Number },
+    armPeriodicCap: { type: Number },
+    armLifetimeCap: { type: Number },
+    balloonYears: { type: Number },
+  },
+  { _id: false }
+);
+
+// Refinance scheduled during the hold (cash-out or rate-and-term)
+const refinanceEventSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true },
+    year: { type: Number, required: true, min: 1 },
+    type: {
+      type: String,
+      enum: ["cashOut", "rateTerm"],
+      default: "cashOut",
+    },
+    ltvPercent: { type: Number, default: 75 },
+    interestRate: { type: Number, required: true },
+    termYears: { type: Number, default: 30 },
+    closingCostsPercent: { type: Number, default: 2 },
+    appraisedValue: { type: Number },
+  },
+  { _id: false }
+);
+
+// Named what-if variant; overrides holds only the deal fields that differ
+const dealScenarioSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, required: true, trim: true },
+    overrides: { type: mongoose.Schema.Types.Mixed, default: {} },
+    createdAt: { type: String },
+  },
+  { _id: false }
+);
+
+// Year-1 numbers for one strategy, computed by shared_calc
+const strategyMetricsSchema = new mongoose.Schema(
+  {
+    monthlyCashFlow: Number,
+    cashOnCash: Number,
+    capRate: Number,
+    dscr: Number,
+    cashInvested: Number,
+  },
+  { _id: false }
+);
+
+// Server-computed on every save (see analysis.service.js) - never sent by clients
+const dealMetricsSchema = new mongoose.Schema(
+  {
+    bestStrategy: {
+      type: String,
+      enum: ["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"],
+    },
+    monthlyCashFlow: Number,
+    cashOnCash: Number,
+    capRate: Number,
+    dscr: Number,
+    strategies: {
+      ltr: strategyMetricsSchema,
+      houseHack: strategyMetricsSchema,
+      section8: strategyMetricsSchema,
+      airbnb: strategyMetricsSchema,
+      mtr: strategyMetricsSchema,
+      rehab: strategyMetricsSchema,
+    },
+    fundsGap: Number,
+    flipNetProfit: Number,
+    arvSpreadPercent: Number,
+    computedAt: Date,
+  },
+  { _id: false }
+);
+
 const dealNotesSchema = new mongoose.Schema(
   {
     // Realtor info
@@ -219,6 +392,8 @@ const dealSchema = new mongoose.Schema(
     unitDetails: [unitDetailSchema],
     totalSqft: { type: Number, required: true },
     yearBuilt: { type: Number, required: true },
+    lotSize: { type: Number, min: 0 }, // Lot sqft (ARV lot adjustment)
+    parkingSpaces: { type: Number, min: 0 }, // ARV parking adjustment
 
     // Financial inputs
     purchasePrice: { type: Number, required: true },
@@ -228,10 +403,17 @@ const dealSchema = new mongoose.Schema(
     // Loan parameters
     loanInterestRate: { type: Number, required: true },
     loanTerm: { type: Number, required: true },
+    loanStructure: loanStructureSchema,
+    refinanceEvents: { type: [refinanceEventSchema], default: undefined },
     downPayment: { type: Number, required: true },
     acquisitionCosts: { type: Number, required: true },
     acquisitionCostsAmount: { type: Number },
     setupFurnishCost: { type: Number, default: 0 },
+    // Deal-specific expense schedule (falls back to global defaults when empty)
+    operatingExpenses: {
+      type: [operatingExpenseLineSchema],
+      default: undefined,
+    },
 
     // Property expenses
     propertyTaxes: { type: Number, required: true },
@@ -271,14 +453,44 @@ const dealSchema = new mongoose.Schema(
     sellClosingCosts: { type: Number, default: 8 },
     dscrAcquisitionCosts: { type: Number },
 
+    // Fix & flip (unset = derived from the rehab fields)
+    flipHoldingMonths: { type: Number },
+    flipDrawSchedule: { type: [Number], default: undefined },
+    flipDrawPointsPercent: { type: Number },
+    flipStagingCost: { type: Number },
+
+    // House hack (unset = FHA, first unit, purchase loan rate, program MI rate)
+    houseHackLoanProgram: { type: String, enum: ["fha", "conventional"] },
+    houseHackOwnerUnit: { type: Number },
+    houseHackInterestRate: { type: Number },
+    houseHackMortgageInsurancePercent: { type: Number },
+
     // ARV calculator
     arvComps: [zillowCompSchema],
     subjectLat: { type: Number },
     subjectLng: { type: Number },
     calculatedARV: { type: Number, default: 0 },
+    // Adjustment grid edits: { rates: {...}, cells: { [compId]: { [factor]: $ } } }
+    arvAdjustmentOverrides: { type: mongoose.Schema.Types.Mixed },
+    arvConfidence: { type: arvConfidenceSchema, default: undefined },
     subjectPropertyDescription: { type: String },
     subjectPropertyZillowLink: { type: String },
 
+    // Rent comps
+    rentComps: { type: [rentCompSchema], default: undefined },
+
+    // What-if scenarios (heavy vs light rehab, different offers, ...)
+    scenarios: { type: [dealScenarioSchema], default: undefined },
+
+    // Computed metrics for filtering and sorting
+    metrics: { type: dealMetricsSchema, default: undefined },
+
+    // Strategy the property is run under once acquired (portfolio roll-up)
+    portfolioStrategy: {
+      type: String,
+      enum: ["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"],
+    },
+
     // Property photos and notes
     photos: [
       {
@@ -302,6 +514,7 @@ const dealSchema = new mongoose.Schema(
         "stage6-accepted",
         "stage6-rejected",
         "stage6-counter",
+        "stage7-closed",
         "archived",
       ],
       default: "stage1-basic-data",
@@ -362,6 +575,8 @@ dealSchema.index({ "unitDetails.beds": 1 });
 dealSchema.index({ purchasePrice: 1 });
 dealSchema.index({ dealStage: 1 }); // NEW INDEX for stage queries
 dealSchema.index({ stageUpdatedAt: -1 }); // NEW INDEX for stage timeline
+dealSchema.index({ "metrics.monthlyCashFlow": -1 });
+dealSchema.index({ "metrics.dscr": -1 });
 
 const Deal = mongoose.model("Deal", dealSchema);
 module.exports = Deal;
@@ -19,15 +19,88 @@ const section8ZipDataSchema = new mongoose.Schema(
   { _id: false }
 );
 
+const operatingExpenseLineSchema = new mongoose.Schema(
+  {
+    key: {
+      type: String,
+      enum: [
+        "management",
+        "maintenance",
+        "capexReserve",
+        "utilities",
+        "hoa",
+        "lawnPest",
+        "turnover",
+      ],
+      required: true,
+    },
+    basis: {
+      type: String,
+      enum: ["percentOfIncome", "annual", "perUnitMonthly"],
+      default: "percentOfIncome",
+    },
+    amount: { type: Number, default: 0 },
+    growthPercent: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Named buy box - blank thresholds are not checked
+const criteriaProfileSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, required: true, trim: true },
+    strategy: {
+      type: String,
+      enum: ["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"],
+      default: "ltr",
+    },
+    minCapRate: Number,
+    minDscr: Number,
+    minCashOnCash: Number,
+    maxCashLeftInDeal: Number,
+    maxPricePerUnit: Number,
+    allowedZips: { type: [String], default: undefined },
+  },
+  { _id: false }
+);
+
+const taxSettingsSchema = new mongoose.Schema(
+  {
+    landValuePercent: { type: Number, default: 20 },
+    ordinaryIncomeRatePercent: { type: Number, default: 24 },
+    capitalGainsRatePercent: { type: Number, default: 15 },
+    recaptureRatePercent: { type: Number, default: 25 },
+    costSegregationPercent: { type: Number, default: 0 },
+    bonusDepreciationPercent: { type: Number, default: 60 },
+    realEstateProfessional: { type: Boolean, default: false },
+    passiveLossAllowance: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
 const globalAssumptionsSchema = new mongoose.Schema(
   {
     ltrVacancyMonths: { type: Number, default: 1 },
     section8VacancyMonths: { type: Number, default: 0.5 },
+    mtrPlatformFeePercent: { type: Number, default: 5 },
+    mtrFurnishingLifeYears: { type: Number, default: 5 },
+    turnoverVacancyMonths: { type: Number, default: 1 },
+    strPlatformFeePercent: { type: Number, default: 3 },
+    strLodgingTaxPercent: { type: Number, default: 12 }, // FL sales tax + Broward surtax and tourist development tax
     maintenancePercent: { type: Number, default: 5 },
     rentGrowthPercent: { type: Number, default: 3 },
     appreciationPercent: { type: Number, default: 3 },
     propertyTaxIncreasePercent: { type: Number, default: 3 },
     insuranceIncreasePercent: { type: Number, default: 5 },
+    discountRatePercent: { type: Number, default: 8 },
+    // Default itemized expense schedule (older documents fall back to maintenancePercent)
+    operatingExpenses: {
+      type: [operatingExpenseLineSchema],
+      default: undefined,
+    },
+    criteriaProfiles: { type: [criteriaProfileSchema], default: [] },
+    taxSettings: { type: taxSettingsSchema, default: () => ({}) },
     section8ZipData: [section8ZipDataSchema],
     isActive: { type: Boolean, default: true },
   },
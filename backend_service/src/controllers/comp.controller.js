@@ -0,0 +1,79 @@
+// backend_service/controllers/comp.controller.js
+const compService = require("../services/comp.service");
+const { sendResponse } = require("../utils/utils");
+const { STATUS, ERROR_MESSAGES } = require("../constants/constants");
+const logger = require("../../config/logger");
+
+class CompController {
+  // Get library comps near a subject property
+  async getNearbyComps(req, res) {
+    try {
+      const { lat, lng, radiusMiles = 1, months = 6, limit = 20 } = req.query;
+
+      const comps = await compService.getNearbyComps({
+        lat,
+        lng,
+        radiusMiles,
+        months,
+        limit,
+      });
+
+      return sendResponse(res, 200, {
+        status: STATUS.SUCCESS,
+        data: comps,
+        message: "Nearby comps retrieved successfully",
+      });
+    } catch (error) {
+      await logger.error(error, {
+        controller: "CompController",
+        method: "getNearbyComps",
+      });
+
+      return sendResponse(res, 500, {
+        status: STATUS.FAILED,
+        message: error.message || ERROR_MESSAGES.INTERNAL_SERVER_ERROR,
+      });
+    }
+  }
+
+  // Update library comp
+  async updateComp(req, res) {
+    try {
+      const { id } = req.params;
+      const updateData = req.body;
+
+      const { comp, updatedDeals } = await compService.updateComp(
+        id,
+        updateData
+      );
+
+      return sendResponse(res, 200, {
+        status: STATUS.SUCCESS,
+        data: comp,
+        updatedDeals,
+        message: "Comp updated successfully",
+      });
+    } catch (error) {
+      await logger.error(error, {
+        controller: "CompController",
+        method: "updateComp",
+        compId: req.params.id,
+      });
+
+      if (error.message === "Comp not found") {
+        return sendResponse(res, 404, {
+          status: STATUS.FAILED,
+          message: ERROR_MESSAGES.NOT_FOUND,
+        });
+      }
+
+      return sendResponse(res, 500, {
+        status: STATUS.FAILED,
+        message: error.message || ERROR_MESSAGES.INTERNAL_SERVER_ERROR,
+      });
+    }
+  }
+}
+
+const compController = new CompController();
+module.exports = compController;
@@ -1,5 +1,6 @@
 // controllers/deal.controller.js
 const dealService = require("../services/deal.service");
+const analysisService = require("../services/analysis.service");
 const { sendResponse } = require("../utils/utils");
 const { STATUS, ERROR_MESSAGES } = require("../constants/constants");
 const logger = require("../../config/logger");
@@ -18,6 +19,20 @@ class DealController {
         maxUnits,
         isRehab,
         dealStage, // NEW: Deal stage filter
+        strategy,
+        minCashFlow,
+        minDSCR,
+        minCapRate,
+        maxFundsGap,
+        minArvSpread,
+        zipCode,
+        city,
+        minYearBuilt,
+        maxYearBuilt,
+        minStageAgeDays,
+        maxStageAgeDays,
+        hasComps,
+        hasPhotos,
         sortBy = "createdAt",
         sortOrder = "desc",
       } = req.query;
@@ -32,6 +47,20 @@ class DealController {
         maxUnits,
         isRehab,
         dealStage, // NEW: Pass dealStage to service
+        strategy,
+        minCashFlow,
+        minDSCR,
+        minCapRate,
+        maxFundsGap,
+        minArvSpread,
+        zipCode,
+        city,
+        minYearBuilt,
+        maxYearBuilt,
+        minStageAgeDays,
+        maxStageAgeDays,
+        hasComps,
+        hasPhotos,
         sortBy,
         sortOrder,
       });
@@ -93,11 +122,12 @@ class DealController {
     try {
       const dealData = req.body;
 
-      const deal = await dealService.createDeal(dealData);
+      const { deal, replacedComps } = await dealService.createDeal(dealData);
 
       return sendResponse(res, 201, {
         status: STATUS.SUCCESS,
         data: deal,
+        replacedComps,
         message: "Deal created successfully",
       });
     } catch (error) {
@@ -127,11 +157,14 @@ class DealController {
       const { id } = req.params;
       const updateData = req.body;
 
-      const deal = await dealService.updateDeal(id, updateData);
+      const { deal, updatedDeals, replacedComps } =
+        await dealService.updateDeal(id, updateData);
 
       return sendResponse(res, 200, {
         status: STATUS.SUCCESS,
         data: deal,
+        updatedDeals,
+        replacedComps,
         message: "Deal updated successfully",
       });
     } catch (error) {
@@ -261,6 +294,66 @@ class DealController {
     }
   }
 
+  // Run the calculation engine on a saved deal
+  async getDealAnalysis(req, res) {
+    try {
+      const { id } = req.params;
+      const excludeVacancy = req.query.excludeVacancy === "true";
+
+      const analysis = await analysisService.analyzeDealById(id, {
+        excludeVacancy,
+      });
+
+      return sendResponse(res, 200, {
+        status: STATUS.SUCCESS,
+        data: analysis,
+      });
+    } catch (error) {
+      await logger.error(error, {
+        controller: "DealController",
+        method: "getDealAnalysis",
+        dealId: req.params.id,
+      });
+
+      if (error.message === "Deal not found") {
+        return sendResponse(res, 404, {
+          status: STATUS.FAILED,
+          message: ERROR_MESSAGES.NOT_FOUND,
+        });
+      }
+
+      return sendResponse(res, 500, {
+        status: STATUS.FAILED,
+        message: error.message || ERROR_MESSAGES.INTERNAL_SERVER_ERROR,
+      });
+    }
+  }
+
+  // Recompute and persist metrics for a batch of deals
+  async analyzeDeals(req, res) {
+    try {
+      const { dealIds } = req.body || {};
+
+      const results = await analysisService.analyzeDeals(dealIds);
+
+      return sendResponse(res, 200, {
+        status: STATUS.SUCCESS,
+        data: results,
+        message: `${results.length} deals analyzed successfully`,
+      });
+    } catch (error) {
+      await logger.error(error, {
+        controller: "DealController",
+        method: "analyzeDeals",
+      });
+
+      return sendResponse(res, 500, {
+        status: STATUS.FAILED,
+        message: error.message || ERROR_MESSAGES.INTERNAL_SERVER_ERROR,
+      });
+    }
+  }
+
   // Get deal statistics for dashboard
   async getDealStatistics(req, res) {
     try {
@@ -1,5 +1,6 @@
 // controllers/globalAssumptions.controller.js
 const assumptionsService = require("../services/globalAssumptions.service");
+const analysisService = require("../services/analysis.service");
 const { sendResponse } = require("../utils/utils");
 const { STATUS, ERROR_MESSAGES } = require("../constants/constants");
 const logger = require("../../config/logger");
@@ -36,6 +37,8 @@ class GlobalAssumptionsController {
       const assumptions = await assumptionsService.updateAssumptions(
         updateData
       );
+      // Persisted deal metrics depend on the assumptions - refreshed after responding
+      analysisService.refreshAllMetrics();
 
       return sendResponse(res, 200, {
         status: STATUS.SUCCESS,
@@ -235,6 +238,7 @@ class GlobalAssumptionsController {
   async resetAssumptions(req, res) {
     try {
       const assumptions = await assumptionsService.resetToDefaults();
+      analysisService.refreshAllMetrics();
 
       return sendResponse(res, 200, {
         status: STATUS.SUCCESS,
@@ -291,6 +295,7 @@ class GlobalAssumptionsController {
       const assumptions = await assumptionsService.importAssumptions(
         importData
       );
+      analysisService.refreshAllMetrics();
 
       return sendResponse(res, 200, {
         status: STATUS.SUCCESS,
@@ -6,6 +6,7 @@ const dealRoutes = require("./sub routes/deal.routes");
 const uploadRoutes = require("./sub routes/upload.routes");
 const teamNotesRoutes = require("./sub routes/team-notes.routes");
 const pipelineStatsRoutes = require("./sub routes/pipeline-stats.routes");
+const compRoutes = require("./sub routes/comp.routes");
 
 const setupRoutes = (server) => {
   // Health check
@@ -26,6 +27,7 @@ const setupRoutes = (server) => {
   server.use("/api/upload", uploadRoutes);
   server.use("/api/team-notes", teamNotesRoutes);
   server.use("/api/pipeline-stats", pipelineStatsRoutes);
+  server.use("/api/comps", compRoutes);
 };
 
 module.exports = { setupRoutes };
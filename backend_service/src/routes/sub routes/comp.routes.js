@@ -0,0 +1,17 @@
+// backend_service/routes/sub routes/comp.routes.js
+const express = require("express");
+const router = express.Router();
+const compController = require("../../controllers/comp.controller");
+const {
+  getNearbyCompsValidation,
+  updateCompValidation,
+} = require("../../validators/comp.validators");
+
+// Shared comp library routes
+router
+  .route("/nearby")
+  .get(getNearbyCompsValidation, compController.getNearbyComps);
+
+router.route("/:id").put(updateCompValidation, compController.updateComp);
+
+module.exports = router;
@@ -9,6 +9,7 @@ const {
   createDealValidation,
   updateDealValidation,
   bulkCreateDealsValidation,
+  batchAnalysisValidation,
   updateAssumptionsValidation,
   updateSection8ZipDataValidation,
   addSection8ZipEntryValidation,
@@ -37,6 +38,11 @@ router.route("/export").get(dealController.exportDeals);
 // Statistics
 router.route("/statistics").get(dealController.getDealStatistics);
 
+// Server-side underwriting
+router
+  .route("/analysis/batch")
+  .post(batchAnalysisValidation, dealController.analyzeDeals);
+
 // Individual deal routes
 router
   .route("/:id")
@@ -44,6 +50,8 @@ router
   .put(idValidation, updateDealValidation, dealController.updateDeal)
   .delete(idValidation, dealController.deleteDeal);
 
+router.route("/:id/analysis").get(idValidation, dealController.getDealAnalysis);
+
 // ========== GLOBAL ASSUMPTIONS ROUTES ==========
 
 // Main assumptions routes
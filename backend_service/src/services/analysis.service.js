@@ -0,0 +1,175 @@
+// backend_service/src/services/analysis.service.js
+const {
+  analyzeDeal,
+  assessDealARVConfidence,
+  calculateDealARV,
+} = require("shared_calc");
+const Deal = require("../../schemas/deal.model");
+const globalAssumptionsService = require("./globalAssumptions.service");
+const logger = require("../../config/logger");
+
+class AnalysisService {
+  // Active global assumptions as a plain object for the calculation engine
+  async getEngineAssumptions() {
+    const assumptions = await globalAssumptionsService.getAssumptions();
+    return assumptions.toObject();
+  }
+
+  // Metrics persisted on a deal - never blocks a save, a deal the engine can't
+  // run (e.g. a Stage 1 import with no price yet) just has no metrics
+  computeMetrics(deal, assumptions) {
+    try {
+      const dealData =
+        typeof deal.toObject === "function" ? deal.toObject() : deal;
+      return analyzeDeal(dealData, assumptions).metrics;
+    } catch (error) {
+      logger.error(error, {
+        service: "AnalysisService",
+        method: "computeMetrics",
+        dealId: deal._id,
+      });
+      return undefined;
+    }
+  }
+
+  // ARV confidence summary from the deal's comps (undefined without comps)
+  computeARVConfidence(deal) {
+    try {
+      const dealData =
+        typeof deal.toObject === "function" ? deal.toObject() : deal;
+      return assessDealARVConfidence(dealData);
+    } catch (error) {
+      logger.error(error, {
+        service: "AnalysisService",
+        method: "computeARVConfidence",
+        dealId: deal._id,
+      });
+      return undefined;
+    }
+  }
+
+  // Re-derive the ARV from the deal's comps after they changed on the server.
+  // The ARV used for financing follows only when it was still the calculated
+  // ARV (not a value the user typed over it).
+  recomputeCompARV(deal) {
+    const previousARV = deal.calculatedARV;
+    deal.calculatedARV = calculateDealARV(deal.toObject());
+    if (!deal.afterRepairValue || deal.afterRepairValue === previousARV) {
+      deal.afterRepairValue = deal.calculatedARV;
+    }
+  }
+
+  // $set the computed fields that have a value, $unset the rest
+  toComputedFieldsUpdate({ metrics, arvConfidence }) {
+    const update = { $set: {}, $unset: {} };
+    Object.entries({ metrics, arvConfidence }).forEach(([field, value]) => {
+      if (value) {
+        update.$set[field] = value;
+      } else {
+        update.$unset[field] = 1;
+      }
+    });
+    return update;
+  }
+
+  // Full analysis of one deal: every strategy's results, rehab exits and flip
+  async analyzeDealById(dealId, { excludeVacancy = false } = {}) {
+    try {
+      const deal = await Deal.findOne({ _id: dealId, isActive: true });
+
+      if (!deal) {
+        throw new Error("Deal not found");
+      }
+
+      const assumptions = await this.getEngineAssumptions();
+      const analysis = analyzeDeal(
+        deal.toObject(),
+        assumptions,
+        excludeVacancy
+      );
+
+      await logger.info("Deal analyzed", {
+        service: "AnalysisService",
+        method: "analyzeDealById",
+        dealId,
+        bestStrategy: analysis.metrics.bestStrategy,
+      });
+
+      return analysis;
+    } catch (error) {
+      await logger.error(error, {
+        service: "AnalysisService",
+        method: "analyzeDealById",
+        dealId,
+      });
+      throw error;
+    }
+  }
+
+  // Recompute and persist metrics for the given deals (all active deals when no
+  // ids are given, e.g. after the global assumptions change)
+  async analyzeDeals(dealIds) {
+    try {
+      const query = { isActive: true };
+      if (dealIds && dealIds.length > 0) {
+        query._id = { $in: dealIds };
+      }
+
+      const deals = await Deal.find(query);
+      const assumptions = await this.getEngineAssumptions();
+
+      const results = deals.map((deal) => ({
+        dealId: deal._id.toString(),
+        address: deal.address,
+        metrics: this.computeMetrics(deal, assumptions),
+        arvConfidence: this.computeARVConfidence(deal),
+      }));
+
+      const updates = results
+        .filter((result) => result.metrics || result.arvConfidence)
+        .map(({ dealId, metrics, arvConfidence }) => ({
+          updateOne: {
+            filter: { _id: dealId },
+            update: {
+              $set: {
+                ...(metrics && { metrics }),
+                ...(arvConfidence && { arvConfidence }),
+              },
+            },
+          },
+        }));
+      if (updates.length > 0) {
+        // Unordered, so one deal that fails to save doesn't stop the rest
+        await Deal.bulkWrite(updates, { ordered: false });
+      }
+
+      await logger.info("Deals analyzed", {
+        service: "AnalysisService",
+        method: "analyzeDeals",
+        count: results.length,
+        updated: updates.length,
+      });
+
+      return results;
+    } catch (error) {
+      await logger.error(error, {
+        service: "AnalysisService",
+        method: "analyzeDeals",
+      });
+      throw error;
+    }
+  }
+
+  // Re-analyze every active deal without holding up the caller (e.g. a global
+  // assumptions save) - a failure is logged, never surfaced to the request
+  refreshAllMetrics() {
+    this.analyzeDeals().catch((error) => {
+      logger.error(error, {
+        service: "AnalysisService",
+        method: "refreshAllMetrics",
+      });
+    });
+  }
+}
+
+module.exports = new AnalysisService();
@@ -0,0 +1,413 @@
+// backend_service/src/services/comp.service.js
+const mongoose = require("mongoose");
+const Comp = require("../../schemas/comp.model");
+const Deal = require("../../schemas/deal.model");
+const analysisService = require("./analysis.service");
+const logger = require("../../config/logger");
+
+const EARTH_RADIUS_MILES = 3963.2;
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Fields shared between a library comp and a deal's arvComps entry
+const COMP_FIELDS = [
+  "address",
+  "soldPrice",
+  "soldDate",
+  "beds",
+  "baths",
+  "sqft",
+  "propertyType",
+  "yearBuilt",
+  "pricePerSqft",
+  "description",
+  "zillowLink",
+  "zestimate",
+  "rentZestimate",
+  "lotSize",
+  "hasPool",
+  "parkingSpaces",
+  "daysOnMarket",
+  "photos",
+  "lat",
+  "lng",
+];
+
+// Common street words, so "123 NW 5th Street" and "123 nw 5th st." share a key
+const ADDRESS_ABBREVIATIONS = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  drive: "dr",
+  boulevard: "blvd",
+  court: "ct",
+  lane: "ln",
+  place: "pl",
+  terrace: "ter",
+  circle: "cir",
+  parkway: "pkwy",
+  highway: "hwy",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+  apartment: "unit",
+  apt: "unit",
+  suite: "unit",
+  ste: "unit",
+};
+
+class CompService {
+  normalizeAddress(address = "") {
+    return address
+      .toLowerCase()
+      .replace(/#/g, " unit ")
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => ADDRESS_ABBREVIATIONS[word] || word)
+      .filter((word, i, words) => !(word === "unit" && words[i - 1] === "unit"))
+      .join(" ");
+  }
+
+  // Sale dates arrive as MM/DD/YY from Zillow pastes or ISO strings
+  normalizeSaleDate(soldDate = "") {
+    const trimmed = String(soldDate).trim();
+    const usMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (usMatch) {
+      const [, month, day, year] = usMatch;
+      const fullYear = year.length === 2 ? `20${year}` : year;
+      return `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    }
+
+    // The date as written, even when a time follows - no timezone shift
+    const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (isoMatch) {
+      return isoMatch.slice(1).join("-");
+    }
+
+    const parsed = new Date(trimmed);
+    if (trimmed && !isNaN(parsed.getTime())) {
+      return [
+        parsed.getUTCFullYear(),
+        String(parsed.getUTCMonth() + 1).padStart(2, "0"),
+        String(parsed.getUTCDate()).padStart(2, "0"),
+      ].join("-");
+    }
+    return trimmed;
+  }
+
+  // Plain copy of the shared fields (photos without subdocument ids)
+  toCompFields(comp) {
+    const fields = {};
+    COMP_FIELDS.forEach((field) => {
+      const value = comp[field];
+      if (value === undefined || value === null) return;
+      fields[field] =
+        field === "photos"
+          ? value.map(({ id, url, isPrimary }) => ({ id, url, isPrimary }))
+          : value;
+    });
+    return fields;
+  }
+
+  // Library fields from a comp - only what it defines, so set() merges it over
+  // an existing entry (a copy without lat/lng keeps the entry's location)
+  toLibraryDocument(comp) {
+    const fields = this.toCompFields(comp);
+    const document = {
+      ...fields,
+      normalizedAddress: this.normalizeAddress(fields.address),
+      saleDate: this.normalizeSaleDate(fields.soldDate),
+    };
+    if (typeof fields.lat === "number" && typeof fields.lng === "number") {
+      document.location = {
+        type: "Point",
+        coordinates: [fields.lng, fields.lat],
+      };
+    }
+    return document;
+  }
+
+  // Find the library entry a deal comp refers to - by id, else by address + sale date
+  async findLibraryComp(comp) {
+    if (comp.libraryId && mongoose.Types.ObjectId.isValid(comp.libraryId)) {
+      const byId = await Comp.findById(comp.libraryId);
+      if (byId) return byId;
+    }
+    return Comp.findOne({
+      normalizedAddress: this.normalizeAddress(comp.address),
+      saleDate: this.normalizeSaleDate(comp.soldDate),
+    });
+  }
+
+  // A deal comp copied from an older version of its library entry
+  isStaleCopy(dealComp, libraryComp) {
+    return (
+      !!dealComp.libraryUpdatedAt &&
+      new Date(dealComp.libraryUpdatedAt).getTime() <
+        libraryComp.updatedAt.getTime()
+    );
+  }
+
+  // Whether merging the copy's defined fields would change the library entry
+  hasEdits(dealComp, libraryComp) {
+    const current = this.toCompFields(libraryComp);
+    const merged = { ...current, ...this.toCompFields(dealComp) };
+    return JSON.stringify(current) !== JSON.stringify(merged);
+  }
+
+  // Overwrite a deal comp with its library entry - true when its values changed
+  takeLibraryCopy(dealComp, libraryComp) {
+    const before = JSON.stringify(this.toCompFields(dealComp));
+    Object.assign(dealComp, this.toCompFields(libraryComp));
+    return before !== JSON.stringify(this.toCompFields(dealComp));
+  }
+
+  /**
+   * Upsert every ARV comp on a saved deal into the library, stamp the deal's
+   * comps with their library id and version, and push edits to the other deals
+   * that use the same comp. Only a linked copy of the current library version
+   * counts as an edit, and only its defined fields are merged. An unlinked copy
+   * of a sale already in the library, or a copy older than its entry (e.g. from
+   * an editor opened before another deal changed the comp), takes the library's
+   * values instead. Returns how many other deals were updated and which of this
+   * deal's comps were replaced. Failures are logged rather than thrown so the
+   * library never blocks a deal save.
+   */
+  async syncDealComps(deal) {
+    const replacedComps = [];
+    try {
+      if (!deal.arvComps || deal.arvComps.length === 0) {
+        return { updatedDeals: 0, replacedComps };
+      }
+
+      const editedComps = [];
+      let compsChanged = false;
+
+      for (const dealComp of deal.arvComps) {
+        if (!dealComp.address || !dealComp.soldPrice || !dealComp.soldDate) {
+          continue;
+        }
+
+        let libraryComp = await this.findLibraryComp(dealComp);
+        let created = false;
+        if (!libraryComp) {
+          try {
+            libraryComp = await Comp.create(this.toLibraryDocument(dealComp));
+            created = true;
+          } catch (error) {
+            // Another deal saved the same sale first - use its entry
+            if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+            libraryComp = await this.findLibraryComp(dealComp);
+          }
+        }
+        const libraryId = libraryComp._id.toString();
+
+        // A new entry was made from this copy - nothing to merge either way
+        if (
+          !created &&
+          (dealComp.libraryId !== libraryId ||
+            this.isStaleCopy(dealComp, libraryComp))
+        ) {
+          if (this.takeLibraryCopy(dealComp, libraryComp)) {
+            replacedComps.push({ id: dealComp.id, address: dealComp.address });
+            compsChanged = true;
+          }
+        } else if (!created && this.hasEdits(dealComp, libraryComp)) {
+          libraryComp.set(this.toLibraryDocument(dealComp));
+          await libraryComp.save();
+          editedComps.push(libraryComp);
+        }
+
+        const libraryUpdatedAt = libraryComp.updatedAt;
+        if (
+          dealComp.libraryId !== libraryId ||
+          new Date(dealComp.libraryUpdatedAt).getTime() !==
+            libraryUpdatedAt.getTime()
+        ) {
+          dealComp.libraryId = libraryId;
+          dealComp.libraryUpdatedAt = libraryUpdatedAt;
+          compsChanged = true;
+        }
+      }
+
+      if (compsChanged && !deal.isNew) {
+        await Deal.updateOne(
+          { _id: deal._id },
+          {
+            $set: {
+              arvComps: deal.arvComps.map((comp) =>
+                typeof comp.toObject === "function" ? comp.toObject() : comp
+              ),
+            },
+          }
+        );
+      }
+
+      let updatedDeals = 0;
+      for (const libraryComp of editedComps) {
+        updatedDeals += await this.propagateComp(libraryComp, deal._id);
+      }
+
+      await logger.info("Deal comps synced to library", {
+        service: "CompService",
+        method: "syncDealComps",
+        dealId: deal._id,
+        compCount: deal.arvComps.length,
+        editedCount: editedComps.length,
+        replacedCount: replacedComps.length,
+        updatedDeals,
+      });
+
+      return { updatedDeals, replacedComps };
+    } catch (error) {
+      await logger.error(error, {
+        service: "CompService",
+        method: "syncDealComps",
+        dealId: deal._id,
+      });
+      return { updatedDeals: 0, replacedComps };
+    }
+  }
+
+  // Copy a library comp over every deal comp that references it, then
+  // recompute what those deals derive from their comps
+  async propagateComp(libraryComp, excludeDealId) {
+    const libraryId = libraryComp._id.toString();
+    const $set = {};
+    Object.entries(this.toCompFields(libraryComp)).forEach(([field, value]) => {
+      $set[`arvComps.$[comp].${field}`] = value;
+    });
+    $set["arvComps.$[comp].libraryUpdatedAt"] = libraryComp.updatedAt;
+
+    const filter = { "arvComps.libraryId": libraryId };
+    if (excludeDealId) {
+      filter._id = { $ne: excludeDealId };
+    }
+
+    const result = await Deal.updateMany(
+      filter,
+      { $set },
+      { arrayFilters: [{ "comp.libraryId": libraryId }] }
+    );
+    if (result.modifiedCount > 0) {
+      await this.refreshCompDerivedFields(await Deal.find(filter));
+    }
+    return result.modifiedCount;
+  }
+
+  // Comp-based ARV, confidence and metrics for deals whose comps changed under them
+  async refreshCompDerivedFields(deals) {
+    const assumptions = await analysisService.getEngineAssumptions();
+
+    const updates = deals.map((deal) => {
+      analysisService.recomputeCompARV(deal);
+      deal.metrics = analysisService.computeMetrics(deal, assumptions);
+      deal.arvConfidence = analysisService.computeARVConfidence(deal);
+
+      const update = analysisService.toComputedFieldsUpdate(deal);
+      update.$set.calculatedARV = deal.calculatedARV;
+      update.$set.afterRepairValue = deal.afterRepairValue;
+      return { updateOne: { filter: { _id: deal._id }, update } };
+    });
+
+    if (updates.length > 0) {
+      await Deal.bulkWrite(updates, { ordered: false });
+    }
+  }
+
+  // Library comps within a radius of the subject, sold within the date window
+  async getNearbyComps({ lat, lng, radiusMiles = 1, months = 6, limit = 20 }) {
+    try {
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - months);
+
+      const comps = await Comp.find({
+        location: {
+          $geoWithin: {
+            $centerSphere: [[lng, lat], radiusMiles / EARTH_RADIUS_MILES],
+          },
+        },
+        saleDate: { $gte: cutoff.toISOString().slice(0, 10) },
+      });
+
+      const nearby = comps
+        .map((comp) => ({
+          ...comp.toJSON(),
+          distanceMiles:
+            Math.round(this.distanceMiles(lat, lng, comp.lat, comp.lng) * 100) /
+            100,
+        }))
+        .sort((a, b) => a.distanceMiles - b.distanceMiles)
+        .slice(0, limit);
+
+      await logger.info("Nearby library comps retrieved", {
+        service: "CompService",
+        method: "getNearbyComps",
+        count: nearby.length,
+        filters: { lat, lng, radiusMiles, months },
+      });
+
+      return nearby;
+    } catch (error) {
+      await logger.error(error, {
+        service: "CompService",
+        method: "getNearbyComps",
+      });
+      throw error;
+    }
+  }
+
+  // Edit a library comp directly and push the change to every deal using it
+  async updateComp(compId, updateData) {
+    try {
+      const comp = await Comp.findById(compId);
+
+      if (!comp) {
+        throw new Error("Comp not found");
+      }
+
+      comp.set(
+        this.toLibraryDocument({ ...this.toCompFields(comp), ...updateData })
+      );
+      await comp.save();
+      const updatedDeals = await this.propagateComp(comp);
+
+      await logger.info("Library comp updated", {
+        service: "CompService",
+        method: "updateComp",
+        compId,
+        updatedFields: Object.keys(updateData),
+        updatedDeals,
+      });
+
+      return { comp, updatedDeals };
+    } catch (error) {
+      await logger.error(error, {
+        service: "CompService",
+        method: "updateComp",
+        compId,
+      });
+      throw error;
+    }
+  }
+
+  // Great-circle distance in miles
+  distanceMiles(lat1, lng1, lat2, lng2) {
+    const toRadians = (degrees) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(lat1)) *
+        Math.cos(toRadians(lat2)) *
+        Math.sin(dLng / 2) ** 2;
+    return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+}
+
+module.exports = new CompService();
@@ -2,6 +2,13 @@
 const Deal = require("../../schemas/deal.model");
 const GlobalAssumptions = require("../../schemas/globalAssumptions.model");
 const logger = require("../../config/logger");
+const analysisService = require("./analysis.service");
+const compService = require("./comp.service");
+
+// Sort keys backed by server-computed metrics (best strategy's year 1)
+const METRIC_SORT_FIELDS = ["monthlyCashFlow", "cashOnCash", "capRate", "dscr"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 class DealService {
   // Get all deals for user with pagination and filtering
@@ -15,6 +22,20 @@ class DealService {
     maxUnits,
     isRehab,
     dealStage, // NEW: Filter by deal stage
+    strategy, // Metric filters/sorts use this strategy, or the best one
+    minCashFlow,
+    minDSCR,
+    minCapRate,
+    maxFundsGap,
+    minArvSpread,
+    zipCode,
+    city,
+    minYearBuilt,
+    maxYearBuilt,
+    minStageAgeDays,
+    maxStageAgeDays,
+    hasComps,
+    hasPhotos,
     sortBy = "createdAt",
     sortOrder = "desc",
   }) {
@@ -55,6 +76,81 @@ class DealService {
         query.dealStage = dealStage;
       }
 
+      // Filter on persisted metrics
+      const metricsPath = strategy
+        ? `metrics.strategies.${strategy}`
+        : "metrics";
+      if (minCashFlow !== undefined) {
+        query[`${metricsPath}.monthlyCashFlow`] = {
+          $gte: parseFloat(minCashFlow),
+        };
+      }
+      if (minDSCR !== undefined) {
+        query[`${metricsPath}.dscr`] = { $gte: parseFloat(minDSCR) };
+      }
+      if (minCapRate !== undefined) {
+        query[`${metricsPath}.capRate`] = { $gte: parseFloat(minCapRate) };
+      }
+      if (maxFundsGap !== undefined) {
+        query["metrics.fundsGap"] = { $lte: parseFloat(maxFundsGap) };
+      }
+      if (minArvSpread !== undefined) {
+        query["metrics.arvSpreadPercent"] = { $gte: parseFloat(minArvSpread) };
+      }
+
+      // Zip and city are parsed out of the address ("123 Main St, City, FL 33311")
+      const addressFilters = [];
+      if (zipCode) {
+        addressFilters.push({ address: { $regex: `\\b${zipCode}\\b` } });
+      }
+      if (city) {
+        addressFilters.push({
+          address: { $regex: `,\\s*${city}\\s*,`, $options: "i" },
+        });
+      }
+      if (addressFilters.length > 0) {
+        query.$and = addressFilters;
+      }
+
+      // Filter by year built
+      if (minYearBuilt || maxYearBuilt) {
+        query.yearBuilt = {};
+        if (minYearBuilt) query.yearBuilt.$gte = parseInt(minYearBuilt);
+        if (maxYearBuilt) query.yearBuilt.$lte = parseInt(maxYearBuilt);
+      }
+
+      // Filter by time in the current stage - deals still in the stage they were
+      // created in have no stageUpdatedAt, so they count from createdAt
+      if (minStageAgeDays !== undefined || maxStageAgeDays !== undefined) {
+        const stageSince = { $ifNull: ["$stageUpdatedAt", "$createdAt"] };
+        const stageAgeBounds = [];
+        if (minStageAgeDays !== undefined) {
+          stageAgeBounds.push({
+            $lte: [
+              stageSince,
+              new Date(Date.now() - parseInt(minStageAgeDays) * DAY_MS),
+            ],
+          });
+        }
+        if (maxStageAgeDays !== undefined) {
+          stageAgeBounds.push({
+            $gte: [
+              stageSince,
+              new Date(Date.now() - parseInt(maxStageAgeDays) * DAY_MS),
+            ],
+          });
+        }
+        query.$expr = { $and: stageAgeBounds };
+      }
+
+      // Filter by attached comps/photos
+      if (hasComps !== undefined) {
+        query["arvComps.0"] = { $exists: String(hasComps) === "true" };
+      }
+      if (hasPhotos !== undefined) {
+        query["photos.0"] = { $exists: String(hasPhotos) === "true" };
+      }
+
       // Sort options - enhanced with stage tracking
       const sortOptions = {};
       if (sortBy === "stageUpdatedAt") {
@@ -65,6 +161,8 @@ class DealService {
         sortOptions.units = sortOrder === "desc" ? -1 : 1;
       } else if (sortBy === "dealStage") {
         sortOptions.dealStage = sortOrder === "desc" ? -1 : 1;
+      } else if (METRIC_SORT_FIELDS.includes(sortBy)) {
+        sortOptions[`${metricsPath}.${sortBy}`] = sortOrder === "desc" ? -1 : 1;
       } else {
         // Default to createdAt
         sortOptions[sortBy] = sortOrder === "desc" ? -1 : 1;
@@ -147,14 +245,28 @@ class DealService {
     }
   }
 
-  // Create new deal - simplified, no auto-calculations
+  // Create new deal - metrics are computed server-side before the first save.
+  // Also returns which of its comps were replaced by newer library copies.
   async createDeal(dealData) {
     try {
+      const { metrics, ...data } = dealData;
       const deal = new Deal({
-        ...dealData,
+        ...data,
         schemaVersion: 3,
       });
 
+      // Validate before the comps reach the library
+      await deal.validate();
+      const { replacedComps } = await compService.syncDealComps(deal);
+      if (replacedComps.length > 0) {
+        analysisService.recomputeCompARV(deal);
+      }
+
+      deal.metrics = analysisService.computeMetrics(
+        deal,
+        await analysisService.getEngineAssumptions()
+      );
+      deal.arvConfidence = analysisService.computeARVConfidence(deal);
       await deal.save();
 
       await logger.info("Deal created successfully", {
@@ -162,9 +274,10 @@ class DealService {
         method: "createDeal",
         dealId: deal._id,
         address: deal.address,
+        replacedCount: replacedComps.length,
       });
 
-      return deal;
+      return { deal, replacedComps };
     } catch (error) {
       await logger.error(error, {
         service: "DealService",
@@ -174,7 +287,9 @@ class DealService {
     }
   }
 
-  // Update deal - simplified, no recalculations
+  // Update deal, then recompute its metrics from the saved document. Also
+  // returns how many other deals received this deal's comp edits and which of
+  // its comps were replaced by newer library copies.
   async updateDeal(dealId, updateData) {
     try {
       const existingDeal = await Deal.findOne({
@@ -186,20 +301,45 @@ class DealService {
         throw new Error("Deal not found");
       }
 
+      const { metrics, arvConfidence, ...data } = updateData;
       const deal = await Deal.findOneAndUpdate(
         { _id: dealId, isActive: true },
-        { ...updateData, updatedAt: new Date() },
+        { ...data, updatedAt: new Date() },
         { new: true, runValidators: true }
       );
 
+      // Before the computed fields - stale comp copies are refreshed here
+      const { updatedDeals, replacedComps } = data.arvComps
+        ? await compService.syncDealComps(deal)
+        : { updatedDeals: 0, replacedComps: [] };
+      if (replacedComps.length > 0) {
+        analysisService.recomputeCompARV(deal);
+      }
+
+      deal.metrics = analysisService.computeMetrics(
+        deal,
+        await analysisService.getEngineAssumptions()
+      );
+      deal.arvConfidence = analysisService.computeARVConfidence(deal);
+      const computedFieldsUpdate = analysisService.toComputedFieldsUpdate(deal);
+      if (replacedComps.length > 0) {
+        Object.assign(computedFieldsUpdate.$set, {
+          calculatedARV: deal.calculatedARV,
+          afterRepairValue: deal.afterRepairValue,
+        });
+      }
+      await Deal.updateOne({ _id: dealId }, computedFieldsUpdate);
+
       await logger.info("Deal updated successfully", {
         service: "DealService",
         method: "updateDeal",
         dealId,
         updatedFields: Object.keys(updateData),
+        updatedDeals,
+        replacedCount: replacedComps.length,
       });
 
-      return deal;
+      return { deal, updatedDeals, replacedComps };
     } catch (error) {
       await logger.error(error, {
         service: "DealService",
@@ -237,15 +377,16 @@ class DealService {
     }
   }
 
-  // Bulk create deals - simplified, no processing
+  // Bulk create deals, then compute their metrics in one batch
   async bulkCreateDeals(dealsData) {
     try {
-      const dealsWithUser = dealsData.map((dealData) => ({
+      const dealsWithUser = dealsData.map(({ metrics, ...dealData }) => ({
         ...dealData,
         schemaVersion: 3,
       }));
 
       const result = await Deal.insertMany(dealsWithUser);
+      await analysisService.analyzeDeals(result.map((deal) => deal._id));
 
       await logger.info("Bulk deals created successfully", {
         service: "DealService",
@@ -290,6 +431,7 @@ class DealService {
   async getDealStatistics() {
     try {
       const deals = await Deal.find({ isActive: true });
+      const analyzed = deals.filter((deal) => deal.metrics);
 
       const stats = {
         totalDeals: deals.length,
@@ -308,6 +450,17 @@ class DealService {
           deals.length > 0
             ? deals.reduce((sum, deal) => sum + deal.units, 0) / deals.length
             : 0,
+        analyzedDeals: analyzed.length,
+        cashFlowPositiveDeals: analyzed.filter(
+          (deal) => deal.metrics.monthlyCashFlow > 0
+        ).length,
+        avgMonthlyCashFlow:
+          analyzed.length > 0
+            ? analyzed.reduce(
+                (sum, deal) => sum + deal.metrics.monthlyCashFlow,
+                0
+              ) / analyzed.length
+            : 0,
       };
 
       return stats;
@@ -325,11 +478,17 @@ class DealService {
     return {
       ltrVacancyMonths: 1,
       section8VacancyMonths: 0.5,
+      mtrPlatformFeePercent: 5,
+      mtrFurnishingLifeYears: 5,
+      turnoverVacancyMonths: 1,
+      strPlatformFeePercent: 3,
+      strLodgingTaxPercent: 12,
       maintenancePercent: 5,
       rentGrowthPercent: 3,
       appreciationPercent: 3,
       propertyTaxIncreasePercent: 3,
       insuranceIncreasePercent: 5,
+      discountRatePercent: 8,
       section8ZipData: [],
     };
   }
@@ -428,6 +587,7 @@ class DealService {
       console.log("About to insert deals count:", dealsWithStaging.length);
 
       const result = await Deal.insertMany(dealsWithStaging);
+      await analysisService.analyzeDeals(result.map((deal) => deal._id));
 
       console.log("Actual inserted deals count:", result.length);
       console.log(
@@ -79,11 +79,18 @@ class GlobalAssumptionsService {
       const defaultAssumptions = new GlobalAssumptions({
         ltrVacancyMonths: 1,
         section8VacancyMonths: 0.5,
+        mtrPlatformFeePercent: 5,
+        mtrFurnishingLifeYears: 5,
+        turnoverVacancyMonths: 1,
+        strPlatformFeePercent: 3,
+        strLodgingTaxPercent: 12,
         maintenancePercent: 5,
         rentGrowthPercent: 3,
         appreciationPercent: 3,
         propertyTaxIncreasePercent: 3,
         insuranceIncreasePercent: 5,
+        discountRatePercent: 8,
+        operatingExpenses: this.getDefaultOperatingExpenses(),
         section8ZipData: this.getDefaultSection8Data(),
         isActive: true,
       });
@@ -361,6 +368,52 @@ class GlobalAssumptionsService {
       );
     }
 
+    // Expense lines can't be negative; percentage lines are capped like maintenance
+    if (Array.isArray(validated.operatingExpenses)) {
+      validated.operatingExpenses = validated.operatingExpenses.map((line) => {
+        const amount = Math.max(0, Number(line.amount) || 0);
+        return {
+          ...line,
+          amount:
+            line.basis === "percentOfIncome" ? Math.min(50, amount) : amount,
+          growthPercent: Number(line.growthPercent) || 0,
+        };
+      });
+    }
+
+    // Thresholds can't be negative - drop them rather than guess; zips are trimmed
+    if (Array.isArray(validated.criteriaProfiles)) {
+      const thresholds = [
+        "minCapRate",
+        "minDscr",
+        "minCashOnCash",
+        "maxCashLeftInDeal",
+        "maxPricePerUnit",
+      ];
+      validated.criteriaProfiles = validated.criteriaProfiles.map((profile) => {
+        const normalized = { ...profile, name: String(profile.name).trim() };
+        thresholds.forEach((field) => {
+          const value = Number(normalized[field]);
+          if (
+            normalized[field] === undefined ||
+            normalized[field] === null ||
+            !isFinite(value) ||
+            value < 0
+          ) {
+            delete normalized[field];
+          } else {
+            normalized[field] = value;
+          }
+        });
+        if (Array.isArray(normalized.allowedZips)) {
+          normalized.allowedZips = normalized.allowedZips
+            .map((zip) => String(zip).trim())
+            .filter(Boolean);
+        }
+        return normalized;
+      });
+    }
+
     if (validated.rentGrowthPercent !== undefined) {
       validated.rentGrowthPercent = Math.max(
         -10,
@@ -423,6 +476,39 @@ class GlobalAssumptionsService {
     };
   }
 
+  // Get default itemized operating expenses
+  getDefaultOperatingExpenses() {
+    return [
+      {
+        key: "management",
+        basis: "percentOfIncome",
+        amount: 0,
+        growthPercent: 0,
+      },
+      {
+        key: "maintenance",
+        basis: "percentOfIncome",
+        amount: 5,
+        growthPercent: 0,
+      },
+      {
+        key: "capexReserve",
+        basis: "percentOfIncome",
+        amount: 0,
+        growthPercent: 0,
+      },
+      {
+        key: "utilities",
+        basis: "perUnitMonthly",
+        amount: 0,
+        growthPercent: 3,
+      },
+      { key: "hoa", basis: "annual", amount: 0, growthPercent: 3 },
+      { key: "lawnPest", basis: "annual", amount: 0, growthPercent: 3 },
+      { key: "turnover", basis: "annual", amount: 0, growthPercent: 3 },
+    ];
+  }
+
   // Get default Section 8 data
   getDefaultSection8Data() {
     return [
@@ -145,7 +145,9 @@ class PipelineStatsService {
           d.dealStage
         )
       ).length,
-      archived: deals.filter((d) => d.dealStage === "archived").length,
+      archived: deals.filter((d) =>
+        ["stage7-closed", "archived"].includes(d.dealStage)
+      ).length,
     };
   }
 
@@ -0,0 +1,74 @@
+// backend_service/validators/comp.validators.js
+const { body, param, query } = require("express-validator");
+const { handleValidationErrors } = require("./deal.validators");
+
+// Nearby library comps for a subject property
+const getNearbyCompsValidation = [
+  query("lat")
+    .isFloat({ min: -90, max: 90 })
+    .withMessage("lat must be a valid latitude")
+    .toFloat(),
+  query("lng")
+    .isFloat({ min: -180, max: 180 })
+    .withMessage("lng must be a valid longitude")
+    .toFloat(),
+  query("radiusMiles")
+    .optional()
+    .isFloat({ min: 0.1, max: 10 })
+    .withMessage("radiusMiles must be between 0.1 and 10")
+    .toFloat(),
+  query("months")
+    .optional()
+    .isInt({ min: 1, max: 36 })
+    .withMessage("months must be between 1 and 36")
+    .toInt(),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("limit must be between 1 and 100")
+    .toInt(),
+  handleValidationErrors,
+];
+
+// Edit a library comp (pushed to every deal using it)
+const updateCompValidation = [
+  param("id").isMongoId().withMessage("Invalid comp id format"),
+  body("address")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Address cannot be empty"),
+  body("soldPrice")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Sold price must be a positive number"),
+  body("soldDate")
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage("Sold date cannot be empty"),
+  body(["beds", "baths", "sqft", "yearBuilt", "lotSize", "parkingSpaces"])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Comp details must be non-negative numbers"),
+  body("hasPool")
+    .optional()
+    .isBoolean()
+    .withMessage("hasPool must be a boolean"),
+  body("lat")
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage("lat must be a valid latitude"),
+  body("lng")
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage("lng must be a valid longitude"),
+  body("photos").optional().isArray().withMessage("Photos must be an array"),
+  handleValidationErrors,
+];
+
+module.exports = {
+  getNearbyCompsValidation,
+  updateCompValidation,
+};
@@ -85,6 +85,70 @@ const getDealsValidation = [
     .withMessage("isRehab must be a boolean")
     .toBoolean(),
 
+  query("strategy")
+    .optional()
+    .isIn(["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"])
+    .withMessage("Invalid strategy"),
+
+  query("minCashFlow")
+    .optional()
+    .isFloat()
+    .withMessage("Minimum cash flow must be a number")
+    .toFloat(),
+
+  query("minDSCR")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Minimum DSCR must be a positive number")
+    .toFloat(),
+
+  query("minCapRate")
+    .optional()
+    .isFloat()
+    .withMessage("Minimum cap rate must be a number")
+    .toFloat(),
+
+  query("maxFundsGap")
+    .optional()
+    .isFloat()
+    .withMessage("Maximum funds gap must be a number")
+    .toFloat(),
+
+  query("minArvSpread")
+    .optional()
+    .isFloat({ min: -100, max: 100 })
+    .withMessage("Minimum ARV spread must be between -100 and 100")
+    .toFloat(),
+
+  query("zipCode")
+    .optional()
+    .matches(/^\d{5}$/)
+    .withMessage("Zip code must be 5 digits"),
+
+  query("city")
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z][A-Za-z .'-]{0,49}$/)
+    .withMessage("Invalid city name"),
+
+  query(["minYearBuilt", "maxYearBuilt"])
+    .optional()
+    .isInt({ min: 1700, max: 2100 })
+    .withMessage("Year built must be between 1700 and 2100")
+    .toInt(),
+
+  query(["minStageAgeDays", "maxStageAgeDays"])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Stage age must be a non-negative number of days")
+    .toInt(),
+
+  query(["hasComps", "hasPhotos"])
+    .optional()
+    .isBoolean()
+    .withMessage("hasComps and hasPhotos must be booleans")
+    .toBoolean(),
+
   query("sortBy")
     .optional()
     .isString()
@@ -97,6 +161,10 @@ const getDealsValidation = [
       "units",
       "address",
       "yearBuilt",
+      "monthlyCashFlow",
+      "cashOnCash",
+      "capRate",
+      "dscr",
     ])
     .withMessage("Invalid sort field"),
 
@@ -129,6 +197,14 @@ const createDealValidation = [
   body("yearBuilt")
     .isInt({ min: 1800, max: new Date().getFullYear() })
     .withMessage("Invalid year built"),
+  body("lotSize")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Lot size must be a positive number"),
+  body("parkingSpaces")
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage("Parking spaces must be between 0 and 20"),
   body("purchasePrice")
     .isFloat({ min: 0 })
     .withMessage("Purchase price must be a positive number"),
@@ -138,6 +214,127 @@ const createDealValidation = [
   body("loanTerm")
     .isInt({ min: 1, max: 50 })
     .withMessage("Loan term must be between 1 and 50 years"),
+  body("loanStructure.type")
+    .optional()
+    .isIn(["fixed", "interest-only", "arm", "balloon", "seller"])
+    .withMessage("Invalid loan structure type"),
+  body("loanStructure.interestOnlyYears")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Interest-only period must be between 0 and 50 years"),
+  body("loanStructure.balloonYears")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Balloon must be between 0 and 50 years"),
+  body("refinanceEvents")
+    .optional()
+    .isArray()
+    .withMessage("Refinance events must be an array"),
+  body("refinanceEvents.*.year")
+    .isInt({ min: 1, max: 30 })
+    .withMessage("Refinance year must be between 1 and 30"),
+  body("refinanceEvents.*.type")
+    .optional()
+    .isIn(["cashOut", "rateTerm"])
+    .withMessage("Invalid refinance type"),
+  body("refinanceEvents.*.ltvPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Refinance LTV must be between 0 and 100"),
+  body("refinanceEvents.*.interestRate")
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("Refinance rate must be between 0 and 30"),
+  body("scenarios")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Scenarios must be an array of at most 20 scenarios"),
+  body("scenarios.*.id")
+    .isString()
+    .notEmpty()
+    .withMessage("Scenario id is required"),
+  body("scenarios.*.name")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Scenario name is required"),
+  body("scenarios.*.overrides")
+    .optional()
+    .isObject()
+    .withMessage("Scenario overrides must be an object"),
+  body("arvAdjustmentOverrides")
+    .optional()
+    .isObject()
+    .withMessage("ARV adjustment overrides must be an object"),
+  body("arvConfidence")
+    .optional()
+    .isObject()
+    .withMessage("ARV confidence must be an object"),
+  body("arvConfidence.level")
+    .optional()
+    .isIn(["High", "Medium", "Low"])
+    .withMessage("Invalid ARV confidence level"),
+  body("rentComps")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Rent comps must be an array of at most 50 comps"),
+  body("rentComps.*.monthlyRent")
+    .isFloat({ min: 0 })
+    .withMessage("Rent comp monthly rent must be a positive number"),
+  body("rentComps.*.condition")
+    .optional()
+    .isIn(["dated", "average", "renovated"])
+    .withMessage("Invalid rent comp condition"),
+  body("portfolioStrategy")
+    .optional()
+    .isIn(["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"])
+    .withMessage("Invalid portfolio strategy"),
+  body("flipHoldingMonths")
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage("Flip holding period must be between 1 and 60 months"),
+  body("flipDrawSchedule")
+    .optional()
+    .isArray({ max: 60 })
+    .withMessage("Flip draw schedule must be an array of monthly percentages"),
+  body("flipDrawSchedule.*")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Each flip draw must be between 0 and 100 percent"),
+  body("flipDrawPointsPercent")
+    .optional()
+    .isFloat({ min: 0, max: 10 })
+    .withMessage("Flip draw points must be between 0 and 10"),
+  body("flipStagingCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Flip staging cost must be a positive number"),
+  body("houseHackLoanProgram")
+    .optional()
+    .isIn(["fha", "conventional"])
+    .withMessage("House hack loan program must be fha or conventional"),
+  body("houseHackOwnerUnit")
+    .optional()
+    .isInt({ min: 0, max: 3 })
+    .withMessage("House hack owner unit must be one of the first four units"),
+  body("houseHackInterestRate")
+    .optional()
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("House hack interest rate must be between 0 and 30"),
+  body("houseHackMortgageInsurancePercent")
+    .optional()
+    .isFloat({ min: 0, max: 5 })
+    .withMessage("House hack mortgage insurance must be between 0 and 5"),
+  body("operatingExpenses")
+    .optional()
+    .isArray()
+    .withMessage("Operating expenses must be an array"),
+  body("operatingExpenses.*.basis")
+    .optional()
+    .isIn(["percentOfIncome", "annual", "perUnitMonthly"])
+    .withMessage("Invalid operating expense basis"),
+  body("operatingExpenses.*.amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Operating expense amounts must be non-negative"),
   body("downPayment")
     .isFloat({ min: 0, max: 100 })
     .withMessage("Down payment must be between 0 and 100"),
@@ -192,6 +389,68 @@ const createDealValidation = [
     .optional()
     .isFloat({ min: 0 })
     .withMessage("STR annual expenses must be a positive number"),
+  body("unitDetails.*.strMonthlyADR")
+    .optional()
+    .isArray({ min: 12, max: 12 })
+    .withMessage("STR monthly ADR must have 12 values"),
+  body("unitDetails.*.strMonthlyADR.*")
+    .isFloat({ min: 0 })
+    .withMessage("STR monthly ADR values must be positive numbers"),
+  body("unitDetails.*.strMonthlyOccupancy")
+    .optional()
+    .isArray({ min: 12, max: 12 })
+    .withMessage("STR monthly occupancy must have 12 values"),
+  body("unitDetails.*.strMonthlyOccupancy.*")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("STR monthly occupancy values must be between 0 and 100"),
+  body("unitDetails.*.strCleaningFee")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("STR cleaning fee must be a positive number"),
+  body("unitDetails.*.strCleaningCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("STR cleaning cost must be a positive number"),
+  body("unitDetails.*.strAverageStayNights")
+    .optional()
+    .isFloat({ min: 1 })
+    .withMessage("STR average stay must be at least 1 night"),
+  body("unitDetails.*.mtrMonthlyRent")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR monthly rent must be a positive number"),
+  body("unitDetails.*.mtrOccupancyPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("MTR occupancy must be between 0 and 100"),
+  body("unitDetails.*.mtrMonthlyUtilities")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR monthly utilities must be a positive number"),
+  body("unitDetails.*.mtrFurnishingCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR furnishing cost must be a positive number"),
+  body("unitDetails.*.currentRent")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Current rent must be a positive number"),
+  body("unitDetails.*.leaseEndDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Lease end date must be a valid ISO 8601 date"),
+  body("unitDetails.*.securityDeposit")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Security deposit must be a positive number"),
+  body("unitDetails.*.tenantType")
+    .optional()
+    .isIn(["market", "section8"])
+    .withMessage("Tenant type must be market or section8"),
+  body("unitDetails.*.markToMarketPlan")
+    .optional()
+    .isIn(["turnover", "renew", "keep"])
+    .withMessage("Mark-to-market plan must be turnover, renew or keep"),
   handleValidationErrors,
 ];
 
@@ -211,6 +470,14 @@ const updateDealValidation = [
     .optional()
     .isFloat({ min: 0 })
     .withMessage("Total square footage must be a positive number"),
+  body("lotSize")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Lot size must be a positive number"),
+  body("parkingSpaces")
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage("Parking spaces must be between 0 and 20"),
   body("purchasePrice")
     .optional()
     .isFloat({ min: 0 })
@@ -223,6 +490,127 @@ const updateDealValidation = [
     .optional()
     .isInt({ min: 1, max: 50 })
     .withMessage("Loan term must be between 1 and 50 years"),
+  body("loanStructure.type")
+    .optional()
+    .isIn(["fixed", "interest-only", "arm", "balloon", "seller"])
+    .withMessage("Invalid loan structure type"),
+  body("loanStructure.interestOnlyYears")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Interest-only period must be between 0 and 50 years"),
+  body("loanStructure.balloonYears")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Balloon must be between 0 and 50 years"),
+  body("refinanceEvents")
+    .optional()
+    .isArray()
+    .withMessage("Refinance events must be an array"),
+  body("refinanceEvents.*.year")
+    .isInt({ min: 1, max: 30 })
+    .withMessage("Refinance year must be between 1 and 30"),
+  body("refinanceEvents.*.type")
+    .optional()
+    .isIn(["cashOut", "rateTerm"])
+    .withMessage("Invalid refinance type"),
+  body("refinanceEvents.*.ltvPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Refinance LTV must be between 0 and 100"),
+  body("refinanceEvents.*.interestRate")
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("Refinance rate must be between 0 and 30"),
+  body("scenarios")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Scenarios must be an array of at most 20 scenarios"),
+  body("scenarios.*.id")
+    .isString()
+    .notEmpty()
+    .withMessage("Scenario id is required"),
+  body("scenarios.*.name")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Scenario name is required"),
+  body("scenarios.*.overrides")
+    .optional()
+    .isObject()
+    .withMessage("Scenario overrides must be an object"),
+  body("arvAdjustmentOverrides")
+    .optional()
+    .isObject()
+    .withMessage("ARV adjustment overrides must be an object"),
+  body("arvConfidence")
+    .optional()
+    .isObject()
+    .withMessage("ARV confidence must be an object"),
+  body("arvConfidence.level")
+    .optional()
+    .isIn(["High", "Medium", "Low"])
+    .withMessage("Invalid ARV confidence level"),
+  body("rentComps")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Rent comps must be an array of at most 50 comps"),
+  body("rentComps.*.monthlyRent")
+    .isFloat({ min: 0 })
+    .withMessage("Rent comp monthly rent must be a positive number"),
+  body("rentComps.*.condition")
+    .optional()
+    .isIn(["dated", "average", "renovated"])
+    .withMessage("Invalid rent comp condition"),
+  body("portfolioStrategy")
+    .optional()
+    .isIn(["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"])
+    .withMessage("Invalid portfolio strategy"),
+  body("flipHoldingMonths")
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage("Flip holding period must be between 1 and 60 months"),
+  body("flipDrawSchedule")
+    .optional()
+    .isArray({ max: 60 })
+    .withMessage("Flip draw schedule must be an array of monthly percentages"),
+  body("flipDrawSchedule.*")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Each flip draw must be between 0 and 100 percent"),
+  body("flipDrawPointsPercent")
+    .optional()
+    .isFloat({ min: 0, max: 10 })
+    .withMessage("Flip draw points must be between 0 and 10"),
+  body("flipStagingCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Flip staging cost must be a positive number"),
+  body("houseHackLoanProgram")
+    .optional()
+    .isIn(["fha", "conventional"])
+    .withMessage("House hack loan program must be fha or conventional"),
+  body("houseHackOwnerUnit")
+    .optional()
+    .isInt({ min: 0, max: 3 })
+    .withMessage("House hack owner unit must be one of the first four units"),
+  body("houseHackInterestRate")
+    .optional()
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("House hack interest rate must be between 0 and 30"),
+  body("houseHackMortgageInsurancePercent")
+    .optional()
+    .isFloat({ min: 0, max: 5 })
+    .withMessage("House hack mortgage insurance must be between 0 and 5"),
+  body("operatingExpenses")
+    .optional()
+    .isArray()
+    .withMessage("Operating expenses must be an array"),
+  body("operatingExpenses.*.basis")
+    .optional()
+    .isIn(["percentOfIncome", "annual", "perUnitMonthly"])
+    .withMessage("Invalid operating expense basis"),
+  body("operatingExpenses.*.amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Operating expense amounts must be non-negative"),
   body("downPayment")
     .optional()
     .isFloat({ min: 0, max: 100 })
@@ -275,6 +663,68 @@ const updateDealValidation = [
     .optional()
     .isFloat({ min: 0 })
     .withMessage("After rehab market rent must be a positive number"),
+  body("unitDetails.*.strMonthlyADR")
+    .optional()
+    .isArray({ min: 12, max: 12 })
+    .withMessage("STR monthly ADR must have 12 values"),
+  body("unitDetails.*.strMonthlyADR.*")
+    .isFloat({ min: 0 })
+    .withMessage("STR monthly ADR values must be positive numbers"),
+  body("unitDetails.*.strMonthlyOccupancy")
+    .optional()
+    .isArray({ min: 12, max: 12 })
+    .withMessage("STR monthly occupancy must have 12 values"),
+  body("unitDetails.*.strMonthlyOccupancy.*")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("STR monthly occupancy values must be between 0 and 100"),
+  body("unitDetails.*.strCleaningFee")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("STR cleaning fee must be a positive number"),
+  body("unitDetails.*.strCleaningCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("STR cleaning cost must be a positive number"),
+  body("unitDetails.*.strAverageStayNights")
+    .optional()
+    .isFloat({ min: 1 })
+    .withMessage("STR average stay must be at least 1 night"),
+  body("unitDetails.*.mtrMonthlyRent")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR monthly rent must be a positive number"),
+  body("unitDetails.*.mtrOccupancyPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("MTR occupancy must be between 0 and 100"),
+  body("unitDetails.*.mtrMonthlyUtilities")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR monthly utilities must be a positive number"),
+  body("unitDetails.*.mtrFurnishingCost")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("MTR furnishing cost must be a positive number"),
+  body("unitDetails.*.currentRent")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Current rent must be a positive number"),
+  body("unitDetails.*.leaseEndDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Lease end date must be a valid ISO 8601 date"),
+  body("unitDetails.*.securityDeposit")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Security deposit must be a positive number"),
+  body("unitDetails.*.tenantType")
+    .optional()
+    .isIn(["market", "section8"])
+    .withMessage("Tenant type must be market or section8"),
+  body("unitDetails.*.markToMarketPlan")
+    .optional()
+    .isIn(["turnover", "renew", "keep"])
+    .withMessage("Mark-to-market plan must be turnover, renew or keep"),
   handleValidationErrors,
 ];
 
@@ -299,6 +749,16 @@ const bulkCreateDealsValidation = [
   handleValidationErrors,
 ];
 
+// Batch analysis validation - no ids re-analyzes every active deal
+const batchAnalysisValidation = [
+  body("dealIds")
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage("dealIds must be an array with at most 100 items"),
+  body("dealIds.*").isMongoId().withMessage("Invalid deal ID format"),
+  handleValidationErrors,
+];
+
 // Get Section 8 rent validation
 const getSection8RentValidation = [
   query("zipCode")
@@ -328,10 +788,80 @@ const updateAssumptionsValidation = [
     .optional()
     .isFloat({ min: 0, max: 12 })
     .withMessage("Section 8 vacancy months must be between 0 and 12"),
+  body("mtrPlatformFeePercent")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("MTR platform fee must be between 0 and 50"),
+  body("mtrFurnishingLifeYears")
+    .optional()
+    .isFloat({ min: 1, max: 20 })
+    .withMessage("MTR furnishing life must be between 1 and 20 years"),
+  body("turnoverVacancyMonths")
+    .optional()
+    .isFloat({ min: 0, max: 12 })
+    .withMessage("Turnover vacancy months must be between 0 and 12"),
+  body("strPlatformFeePercent")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("STR platform fee must be between 0 and 50"),
+  body("strLodgingTaxPercent")
+    .optional()
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("STR lodging tax must be between 0 and 30"),
   body("maintenancePercent")
     .optional()
     .isFloat({ min: 0, max: 100 })
     .withMessage("Maintenance percent must be between 0 and 100"),
+  body("operatingExpenses")
+    .optional()
+    .isArray()
+    .withMessage("Operating expenses must be an array"),
+  body("operatingExpenses.*.basis")
+    .optional()
+    .isIn(["percentOfIncome", "annual", "perUnitMonthly"])
+    .withMessage("Invalid operating expense basis"),
+  body("operatingExpenses.*.amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Operating expense amounts must be non-negative"),
+  body("criteriaProfiles")
+    .optional()
+    .isArray()
+    .withMessage("Criteria profiles must be an array"),
+  body("criteriaProfiles.*.name")
+    .trim()
+    .notEmpty()
+    .withMessage("Criteria profile name is required"),
+  body("criteriaProfiles.*.strategy")
+    .isIn(["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"])
+    .withMessage("Invalid criteria profile strategy"),
+  body("criteriaProfiles.*.allowedZips")
+    .optional()
+    .isArray()
+    .withMessage("Allowed zip codes must be an array"),
+  body("taxSettings")
+    .optional()
+    .isObject()
+    .withMessage("Tax settings must be an object"),
+  body([
+    "taxSettings.landValuePercent",
+    "taxSettings.ordinaryIncomeRatePercent",
+    "taxSettings.capitalGainsRatePercent",
+    "taxSettings.recaptureRatePercent",
+    "taxSettings.costSegregationPercent",
+    "taxSettings.bonusDepreciationPercent",
+  ])
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tax percentages must be between 0 and 100"),
+  body("taxSettings.passiveLossAllowance")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Passive loss allowance must be non-negative"),
+  body("taxSettings.realEstateProfessional")
+    .optional()
+    .isBoolean()
+    .withMessage("Real estate professional must be true or false"),
   body("rentGrowthPercent")
     .optional()
     .isFloat({ min: -100, max: 100 })
@@ -348,6 +878,10 @@ const updateAssumptionsValidation = [
     .optional()
     .isFloat({ min: -100, max: 100 })
     .withMessage("Insurance increase percent must be between -100 and 100"),
+  body("discountRatePercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Discount rate percent must be between 0 and 100"),
   body("section8ZipData")
     .optional()
     .isArray()
@@ -481,10 +1015,80 @@ const importAssumptionsValidation = [
     .optional()
     .isFloat({ min: 0, max: 12 })
     .withMessage("Section 8 vacancy months must be between 0 and 12"),
+  body("mtrPlatformFeePercent")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("MTR platform fee must be between 0 and 50"),
+  body("mtrFurnishingLifeYears")
+    .optional()
+    .isFloat({ min: 1, max: 20 })
+    .withMessage("MTR furnishing life must be between 1 and 20 years"),
+  body("turnoverVacancyMonths")
+    .optional()
+    .isFloat({ min: 0, max: 12 })
+    .withMessage("Turnover vacancy months must be between 0 and 12"),
+  body("strPlatformFeePercent")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("STR platform fee must be between 0 and 50"),
+  body("strLodgingTaxPercent")
+    .optional()
+    .isFloat({ min: 0, max: 30 })
+    .withMessage("STR lodging tax must be between 0 and 30"),
   body("maintenancePercent")
     .optional()
     .isFloat({ min: 0, max: 100 })
     .withMessage("Maintenance percent must be between 0 and 100"),
+  body("operatingExpenses")
+    .optional()
+    .isArray()
+    .withMessage("Operating expenses must be an array"),
+  body("operatingExpenses.*.basis")
+    .optional()
+    .isIn(["percentOfIncome", "annual", "perUnitMonthly"])
+    .withMessage("Invalid operating expense basis"),
+  body("operatingExpenses.*.amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Operating expense amounts must be non-negative"),
+  body("criteriaProfiles")
+    .optional()
+    .isArray()
+    .withMessage("Criteria profiles must be an array"),
+  body("criteriaProfiles.*.name")
+    .trim()
+    .notEmpty()
+    .withMessage("Criteria profile name is required"),
+  body("criteriaProfiles.*.strategy")
+    .isIn(["ltr", "houseHack", "section8", "airbnb", "mtr", "rehab"])
+    .withMessage("Invalid criteria profile strategy"),
+  body("criteriaProfiles.*.allowedZips")
+    .optional()
+    .isArray()
+    .withMessage("Allowed zip codes must be an array"),
+  body("taxSettings")
+    .optional()
+    .isObject()
+    .withMessage("Tax settings must be an object"),
+  body([
+    "taxSettings.landValuePercent",
+    "taxSettings.ordinaryIncomeRatePercent",
+    "taxSettings.capitalGainsRatePercent",
+    "taxSettings.recaptureRatePercent",
+    "taxSettings.costSegregationPercent",
+    "taxSettings.bonusDepreciationPercent",
+  ])
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tax percentages must be between 0 and 100"),
+  body("taxSettings.passiveLossAllowance")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Passive loss allowance must be non-negative"),
+  body("taxSettings.realEstateProfessional")
+    .optional()
+    .isBoolean()
+    .withMessage("Real estate professional must be true or false"),
   body("rentGrowthPercent")
     .optional()
     .isFloat({ min: -100, max: 100 })
@@ -501,6 +1105,10 @@ const importAssumptionsValidation = [
     .optional()
     .isFloat({ min: -100, max: 100 })
     .withMessage("Insurance increase percent must be between -100 and 100"),
+  body("discountRatePercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Discount rate percent must be between 0 and 100"),
   body("section8ZipData")
     .optional()
     .isArray()
@@ -515,6 +1123,7 @@ module.exports = {
   createDealValidation,
   updateDealValidation,
   bulkCreateDealsValidation,
+  batchAnalysisValidation,
 
   getSection8RentValidation,
   updateAssumptionsValidation,
@@ -2,7 +2,7 @@
 import { useState, useEffect } from "react";
 import { UnifiedDashboard } from "./components/UnifiedDashboard";
 import { AssumptionsModal } from "./components/AssumptionsModal";
-import { GlobalAssumptions } from "./types/deal";
+import { GlobalAssumptions } from "@calc/types";
 import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner";
 import {
@@ -77,11 +77,17 @@ export default function App() {
   const getDefaultAssumptions = (): GlobalAssumptions => ({
     ltrVacancyMonths: 1.0,
     section8VacancyMonths: 0.5,
+    mtrPlatformFeePercent: 5,
+    mtrFurnishingLifeYears: 5,
+    turnoverVacancyMonths: 1,
+    strPlatformFeePercent: 3,
+    strLodgingTaxPercent: 12,
     maintenancePercent: 5,
     rentGrowthPercent: 3,
     appreciationPercent: 3,
     propertyTaxIncreasePercent: 3,
     insuranceIncreasePercent: 5,
+    discountRatePercent: 8,
     section8ZipData: [],
   });
 
@@ -0,0 +1,499 @@
+// Appraiser-style adjustment grid - every adjustment per comp, with editable rates
+// and per-cell overrides that feed the weighted ARV
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { RotateCcw, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ARVAdjustmentFactor,
+  ARVAdjustmentOverrides,
+  ARVAdjustmentRates,
+} from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  ARV_ADJUSTMENT_FACTORS,
+  ARV_ADJUSTMENT_LABELS,
+  DEFAULT_ARV_ADJUSTMENT_RATES,
+  PropertyData,
+  calculateWeightedARV,
+} from "@calc/arvCalculator";
+import {
+  CompRegressionResult,
+  MIN_REGRESSION_R_SQUARED,
+  MIN_REGRESSION_SAMPLE,
+  REGRESSION_FEATURE_LABELS,
+  estimateMarketRates,
+  poolRegressionComps,
+} from "../utils/compRegression";
+import { dashboardService } from "../services/dashboard.service";
+import { LibraryComp } from "../types/service";
+
+export type AdjustmentGridComp = PropertyData & {
+  id: string;
+  address: string;
+  libraryId?: string;
+};
+
+interface ARVAdjustmentGridProps {
+  comps: AdjustmentGridComp[];
+  subject: PropertyData;
+  subjectLat?: number; // Needed to pool nearby library comps into the regression
+  subjectLng?: number;
+  overrides: ARVAdjustmentOverrides;
+  onOverridesChange?: (overrides: ARVAdjustmentOverrides) => void; // Read-only when unset
+}
+
+const RATE_FIELDS: {
+  key: keyof ARVAdjustmentRates;
+  label: string;
+  step: string;
+}[] = [
+  { key: "sqftPercent", label: "Living Area (% of $/sqft)", step: "5" },
+  { key: "perBedPercent", label: "Per Bedroom (%)", step: "0.5" },
+  { key: "perBathPercent", label: "Per Bathroom (%)", step: "0.5" },
+  { key: "perYearAgePercent", label: "Per Year of Age (%)", step: "0.1" },
+  { key: "hurricaneCodePercent", label: "Post-2001 Code (%)", step: "0.5" },
+  { key: "lotPerSqft", label: "Lot ($/sqft)", step: "1" },
+  { key: "poolPercent", label: "Pool (%)", step: "0.5" },
+  { key: "perParkingSpace", label: "Per Parking Space ($)", step: "500" },
+  { key: "propertyTypePercent", label: "Condo vs House (%)", step: "1" },
+  {
+    key: "annualAppreciationPercent",
+    label: "Appreciation (%/yr)",
+    step: "0.5",
+  },
+];
+
+const EDITED_CLASS = "bg-yellow-50 border-yellow-400";
+
+// Regression sample: this deal's comps, or pooled with library comps this close
+const POOL_RADIUS_OPTIONS = [0.5, 1, 2, 3];
+const POOL_MONTHS = 12;
+const POOL_LIMIT = 100;
+const DEAL_COMPS_ONLY = "deal";
+
+// Drop empty rate and cell maps so a fully reset grid saves as {}
+function compactOverrides(
+  overrides: ARVAdjustmentOverrides
+): ARVAdjustmentOverrides {
+  const compacted: ARVAdjustmentOverrides = {};
+  if (overrides.rates && Object.keys(overrides.rates).length > 0) {
+    compacted.rates = overrides.rates;
+  }
+  const cells = Object.fromEntries(
+    Object.entries(overrides.cells ?? {}).filter(
+      ([, compCells]) => Object.keys(compCells).length > 0
+    )
+  );
+  if (Object.keys(cells).length > 0) {
+    compacted.cells = cells;
+  }
+  return compacted;
+}
+
+// Paired-sales regression over the comps, offered once the fit is trustworthy
+function MarketRatesPanel({
+  regression,
+  sampleLabel,
+  onApply,
+}: {
+  regression: CompRegressionResult | null;
+  sampleLabel: string;
+  onApply?: () => void;
+}) {
+  if (!regression || !regression.isReliable) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Market-derived rates need at least {MIN_REGRESSION_SAMPLE} comps with
+        sqft, beds and baths and a fit of R² ≥ {MIN_REGRESSION_R_SQUARED}
+        {regression
+          ? ` (${regression.sampleSize} usable of ${sampleLabel}, R² ${regression.rSquared.toFixed(
+              2
+            )})`
+          : ` (${sampleLabel})`}
+        . Until then the default rates apply.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-blue-50/50 border-blue-200 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold">Market-Derived Rates</div>
+          <div className="text-xs text-muted-foreground">
+            Regression of sold price across {regression.sampleSize} usable comps
+            • R² {regression.rSquared.toFixed(2)} (adjusted{" "}
+            {regression.adjustedRSquared.toFixed(2)})
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Sample: {sampleLabel}
+          </div>
+        </div>
+        {onApply && (
+          <Button variant="outline" size="sm" onClick={onApply}>
+            <TrendingUp className="mr-2 h-4 w-4" />
+            Use Market-Derived Rates
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        {regression.estimates.map((estimate) => (
+          <div key={estimate.feature}>
+            <div className="text-xs text-muted-foreground">
+              {REGRESSION_FEATURE_LABELS[estimate.feature]}
+            </div>
+            <div
+              className={estimate.value > 0 ? "" : "text-muted-foreground"}
+              title={
+                estimate.value > 0
+                  ? undefined
+                  : "Not a positive value in this sample - the current rate is kept"
+              }
+            >
+              {formatCurrency(estimate.value)}{" "}
+              <span className="text-xs text-muted-foreground">
+                ± {formatCurrency(estimate.standardError)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ARVAdjustmentGrid({
+  comps,
+  subject,
+  subjectLat,
+  subjectLng,
+  overrides,
+  onOverridesChange,
+}: ARVAdjustmentGridProps) {
+  const [poolRadius, setPoolRadius] = useState<string>("1");
+  const [libraryComps, setLibraryComps] = useState<LibraryComp[]>([]);
+  const canPool = !!subjectLat && !!subjectLng;
+
+  useEffect(() => {
+    if (!subjectLat || !subjectLng || poolRadius === DEAL_COMPS_ONLY) {
+      setLibraryComps([]);
+      return;
+    }
+
+    let cancelled = false;
+    dashboardService
+      .getNearbyComps({
+        lat: subjectLat,
+        lng: subjectLng,
+        radiusMiles: Number(poolRadius),
+        months: POOL_MONTHS,
+        limit: POOL_LIMIT,
+      })
+      .then((response) => {
+        if (!cancelled) setLibraryComps(response.data);
+      })
+      .catch((error) => {
+        console.error("Failed to load library comps for regression:", error);
+        if (!cancelled) setLibraryComps([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [subjectLat, subjectLng, poolRadius]);
+
+  const { arv, adjustments } = calculateWeightedARV(comps, subject, overrides);
+  const regressionComps = poolRegressionComps(comps, libraryComps);
+  const pooledCount = regressionComps.length - comps.length;
+  const sampleLabel =
+    pooledCount > 0
+      ? `${comps.length} deal + ${pooledCount} library comps sold within ${poolRadius} mi in the last ${POOL_MONTHS} months`
+      : `${comps.length} deal comps`;
+  const regression = estimateMarketRates(regressionComps);
+  const readOnly = !onOverridesChange;
+  const editCount =
+    Object.keys(overrides.rates ?? {}).length +
+    Object.values(overrides.cells ?? {}).reduce(
+      (count, compCells) => count + Object.keys(compCells).length,
+      0
+    );
+
+  // Blank or default = back to the default rate
+  const handleRateChange = (key: keyof ARVAdjustmentRates, value: string) => {
+    const rates = { ...overrides.rates };
+    if (value === "" || Number(value) === DEFAULT_ARV_ADJUSTMENT_RATES[key]) {
+      delete rates[key];
+    } else {
+      rates[key] = Number(value);
+    }
+    onOverridesChange?.(compactOverrides({ ...overrides, rates }));
+  };
+
+  const handleApplyMarketRates = () => {
+    if (!regression) return;
+    onOverridesChange?.(
+      compactOverrides({
+        ...overrides,
+        rates: { ...overrides.rates, ...regression.rates },
+      })
+    );
+    toast.success(
+      `Applied market-derived rates from ${regression.sampleSize} comps`,
+      { description: `Sample: ${sampleLabel}` }
+    );
+  };
+
+  // Blank = back to the calculated adjustment
+  const handleCellChange = (
+    compId: string,
+    factor: ARVAdjustmentFactor,
+    value: string | undefined
+  ) => {
+    const compCells = { ...overrides.cells?.[compId] };
+    if (value === undefined || value === "") {
+      delete compCells[factor];
+    } else {
+      compCells[factor] = Number(value);
+    }
+    onOverridesChange?.(
+      compactOverrides({
+        ...overrides,
+        cells: { ...overrides.cells, [compId]: compCells },
+      })
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Adjustment Grid</CardTitle>
+            <CardDescription>
+              Every adjustment applied to each comp. Change a rate to re-price
+              all comps, or type over a cell to set that comp's adjustment.
+              Edited values are highlighted and saved with the deal.
+            </CardDescription>
+          </div>
+          {!readOnly && editCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onOverridesChange?.({})}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset {editCount} {editCount === 1 ? "Edit" : "Edits"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Regression Sample</Label>
+            <Select
+              value={canPool ? poolRadius : DEAL_COMPS_ONLY}
+              onValueChange={setPoolRadius}
+              disabled={!canPool}
+            >
+              <SelectTrigger className="h-8 w-[260px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEAL_COMPS_ONLY}>
+                  This deal's comps only
+                </SelectItem>
+                {POOL_RADIUS_OPTIONS.map((radius) => (
+                  <SelectItem key={radius} value={String(radius)}>
+                    + Library comps within {radius} mi
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!canPool && (
+              <span className="text-xs text-muted-foreground">
+                Locate the subject on the map to pool library comps
+              </span>
+            )}
+          </div>
+          <MarketRatesPanel
+            regression={regression}
+            sampleLabel={sampleLabel}
+            onApply={readOnly ? undefined : handleApplyMarketRates}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {RATE_FIELDS.map(({ key, label, step }) => {
+            const isEdited = overrides.rates?.[key] !== undefined;
+            return (
+              <div key={key}>
+                <Label htmlFor={`arv-rate-${key}`} className="text-xs">
+                  {label}
+                </Label>
+                <Input
+                  id={`arv-rate-${key}`}
+                  type="number"
+                  step={step}
+                  disabled={readOnly}
+                  placeholder={String(DEFAULT_ARV_ADJUSTMENT_RATES[key])}
+                  value={overrides.rates?.[key] ?? ""}
+                  onChange={(e) => handleRateChange(key, e.target.value)}
+                  className={`h-9 ${isEdited ? EDITED_CLASS : ""}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[140px]">Adjustment</TableHead>
+                {comps.map((comp, index) => (
+                  <TableHead
+                    key={comp.id}
+                    className="min-w-[150px]"
+                    title={comp.address}
+                  >
+                    Comp {index + 1}
+                    <div className="text-xs font-normal text-muted-foreground truncate max-w-[150px]">
+                      {comp.address.split(",")[0]}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">Sale Price</TableCell>
+                {comps.map((comp) => (
+                  <TableCell key={comp.id}>
+                    {formatCurrency(comp.soldPrice)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              {ARV_ADJUSTMENT_FACTORS.map((factor) => (
+                <TableRow key={factor}>
+                  <TableCell>{ARV_ADJUSTMENT_LABELS[factor]}</TableCell>
+                  {comps.map((comp, index) => {
+                    const adjustment = adjustments[index];
+                    const isEdited = adjustment.overridden.includes(factor);
+                    return (
+                      <TableCell key={comp.id}>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            step="500"
+                            disabled={readOnly}
+                            value={Math.round(adjustment.adjustments[factor])}
+                            onChange={(e) =>
+                              handleCellChange(comp.id, factor, e.target.value)
+                            }
+                            title={
+                              isEdited
+                                ? `Calculated: ${formatCurrency(
+                                    adjustment.calculated[factor]
+                                  )}`
+                                : undefined
+                            }
+                            className={`h-8 w-28 ${isEdited ? EDITED_CLASS : ""}`}
+                          />
+                          {isEdited && !readOnly && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title="Use calculated adjustment"
+                              onClick={() =>
+                                handleCellChange(comp.id, factor, undefined)
+                              }
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-medium">Net Adjustment</TableCell>
+                {comps.map((comp, index) => {
+                  const net = adjustments[index].adjustedPrice - comp.soldPrice;
+                  return (
+                    <TableCell
+                      key={comp.id}
+                      className={net >= 0 ? "text-green-700" : "text-red-700"}
+                    >
+                      {net >= 0 ? "+" : ""}
+                      {formatCurrency(net)}
+                      {comp.soldPrice > 0 && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ({((net / comp.soldPrice) * 100).toFixed(1)}%)
+                        </span>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+              <TableRow className="bg-muted/50">
+                <TableCell className="font-semibold">Adjusted Price</TableCell>
+                {comps.map((comp, index) => (
+                  <TableCell key={comp.id} className="font-semibold">
+                    {formatCurrency(adjustments[index].adjustedPrice)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell title="Similarity to the subject - each comp's share of the weighted ARV">
+                  Weight
+                </TableCell>
+                {comps.map((comp, index) => (
+                  <TableCell key={comp.id}>
+                    {adjustments[index].similarityScore}%
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-lg">
+          <div className="text-sm text-green-700">
+            Weighted ARV (adjusted prices weighted by similarity)
+          </div>
+          <div className="text-xl font-bold text-green-800">
+            {formatCurrency(arv)}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
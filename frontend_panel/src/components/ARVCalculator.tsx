@@ -48,6 +48,19 @@ import {
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { MapSection } from "./MapSection";
 import { DragDropUpload } from "./DragDropUpload";
+import { ARVAdjustmentGrid } from "./ARVAdjustmentGrid";
+import { ARVConfidencePanel } from "./ARVConfidencePanel";
+import { LibraryCompSuggestions } from "./LibraryCompSuggestions";
+import { ARVAdjustmentOverrides } from "@calc/types";
+import {
+  PropertyData,
+  calculateARVAdjustment,
+  calculateCompsARV,
+  compToPropertyData,
+  resolveARVAdjustmentRates,
+} from "@calc/arvCalculator";
+import { assessARVConfidence, getConfidenceComps } from "@calc/arvConfidence";
+import { LibraryComp } from "../types/service";
 
 export interface ZillowComp {
   id: string;
@@ -71,6 +84,8 @@ export interface ZillowComp {
   photos?: { id: string; url: string; isPrimary?: boolean }[]; // Photo gallery for comp properties
   lat?: number; // Latitude for map display
   lng?: number; // Longitude for map display
+  libraryId?: string; // Shared comp library entry
+  libraryUpdatedAt?: string; // Library version this copy was taken from
 }
 
 export interface SubjectProperty {
@@ -115,6 +130,8 @@ interface ARVCalculatorProps {
   onExpandedDescriptionsChange?: (expanded: Record<string, boolean>) => void; // Callback to update expanded state
   hoveredCompId?: string | null; // Comp ID being hovered on map
   onCompHover?: (compId: string | null) => void; // Called when hovering table row
+  adjustmentOverrides?: ARVAdjustmentOverrides; // Adjustment grid edits saved on the deal
+  onAdjustmentOverridesChange?: (overrides: ARVAdjustmentOverrides) => void;
 }
 
 export function ARVCalculator({
@@ -130,6 +147,8 @@ export function ARVCalculator({
   onExpandedDescriptionsChange,
   hoveredCompId,
   onCompHover,
+  adjustmentOverrides,
+  onAdjustmentOverridesChange,
 }: ARVCalculatorProps) {
   const [pasteData, setPasteData] = useState("");
   const [subjectPasteData, setSubjectPasteData] = useState("");
@@ -458,9 +477,50 @@ export function ARVCalculator({
     toast.success(`Added comp: ${newComp.address}`);
   };
 
+  // Library comps keep their library id, so later edits reach every deal using them
+  const handleAddLibraryComps = (libraryComps: LibraryComp[]) => {
+    const newComps: ZillowComp[] = libraryComps.map((comp) => ({
+      id: comp.id,
+      address: comp.address,
+      soldPrice: comp.soldPrice,
+      soldDate: comp.soldDate,
+      beds: comp.beds,
+      baths: comp.baths,
+      sqft: comp.sqft,
+      propertyType: comp.propertyType,
+      yearBuilt: comp.yearBuilt,
+      zestimate: comp.zestimate ?? null,
+      rentZestimate: comp.rentZestimate ?? null,
+      pricePerSqft: comp.pricePerSqft,
+      description: comp.description || "",
+      zillowLink: comp.zillowLink || "",
+      lotSize: comp.lotSize,
+      hasPool: comp.hasPool,
+      parkingSpaces: comp.parkingSpaces,
+      daysOnMarket: comp.daysOnMarket,
+      photos: comp.photos,
+      lat: comp.lat,
+      lng: comp.lng,
+      libraryId: comp.id,
+      libraryUpdatedAt: comp.updatedAt,
+    }));
+    onCompsChange([...comps, ...newComps]);
+    toast.success(
+      newComps.length === 1
+        ? `Added comp: ${newComps[0].address}`
+        : `Added ${newComps.length} comps from the library`
+    );
+  };
+
   const handleRemoveComp = (id: string) => {
     const updatedComps = comps.filter((c) => c.id !== id);
     onCompsChange(updatedComps);
+    // Drop the removed comp's grid overrides
+    if (adjustmentOverrides?.cells?.[id] && onAdjustmentOverridesChange) {
+      const cells = { ...adjustmentOverrides.cells };
+      delete cells[id];
+      onAdjustmentOverridesChange({ ...adjustmentOverrides, cells });
+    }
     toast.success("Comp removed");
   };
 
@@ -715,128 +775,31 @@ export function ARVCalculator({
     });
   };
 
-  // Calculate ARV based on comps with intelligent adjustments
-  useEffect(() => {
-    if (comps.length === 0) {
-      if (calculatedARV !== 0) {
-        onARVChange(0);
-      }
-      return;
-    }
-
-    // If no subject property data, fall back to simple median
-    if (!subjectProperty || !subjectProperty.sqft) {
-      const sortedPrices = [...comps].sort((a, b) => a.soldPrice - b.soldPrice);
-      const median =
-        comps.length % 2 === 0
-          ? Math.round(
-              (sortedPrices[comps.length / 2 - 1].soldPrice +
-                sortedPrices[comps.length / 2].soldPrice) /
-                2
-            )
-          : sortedPrices[Math.floor(comps.length / 2)].soldPrice;
-      if (calculatedARV !== median) {
-        onARVChange(median);
-      }
-      return;
-    }
-
-    // Intelligent ARV calculation with adjustments
-    const adjustedComps = comps.map((comp) => {
-      let adjustedPrice = comp.soldPrice;
-      let similarityScore = 100; // Start at 100%
-
-      // Adjust for square footage difference (primary factor)
-      if (comp.sqft > 0 && subjectProperty.sqft > 0) {
-        const sqftDiff = subjectProperty.sqft - comp.sqft;
-        const pricePerSqft = comp.soldPrice / comp.sqft;
-        // Adjust price based on sqft difference
-        adjustedPrice += sqftDiff * pricePerSqft;
-
-        // Penalize similarity for large sqft differences
-        const sqftDiffPercent = Math.abs(sqftDiff) / subjectProperty.sqft;
-        similarityScore -= sqftDiffPercent * 30; // Max 30 point penalty for sqft
-      }
-
-      // Adjust for bedroom difference
-      if (comp.beds > 0 && subjectProperty.beds > 0) {
-        const bedDiff = subjectProperty.beds - comp.beds;
-        // Each bedroom worth approximately 8-10% of property value
-        adjustedPrice += bedDiff * (comp.soldPrice * 0.09);
-
-        // Penalize similarity for bedroom mismatch
-        const bedDiffAbs = Math.abs(bedDiff);
-        similarityScore -= bedDiffAbs * 10; // 10 points per bedroom difference
-      }
-
-      // Adjust for bathroom difference
-      if (comp.baths > 0 && subjectProperty.baths > 0) {
-        const bathDiff = subjectProperty.baths - comp.baths;
-        // Each bathroom worth approximately 5-7% of property value
-        adjustedPrice += bathDiff * (comp.soldPrice * 0.06);
-
-        // Penalize similarity for bathroom mismatch
-        const bathDiffAbs = Math.abs(bathDiff);
-        similarityScore -= bathDiffAbs * 5; // 5 points per bathroom difference
-      }
-
-      // Adjust for age/year built
-      if (comp.yearBuilt > 0 && subjectProperty.yearBuilt > 0) {
-        const ageDiff = comp.yearBuilt - subjectProperty.yearBuilt;
-        // Newer properties worth approximately 0.5-1% more per year
-        adjustedPrice -= ageDiff * (comp.soldPrice * 0.007);
-
-        // Penalize similarity for large age differences
-        const ageDiffAbs = Math.abs(ageDiff);
-        if (ageDiffAbs > 10) {
-          similarityScore -= Math.min(ageDiffAbs / 2, 15); // Max 15 point penalty
-        }
-      }
-
-      // Bonus for property type match
-      if (comp.propertyType && subjectProperty.propertyType) {
-        const compType = comp.propertyType.toLowerCase();
-        const subjectType = subjectProperty.propertyType.toLowerCase();
-        if (compType.includes("multi") && subjectType.includes("multi")) {
-          similarityScore += 10; // Bonus for both being multifamily
-        } else if (compType === subjectType) {
-          similarityScore += 5; // Bonus for exact match
-        } else {
-          similarityScore -= 10; // Penalty for type mismatch
+  // Subject in the adjustment engine's terms (null until it has a living area)
+  const subjectData: PropertyData | null =
+    subjectProperty && subjectProperty.sqft
+      ? {
+          soldPrice: subjectProperty.purchasePrice,
+          sqft: subjectProperty.sqft,
+          beds: subjectProperty.beds,
+          baths: subjectProperty.baths,
+          yearBuilt: subjectProperty.yearBuilt,
+          propertyType: subjectProperty.propertyType,
+          lotSize: subjectProperty.lotSize,
+          hasPool: subjectProperty.hasPool,
+          parkingSpaces: subjectProperty.parkingSpaces,
         }
-      }
-
-      // Ensure similarity score is between 0 and 100
-      similarityScore = Math.max(0, Math.min(100, similarityScore));
-
-      return {
-        ...comp,
-        adjustedPrice: Math.round(adjustedPrice),
-        similarityScore,
-      };
-    });
+      : null;
+  const adjustmentRates = resolveARVAdjustmentRates(adjustmentOverrides);
 
-    // Calculate weighted average based on similarity scores
-    let totalWeightedPrice = 0;
-    let totalWeight = 0;
-
-    adjustedComps.forEach((comp) => {
-      const weight = comp.similarityScore / 100;
-      totalWeightedPrice += comp.adjustedPrice * weight;
-      totalWeight += weight;
-    });
-
-    const weightedARV =
-      totalWeight > 0
-        ? Math.round(totalWeightedPrice / totalWeight)
-        : Math.round(
-            adjustedComps.reduce((sum, c) => sum + c.adjustedPrice, 0) /
-              adjustedComps.length
-          );
+  // Calculate ARV based on comps with intelligent adjustments (rates and cells
+  // from the adjustment grid), or the median sale price without a subject
+  useEffect(() => {
+    const arv = calculateCompsARV(comps, subjectData, adjustmentOverrides);
 
     // Only update if ARV actually changed to prevent infinite loops
-    if (calculatedARV !== weightedARV) {
-      onARVChange(weightedARV);
+    if (calculatedARV !== arv) {
+      onARVChange(arv);
     }
   }, [
     comps,
@@ -845,8 +808,19 @@ export function ARVCalculator({
     subjectProperty?.sqft,
     subjectProperty?.yearBuilt,
     subjectProperty?.propertyType,
+    subjectProperty?.lotSize,
+    subjectProperty?.hasPool,
+    subjectProperty?.parkingSpaces,
+    adjustmentOverrides,
   ]);
 
+  // Confidence band and comp diagnostics - the server saves the same summary on the deal
+  const confidenceReport = assessARVConfidence(
+    getConfidenceComps(comps, subjectData, adjustmentOverrides),
+    calculatedARV,
+    { lat: subjectProperty?.lat, lng: subjectProperty?.lng }
+  );
+
   const formatCurrency = (num: number) => {
     if (!num) return "$0";
     return "$" + num.toLocaleString();
@@ -1062,11 +1036,17 @@ export function ARVCalculator({
 
   // Calculate similarity score and adjusted price for a single comp using weighted scoring
   const getCompAdjustment = (comp: ZillowComp) => {
-    if (!subjectProperty || !subjectProperty.sqft) {
+    if (!subjectProperty || !subjectData) {
       return { adjustedPrice: comp.soldPrice, similarityScore: 100 };
     }
 
-    let adjustedPrice = comp.soldPrice;
+    // Adjusted price comes from the adjustment grid (rates plus any overridden cells)
+    const { adjustedPrice } = calculateARVAdjustment(
+      compToPropertyData(comp),
+      subjectData,
+      adjustmentRates,
+      adjustmentOverrides?.cells?.[comp.id]
+    );
 
     // WEIGHTED SCORING SYSTEM
     // Each sub-score is normalized to 0-100, then weighted
@@ -1119,9 +1099,6 @@ export function ARVCalculator({
     let livingAreaScore = 100;
     if (comp.sqft > 0 && subjectProperty.sqft > 0) {
       const sqftDiff = subjectProperty.sqft - comp.sqft;
-      const pricePerSqft = comp.soldPrice / comp.sqft;
-      adjustedPrice += sqftDiff * pricePerSqft;
-
       const sqftDiffPercent = (Math.abs(sqftDiff) / subjectProperty.sqft) * 100;
       const penalty = Math.min(sqftDiffPercent * 2, 30); // 2 points per %, max 30
       livingAreaScore = Math.max(0, 100 - penalty);
@@ -1131,12 +1108,10 @@ export function ARVCalculator({
     let bedsBathsScore = 100;
     if (comp.beds > 0 && subjectProperty.beds > 0) {
       const bedDiff = subjectProperty.beds - comp.beds;
-      adjustedPrice += bedDiff * (comp.soldPrice * 0.09);
       bedsBathsScore -= Math.abs(bedDiff) * 10;
     }
     if (comp.baths > 0 && subjectProperty.baths > 0) {
       const bathDiff = subjectProperty.baths - comp.baths;
-      adjustedPrice += bathDiff * (comp.soldPrice * 0.06);
       bedsBathsScore -= Math.abs(bathDiff) * 5;
     }
     bedsBathsScore = Math.max(0, bedsBathsScore);
@@ -1174,8 +1149,6 @@ export function ARVCalculator({
     let yearBuiltScore = 100;
     if (comp.yearBuilt > 0 && subjectProperty.yearBuilt > 0) {
       const ageDiff = comp.yearBuilt - subjectProperty.yearBuilt;
-      adjustedPrice -= ageDiff * (comp.soldPrice * 0.007);
-
       const ageDiffAbs = Math.abs(ageDiff);
       if (ageDiffAbs > 10) {
         const penalty = Math.min((ageDiffAbs - 10) * 1.5, 15);
@@ -1222,7 +1195,7 @@ export function ARVCalculator({
     const similarityScore = Math.max(0, Math.min(100, Math.round(finalScore)));
 
     return {
-      adjustedPrice: Math.round(adjustedPrice),
+      adjustedPrice,
       similarityScore,
     };
   };
@@ -2606,6 +2579,34 @@ export function ARVCalculator({
         </Card>
       )}
 
+      {/* Comp Library - comps saved on other deals near this subject */}
+      <LibraryCompSuggestions
+        subjectLat={subjectProperty?.lat}
+        subjectLng={subjectProperty?.lng}
+        existingComps={comps}
+        onAdd={handleAddLibraryComps}
+      />
+
+      {/* ARV Confidence - range and comp warnings */}
+      {confidenceReport && <ARVConfidencePanel report={confidenceReport} />}
+
+      {/* Adjustment Grid - every adjustment per comp, editable */}
+      {subjectData && comps.length > 0 && (
+        <ARVAdjustmentGrid
+          comps={comps.map((comp) => ({
+            ...compToPropertyData(comp),
+            id: comp.id,
+            address: comp.address,
+            libraryId: comp.libraryId,
+          }))}
+          subject={subjectData}
+          subjectLat={subjectProperty?.lat}
+          subjectLng={subjectProperty?.lng}
+          overrides={adjustmentOverrides ?? {}}
+          onOverridesChange={onAdjustmentOverridesChange}
+        />
+      )}
+
       {/* Interactive Map */}
       {(subjectProperty || comps.length > 0) && (
         <MapSection
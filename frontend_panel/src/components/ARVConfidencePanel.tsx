@@ -0,0 +1,152 @@
+// ARV confidence band and the comp diagnostics behind it
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Badge } from "./ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import { formatCurrency } from "@calc/calculations";
+import { ARVConfidenceLevel } from "@calc/types";
+import { ARVConfidenceReport, COMP_WARNING_LABELS } from "@calc/arvConfidence";
+
+// Badge colors (ARV calculator and saved-deals table)
+export const ARV_CONFIDENCE_COLORS: Record<ARVConfidenceLevel, string> = {
+  High: "bg-green-100 text-green-800 border-green-300",
+  Medium: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  Low: "bg-red-100 text-red-800 border-red-300",
+};
+
+interface ARVConfidencePanelProps {
+  report: ARVConfidenceReport;
+}
+
+export function ARVConfidencePanel({ report }: ARVConfidencePanelProps) {
+  const { confidence, diagnostics } = report;
+  const flagged = diagnostics.filter(
+    (diagnostic) => diagnostic.warnings.length > 0
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              ARV Confidence
+            </CardTitle>
+            <CardDescription>
+              90% range from how closely the adjusted comp prices agree,
+              weighted by similarity
+            </CardDescription>
+          </div>
+          <Badge
+            variant="outline"
+            className={ARV_CONFIDENCE_COLORS[confidence.level]}
+          >
+            {confidence.level} Confidence
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <div className="text-sm text-muted-foreground">ARV Range</div>
+            <div className="font-semibold">
+              {formatCurrency(confidence.low)} –{" "}
+              {formatCurrency(confidence.high)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Band</div>
+            <div className="font-semibold">± {confidence.bandPercent}%</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Outliers</div>
+            <div className="font-semibold">
+              {confidence.outlierCount} of {confidence.compCount}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">
+              Comps With Warnings
+            </div>
+            <div className="font-semibold">
+              {confidence.warningCount} of {confidence.compCount}
+            </div>
+          </div>
+        </div>
+
+        {flagged.length === 0 ? (
+          <p className="text-sm text-green-700">
+            No comp warnings - every comp is recent, nearby and within the
+            adjustment limits.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Comp</TableHead>
+                <TableHead>Warnings</TableHead>
+                <TableHead className="text-right">Net Adj.</TableHead>
+                <TableHead className="text-right">Gross Adj.</TableHead>
+                <TableHead className="text-right">Sold</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flagged.map((diagnostic) => (
+                <TableRow key={diagnostic.compId}>
+                  <TableCell className="max-w-[220px] truncate">
+                    {diagnostic.address}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {diagnostic.warnings.map((warning) => (
+                        <Badge
+                          key={warning}
+                          variant="outline"
+                          className="text-xs border-orange-300 text-orange-800"
+                        >
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {COMP_WARNING_LABELS[warning]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {diagnostic.netAdjustmentPercent.toFixed(1)}%
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {diagnostic.grossAdjustmentPercent.toFixed(1)}%
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {diagnostic.monthsSinceSale === null
+                      ? "—"
+                      : `${Math.round(diagnostic.monthsSinceSale)} mo ago`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {diagnostic.distanceMiles === null
+                      ? "—"
+                      : `${diagnostic.distanceMiles.toFixed(2)} mi`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
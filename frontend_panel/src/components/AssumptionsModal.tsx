@@ -2,6 +2,7 @@
 import { useState, useRef } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
 import {
   Card,
   CardContent,
@@ -17,7 +18,7 @@ import {
   TableHeader,
   TableRow,
 } from "./ui/table";
-import { GlobalAssumptions, Section8ZipData } from "../types/deal";
+import { GlobalAssumptions, Section8ZipData, TaxSettings } from "@calc/types";
 import {
   Plus,
   Trash2,
@@ -26,6 +27,19 @@ import {
   RotateCcw,
   Loader2,
 } from "lucide-react";
+import { OperatingExpensesForm } from "./OperatingExpensesForm";
+import { CriteriaProfilesEditor } from "./CriteriaProfilesEditor";
+import { getDefaultOperatingExpenses } from "@calc/operatingExpenses";
+import {
+  DEFAULT_MTR_FURNISHING_LIFE_YEARS,
+  DEFAULT_MTR_PLATFORM_FEE_PERCENT,
+} from "@calc/calculations";
+import { DEFAULT_TURNOVER_VACANCY_MONTHS } from "@calc/rentRoll";
+import {
+  DEFAULT_STR_LODGING_TAX_PERCENT,
+  DEFAULT_STR_PLATFORM_FEE_PERCENT,
+} from "@calc/strSeasonality";
+import { resolveTaxSettings } from "@calc/taxes";
 import { dashboardService } from "../services/dashboard.service";
 import { toast } from "sonner";
 
@@ -60,6 +74,55 @@ export function AssumptionsModal({
     setLocalAssumptions((prev) => ({ ...prev, [field]: value }));
   };
 
+  const taxSettings = resolveTaxSettings(localAssumptions);
+  const handleTaxChange = (
+    field: keyof TaxSettings,
+    value: number | boolean
+  ) => {
+    setLocalAssumptions((prev) => ({
+      ...prev,
+      taxSettings: { ...resolveTaxSettings(prev), [field]: value },
+    }));
+  };
+
+  const taxRows: {
+    field: Exclude<keyof TaxSettings, "realEstateProfessional">;
+    label: string;
+    step: string;
+  }[] = [
+    { field: "landValuePercent", label: "Land Value (% of basis)", step: "1" },
+    {
+      field: "ordinaryIncomeRatePercent",
+      label: "Ordinary Income Tax Rate (%)",
+      step: "1",
+    },
+    {
+      field: "capitalGainsRatePercent",
+      label: "Capital Gains Tax Rate (%)",
+      step: "1",
+    },
+    {
+      field: "recaptureRatePercent",
+      label: "Depreciation Recapture Rate (%, max 25)",
+      step: "1",
+    },
+    {
+      field: "costSegregationPercent",
+      label: "Cost Segregation (% of building)",
+      step: "1",
+    },
+    {
+      field: "bonusDepreciationPercent",
+      label: "Bonus Depreciation (% of cost seg)",
+      step: "10",
+    },
+    {
+      field: "passiveLossAllowance",
+      label: "Passive Loss Allowance ($/yr)",
+      step: "1000",
+    },
+  ];
+
   const handleSave = async () => {
     try {
       await onSave(localAssumptions);
@@ -497,16 +560,112 @@ export function AssumptionsModal({
                 </TableCell>
               </TableRow>
               <TableRow>
-                <TableCell>Maintenance (% of income)</TableCell>
+                <TableCell>
+                  Lease Turnover Vacancy (months when a tenant moves out)
+                </TableCell>
                 <TableCell>
                   <Input
                     type="number"
                     min="0"
-                    max="100"
-                    step="0.1"
-                    value={localAssumptions.maintenancePercent}
+                    max="12"
+                    step="0.5"
+                    value={
+                      localAssumptions.turnoverVacancyMonths ??
+                      DEFAULT_TURNOVER_VACANCY_MONTHS
+                    }
+                    onChange={(e) =>
+                      handleChange(
+                        "turnoverVacancyMonths",
+                        Number(e.target.value)
+                      )
+                    }
+                    className="h-9 w-24"
+                  />
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Mid-Term Rental Platform Fee (% of rent)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="50"
+                    step="0.5"
+                    value={
+                      localAssumptions.mtrPlatformFeePercent ??
+                      DEFAULT_MTR_PLATFORM_FEE_PERCENT
+                    }
                     onChange={(e) =>
-                      handleChange("maintenancePercent", Number(e.target.value))
+                      handleChange(
+                        "mtrPlatformFeePercent",
+                        Number(e.target.value)
+                      )
+                    }
+                    className="h-9 w-24"
+                  />
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Mid-Term Furnishing Life (years)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="20"
+                    step="1"
+                    value={
+                      localAssumptions.mtrFurnishingLifeYears ??
+                      DEFAULT_MTR_FURNISHING_LIFE_YEARS
+                    }
+                    onChange={(e) =>
+                      handleChange(
+                        "mtrFurnishingLifeYears",
+                        Number(e.target.value)
+                      )
+                    }
+                    className="h-9 w-24"
+                  />
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Short-Term Platform Fee (%)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="50"
+                    step="0.5"
+                    value={
+                      localAssumptions.strPlatformFeePercent ??
+                      DEFAULT_STR_PLATFORM_FEE_PERCENT
+                    }
+                    onChange={(e) =>
+                      handleChange(
+                        "strPlatformFeePercent",
+                        Number(e.target.value)
+                      )
+                    }
+                    className="h-9 w-24"
+                  />
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Short-Term Lodging Tax (%)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="30"
+                    step="0.5"
+                    value={
+                      localAssumptions.strLodgingTaxPercent ??
+                      DEFAULT_STR_LODGING_TAX_PERCENT
+                    }
+                    onChange={(e) =>
+                      handleChange(
+                        "strLodgingTaxPercent",
+                        Number(e.target.value)
+                      )
                     }
                     className="h-9 w-24"
                   />
@@ -589,11 +748,122 @@ export function AssumptionsModal({
                   />
                 </TableCell>
               </TableRow>
+              <TableRow>
+                <TableCell>Discount Rate for NPV (%)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={localAssumptions.discountRatePercent ?? 8}
+                    onChange={(e) =>
+                      handleChange(
+                        "discountRatePercent",
+                        Number(e.target.value)
+                      )
+                    }
+                    className="h-9 w-24"
+                  />
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Operating Expenses */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Operating Expenses</CardTitle>
+          <CardDescription>
+            Default expense schedule for new deals - each deal can override it
+            on the dashboard
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OperatingExpensesForm
+            lines={getDefaultOperatingExpenses(localAssumptions)}
+            onChange={(operatingExpenses) =>
+              setLocalAssumptions((prev) => ({ ...prev, operatingExpenses }))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Tax Assumptions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Assumptions</CardTitle>
+          <CardDescription>
+            Federal income tax for after-tax cash flow and IRR - 27.5-year
+            depreciation, passive loss limits and tax on sale
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-1/2">Parameter</TableHead>
+                <TableHead className="w-1/2">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRows.map(({ field, label, step }) => (
+                <TableRow key={field}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step={step}
+                      value={taxSettings[field]}
+                      onChange={(e) =>
+                        handleTaxChange(field, Number(e.target.value))
+                      }
+                      className="h-9 w-24"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>Real Estate Professional</TableCell>
+                <TableCell>
+                  <Checkbox
+                    checked={taxSettings.realEstateProfessional}
+                    onCheckedChange={(checked) =>
+                      handleTaxChange(
+                        "realEstateProfessional",
+                        checked === true
+                      )
+                    }
+                  />
+                </TableCell>
+              </TableRow>
             </TableBody>
           </Table>
         </CardContent>
       </Card>
 
+      {/* Investment Criteria Profiles */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Investment Criteria Profiles</CardTitle>
+          <CardDescription>
+            Named buy boxes - saved deals show pass/fail and a score against the
+            selected profile
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CriteriaProfilesEditor
+            profiles={localAssumptions.criteriaProfiles ?? []}
+            onChange={(criteriaProfiles) =>
+              setLocalAssumptions((prev) => ({ ...prev, criteriaProfiles }))
+            }
+          />
+        </CardContent>
+      </Card>
+
       {/* Section 8 Voucher Data */}
       <Card>
         <CardHeader>
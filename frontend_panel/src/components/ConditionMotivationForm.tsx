@@ -19,7 +19,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "./ui/collapsible";
-import { DealNotes } from "../types/deal";
+import { DealNotes } from "@calc/types";
 import {
   Plus,
   Trash2,
@@ -34,7 +34,7 @@ import {
   formatBreakdown,
   RehabEstimateResult,
 } from "../utils/intelligentRehabEstimator";
-import { formatCurrency } from "../utils/calculations";
+import { formatCurrency } from "@calc/calculations";
 import { toast } from "sonner";
 import { LineItemEditor, LineItem } from "./LineItemEditor";
 import { generateLineItems } from "../utils/lineItemGenerator";
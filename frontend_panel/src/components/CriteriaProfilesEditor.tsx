@@ -0,0 +1,185 @@
+// Editor for named investment criteria (buy box) profiles in global assumptions
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { HoldStrategy, InvestmentCriteriaProfile } from "@calc/types";
+import { createCriteriaProfile } from "../utils/investmentCriteria";
+
+interface CriteriaProfilesEditorProps {
+  profiles: InvestmentCriteriaProfile[];
+  onChange: (profiles: InvestmentCriteriaProfile[]) => void;
+}
+
+const STRATEGY_LABELS: Record<HoldStrategy, string> = {
+  ltr: "Long-Term Rental",
+  houseHack: "House Hack",
+  section8: "Section 8",
+  airbnb: "Airbnb",
+  mtr: "Mid-Term Rental",
+  rehab: "BRRRR (Rehab & Refi)",
+};
+
+type NumericCriterion =
+  | "minCapRate"
+  | "minDscr"
+  | "minCashOnCash"
+  | "maxCashLeftInDeal"
+  | "maxPricePerUnit";
+
+export function CriteriaProfilesEditor({
+  profiles,
+  onChange,
+}: CriteriaProfilesEditorProps) {
+  const updateProfile = (
+    index: number,
+    changes: Partial<InvestmentCriteriaProfile>
+  ) => {
+    onChange(
+      profiles.map((profile, i) =>
+        i === index ? { ...profile, ...changes } : profile
+      )
+    );
+  };
+
+  // Blank input = criterion not used by this profile
+  const numberField = (
+    index: number,
+    field: NumericCriterion,
+    label: string,
+    step: string
+  ) => (
+    <div>
+      <Label htmlFor={`criteria-${index}-${field}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`criteria-${index}-${field}`}
+        type="number"
+        min="0"
+        step={step}
+        placeholder="Any"
+        value={profiles[index][field] ?? ""}
+        onChange={(e) =>
+          updateProfile(index, {
+            [field]: e.target.value === "" ? undefined : Number(e.target.value),
+          })
+        }
+        className="h-9"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {profiles.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No profiles yet - add one to score saved deals against your buy box.
+        </p>
+      )}
+
+      {profiles.map((profile, index) => (
+        <div key={profile.id} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Label htmlFor={`criteria-${index}-name`} className="text-xs">
+                Profile Name
+              </Label>
+              <Input
+                id={`criteria-${index}-name`}
+                value={profile.name}
+                onChange={(e) => updateProfile(index, { name: e.target.value })}
+                className="h-9"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Strategy</Label>
+              <Select
+                value={profile.strategy}
+                onValueChange={(strategy: HoldStrategy) =>
+                  updateProfile(index, { strategy })
+                }
+              >
+                <SelectTrigger className="h-9 w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STRATEGY_LABELS) as HoldStrategy[]).map(
+                    (strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {STRATEGY_LABELS[strategy]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(profiles.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {numberField(index, "minCapRate", "Min Cap Rate (%)", "0.1")}
+            {numberField(index, "minDscr", "Min DSCR", "0.05")}
+            {numberField(index, "minCashOnCash", "Min CoC (%)", "0.5")}
+            {numberField(
+              index,
+              "maxCashLeftInDeal",
+              "Max Cash Left ($)",
+              "1000"
+            )}
+            {numberField(
+              index,
+              "maxPricePerUnit",
+              "Max Price/Unit ($)",
+              "1000"
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor={`criteria-${index}-zips`} className="text-xs">
+              Allowed Zip Codes (comma separated, blank = any)
+            </Label>
+            {/* Parsed on blur so commas can be typed freely */}
+            <Input
+              id={`criteria-${index}-zips`}
+              defaultValue={(profile.allowedZips ?? []).join(", ")}
+              onBlur={(e) => {
+                const zips = e.target.value
+                  .split(",")
+                  .map((zip) => zip.trim())
+                  .filter(Boolean);
+                updateProfile(index, {
+                  allowedZips: zips.length > 0 ? zips : undefined,
+                });
+              }}
+              placeholder="33309, 33311"
+              className="h-9"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...profiles, createCriteriaProfile()])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Profile
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+// Compact pass/fail summary of a deal against an investment criteria profile
+import { Badge } from "./ui/badge";
+import { Check, X } from "lucide-react";
+import { CriteriaEvaluation } from "@calc/types";
+
+interface CriteriaScoreProps {
+  evaluation: CriteriaEvaluation;
+}
+
+export function CriteriaScore({ evaluation }: CriteriaScoreProps) {
+  const { results, passedCount, score } = evaluation;
+  const color =
+    score >= 100
+      ? "text-green-600 border-green-300"
+      : score >= 50
+      ? "text-orange-600 border-orange-300"
+      : "text-red-600 border-red-300";
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Badge variant="outline" className={`${color} text-xs`}>
+        {passedCount}/{results.length}
+      </Badge>
+      <div className="flex gap-0.5">
+        {results.map((result) => (
+          <span
+            key={result.key}
+            title={`${result.label}: ${result.actual} (target ${result.target})`}
+          >
+            {result.passed ? (
+              <Check className="h-3 w-3 text-green-600" />
+            ) : (
+              <X className="h-3 w-3 text-red-600" />
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+// Side-by-side comparison of 2-5 saved deals - inputs, every strategy's year-1 and
+// 10-year results, rehab exits and ARV support, best value per row highlighted
+import { Fragment, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Columns3, Download, Home } from "lucide-react";
+import { GlobalAssumptions, SavedDeal } from "@calc/types";
+import {
+  buildDealComparison,
+  formatComparisonValue,
+  getBestValueIndexes,
+} from "../utils/dealComparison";
+import { exportDealComparisonCSV } from "../utils/exportPresets";
+
+interface DealComparisonProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deals: SavedDeal[];
+  assumptions: GlobalAssumptions;
+  excludeVacancy: boolean;
+  onLoadDeal: (deal: SavedDeal) => void;
+}
+
+export function DealComparison({
+  open,
+  onOpenChange,
+  deals,
+  assumptions,
+  excludeVacancy,
+  onLoadDeal,
+}: DealComparisonProps) {
+  const sections = useMemo(
+    () => (open ? buildDealComparison(deals, assumptions, excludeVacancy) : []),
+    [open, deals, assumptions, excludeVacancy]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-7xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <div className="flex items-center justify-between gap-4 pr-6">
+            <div>
+              <DialogTitle className="flex items-center gap-2">
+                <Columns3 className="h-5 w-5 text-blue-600" />
+                Compare {deals.length} Deals
+              </DialogTitle>
+              <DialogDescription>
+                {excludeVacancy ? "Lender view (no vacancy)" : "Realistic view"}{" "}
+                • best value in each row highlighted
+              </DialogDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportDealComparisonCSV(deals, sections)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="overflow-auto flex-1">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]" />
+                {deals.map((deal) => {
+                  const photo =
+                    deal.photos?.find((p) => p.isPrimary) || deal.photos?.[0];
+                  return (
+                    <TableHead key={deal.id} className="align-top py-2">
+                      <button
+                        type="button"
+                        className="flex flex-col gap-1 text-left"
+                        onClick={() => {
+                          onLoadDeal(deal);
+                          onOpenChange(false);
+                        }}
+                        title="Open this deal"
+                      >
+                        {photo ? (
+                          <img
+                            src={photo.url}
+                            alt={deal.address}
+                            className="w-full h-24 object-cover rounded border border-border"
+                          />
+                        ) : (
+                          <div className="w-full h-24 rounded bg-muted flex items-center justify-center border border-border">
+                            <Home className="w-6 h-6 text-muted-foreground" />
+                          </div>
+                        )}
+                        <span className="text-sm font-medium text-foreground line-clamp-2">
+                          {deal.address || "No address"}
+                        </span>
+                      </button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section) => (
+                <Fragment key={section.title}>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell
+                      colSpan={deals.length + 1}
+                      className="font-semibold"
+                    >
+                      {section.title}
+                    </TableCell>
+                  </TableRow>
+                  {section.rows.map((row) => {
+                    const best = getBestValueIndexes(row);
+                    return (
+                      <TableRow key={`${section.title}-${row.label}`}>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {row.label}
+                        </TableCell>
+                        {row.values.map((value, index) => (
+                          <TableCell
+                            key={deals[index].id}
+                            className={`text-sm ${
+                              best.includes(index)
+                                ? "bg-green-50 text-green-700 font-semibold"
+                                : ""
+                            }`}
+                          >
+                            {formatComparisonValue(value, row.format)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
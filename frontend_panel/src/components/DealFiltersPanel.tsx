@@ -0,0 +1,308 @@
+// Server-side filters for the saved-deals table, with named filter sets
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Save, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { DealFilters, HoldStrategy, SavedDealFilter } from "@calc/types";
+import { OFFER_STRATEGY_LABELS } from "../utils/offerSolver";
+import {
+  countActiveFilters,
+  createSavedDealFilter,
+  loadSavedDealFilters,
+  saveSavedDealFilters,
+} from "../utils/dealFilters";
+
+interface DealFiltersPanelProps {
+  filters: DealFilters;
+  onChange: (filters: DealFilters) => void;
+  matchCount: number | null; // null while no filter is active
+  totalCount: number;
+}
+
+const FILTER_STRATEGIES: HoldStrategy[] = [
+  "ltr",
+  "houseHack",
+  "section8",
+  "airbnb",
+  "mtr",
+  "rehab",
+];
+
+type NumericFilter =
+  | "minCashFlow"
+  | "minDSCR"
+  | "minCapRate"
+  | "maxFundsGap"
+  | "minArvSpread"
+  | "minYearBuilt"
+  | "maxYearBuilt"
+  | "minStageAgeDays"
+  | "maxStageAgeDays";
+
+export function DealFiltersPanel({
+  filters,
+  onChange,
+  matchCount,
+  totalCount,
+}: DealFiltersPanelProps) {
+  const [savedFilters, setSavedFilters] = useState<SavedDealFilter[]>(
+    loadSavedDealFilters
+  );
+  const [savedFilterId, setSavedFilterId] = useState<string | null>(null);
+  const [filterName, setFilterName] = useState("");
+
+  const updateFilters = (changes: Partial<DealFilters>) => {
+    setSavedFilterId(null);
+    onChange({ ...filters, ...changes });
+  };
+
+  const updateSavedFilters = (next: SavedDealFilter[]) => {
+    setSavedFilters(next);
+    if (!saveSavedDealFilters(next)) {
+      toast.error("Failed to save filters");
+    }
+  };
+
+  const handleSaveFilter = () => {
+    if (!filterName.trim()) {
+      toast.error("Name the filter first");
+      return;
+    }
+    const saved = createSavedDealFilter(filterName, filters);
+    updateSavedFilters([...savedFilters, saved]);
+    setSavedFilterId(saved.id);
+    setFilterName("");
+    toast.success(`Saved filter "${saved.name}"`);
+  };
+
+  const handleApplySavedFilter = (id: string) => {
+    const saved = savedFilters.find((filter) => filter.id === id);
+    if (!saved) return;
+    onChange(saved.filters);
+    setSavedFilterId(id);
+  };
+
+  const handleDeleteSavedFilter = () => {
+    updateSavedFilters(
+      savedFilters.filter((filter) => filter.id !== savedFilterId)
+    );
+    setSavedFilterId(null);
+  };
+
+  // Blank input = not filtered
+  const numberField = (
+    field: NumericFilter,
+    label: string,
+    step: string,
+    placeholder: string = "Any"
+  ) => (
+    <div>
+      <Label htmlFor={`deal-filter-${field}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`deal-filter-${field}`}
+        type="number"
+        step={step}
+        placeholder={placeholder}
+        value={filters[field] ?? ""}
+        onChange={(e) =>
+          updateFilters({
+            [field]: e.target.value === "" ? undefined : Number(e.target.value),
+          })
+        }
+        className="h-9"
+      />
+    </div>
+  );
+
+  // Any / Yes / No
+  const booleanField = (field: "hasComps" | "hasPhotos", label: string) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Select
+        value={filters[field] === undefined ? "any" : String(filters[field])}
+        onValueChange={(value: string) =>
+          updateFilters({
+            [field]: value === "any" ? undefined : value === "true",
+          })
+        }
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Any</SelectItem>
+          <SelectItem value="true">Yes</SelectItem>
+          <SelectItem value="false">No</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="border rounded-lg p-4 mb-4 space-y-4 bg-muted/30">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div>
+          <Label className="text-xs">Metrics For</Label>
+          <Select
+            value={filters.strategy ?? "best"}
+            onValueChange={(value: string) =>
+              updateFilters({
+                strategy:
+                  value === "best" ? undefined : (value as HoldStrategy),
+              })
+            }
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="best">Best Strategy</SelectItem>
+              {FILTER_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {OFFER_STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {numberField("minCashFlow", "Min Cash Flow/mo ($)", "50")}
+        {numberField("minDSCR", "Min DSCR", "0.05")}
+        {numberField("minCapRate", "Min Cap Rate (%)", "0.1")}
+        {numberField("maxFundsGap", "Max Funds Gap ($)", "1000")}
+        {numberField("minArvSpread", "Min ARV Spread (%)", "1")}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div>
+          <Label htmlFor="deal-filter-zipCode" className="text-xs">
+            Zip Code
+          </Label>
+          <Input
+            id="deal-filter-zipCode"
+            inputMode="numeric"
+            maxLength={5}
+            placeholder="Any"
+            value={filters.zipCode ?? ""}
+            onChange={(e) =>
+              updateFilters({ zipCode: e.target.value.trim() || undefined })
+            }
+            className="h-9"
+          />
+        </div>
+        <div>
+          <Label htmlFor="deal-filter-city" className="text-xs">
+            City
+          </Label>
+          <Input
+            id="deal-filter-city"
+            placeholder="Any"
+            value={filters.city ?? ""}
+            onChange={(e) =>
+              updateFilters({ city: e.target.value || undefined })
+            }
+            className="h-9"
+          />
+        </div>
+        {numberField("minYearBuilt", "Min Year Built", "1", "Year")}
+        {numberField("maxYearBuilt", "Max Year Built", "1", "Year")}
+        {numberField("minStageAgeDays", "In Stage ≥ (days)", "1")}
+        {numberField("maxStageAgeDays", "In Stage ≤ (days)", "1")}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        {booleanField("hasComps", "Has Comps")}
+        {booleanField("hasPhotos", "Has Photos")}
+
+        <div>
+          <Label className="text-xs">Saved Filters</Label>
+          <Select
+            value={savedFilterId ?? ""}
+            onValueChange={handleApplySavedFilter}
+            disabled={savedFilters.length === 0}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue
+                placeholder={
+                  savedFilters.length === 0 ? "None saved" : "Apply..."
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {savedFilters.map((filter) => (
+                <SelectItem key={filter.id} value={filter.id}>
+                  {filter.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="deal-filter-name" className="text-xs">
+            Save Current As
+          </Label>
+          <Input
+            id="deal-filter-name"
+            placeholder="Filter name"
+            value={filterName}
+            onChange={(e) => setFilterName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSaveFilter()}
+            className="h-9"
+          />
+        </div>
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveFilter}
+            disabled={activeCount === 0}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          {savedFilterId && (
+            <Button variant="ghost" size="sm" onClick={handleDeleteSavedFilter}>
+              <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+              Delete
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSavedFilterId(null);
+              onChange({});
+            }}
+            disabled={activeCount === 0 && !filters.strategy}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {matchCount === null
+          ? `Showing all ${totalCount} deals`
+          : `${matchCount} of ${totalCount} deals match ${activeCount} ${
+              activeCount === 1 ? "filter" : "filters"
+            }`}{" "}
+        • Metric filters use each deal's last saved numbers
+      </p>
+    </div>
+  );
+}
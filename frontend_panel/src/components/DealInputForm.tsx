@@ -9,7 +9,7 @@ import {
   CardHeader,
   CardTitle,
 } from "./ui/card";
-import { DealInputs, UnitData } from "../types/deal";
+import { DealInputs, UnitData } from "@calc/types";
 import { ArrowLeft } from "lucide-react";
 import { Separator } from "./ui/separator";
 
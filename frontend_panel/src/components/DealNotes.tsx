@@ -1,7 +1,7 @@
 // src/components/DealNotes.tsx
 import React, { useState, useEffect } from "react";
 import { MessageSquare, Pin, Trash2, Send, Loader2 } from "lucide-react";
-import { TeamNote } from "../types/deal";
+import { TeamNote } from "@calc/types";
 import { dashboardService } from "../services/dashboard.service";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
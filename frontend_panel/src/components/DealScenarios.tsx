@@ -0,0 +1,244 @@
+// Deal scenarios - switch between named what-if variants of the deal and compare
+// every strategy across them side by side
+import { useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Check, GitBranch, Pencil, Plus, Trash2 } from "lucide-react";
+import { DealInputs, GlobalAssumptions, Strategy } from "@calc/types";
+import { formatCurrency, formatPercent } from "@calc/calculations";
+import { OFFER_STRATEGY_LABELS } from "../utils/offerSolver";
+import { compareScenarios } from "../utils/scenarios";
+
+interface DealScenariosProps {
+  deal: DealInputs; // The deal with every scenario's overrides, as it will be saved
+  activeScenarioId: string | null;
+  assumptions: GlobalAssumptions;
+  excludeVacancy: boolean;
+  onSwitch: (scenarioId: string | null) => void;
+  onAdd: (name: string) => void;
+  onRename: (scenarioId: string, name: string) => void;
+  onDelete: (scenarioId: string) => void;
+}
+
+export function DealScenarios({
+  deal,
+  activeScenarioId,
+  assumptions,
+  excludeVacancy,
+  onSwitch,
+  onAdd,
+  onRename,
+  onDelete,
+}: DealScenariosProps) {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const scenarios = deal.scenarios ?? [];
+
+  const comparison = useMemo(
+    () =>
+      scenarios.length > 0
+        ? compareScenarios(deal, assumptions, excludeVacancy)
+        : [],
+    [deal, assumptions, excludeVacancy]
+  );
+  const strategies = comparison.reduce<Strategy[]>(
+    (all, column) => [
+      ...all,
+      ...column.strategies
+        .map((metrics) => metrics.strategy)
+        .filter((strategy) => !all.includes(strategy)),
+    ],
+    []
+  );
+
+  const handleAdd = () => {
+    const name = newName.trim() || `Scenario ${scenarios.length + 1}`;
+    onAdd(name);
+    setNewName("");
+  };
+
+  const handleRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5 text-violet-600" />
+          <CardTitle>Scenarios</CardTitle>
+        </div>
+        <CardDescription>
+          Save what-if versions of this deal. Edits made while a scenario is
+          open only change that scenario; address, notes, photos and comps are
+          shared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant={activeScenarioId === null ? "default" : "outline"}
+            onClick={() => onSwitch(null)}
+          >
+            Base
+          </Button>
+          {scenarios.map((scenario) =>
+            editingId === scenario.id ? (
+              <div key={scenario.id} className="flex items-center gap-1">
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                  className="h-8 w-40"
+                  autoFocus
+                />
+                <Button size="sm" variant="ghost" onClick={handleRename}>
+                  <Check className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div key={scenario.id} className="flex items-center">
+                <Button
+                  size="sm"
+                  variant={
+                    activeScenarioId === scenario.id ? "default" : "outline"
+                  }
+                  onClick={() => onSwitch(scenario.id)}
+                >
+                  {scenario.name}
+                </Button>
+                {activeScenarioId === scenario.id && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditingId(scenario.id);
+                        setEditingName(scenario.name);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        if (
+                          window.confirm(`Delete scenario "${scenario.name}"?`)
+                        ) {
+                          onDelete(scenario.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-3 w-3 text-red-600" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            )
+          )}
+          <div className="flex items-center gap-1 ml-auto">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              placeholder="e.g., Heavy rehab at 150k"
+              className="h-8 w-48"
+            />
+            <Button size="sm" variant="outline" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-1" />
+              Save as Scenario
+            </Button>
+          </div>
+        </div>
+
+        {comparison.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  {comparison.map((column) => (
+                    <TableHead
+                      key={column.scenarioId ?? "base"}
+                      className={`text-right ${
+                        column.scenarioId === activeScenarioId
+                          ? "text-violet-700"
+                          : ""
+                      }`}
+                    >
+                      {column.name}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {strategies.map((strategy) => (
+                  <TableRow key={strategy}>
+                    <TableCell>{OFFER_STRATEGY_LABELS[strategy]}</TableCell>
+                    {comparison.map((column) => {
+                      const metrics = column.strategies.find(
+                        (m) => m.strategy === strategy
+                      );
+                      return (
+                        <TableCell
+                          key={column.scenarioId ?? "base"}
+                          className="text-right"
+                        >
+                          {metrics ? (
+                            <>
+                              <div
+                                className={
+                                  metrics.annualCashFlow >= 0
+                                    ? "text-green-600"
+                                    : "text-red-600"
+                                }
+                              >
+                                {strategy === "flip"
+                                  ? `${formatCurrency(metrics.annualCashFlow)} profit`
+                                  : `${formatCurrency(
+                                      metrics.annualCashFlow / 12
+                                    )}/mo`}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatPercent(metrics.cashOnCash)}{" "}
+                                {strategy === "flip" ? "ROI" : "CoC"} on{" "}
+                                {formatCurrency(metrics.cashInvested)}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+// Year 1 operating expenses by line (taxes, insurance and each itemized expense)
+import { ExpenseBreakdownItem } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+
+interface ExpenseBreakdownListProps {
+  items: ExpenseBreakdownItem[];
+}
+
+export function ExpenseBreakdownList({ items }: ExpenseBreakdownListProps) {
+  const nonZero = items.filter((item) => item.amount !== 0);
+  if (nonZero.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t">
+      <p className="text-sm text-muted-foreground mb-2">Expense Breakdown</p>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 text-sm">
+        {nonZero.map((item) => (
+          <div key={item.key} className="flex justify-between">
+            <span className="text-muted-foreground">{item.label}</span>
+            <span>{formatCurrency(item.amount)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
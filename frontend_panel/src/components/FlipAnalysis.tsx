@@ -0,0 +1,323 @@
+// Fix & flip results - holding period, rehab draw schedule, profit and the 70% rule
+import { useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { TrendingUp } from "lucide-react";
+import { DealInputs } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  calculateFlip,
+  DEFAULT_FLIP_DRAW_POINTS_PERCENT,
+  FLIP_RULE_PERCENT,
+} from "@calc/flipCalculations";
+
+interface FlipAnalysisProps {
+  inputs: DealInputs;
+  onChange: (changes: Partial<DealInputs>) => void;
+}
+
+export function FlipAnalysis({ inputs, onChange }: FlipAnalysisProps) {
+  const flip = useMemo(() => calculateFlip(inputs), [inputs]);
+
+  // One draw input per rehab month (or per custom entry if the schedule is longer)
+  const customSchedule = inputs.flipDrawSchedule ?? [];
+  const rehabMonths = Math.max(1, Math.round(inputs.rehabMonths || 0));
+  const drawMonths = Math.max(rehabMonths, customSchedule.length);
+  const hasCustomSchedule = customSchedule.some((percent) => percent > 0);
+  const drawPercents = Array.from({ length: drawMonths }, (_, i) =>
+    hasCustomSchedule
+      ? customSchedule[i] ?? 0
+      : i < rehabMonths
+      ? Number((100 / rehabMonths).toFixed(1))
+      : 0
+  );
+  const drawTotal = drawPercents.reduce((total, percent) => total + percent, 0);
+
+  const updateDraw = (index: number, percent: number) => {
+    onChange({
+      flipDrawSchedule: drawPercents.map((value, i) =>
+        i === index ? percent : value
+      ),
+    });
+  };
+
+  const costRows: { label: string; amount: number }[] = [
+    { label: "Cash at Closing", amount: flip.cashAtClosing },
+    {
+      label: "Unfinanced Rehab",
+      amount: flip.months.reduce(
+        (total, row) => total + row.draw - row.financedDraw,
+        0
+      ),
+    },
+    { label: "Draw Points", amount: flip.totalDrawPoints },
+    { label: "Loan Interest", amount: flip.totalInterest },
+    { label: "Taxes & Insurance", amount: flip.totalTaxesInsurance },
+    { label: "Staging", amount: flip.stagingCost },
+    { label: "Total Cash Invested", amount: flip.totalCashInvested },
+  ];
+
+  const saleRows: { label: string; amount: number }[] = [
+    { label: "Sale Price (ARV)", amount: flip.salePrice },
+    { label: "Listing & Selling Costs", amount: -flip.sellingCosts },
+    { label: "Loan Payoff", amount: -flip.totalLoan },
+    { label: "Net Sale Proceeds", amount: flip.netSaleProceeds },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-emerald-600" />
+          <CardTitle>Fix & Flip</CardTitle>
+        </div>
+        <CardDescription>
+          Bridge loan at {inputs.bridgeLTC}% of the purchase and{" "}
+          {inputs.bridgeRehabBudgetPercent}% of each rehab draw, sold at ARV in
+          month {flip.holdingMonths}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="flipHoldingMonths">Holding Period (months)</Label>
+            <Input
+              id="flipHoldingMonths"
+              type="number"
+              min="1"
+              step="1"
+              value={inputs.flipHoldingMonths ?? flip.holdingMonths}
+              onChange={(e) =>
+                onChange({ flipHoldingMonths: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="flipDrawPointsPercent">Points per Draw (%)</Label>
+            <Input
+              id="flipDrawPointsPercent"
+              type="number"
+              min="0"
+              step="0.25"
+              value={
+                inputs.flipDrawPointsPercent ?? DEFAULT_FLIP_DRAW_POINTS_PERCENT
+              }
+              onChange={(e) =>
+                onChange({ flipDrawPointsPercent: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="flipStagingCost">Staging & Listing Prep ($)</Label>
+            <Input
+              id="flipStagingCost"
+              type="number"
+              min="0"
+              step="500"
+              value={inputs.flipStagingCost ?? 0}
+              onChange={(e) =>
+                onChange({ flipStagingCost: Number(e.target.value) })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Draw Schedule (% of rehab budget per month)</Label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  onChange({ flipDrawSchedule: [...drawPercents, 0] })
+                }
+              >
+                Add Month
+              </Button>
+              {hasCustomSchedule && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ flipDrawSchedule: undefined })}
+                >
+                  Even Draws
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+            {drawPercents.map((percent, index) => (
+              <div key={index}>
+                <Label htmlFor={`flipDraw-${index}`} className="text-xs">
+                  Month {index + 1}
+                </Label>
+                <Input
+                  id={`flipDraw-${index}`}
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={percent}
+                  onChange={(e) => updateDraw(index, Number(e.target.value))}
+                  className="h-9"
+                />
+              </div>
+            ))}
+          </div>
+          {Math.abs(drawTotal - 100) > 0.5 && (
+            <p className="text-xs text-orange-600">
+              Draws total {drawTotal.toFixed(1)}% - each month is scaled so the
+              full rehab budget is drawn.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Net Profit</p>
+            <p
+              className={`text-lg font-semibold ${
+                flip.netProfit >= 0 ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {formatCurrency(flip.netProfit)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">ROI</p>
+            <p className="text-lg font-semibold">{flip.roi.toFixed(1)}%</p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Annualized ROI</p>
+            <p className="text-lg font-semibold">
+              {flip.annualizedRoi.toFixed(1)}%
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              {FLIP_RULE_PERCENT}% Rule Max Offer
+            </p>
+            <div className="flex items-center gap-2">
+              <p className="text-lg font-semibold">
+                {formatCurrency(flip.maxAllowableOffer)}
+              </p>
+              <Badge
+                variant="outline"
+                className={
+                  flip.passes70Rule
+                    ? "text-green-600 border-green-300"
+                    : "text-red-600 border-red-300"
+                }
+              >
+                {flip.passes70Rule ? "Pass" : "Fail"}
+              </Badge>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cash In</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {costRows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell className="text-sm">{row.label}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Exit</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {saleRows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell className="text-sm">{row.label}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Draw</TableHead>
+              <TableHead className="text-right">Financed</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Interest</TableHead>
+              <TableHead className="text-right">Taxes & Ins.</TableHead>
+              <TableHead className="text-right">Staging</TableHead>
+              <TableHead className="text-right">Cash Out</TableHead>
+              <TableHead className="text-right">Loan Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flip.months.map((row) => (
+              <TableRow key={row.month}>
+                <TableCell>{row.month}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.draw)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.financedDraw)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.drawPoints)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.interest)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.taxesInsurance)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.otherCosts)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.cashOutlay)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.loanBalance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+// House hack financing - owner-occupied loan program, which unit the owner lives in
+// and what living there costs before moving out in year 2
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { KeyRound } from "lucide-react";
+import {
+  DealInputs,
+  HouseHackLoanProgram,
+  StrategyResults,
+} from "@calc/types";
+import {
+  formatCurrency,
+  HOUSE_HACK_LOAN_PROGRAMS,
+} from "@calc/calculations";
+
+interface HouseHackAnalysisProps {
+  inputs: DealInputs;
+  results: StrategyResults;
+  onChange: (changes: Partial<DealInputs>) => void;
+}
+
+export function HouseHackAnalysis({
+  inputs,
+  results,
+  onChange,
+}: HouseHackAnalysisProps) {
+  const houseHack = results.houseHack;
+  if (!houseHack) return null;
+
+  const program = HOUSE_HACK_LOAN_PROGRAMS[houseHack.loanProgram];
+  const savingsVsRenting =
+    houseHack.ownerUnitRent - houseHack.effectiveHousingCost;
+
+  const summaryRows: { label: string; amount: number; suffix?: string }[] = [
+    { label: "Down Payment", amount: houseHack.downPayment },
+    {
+      label: "Upfront MIP (financed)",
+      amount: houseHack.upfrontMortgageInsurance,
+    },
+    { label: "Loan Amount", amount: houseHack.loanAmount },
+    {
+      label: houseHack.loanProgram === "fha" ? "Monthly MIP" : "Monthly PMI",
+      amount: houseHack.monthlyMortgageInsurance,
+      suffix: "/mo",
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-amber-600" />
+          <CardTitle>Owner-Occupied Financing</CardTitle>
+        </div>
+        <CardDescription>
+          Live in Unit {houseHack.ownerUnitIndex + 1} for the first year on a{" "}
+          {program.label} 30-year fixed loan, then move out and rent it at{" "}
+          {formatCurrency(houseHack.ownerUnitRent)}/mo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <Label>Loan Program</Label>
+            <Select
+              value={houseHack.loanProgram}
+              onValueChange={(loanProgram: HouseHackLoanProgram) =>
+                onChange({ houseHackLoanProgram: loanProgram })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(
+                    HOUSE_HACK_LOAN_PROGRAMS
+                  ) as HouseHackLoanProgram[]
+                ).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {HOUSE_HACK_LOAN_PROGRAMS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Owner's Unit</Label>
+            <Select
+              value={String(houseHack.ownerUnitIndex)}
+              onValueChange={(value: string) =>
+                onChange({ houseHackOwnerUnit: Number(value) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inputs.unitDetails.map((unit, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    Unit {index + 1} - {unit.beds}bd/{unit.baths}ba
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="houseHackInterestRate">Interest Rate (%)</Label>
+            <Input
+              id="houseHackInterestRate"
+              type="number"
+              min="0"
+              step="0.125"
+              value={inputs.houseHackInterestRate ?? inputs.loanInterestRate}
+              onChange={(e) =>
+                onChange({ houseHackInterestRate: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="houseHackMortgageInsurancePercent">
+              Annual {houseHack.loanProgram === "fha" ? "MIP" : "PMI"} (%)
+            </Label>
+            <Input
+              id="houseHackMortgageInsurancePercent"
+              type="number"
+              min="0"
+              step="0.05"
+              value={
+                inputs.houseHackMortgageInsurancePercent ??
+                program.annualPremiumPercent
+              }
+              onChange={(e) =>
+                onChange({
+                  houseHackMortgageInsurancePercent: Number(e.target.value),
+                })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              Effective Housing Cost
+            </p>
+            <p
+              className={`text-lg font-semibold ${
+                houseHack.effectiveHousingCost <= 0 ? "text-green-600" : ""
+              }`}
+            >
+              {formatCurrency(houseHack.effectiveHousingCost)}/mo
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Savings vs Renting</p>
+            <p
+              className={`text-lg font-semibold ${
+                savingsVsRenting >= 0 ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {formatCurrency(savingsVsRenting)}/mo
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              Cash Flow After Move-Out (Year 2)
+            </p>
+            <p
+              className={`text-lg font-semibold ${
+                houseHack.cashFlowAfterMoveOut >= 0
+                  ? "text-green-600"
+                  : "text-red-600"
+              }`}
+            >
+              {formatCurrency(houseHack.cashFlowAfterMoveOut / 12)}/mo
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Cash to Close</p>
+            <p className="text-lg font-semibold">
+              {formatCurrency(results.cashInvested)}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          {summaryRows.map((row) => (
+            <div key={row.label}>
+              <p className="text-muted-foreground">{row.label}</p>
+              <p className="font-semibold">
+                {formatCurrency(row.amount)}
+                {row.suffix}
+              </p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {houseHack.mortgageInsuranceEndMonth
+            ? `PMI drops off after month ${houseHack.mortgageInsuranceEndMonth} once the balance reaches ${program.cancelAtLTVPercent}% of the purchase price.`
+            : "MIP is paid for the life of the loan - refinance out of FHA to remove it."}{" "}
+          Year 1 below excludes the owner's unit rent; from year 2 every unit is
+          rented.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
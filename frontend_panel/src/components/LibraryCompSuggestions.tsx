@@ -0,0 +1,207 @@
+// Sold comps from the shared library (saved on other deals) near the subject
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Library, Loader2, Plus } from "lucide-react";
+import { formatCurrency } from "@calc/calculations";
+import { dashboardService } from "../services/dashboard.service";
+import { LibraryComp } from "../types/service";
+
+const RADIUS_OPTIONS = [0.5, 1, 2, 3];
+const MONTH_OPTIONS = [3, 6, 12];
+
+interface LibraryCompSuggestionsProps {
+  subjectLat?: number;
+  subjectLng?: number;
+  existingComps: { address: string; libraryId?: string }[];
+  onAdd: (comps: LibraryComp[]) => void;
+}
+
+export function LibraryCompSuggestions({
+  subjectLat,
+  subjectLng,
+  existingComps,
+  onAdd,
+}: LibraryCompSuggestionsProps) {
+  const [radiusMiles, setRadiusMiles] = useState(1);
+  const [months, setMonths] = useState(6);
+  const [libraryComps, setLibraryComps] = useState<LibraryComp[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!subjectLat || !subjectLng) {
+      setLibraryComps([]);
+      return;
+    }
+    loadComps(subjectLat, subjectLng);
+  }, [subjectLat, subjectLng, radiusMiles, months]);
+
+  const loadComps = async (lat: number, lng: number) => {
+    try {
+      setLoading(true);
+      const response = await dashboardService.getNearbyComps({
+        lat,
+        lng,
+        radiusMiles,
+        months,
+      });
+      setLibraryComps(response.data);
+    } catch (error) {
+      console.error("Failed to load library comps:", error);
+      setLibraryComps([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hide comps already on this deal
+  const usedIds = new Set(existingComps.map((comp) => comp.libraryId));
+  const usedAddresses = new Set(
+    existingComps.map((comp) => comp.address.toLowerCase().trim())
+  );
+  const suggestions = libraryComps.filter(
+    (comp) =>
+      !usedIds.has(comp.id) &&
+      !usedAddresses.has(comp.address.toLowerCase().trim())
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Library className="h-5 w-5" />
+              Comp Library
+            </CardTitle>
+            <CardDescription>
+              Sold comps already saved on other deals near this subject
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={String(radiusMiles)}
+              onValueChange={(value: string) => setRadiusMiles(Number(value))}
+            >
+              <SelectTrigger className="h-9 w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS.map((radius) => (
+                  <SelectItem key={radius} value={String(radius)}>
+                    {radius} mi
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(months)}
+              onValueChange={(value: string) => setMonths(Number(value))}
+            >
+              <SelectTrigger className="h-9 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    Last {option} mo
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => onAdd(suggestions)}
+              disabled={suggestions.length === 0}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add All
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!subjectLat || !subjectLng ? (
+          <p className="text-sm text-muted-foreground">
+            Locate the subject property on the map to see library comps nearby.
+          </p>
+        ) : loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No other library comps sold within {radiusMiles} mi in the last{" "}
+            {months} months.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Address</TableHead>
+                <TableHead className="text-right">Sold Price</TableHead>
+                <TableHead>Sold Date</TableHead>
+                <TableHead className="text-center">Bd/Ba</TableHead>
+                <TableHead className="text-right">Sqft</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((comp) => (
+                <TableRow key={comp.id}>
+                  <TableCell className="max-w-[220px] truncate">
+                    {comp.address}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(comp.soldPrice)}
+                  </TableCell>
+                  <TableCell>{comp.soldDate}</TableCell>
+                  <TableCell className="text-center">
+                    {comp.beds}/{comp.baths}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {comp.sqft.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {comp.distanceMiles?.toFixed(2)} mi
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onAdd([comp])}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,7 +12,7 @@ import {
   SelectValue,
 } from "./ui/select";
 import { Plus, Trash2, GripVertical, FileText } from "lucide-react";
-import { formatCurrency, parseCurrency } from "../utils/calculations";
+import { formatCurrency, parseCurrency } from "@calc/calculations";
 
 export interface LineItem {
   id: string;
@@ -0,0 +1,134 @@
+// Loan structure selector for the long-term (DSCR) loan - fixed, IO, ARM, balloon, seller financing
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { LoanStructure, LoanType } from "@calc/types";
+
+interface LoanStructureFormProps {
+  structure?: LoanStructure;
+  onChange: (structure: LoanStructure) => void;
+}
+
+const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  fixed: "Fixed Rate",
+  "interest-only": "Interest-Only Period",
+  arm: "Adjustable (ARM)",
+  balloon: "Balloon Note",
+  seller: "Seller Financing",
+};
+
+// Sensible starting values when switching loan types
+const LOAN_TYPE_DEFAULTS: Record<LoanType, Partial<LoanStructure>> = {
+  fixed: {},
+  "interest-only": { interestOnlyYears: 5 },
+  arm: {
+    armInitialFixedYears: 7,
+    armAdjustmentIntervalYears: 1,
+    armPeriodicCap: 2,
+    armLifetimeCap: 5,
+  },
+  balloon: { balloonYears: 7 },
+  seller: { interestOnlyYears: 5, balloonYears: 5 },
+};
+
+export function LoanStructureForm({
+  structure,
+  onChange,
+}: LoanStructureFormProps) {
+  const current: LoanStructure = structure ?? { type: "fixed" };
+
+  const update = (field: keyof LoanStructure, value: number | undefined) => {
+    onChange({ ...current, [field]: value });
+  };
+
+  const numberField = (
+    field: keyof LoanStructure,
+    label: string,
+    step = "1",
+    hint?: string
+  ) => (
+    <div>
+      <Label htmlFor={`loan-${field}`}>{label}</Label>
+      <Input
+        id={`loan-${field}`}
+        type="number"
+        min="0"
+        step={step}
+        value={(current[field] as number | undefined) ?? ""}
+        onChange={(e) =>
+          update(
+            field,
+            e.target.value === "" ? undefined : Number(e.target.value)
+          )
+        }
+      />
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+
+  return (
+    <div className="col-span-2 space-y-3">
+      <div>
+        <Label htmlFor="loanType">Loan Structure</Label>
+        <Select
+          value={current.type}
+          onValueChange={(type: LoanType) =>
+            onChange({ type, ...LOAN_TYPE_DEFAULTS[type] })
+          }
+        >
+          <SelectTrigger id="loanType">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LOAN_TYPE_LABELS) as LoanType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {LOAN_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {current.type !== "fixed" && (
+        <div className="grid grid-cols-2 gap-4">
+          {numberField(
+            "interestOnlyYears",
+            "Interest-Only (years)",
+            "1",
+            "Amortizes over the remaining term after IO ends"
+          )}
+          {current.type === "arm" && (
+            <>
+              {numberField("armInitialFixedYears", "Initial Fixed (years)")}
+              {numberField(
+                "armAdjustmentIntervalYears",
+                "Adjusts Every (years)"
+              )}
+              {numberField(
+                "armFullyIndexedRate",
+                "Rate at Reset (%)",
+                "0.01",
+                "Expected index + margin"
+              )}
+              {numberField("armPeriodicCap", "Periodic Cap (pts)", "0.25")}
+              {numberField("armLifetimeCap", "Lifetime Cap (pts)", "0.25")}
+            </>
+          )}
+          {(current.type === "balloon" || current.type === "seller") &&
+            numberField(
+              "balloonYears",
+              "Balloon Due (years)",
+              "1",
+              "Remaining balance paid off in full"
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -62,9 +62,16 @@ export interface MapProperty {
   lng?: number;
 }
 
+// Popup and legend wording for sold comps vs rental listings
+const COMP_LABELS = {
+  sale: { plural: "Comparable Sales", price: "Sold Price", date: "Sale Date" },
+  rental: { plural: "Rental Comps", price: "Rent/mo", date: "Listed" },
+};
+
 interface MapSectionProps {
   subjectProperty?: MapProperty;
   comps: MapProperty[];
+  compType?: keyof typeof COMP_LABELS; // Defaults to sale
   onGeocodeComplete?: (
     properties: Map<string, { lat: number; lng: number }>
   ) => void;
@@ -75,6 +82,7 @@ interface MapSectionProps {
 export function MapSection({
   subjectProperty,
   comps,
+  compType = "sale",
   onGeocodeComplete,
   hoveredCompId,
   onCompHover,
@@ -87,6 +95,7 @@ export function MapSection({
   >(new Map());
   const [mapReady, setMapReady] = useState(false);
   const markersRef = useRef<L.Marker[]>([]);
+  const labels = COMP_LABELS[compType];
 
   // Track previous values to prevent unnecessary marker recreation
   const prevDataRef = useRef<string>("");
@@ -551,13 +560,13 @@ export function MapSection({
               ${distanceText}
               <div style="border-top: 1px solid #e2e8f0; padding-top: 8px;">
                 <div style="margin-bottom: 4px; font-size: 13px;">
-                  <strong>Sold Price:</strong> ${
+                  <strong>${labels.price}:</strong> ${
                     comp.price?.toLocaleString() || "N/A"
                   } ${priceDiff}
                 </div>
                 ${
                   comp.soldDate
-                    ? `<div style="margin-bottom: 4px; font-size: 13px;"><strong>Sale Date:</strong> ${comp.soldDate}</div>`
+                    ? `<div style="margin-bottom: 4px; font-size: 13px;"><strong>${labels.date}:</strong> ${comp.soldDate}</div>`
                     : ""
                 }
                 <div style="margin-bottom: 4px; font-size: 13px;">
@@ -620,7 +629,7 @@ export function MapSection({
 
     console.log(`=== MARKERS CREATED: ${markersRef.current.length} ===`);
     console.log("================");
-  }, [subjectProperty, comps, geocodedProperties, mapReady]); // Deps trigger check, but ref prevents recreation
+  }, [subjectProperty, comps, geocodedProperties, mapReady, labels]); // Deps trigger check, but ref prevents recreation
 
   // Check if we need geocoding
   const needsGeocoding = () => {
@@ -701,7 +710,8 @@ export function MapSection({
               Property Location Map
             </CardTitle>
             <CardDescription>
-              Visual comparison of subject property and comparable sales
+              Visual comparison of subject property and{" "}
+              {labels.plural.toLowerCase()}
               {coordCount > 0 &&
                 ` • Showing ${coordCount} of ${totalProperties} ${
                   totalProperties === 1 ? "property" : "properties"
@@ -801,7 +811,7 @@ export function MapSection({
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-red-600 rounded-full border-2 border-white shadow"></div>
                   <span>
-                    Comparable Sales (
+                    {labels.plural} (
                     {
                       comps.filter(
                         (c) => c.lat || geocodedProperties.has(c.address)
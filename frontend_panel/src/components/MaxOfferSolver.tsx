@@ -0,0 +1,167 @@
+// Reverse solver - highest purchase price per strategy that meets the return targets
+import { useMemo, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Lock, Target } from "lucide-react";
+import { DealInputs, GlobalAssumptions, OfferTargets } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  DEFAULT_OFFER_TARGETS,
+  OFFER_STRATEGY_LABELS,
+  OFFER_TARGET_LABELS,
+  solveMaxOffers,
+} from "../utils/offerSolver";
+
+interface MaxOfferSolverProps {
+  inputs: DealInputs;
+  assumptions: GlobalAssumptions;
+  onLockMaxOffer: (price: number) => void;
+}
+
+export function MaxOfferSolver({
+  inputs,
+  assumptions,
+  onLockMaxOffer,
+}: MaxOfferSolverProps) {
+  const [targets, setTargets] = useState<OfferTargets>(DEFAULT_OFFER_TARGETS);
+
+  const solutions = useMemo(
+    () => solveMaxOffers(inputs, assumptions, targets),
+    [inputs, assumptions, targets]
+  );
+
+  // Blank input = target switched off
+  const targetInput = (field: keyof OfferTargets, step: string) => (
+    <div>
+      <Label htmlFor={`target-${field}`} className="text-xs">
+        {OFFER_TARGET_LABELS[field]}
+      </Label>
+      <Input
+        id={`target-${field}`}
+        type="number"
+        min="0"
+        step={step}
+        value={targets[field] ?? ""}
+        placeholder="Off"
+        onChange={(e) =>
+          setTargets((prev) => ({
+            ...prev,
+            [field]: e.target.value === "" ? undefined : Number(e.target.value),
+          }))
+        }
+        className="h-9"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-amber-600" />
+          <CardTitle>Max Offer Solver</CardTitle>
+        </div>
+        <CardDescription>
+          Highest purchase price that still meets every target, by strategy
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {targetInput("minDscr", "0.05")}
+          {targetInput("minCashOnCash", "0.5")}
+          {targetInput("minMonthlyCashFlowPerUnit", "25")}
+          {targetInput("flipRulePercent", "1")}
+          {targetInput("minFlipProfit", "1000")}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Strategy</TableHead>
+              <TableHead className="text-right">Max Offer</TableHead>
+              <TableHead className="text-right">vs Purchase Price</TableHead>
+              <TableHead>Limited By</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {solutions.map((solution) => (
+              <TableRow key={solution.strategy}>
+                <TableCell>
+                  {OFFER_STRATEGY_LABELS[solution.strategy]}
+                </TableCell>
+                <TableCell className="text-right font-semibold">
+                  {solution.status === "solved" && solution.maxPrice !== null
+                    ? formatCurrency(solution.maxPrice)
+                    : solution.status === "unbounded"
+                    ? "Any price"
+                    : "Not achievable"}
+                </TableCell>
+                <TableCell
+                  className={`text-right ${
+                    solution.maxPrice !== null &&
+                    solution.maxPrice >= inputs.purchasePrice
+                      ? "text-green-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {solution.maxPrice !== null
+                    ? `${
+                        solution.maxPrice >= inputs.purchasePrice ? "+" : "-"
+                      }${formatCurrency(
+                        Math.abs(solution.maxPrice - inputs.purchasePrice)
+                      )}`
+                    : "—"}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {solution.bindingConstraints.map((constraint) => (
+                      <Badge key={constraint} variant="outline">
+                        {OFFER_TARGET_LABELS[constraint]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {solution.maxPrice !== null && (
+                    <Button
+                      size="sm"
+                      variant={
+                        inputs.maxOffer === solution.maxPrice
+                          ? "default"
+                          : "outline"
+                      }
+                      onClick={() => onLockMaxOffer(solution.maxPrice!)}
+                    >
+                      <Lock className="h-3 w-3 mr-1" />
+                      {inputs.maxOffer === solution.maxPrice
+                        ? "Locked"
+                        : "Lock as Max Offer"}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+// Monte Carlo risk simulation for one strategy - distributions in, P10/P50/P90 and risk odds out
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Dices, Loader2, X } from "lucide-react";
+import { SimulationBandChart } from "./charts/SimulationBandChart";
+import {
+  AssumptionDistribution,
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  SimulationVariable,
+} from "@calc/types";
+import {
+  DEFAULT_SIMULATION_TRIALS,
+  getDefaultDistributions,
+  SIMULATION_VARIABLE_LABELS,
+} from "../utils/monteCarlo";
+import { formatCurrency } from "@calc/calculations";
+import { useMonteCarloSimulation } from "../hooks/useMonteCarloSimulation";
+
+interface MonteCarloSimulationProps {
+  strategy: HoldStrategy;
+  inputs: DealInputs;
+  assumptions: GlobalAssumptions;
+  excludeVacancy: boolean;
+  holdYears: number;
+}
+
+const DISTRIBUTION_LABELS: Record<AssumptionDistribution["kind"], string> = {
+  fixed: "Fixed",
+  range: "Range (min-max)",
+  normal: "Normal (mean ± sd)",
+};
+
+export function MonteCarloSimulation({
+  strategy,
+  inputs,
+  assumptions,
+  excludeVacancy,
+  holdYears,
+}: MonteCarloSimulationProps) {
+  const [distributions, setDistributions] = useState(() =>
+    getDefaultDistributions(strategy, assumptions)
+  );
+  const [trials, setTrials] = useState(DEFAULT_SIMULATION_TRIALS);
+  const [seed, setSeed] = useState(12345);
+  const { run, cancel, running, completedTrials, results, error } =
+    useMonteCarloSimulation();
+
+  const updateDistribution = (
+    variable: SimulationVariable,
+    changes: Partial<AssumptionDistribution>
+  ) => {
+    setDistributions((prev) => ({
+      ...prev,
+      [variable]: { ...prev[variable], ...changes },
+    }));
+  };
+
+  const handleRun = () => {
+    run({
+      strategy,
+      inputs,
+      assumptions,
+      excludeVacancy,
+      config: { trials, seed, holdYears, distributions },
+    });
+  };
+
+  const numberInput = (
+    variable: SimulationVariable,
+    field: "min" | "max" | "mean" | "stdDev",
+    label: string
+  ) => (
+    <div>
+      <Label htmlFor={`mc-${variable}-${field}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`mc-${variable}-${field}`}
+        type="number"
+        step="0.1"
+        value={distributions[variable][field] ?? 0}
+        onChange={(e) =>
+          updateDistribution(variable, { [field]: Number(e.target.value) })
+        }
+        className="h-9"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Monte Carlo Risk Simulation</CardTitle>
+        <CardDescription>
+          Runs the {holdYears}-year projection thousands of times with
+          randomized growth, vacancy and insurance assumptions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Distributions */}
+        <div className="space-y-3">
+          {(Object.keys(distributions) as SimulationVariable[]).map(
+            (variable) => {
+              const distribution = distributions[variable];
+              return (
+                <div
+                  key={variable}
+                  className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end"
+                >
+                  <div>
+                    <Label className="text-xs">
+                      {SIMULATION_VARIABLE_LABELS[variable]}
+                    </Label>
+                    <Select
+                      value={distribution.kind}
+                      onValueChange={(kind: AssumptionDistribution["kind"]) =>
+                        updateDistribution(variable, { kind })
+                      }
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(
+                          Object.keys(
+                            DISTRIBUTION_LABELS
+                          ) as AssumptionDistribution["kind"][]
+                        ).map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {DISTRIBUTION_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {distribution.kind === "fixed" &&
+                    numberInput(variable, "mean", "Value")}
+                  {distribution.kind === "range" && (
+                    <>
+                      {numberInput(variable, "min", "Min")}
+                      {numberInput(variable, "max", "Max")}
+                    </>
+                  )}
+                  {distribution.kind === "normal" && (
+                    <>
+                      {numberInput(variable, "mean", "Mean")}
+                      {numberInput(variable, "stdDev", "Std Dev")}
+                    </>
+                  )}
+                </div>
+              );
+            }
+          )}
+        </div>
+
+        {/* Run controls */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="mc-trials" className="text-xs">
+              Trials
+            </Label>
+            <Input
+              id="mc-trials"
+              type="number"
+              min="100"
+              max="20000"
+              step="100"
+              value={trials}
+              onChange={(e) => setTrials(Number(e.target.value))}
+              className="h-9 w-28"
+            />
+          </div>
+          <div>
+            <Label htmlFor="mc-seed" className="text-xs">
+              Seed
+            </Label>
+            <Input
+              id="mc-seed"
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(Number(e.target.value))}
+              className="h-9 w-28"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDistributions(getDefaultDistributions(strategy, assumptions))
+            }
+            disabled={running}
+          >
+            Reset Distributions
+          </Button>
+          {running ? (
+            <Button variant="outline" onClick={cancel}>
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={handleRun}>
+              <Dices className="h-4 w-4 mr-2" />
+              Run Simulation
+            </Button>
+          )}
+        </div>
+
+        {running && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {completedTrials.toLocaleString()} / {trials.toLocaleString()}{" "}
+              trials
+            </div>
+            <Progress value={(completedTrials / Math.max(1, trials)) * 100} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Results */}
+        {results && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">P10 Cash Flow</p>
+                <p className="font-semibold">
+                  {formatCurrency(results.averageCashFlow.p10)}/yr
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">P50 Cash Flow</p>
+                <p className="font-semibold">
+                  {formatCurrency(results.averageCashFlow.p50)}/yr
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">P90 Cash Flow</p>
+                <p className="font-semibold">
+                  {formatCurrency(results.averageCashFlow.p90)}/yr
+                </p>
+              </div>
+              <div
+                className={`rounded p-2 ${
+                  results.probabilityNegativeCashFlow > 10
+                    ? "bg-red-50 border border-red-200"
+                    : ""
+                }`}
+              >
+                <p className="text-xs text-muted-foreground">
+                  P(Negative Cash Flow)
+                </p>
+                <p className="font-semibold">
+                  {results.probabilityNegativeCashFlow.toFixed(1)}%
+                </p>
+              </div>
+              <div
+                className={`rounded p-2 ${
+                  results.probabilityDscrBelowOne > 10
+                    ? "bg-red-50 border border-red-200"
+                    : ""
+                }`}
+              >
+                <p className="text-xs text-muted-foreground">
+                  P(DSCR &lt; 1.0)
+                </p>
+                <p className="font-semibold">
+                  {results.probabilityDscrBelowOne.toFixed(1)}%
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Cash flow figures are the average annual cash flow over{" "}
+              {results.holdYears} years; risk odds count trials where any year
+              falls short. Seed {results.seed} reproduces this run.
+            </p>
+            <SimulationBandChart results={results} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
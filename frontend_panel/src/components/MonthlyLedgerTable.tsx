@@ -0,0 +1,105 @@
+// Month-by-month cash-flow ledger (rent, vacancy, opex, reserves, debt service and refi events)
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Badge } from "./ui/badge";
+import { LedgerEvent, MonthlyLedgerEntry } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+
+interface MonthlyLedgerTableProps {
+  entries: MonthlyLedgerEntry[];
+}
+
+const EVENT_BADGES: Record<LedgerEvent, { label: string; className: string }> =
+  {
+    rehab: { label: "Rehab", className: "bg-orange-100 text-orange-800" },
+    refi: { label: "Refi", className: "bg-blue-100 text-blue-800" },
+    balloon: { label: "Balloon", className: "bg-red-100 text-red-800" },
+  };
+
+export function MonthlyLedgerTable({ entries }: MonthlyLedgerTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          <TableHead className="text-right">Rent</TableHead>
+          <TableHead className="text-right">Vacancy</TableHead>
+          <TableHead className="text-right">OpEx</TableHead>
+          <TableHead className="text-right">CapEx Reserve</TableHead>
+          <TableHead className="text-right">NOI</TableHead>
+          <TableHead className="text-right">Debt Service</TableHead>
+          <TableHead className="text-right">Cash Flow</TableHead>
+          <TableHead className="text-right">Loan Balance</TableHead>
+          <TableHead>Events</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow
+            key={entry.month}
+            className={entry.year === 0 ? "bg-orange-50" : undefined}
+          >
+            <TableCell>
+              {entry.month}
+              <span className="text-xs text-muted-foreground ml-1">
+                {entry.year === 0 ? "(rehab)" : `(Y${entry.year})`}
+              </span>
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.grossRent)}
+            </TableCell>
+            <TableCell className="text-right text-muted-foreground">
+              {formatCurrency(entry.vacancy)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.operatingExpenses)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.capexReserve)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.noi)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.debtService + entry.balloonPayment)}
+            </TableCell>
+            <TableCell
+              className={`text-right ${
+                entry.cashFlow >= 0 ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {formatCurrency(entry.cashFlow)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(entry.loanBalance)}
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {entry.events.map((event) => (
+                  <Badge
+                    key={event}
+                    variant="outline"
+                    className={EVENT_BADGES[event].className}
+                  >
+                    {EVENT_BADGES[event].label}
+                  </Badge>
+                ))}
+                {entry.refiProceeds !== undefined && (
+                  <span className="text-xs text-blue-700">
+                    {formatCurrency(entry.refiProceeds)} cash out
+                  </span>
+                )}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,107 @@
+// Itemized operating expense editor - basis, amount and annual growth for each line
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { ExpenseBasis, OperatingExpenseLine } from "@calc/types";
+import {
+  EXPENSE_BASIS_LABELS,
+  OPERATING_EXPENSE_LABELS,
+} from "@calc/operatingExpenses";
+
+interface OperatingExpensesFormProps {
+  lines: OperatingExpenseLine[];
+  onChange: (lines: OperatingExpenseLine[]) => void;
+}
+
+export function OperatingExpensesForm({
+  lines,
+  onChange,
+}: OperatingExpensesFormProps) {
+  const updateLine = (
+    index: number,
+    changes: Partial<OperatingExpenseLine>
+  ) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Expense</TableHead>
+          <TableHead>Basis</TableHead>
+          <TableHead>Amount</TableHead>
+          <TableHead>Growth (%/yr)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line, index) => (
+          <TableRow key={line.key}>
+            <TableCell>{OPERATING_EXPENSE_LABELS[line.key]}</TableCell>
+            <TableCell>
+              <Select
+                value={line.basis}
+                onValueChange={(basis: ExpenseBasis) =>
+                  updateLine(index, { basis })
+                }
+              >
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EXPENSE_BASIS_LABELS) as ExpenseBasis[]).map(
+                    (basis) => (
+                      <SelectItem key={basis} value={basis}>
+                        {EXPENSE_BASIS_LABELS[basis]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </TableCell>
+            <TableCell>
+              <Input
+                type="number"
+                min="0"
+                step={line.basis === "percentOfIncome" ? "0.1" : "10"}
+                value={line.amount}
+                onChange={(e) =>
+                  updateLine(index, { amount: Number(e.target.value) })
+                }
+                className="h-9 w-28"
+              />
+            </TableCell>
+            <TableCell>
+              {/* Percent-of-income lines already grow with rent */}
+              <Input
+                type="number"
+                step="0.1"
+                value={line.growthPercent}
+                disabled={line.basis === "percentOfIncome"}
+                onChange={(e) =>
+                  updateLine(index, { growthPercent: Number(e.target.value) })
+                }
+                className="h-9 w-24"
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -10,7 +10,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { Line } from "rc-progress";
-import { SavedDeal } from "../types/deal";
+import { SavedDeal } from "@calc/types";
 import { dashboardService } from "../services/dashboard.service";
 import { Card } from "./ui/card";
 import {
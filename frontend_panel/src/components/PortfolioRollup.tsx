@@ -0,0 +1,349 @@
+// src/components/PortfolioRollup.tsx
+// Accepted and closed deals rolled up as owned assets - equity, debt, cash flow,
+// combined 30-year projection and concentration by zip code and strategy
+import React, { useMemo } from "react";
+import {
+  Briefcase,
+  DollarSign,
+  Gauge,
+  Landmark,
+  Percent,
+  TrendingUp,
+} from "lucide-react";
+import {
+  GlobalAssumptions,
+  HoldStrategy,
+  PortfolioConcentration,
+  SavedDeal,
+} from "@calc/types";
+import { Card } from "./ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { CashFlowChart } from "./charts/CashFlowChart";
+import { LoanBalanceEquityChart } from "./charts/LoanBalanceEquityChart";
+import { getApplicableStrategies } from "@calc/analysis";
+import { formatCurrency, formatPercent } from "@calc/calculations";
+import { OFFER_STRATEGY_LABELS } from "../utils/offerSolver";
+import { calculatePortfolio } from "../utils/portfolio";
+import { getStageInfo } from "../utils/dealStages";
+
+interface PortfolioRollupProps {
+  savedDeals: SavedDeal[];
+  assumptions: GlobalAssumptions;
+  onStrategyChange: (dealId: string, strategy: HoldStrategy) => void;
+  onLoadDeal: (deal: SavedDeal) => void;
+}
+
+const PROJECTION_MILESTONES = [1, 5, 10, 15, 20, 25, 30];
+
+function ConcentrationCard({
+  title,
+  groups,
+}: {
+  title: string;
+  groups: PortfolioConcentration[];
+}) {
+  return (
+    <Card className="p-6">
+      <h3 className="mb-4 text-lg font-semibold">{title}</h3>
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.key} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{group.label}</span>
+              <span className="text-muted-foreground">
+                {group.count} {group.count === 1 ? "property" : "properties"} •{" "}
+                {formatCurrency(group.monthlyCashFlow)}/mo
+              </span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-gray-200">
+              <div
+                className="h-2 rounded-full bg-emerald-500"
+                style={{
+                  width: `${Math.min(100, Math.max(0, group.equityPercent))}%`,
+                }}
+              />
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatCurrency(group.equity)} equity</span>
+              <span>{Math.round(group.equityPercent)}% of equity</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+export const PortfolioRollup: React.FC<PortfolioRollupProps> = ({
+  savedDeals,
+  assumptions,
+  onStrategyChange,
+  onLoadDeal,
+}) => {
+  const portfolio = useMemo(
+    () => calculatePortfolio(savedDeals, assumptions),
+    [savedDeals, assumptions]
+  );
+
+  if (portfolio.holdings.length === 0) {
+    return (
+      <div className="mx-auto max-w-7xl p-6">
+        <Card className="p-12 text-center">
+          <Briefcase className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+          <h3 className="mb-2 text-lg font-medium">No properties yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Move a deal to "Offer Accepted" or "Closed / Owned" to add it to
+            your portfolio.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const metrics = [
+    {
+      label: "Total Equity",
+      value: formatCurrency(portfolio.totalEquity),
+      note: `${formatCurrency(portfolio.totalValue)} in property value`,
+      icon: TrendingUp,
+      color:
+        "bg-green-100 text-green-600 dark:bg-green-900 dark:text-green-300",
+    },
+    {
+      label: "Total Debt",
+      value: formatCurrency(portfolio.totalDebt),
+      note:
+        portfolio.totalValue > 0
+          ? `${formatPercent(
+              (portfolio.totalDebt / portfolio.totalValue) * 100
+            )} loan-to-value`
+          : "No property value",
+      icon: Landmark,
+      color:
+        "bg-slate-100 text-slate-600 dark:bg-slate-900 dark:text-slate-300",
+    },
+    {
+      label: "Monthly Cash Flow",
+      value: formatCurrency(portfolio.monthlyCashFlow),
+      note: `${formatCurrency(portfolio.monthlyCashFlow * 12)} per year`,
+      icon: DollarSign,
+      color: "bg-blue-100 text-blue-600 dark:bg-blue-900 dark:text-blue-300",
+    },
+    {
+      label: "Weighted DSCR",
+      value: isFinite(portfolio.weightedDSCR)
+        ? portfolio.weightedDSCR.toFixed(2)
+        : "No debt",
+      note: "Total NOI / total debt service",
+      icon: Gauge,
+      color:
+        "bg-purple-100 text-purple-600 dark:bg-purple-900 dark:text-purple-300",
+    },
+    {
+      label: "Blended Cap Rate",
+      value: formatPercent(portfolio.blendedCapRate),
+      note: "Total NOI / total cost basis",
+      icon: Percent,
+      color:
+        "bg-orange-100 text-orange-600 dark:bg-orange-900 dark:text-orange-300",
+    },
+  ];
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl">
+          <Briefcase className="h-6 w-6" />
+          Portfolio
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {portfolio.holdings.length} accepted or closed{" "}
+          {portfolio.holdings.length === 1 ? "deal" : "deals"}, year 1 of each
+          property's hold strategy
+        </p>
+      </div>
+
+      {/* Key Metrics */}
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        {metrics.map(({ label, value, note, icon: Icon, color }) => (
+          <Card key={label} className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className="text-2xl font-bold">{value}</p>
+              </div>
+              <div className={`rounded-full p-3 ${color}`}>
+                <Icon className="h-5 w-5" />
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">{note}</p>
+          </Card>
+        ))}
+      </div>
+
+      {/* Holdings */}
+      <Card className="p-6">
+        <h3 className="mb-4 text-lg font-semibold">Properties</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Address</TableHead>
+              <TableHead>Stage</TableHead>
+              <TableHead>Strategy</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead className="text-right">Debt</TableHead>
+              <TableHead className="text-right">Equity</TableHead>
+              <TableHead className="text-right">Cash Flow/mo</TableHead>
+              <TableHead className="text-right">DSCR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {portfolio.holdings.map((holding) => {
+              const deal = savedDeals.find((d) => d.id === holding.dealId)!;
+              const stage = getStageInfo(deal.dealStage);
+              return (
+                <TableRow key={holding.dealId}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      className="text-left font-medium hover:underline"
+                      onClick={() => onLoadDeal(deal)}
+                    >
+                      {holding.address || "No address"}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`rounded border px-2 py-0.5 text-xs ${stage.bgColor} ${stage.color}`}
+                    >
+                      {stage.shortLabel}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={holding.strategy}
+                      onValueChange={(strategy: HoldStrategy) =>
+                        onStrategyChange(holding.dealId, strategy)
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-[180px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getApplicableStrategies(deal).map((strategy) => (
+                          <SelectItem key={strategy} value={strategy}>
+                            {OFFER_STRATEGY_LABELS[strategy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(holding.propertyValue)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(holding.loanBalance)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(holding.equity)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${
+                      holding.monthlyCashFlow >= 0
+                        ? "text-green-600"
+                        : "text-red-600"
+                    }`}
+                  >
+                    {formatCurrency(holding.monthlyCashFlow)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {holding.debtService > 0
+                      ? (holding.noi / holding.debtService).toFixed(2)
+                      : "—"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {/* Concentration */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <ConcentrationCard title="By Zip Code" groups={portfolio.byZip} />
+        <ConcentrationCard title="By Strategy" groups={portfolio.byStrategy} />
+      </div>
+
+      {/* Combined Projection */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <CashFlowChart projections={portfolio.projections} timeHorizon={30} />
+        <LoanBalanceEquityChart
+          projections={portfolio.projections}
+          initialPropertyValue={portfolio.totalValue}
+          timeHorizon={30}
+        />
+      </div>
+
+      <Card className="p-6">
+        <h3 className="mb-4 text-lg font-semibold">
+          Combined 30-Year Projection
+        </h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">NOI</TableHead>
+              <TableHead className="text-right">Cash Flow</TableHead>
+              <TableHead className="text-right">Cumulative Cash Flow</TableHead>
+              <TableHead className="text-right">Property Value</TableHead>
+              <TableHead className="text-right">Loan Balance</TableHead>
+              <TableHead className="text-right">Equity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {portfolio.projections
+              .filter((year) => PROJECTION_MILESTONES.includes(year.year))
+              .map((year) => (
+                <TableRow key={year.year}>
+                  <TableCell>Year {year.year}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.noi)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.cashFlow)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.cumulativeCashFlow)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.propertyValue)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.loanBalance)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.equity)}
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+// Scheduled refinances during the hold - cash-out or rate-and-term at a given year
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { RefinanceEvent, RefinanceResult, RefinanceType } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+
+interface RefinanceScheduleFormProps {
+  events: RefinanceEvent[];
+  results?: RefinanceResult[]; // Outcome of each event for the current deal
+  defaultRate: number;
+  onChange: (events: RefinanceEvent[]) => void;
+}
+
+const REFINANCE_TYPE_LABELS: Record<RefinanceType, string> = {
+  cashOut: "Cash-Out",
+  rateTerm: "Rate & Term",
+};
+
+type NumericField =
+  | "year"
+  | "ltvPercent"
+  | "interestRate"
+  | "termYears"
+  | "closingCostsPercent"
+  | "appraisedValue";
+
+export function RefinanceScheduleForm({
+  events,
+  results = [],
+  defaultRate,
+  onChange,
+}: RefinanceScheduleFormProps) {
+  const updateEvent = (index: number, changes: Partial<RefinanceEvent>) => {
+    onChange(
+      events.map((event, i) => (i === index ? { ...event, ...changes } : event))
+    );
+  };
+
+  const addEvent = () => {
+    const lastYear = events.reduce(
+      (max, event) => Math.max(max, event.year),
+      0
+    );
+    onChange([
+      ...events,
+      {
+        id: `refi-${Date.now()}`,
+        year: lastYear + 1,
+        type: "cashOut",
+        ltvPercent: 75,
+        interestRate: defaultRate,
+        termYears: 30,
+        closingCostsPercent: 2,
+      },
+    ]);
+  };
+
+  const numberField = (
+    index: number,
+    field: NumericField,
+    label: string,
+    step: string,
+    placeholder?: string
+  ) => (
+    <div>
+      <Label htmlFor={`refi-${index}-${field}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`refi-${index}-${field}`}
+        type="number"
+        min="0"
+        step={step}
+        placeholder={placeholder}
+        value={events[index][field] ?? ""}
+        onChange={(e) =>
+          updateEvent(index, {
+            [field]:
+              e.target.value === "" && field === "appraisedValue"
+                ? undefined
+                : Number(e.target.value),
+          })
+        }
+        className="h-9"
+      />
+    </div>
+  );
+
+  return (
+    <div className="col-span-2 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Scheduled Refinances</Label>
+        <Button variant="outline" size="sm" onClick={addEvent}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Refi
+        </Button>
+      </div>
+      {events.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          None - the purchase loan is held for the whole projection. Add one to
+          model buying with cash and refinancing, or a refi when rates drop.
+        </p>
+      )}
+
+      {events.map((event, index) => {
+        const result = results.find((refi) => refi.eventId === event.id);
+        return (
+          <div key={event.id} className="border rounded-lg p-3 space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              {numberField(index, "year", "Year", "1")}
+              <div>
+                <Label className="text-xs">Type</Label>
+                <Select
+                  value={event.type}
+                  onValueChange={(type: RefinanceType) =>
+                    updateEvent(index, { type })
+                  }
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      Object.keys(REFINANCE_TYPE_LABELS) as RefinanceType[]
+                    ).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {REFINANCE_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(events.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+              {numberField(index, "ltvPercent", "Max LTV (%)", "1")}
+              {numberField(index, "interestRate", "Rate (%)", "0.125")}
+              {numberField(index, "termYears", "Term (years)", "1")}
+              {numberField(
+                index,
+                "closingCostsPercent",
+                "Closing Costs (%)",
+                "0.25"
+              )}
+              {numberField(
+                index,
+                "appraisedValue",
+                "Appraised Value ($)",
+                "1000",
+                "Appreciated value"
+              )}
+            </div>
+
+            {result && (
+              <div className="grid grid-cols-3 gap-2 text-xs bg-muted/50 rounded p-2">
+                <div>
+                  <p className="text-muted-foreground">Value at Refi</p>
+                  <p className="font-semibold">
+                    {formatCurrency(result.propertyValue)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">New Loan</p>
+                  <p className="font-semibold">
+                    {formatCurrency(result.newLoanAmount)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Payoff</p>
+                  <p className="font-semibold">
+                    {formatCurrency(result.payoffAmount)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Closing Costs</p>
+                  <p className="font-semibold">
+                    {formatCurrency(result.closingCosts)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Cash Out</p>
+                  <p
+                    className={`font-semibold ${
+                      result.cashOutProceeds >= 0
+                        ? "text-green-600"
+                        : "text-red-600"
+                    }`}
+                  >
+                    {formatCurrency(result.cashOutProceeds)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">New Payment</p>
+                  <p className="font-semibold">
+                    {formatCurrency(result.newMonthlyPayment)}/mo
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
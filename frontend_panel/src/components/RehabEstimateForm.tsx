@@ -27,7 +27,7 @@ import {
   DialogFooter,
 } from "./ui/dialog";
 import { Input } from "./ui/input";
-import { DealNotes } from "../types/deal";
+import { DealNotes } from "@calc/types";
 import {
   Calculator,
   AlertCircle,
@@ -42,7 +42,7 @@ import {
   analyzePropertyCondition,
   RehabEstimateResult,
 } from "../utils/intelligentRehabEstimator";
-import { formatCurrency } from "../utils/calculations";
+import { formatCurrency } from "@calc/calculations";
 import { toast } from "sonner";
 import { LineItemEditor, LineItem } from "./LineItemEditor";
 import { generateLineItems } from "../utils/lineItemGenerator";
@@ -0,0 +1,628 @@
+// Rent Comps - rental listings adjusted to each unit for a suggested market rent
+import { useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Check, ExternalLink, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { RentComp, RentCompCondition, UnitDetail } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  RENT_COMP_CONDITION_LABELS,
+  RentSuggestion,
+  adjustRentComp,
+  getMatchingRentComps,
+  getRentSubject,
+  parseRentalListing,
+  suggestUnitRent,
+} from "../utils/rentComps";
+import { MapSection } from "./MapSection";
+
+export interface UnitRentUpdate {
+  index: number;
+  marketRent: number;
+  afterRehabMarketRent: number;
+}
+
+interface RentCompsCalculatorProps {
+  comps: RentComp[];
+  onCompsChange: (comps: RentComp[]) => void;
+  unitDetails: UnitDetail[];
+  subjectAddress: string;
+  subjectLat?: number;
+  subjectLng?: number;
+  subjectCondition: RentCompCondition; // As-is condition from the rehab notes
+  subjectHasPool: boolean;
+  onApplyRents: (updates: UnitRentUpdate[]) => void;
+  hoveredCompId?: string | null; // Comp ID being hovered on map
+  onCompHover?: (compId: string | null) => void; // Called when hovering table row
+}
+
+const CONDITIONS = Object.keys(
+  RENT_COMP_CONDITION_LABELS
+) as RentCompCondition[];
+
+const formatRange = (suggestion: RentSuggestion) =>
+  `${formatCurrency(suggestion.lowRent)} – ${formatCurrency(
+    suggestion.highRent
+  )}`;
+
+export function RentCompsCalculator({
+  comps,
+  onCompsChange,
+  unitDetails,
+  subjectAddress,
+  subjectLat,
+  subjectLng,
+  subjectCondition,
+  subjectHasPool,
+  onApplyRents,
+  hoveredCompId,
+  onCompHover,
+}: RentCompsCalculatorProps) {
+  const [pasteData, setPasteData] = useState("");
+  const [asIsCondition, setAsIsCondition] =
+    useState<RentCompCondition>(subjectCondition);
+  const [selectedUnit, setSelectedUnit] = useState(0);
+
+  const unitIndex = Math.min(selectedUnit, unitDetails.length - 1);
+  const selectedSubject = unitDetails[unitIndex]
+    ? getRentSubject(unitDetails[unitIndex], asIsCondition, subjectHasPool)
+    : null;
+
+  // As-is and after-rehab (renovated) rent for every unit
+  const suggestions = useMemo(
+    () =>
+      unitDetails.map((unit) => ({
+        asIs: suggestUnitRent(
+          comps,
+          getRentSubject(unit, asIsCondition, subjectHasPool)
+        ),
+        afterRehab: suggestUnitRent(
+          comps,
+          getRentSubject(unit, "renovated", subjectHasPool)
+        ),
+      })),
+    [comps, unitDetails, asIsCondition, subjectHasPool]
+  );
+
+  const matchingIds = useMemo(
+    () =>
+      new Set(
+        selectedSubject
+          ? getMatchingRentComps(comps, selectedSubject).map((comp) => comp.id)
+          : []
+      ),
+    [comps, selectedSubject]
+  );
+
+  const getUnitUpdate = (index: number): UnitRentUpdate | null => {
+    const { asIs, afterRehab } = suggestions[index];
+    if (!asIs || !afterRehab) return null;
+    return {
+      index,
+      marketRent: asIs.suggestedRent,
+      afterRehabMarketRent: afterRehab.suggestedRent,
+    };
+  };
+
+  const handleApplyAll = () => {
+    const updates = unitDetails
+      .map((_, index) => getUnitUpdate(index))
+      .filter((update): update is UnitRentUpdate => update !== null);
+    if (updates.length > 0) {
+      onApplyRents(updates);
+    }
+  };
+
+  const handleParse = () => {
+    if (!pasteData.trim()) {
+      toast.error("Please paste a rental listing first");
+      return;
+    }
+
+    const parsed = parseRentalListing(pasteData);
+    if (!parsed) {
+      toast.error(
+        'Could not parse data. Make sure the listing includes the rent, e.g. "$2,450/mo"'
+      );
+      return;
+    }
+
+    const addressToCheck = parsed.address.toLowerCase().trim();
+    if (
+      addressToCheck !== "unknown address" &&
+      comps.some((comp) => comp.address.toLowerCase().trim() === addressToCheck)
+    ) {
+      toast.error(
+        `This rental (${parsed.address}) has already been added as a comp`
+      );
+      return;
+    }
+
+    onCompsChange([...comps, parsed]);
+    setPasteData("");
+    toast.success(
+      `Added rent comp: ${parsed.address} at ${formatCurrency(
+        parsed.monthlyRent
+      )}/mo`
+    );
+  };
+
+  const handleAddManual = () => {
+    const unit = unitDetails[unitIndex];
+    onCompsChange([
+      ...comps,
+      {
+        id: Date.now().toString(),
+        address: "",
+        monthlyRent: 0,
+        beds: unit?.beds ?? 2,
+        baths: unit?.baths ?? 1,
+        condition: "average",
+      },
+    ]);
+  };
+
+  const handleRemoveComp = (id: string) => {
+    onCompsChange(comps.filter((comp) => comp.id !== id));
+    toast.success("Rent comp removed");
+  };
+
+  const handleCompChange = (id: string, changes: Partial<RentComp>) => {
+    onCompsChange(
+      comps.map((comp) => (comp.id === id ? { ...comp, ...changes } : comp))
+    );
+  };
+
+  const numberInput = (
+    comp: RentComp,
+    field: "monthlyRent" | "beds" | "baths" | "sqft",
+    step: string,
+    width: string
+  ) => (
+    <Input
+      type="number"
+      step={step}
+      value={comp[field] ?? ""}
+      onChange={(e) =>
+        handleCompChange(comp.id, {
+          // Blank beds, baths or sqft = unknown (no adjustment), blank rent = 0
+          [field]:
+            field !== "monthlyRent" && e.target.value === ""
+              ? undefined
+              : Number(e.target.value),
+        })
+      }
+      className={`h-8 ${width}`}
+    />
+  );
+
+  const pricedCount = comps.filter((comp) => comp.monthlyRent > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Rental Comp</CardTitle>
+          <CardDescription>
+            Paste a rental listing (Zillow, Apartments.com, etc.) to extract the
+            rent, beds, baths and size, or add one manually
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label>Paste Rental Listing</Label>
+            <Textarea
+              value={pasteData}
+              onChange={(e) => setPasteData(e.target.value)}
+              placeholder="$2,450/mo 3 bds 2 ba 1,200 sqft - House for rent 123 NW 5th Ave, Fort Lauderdale, FL 33311"
+              rows={5}
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleParse} className="flex-1">
+              <Plus className="mr-2 h-4 w-4" />
+              Parse & Add Comp
+            </Button>
+            <Button variant="outline" onClick={handleAddManual}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Manually
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Rental Comps ({comps.length})</CardTitle>
+                <CardDescription>
+                  Each rent is adjusted to the selected unit. Comps within one
+                  bedroom of the unit are used when there are any.
+                </CardDescription>
+              </div>
+              {unitDetails.length > 1 && (
+                <div className="w-40">
+                  <Label className="text-xs">Adjust To</Label>
+                  <Select
+                    value={String(unitIndex)}
+                    onValueChange={(value: string) =>
+                      setSelectedUnit(Number(value))
+                    }
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unitDetails.map((unit, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          Unit {index + 1} ({unit.beds}bd/{unit.baths}ba)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Rent/mo</TableHead>
+                    <TableHead>Beds</TableHead>
+                    <TableHead>Baths</TableHead>
+                    <TableHead>Sqft</TableHead>
+                    <TableHead>Condition</TableHead>
+                    <TableHead>Pool</TableHead>
+                    <TableHead title="Rent after bed, bath, size, condition and pool adjustments to the selected unit">
+                      Adjusted
+                    </TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comps.map((comp) => {
+                    const adjustment =
+                      selectedSubject && comp.monthlyRent > 0
+                        ? adjustRentComp(comp, selectedSubject)
+                        : null;
+                    const isUsed = matchingIds.has(comp.id);
+                    return (
+                      <TableRow
+                        key={comp.id}
+                        className={
+                          hoveredCompId === comp.id ? "bg-blue-50" : undefined
+                        }
+                        onMouseEnter={() => onCompHover?.(comp.id)}
+                        onMouseLeave={() => onCompHover?.(null)}
+                      >
+                        <TableCell className="min-w-[220px]">
+                          <Input
+                            value={comp.address}
+                            placeholder="Address"
+                            onChange={(e) =>
+                              handleCompChange(comp.id, {
+                                address: e.target.value,
+                                lat: undefined,
+                                lng: undefined,
+                              })
+                            }
+                            className="h-8"
+                          />
+                          {(comp.listedDate || comp.propertyType) && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {[comp.propertyType, comp.listedDate]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {numberInput(comp, "monthlyRent", "25", "w-24")}
+                        </TableCell>
+                        <TableCell>
+                          {numberInput(comp, "beds", "1", "w-16")}
+                        </TableCell>
+                        <TableCell>
+                          {numberInput(comp, "baths", "0.5", "w-16")}
+                        </TableCell>
+                        <TableCell>
+                          {numberInput(comp, "sqft", "50", "w-20")}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={comp.condition}
+                            onValueChange={(value: string) =>
+                              handleCompChange(comp.id, {
+                                condition: value as RentCompCondition,
+                              })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CONDITIONS.map((condition) => (
+                                <SelectItem key={condition} value={condition}>
+                                  {RENT_COMP_CONDITION_LABELS[condition]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={!!comp.hasPool}
+                            onCheckedChange={(
+                              checked: boolean | "indeterminate"
+                            ) =>
+                              handleCompChange(comp.id, {
+                                hasPool: checked === true,
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {adjustment ? (
+                            <div
+                              className={
+                                isUsed
+                                  ? ""
+                                  : "text-muted-foreground line-through"
+                              }
+                              title={
+                                isUsed
+                                  ? `Beds ${formatCurrency(
+                                      adjustment.beds
+                                    )} • Baths ${formatCurrency(
+                                      adjustment.baths
+                                    )} • Sqft ${formatCurrency(
+                                      adjustment.sqft
+                                    )} • Condition ${formatCurrency(
+                                      adjustment.condition
+                                    )} • Pool ${formatCurrency(
+                                      adjustment.pool
+                                    )}`
+                                  : "Not used - bedroom count too far from the unit"
+                              }
+                            >
+                              {formatCurrency(adjustment.adjustedRent)}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {comp.link && (
+                              <Button variant="ghost" size="sm" asChild>
+                                <a
+                                  href={comp.link}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  <ExternalLink className="h-4 w-4" />
+                                </a>
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemoveComp(comp.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {pricedCount > 0 && unitDetails.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Suggested Market Rents</CardTitle>
+                <CardDescription>
+                  Median adjusted rent per unit, with the middle half of the
+                  comps as the low/high range. After-rehab rents assume a
+                  renovated unit.
+                </CardDescription>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="w-36">
+                  <Label className="text-xs">As-Is Condition</Label>
+                  <Select
+                    value={asIsCondition}
+                    onValueChange={(value: string) =>
+                      setAsIsCondition(value as RentCompCondition)
+                    }
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITIONS.map((condition) => (
+                        <SelectItem key={condition} value={condition}>
+                          {RENT_COMP_CONDITION_LABELS[condition]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleApplyAll}>
+                  <Check className="mr-2 h-4 w-4" />
+                  Apply to All Units
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Comps</TableHead>
+                  <TableHead>As-Is Rent</TableHead>
+                  <TableHead>After-Rehab Rent</TableHead>
+                  <TableHead>Current Market Rent</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unitDetails.map((unit, index) => {
+                  const { asIs, afterRehab } = suggestions[index];
+                  const update = getUnitUpdate(index);
+                  return (
+                    <TableRow key={index}>
+                      <TableCell>
+                        Unit {index + 1}
+                        <div className="text-xs text-muted-foreground">
+                          {unit.beds}bd/{unit.baths}ba
+                          {unit.sqft ? ` • ${unit.sqft} sqft` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>{asIs?.compCount ?? 0}</TableCell>
+                      <TableCell>
+                        {asIs ? (
+                          <>
+                            <div className="font-semibold">
+                              {formatCurrency(asIs.suggestedRent)}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {formatRange(asIs)}
+                            </div>
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {afterRehab ? (
+                          <>
+                            <div className="font-semibold">
+                              {formatCurrency(afterRehab.suggestedRent)}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {formatRange(afterRehab)}
+                            </div>
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {unit.marketRent
+                          ? formatCurrency(unit.marketRent)
+                          : "—"}
+                        {unit.afterRehabMarketRent ? (
+                          <div className="text-xs text-muted-foreground">
+                            After rehab{" "}
+                            {formatCurrency(unit.afterRehabMarketRent)}
+                          </div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={!update}
+                          onClick={() => update && onApplyRents([update])}
+                        >
+                          Apply
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {comps.length > 0 && (
+        <MapSection
+          compType="rental"
+          subjectProperty={
+            subjectAddress
+              ? {
+                  id: "subject",
+                  type: "subject",
+                  address: subjectAddress,
+                  lat: subjectLat,
+                  lng: subjectLng,
+                }
+              : undefined
+          }
+          comps={comps
+            .filter((comp) => comp.address)
+            .map((comp) => ({
+              id: comp.id,
+              type: "comp",
+              address: comp.address,
+              price: comp.monthlyRent,
+              beds: comp.beds,
+              baths: comp.baths,
+              sqft: comp.sqft,
+              soldDate: comp.listedDate,
+              lat: comp.lat,
+              lng: comp.lng,
+            }))}
+          hoveredCompId={hoveredCompId}
+          onCompHover={onCompHover}
+          onGeocodeComplete={(geocodedData) => {
+            const updatedComps = comps.map((comp) => {
+              const geocoded = geocodedData.get(comp.address);
+              if (geocoded && !comp.lat) {
+                return { ...comp, lat: geocoded.lat, lng: geocoded.lng };
+              }
+              return comp;
+            });
+            if (JSON.stringify(updatedComps) !== JSON.stringify(comps)) {
+              onCompsChange(updatedComps);
+            }
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+// Rent roll for occupied units - in-place rent, lease end, deposit, tenant type and
+// the mark-to-market plan, with import from a property manager's CSV export
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { MarkToMarketPlan, TenantType, UnitDetail } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  getLeaseMonthsRemaining,
+  hasInPlaceLease,
+  parseRentRollCSV,
+} from "@calc/rentRoll";
+
+interface RentRollFormProps {
+  units: UnitDetail[];
+  onChange: (units: UnitDetail[]) => void;
+}
+
+const TENANT_TYPE_LABELS: Record<TenantType, string> = {
+  market: "Market",
+  section8: "Section 8",
+};
+
+const MARK_TO_MARKET_LABELS: Record<MarkToMarketPlan, string> = {
+  turnover: "Turn over to market",
+  renew: "Renew at market",
+  keep: "Keep at current rent",
+};
+
+// Same market rent the LTR projection steps to
+const getTargetRent = (unit: UnitDetail) =>
+  unit.marketRent ?? (unit.section8Rent || 0) / 1.1;
+
+export function RentRollForm({ units, onChange }: RentRollFormProps) {
+  const updateUnit = (index: number, changes: Partial<UnitDetail>) => {
+    onChange(
+      units.map((unit, i) => (i === index ? { ...unit, ...changes } : unit))
+    );
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseRentRollCSV(await file.text());
+      // Imported columns win; anything the rent roll doesn't carry is kept per unit
+      onChange(
+        imported.map((row, index) => ({
+          ...(units[index] ?? { beds: 0, baths: 0 }),
+          ...row,
+        }))
+      );
+      toast.success(`Imported ${imported.length} units from the rent roll`);
+    } catch (error) {
+      console.error("Rent roll import error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import rent roll"
+      );
+    }
+  };
+
+  const leasedUnits = units.filter(hasInPlaceLease);
+  const inPlaceRent = leasedUnits.reduce(
+    (sum, unit) => sum + (unit.currentRent || 0),
+    0
+  );
+  const lossToLease = leasedUnits.reduce(
+    (sum, unit) => sum + getTargetRent(unit) - (unit.currentRent || 0),
+    0
+  );
+  const deposits = units.reduce(
+    (sum, unit) => sum + (unit.securityDeposit || 0),
+    0
+  );
+
+  return (
+    <div className="space-y-4 border-2 border-teal-200 bg-teal-50/30 rounded-lg p-4">
+      <div className="flex items-center justify-between border-b border-teal-300 pb-2">
+        <h4 className="text-teal-900">📋 Rent Roll (In-Place Leases)</h4>
+        <Input
+          type="file"
+          accept=".csv"
+          onChange={handleImport}
+          className="hidden"
+          id="import-rent-roll"
+        />
+        <Button variant="outline" size="sm" asChild>
+          <label
+            htmlFor="import-rent-roll"
+            className="cursor-pointer flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Import CSV
+          </label>
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Leave current rent blank for vacant units. Occupied units collect their
+        current rent until the lease ends, then step to market rent. Import
+        columns: Beds, Baths, Rent, Market Rent, Lease End, Deposit, Tenant
+        Type.
+      </p>
+
+      {units.map((unit, index) => {
+        const leaseMonths = getLeaseMonthsRemaining(unit);
+        return (
+          <div
+            key={index}
+            className="bg-white border border-teal-200 rounded-lg p-3 space-y-2"
+          >
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">
+                Unit {index + 1} - {unit.beds}bd/{unit.baths}ba
+              </Label>
+              {hasInPlaceLease(unit) && (
+                <span className="text-xs text-muted-foreground">
+                  {leaseMonths > 0
+                    ? `${leaseMonths} mo left on lease`
+                    : "Month-to-month"}
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor={`rr-rent-${index}`} className="text-xs">
+                  Current Rent ($)
+                </Label>
+                <Input
+                  id={`rr-rent-${index}`}
+                  type="number"
+                  min="0"
+                  step="25"
+                  value={unit.currentRent ?? ""}
+                  onChange={(e) =>
+                    updateUnit(index, {
+                      currentRent:
+                        e.target.value === ""
+                          ? undefined
+                          : Number(e.target.value),
+                    })
+                  }
+                  className="h-8"
+                  placeholder="Vacant"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`rr-lease-end-${index}`} className="text-xs">
+                  Lease End
+                </Label>
+                <Input
+                  id={`rr-lease-end-${index}`}
+                  type="date"
+                  value={unit.leaseEndDate ?? ""}
+                  onChange={(e) =>
+                    updateUnit(index, {
+                      leaseEndDate: e.target.value || undefined,
+                    })
+                  }
+                  className="h-8"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`rr-deposit-${index}`} className="text-xs">
+                  Deposit ($)
+                </Label>
+                <Input
+                  id={`rr-deposit-${index}`}
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={unit.securityDeposit ?? ""}
+                  onChange={(e) =>
+                    updateUnit(index, {
+                      securityDeposit:
+                        e.target.value === ""
+                          ? undefined
+                          : Number(e.target.value),
+                    })
+                  }
+                  className="h-8"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Tenant</Label>
+                <Select
+                  value={unit.tenantType ?? "market"}
+                  onValueChange={(tenantType: TenantType) =>
+                    updateUnit(index, { tenantType })
+                  }
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TENANT_TYPE_LABELS) as TenantType[]).map(
+                      (type) => (
+                        <SelectItem key={type} value={type}>
+                          {TENANT_TYPE_LABELS[type]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Label className="text-xs">At Lease End</Label>
+                <Select
+                  value={unit.markToMarketPlan ?? "turnover"}
+                  onValueChange={(markToMarketPlan: MarkToMarketPlan) =>
+                    updateUnit(index, { markToMarketPlan })
+                  }
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      Object.keys(MARK_TO_MARKET_LABELS) as MarkToMarketPlan[]
+                    ).map((plan) => (
+                      <SelectItem key={plan} value={plan}>
+                        {MARK_TO_MARKET_LABELS[plan]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {leasedUnits.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-sm bg-white border border-teal-200 rounded-lg p-2">
+          <div>
+            <p className="text-xs text-muted-foreground">In-Place Rent</p>
+            <p className="font-semibold">{formatCurrency(inPlaceRent)}/mo</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Loss to Lease</p>
+            <p
+              className={`font-semibold ${
+                lossToLease > 0 ? "text-orange-600" : "text-green-600"
+              }`}
+            >
+              {formatCurrency(lossToLease)}/mo
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Deposits Held</p>
+            <p className="font-semibold">{formatCurrency(deposits)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
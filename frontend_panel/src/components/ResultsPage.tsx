@@ -18,14 +18,20 @@ import {
   TableRow,
 } from "./ui/table";
 import { Badge } from "./ui/badge";
-import { DealInputs, GlobalAssumptions, Strategy } from "../types/deal";
+import {
+  DealInputs,
+  GlobalAssumptions,
+  ProjectionView,
+  Strategy,
+} from "@calc/types";
 import {
   calculateLTR,
   calculateSection8,
   calculateAirbnb,
   formatCurrency,
   formatPercent,
-} from "../utils/calculations";
+} from "@calc/calculations";
+import { getLedgerMonths } from "@calc/cashFlowLedger";
 import {
   ArrowLeft,
   Home,
@@ -37,6 +43,8 @@ import {
 import { CashFlowChart } from "./charts/CashFlowChart";
 import { EquityChart } from "./charts/EquityChart";
 import { ROIChart } from "./charts/ROIChart";
+import { MonthlyLedgerTable } from "./MonthlyLedgerTable";
+import { ExpenseBreakdownList } from "./ExpenseBreakdownList";
 
 interface ResultsPageProps {
   inputs: DealInputs;
@@ -46,6 +54,8 @@ interface ResultsPageProps {
 
 export function ResultsPage({ inputs, assumptions, onBack }: ResultsPageProps) {
   const [selectedStrategy, setSelectedStrategy] = useState<Strategy>("ltr");
+  const [projectionView, setProjectionView] =
+    useState<ProjectionView>("yearly");
 
   // v253_change: Memoize expensive 30-year projection calculations
   const ltrResults = useMemo(
@@ -143,84 +153,113 @@ export function ResultsPage({ inputs, assumptions, onBack }: ResultsPageProps) {
             <p>{formatPercent(results.year1Summary.cashOnCash)}</p>
           </div>
         </div>
+        <ExpenseBreakdownList items={results.year1Summary.expenseBreakdown} />
       </CardContent>
     </Card>
   );
 
+  const renderViewToggle = () => (
+    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+      {(["yearly", "monthly"] as ProjectionView[]).map((view) => (
+        <Button
+          key={view}
+          variant={projectionView === view ? "default" : "ghost"}
+          size="sm"
+          onClick={() => setProjectionView(view)}
+        >
+          {view === "yearly" ? "Yearly" : "Monthly"}
+        </Button>
+      ))}
+    </div>
+  );
+
   const renderProjectionTable = (results: typeof ltrResults) => (
     <Card>
       <CardHeader>
-        <CardTitle>7-Year Projection</CardTitle>
-        <CardDescription>
-          Detailed financial projections over 7 years
-        </CardDescription>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>7-Year Projection</CardTitle>
+            <CardDescription>
+              Detailed financial projections over 7 years
+            </CardDescription>
+          </div>
+          {renderViewToggle()}
+        </div>
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Year</TableHead>
-                <TableHead className="text-right">Gross Income</TableHead>
-                <TableHead className="text-right">NOI</TableHead>
-                <TableHead className="text-right">Debt Service</TableHead>
-                <TableHead className="text-right">Cash Flow</TableHead>
-                <TableHead className="text-right">Appreciation</TableHead>
-                <TableHead className="text-right">Equity</TableHead>
-                <TableHead className="text-right">Annual Return</TableHead>
-                <TableHead className="text-right">Cumulative Cash</TableHead>
-                <TableHead className="text-right">Cumulative Return</TableHead>
-                <TableHead className="text-right">Cumulative ROI %</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {results.projections.map((projection) => {
-                const cumulativeROI =
-                  (projection.cumulativeReturn / results.cashInvested) * 100;
-                return (
-                  <TableRow key={projection.year}>
-                    <TableCell>{projection.year}</TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.grossIncome)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.noi)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.debtService)}
-                    </TableCell>
-                    <TableCell
-                      className={`text-right ${
-                        projection.cashFlow >= 0
-                          ? "text-green-600"
-                          : "text-red-600"
-                      }`}
-                    >
-                      {formatCurrency(projection.cashFlow)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.appreciation)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.equity)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {formatCurrency(projection.annualReturn)}
-                    </TableCell>
-                    <TableCell className="text-right text-blue-600">
-                      {formatCurrency(projection.cumulativeCashFlow)}
-                    </TableCell>
-                    <TableCell className="text-right text-green-600">
-                      {formatCurrency(projection.cumulativeReturn)}
-                    </TableCell>
-                    <TableCell className="text-right text-purple-600">
-                      {formatPercent(cumulativeROI)}
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
+          {projectionView === "monthly" ? (
+            <MonthlyLedgerTable
+              entries={getLedgerMonths(results.monthlyLedger, 7)}
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead className="text-right">Gross Income</TableHead>
+                  <TableHead className="text-right">NOI</TableHead>
+                  <TableHead className="text-right">Debt Service</TableHead>
+                  <TableHead className="text-right">Cash Flow</TableHead>
+                  <TableHead className="text-right">Appreciation</TableHead>
+                  <TableHead className="text-right">Equity</TableHead>
+                  <TableHead className="text-right">Annual Return</TableHead>
+                  <TableHead className="text-right">Cumulative Cash</TableHead>
+                  <TableHead className="text-right">
+                    Cumulative Return
+                  </TableHead>
+                  <TableHead className="text-right">Cumulative ROI %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.projections.map((projection) => {
+                  const cumulativeROI =
+                    (projection.cumulativeReturn / results.cashInvested) * 100;
+                  return (
+                    <TableRow key={projection.year}>
+                      <TableCell>{projection.year}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.grossIncome)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.noi)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.debtService)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${
+                          projection.cashFlow >= 0
+                            ? "text-green-600"
+                            : "text-red-600"
+                        }`}
+                      >
+                        {formatCurrency(projection.cashFlow)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.appreciation)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.equity)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(projection.annualReturn)}
+                      </TableCell>
+                      <TableCell className="text-right text-blue-600">
+                        {formatCurrency(projection.cumulativeCashFlow)}
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">
+                        {formatCurrency(projection.cumulativeReturn)}
+                      </TableCell>
+                      <TableCell className="text-right text-purple-600">
+                        {formatPercent(cumulativeROI)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -236,12 +275,20 @@ export function ResultsPage({ inputs, assumptions, onBack }: ResultsPageProps) {
         <CashFlowChart
           projections={results.projections}
           timeHorizon={timeHorizon}
+          view={projectionView}
+          monthlyLedger={results.monthlyLedger}
+        />
+        <EquityChart
+          projections={results.projections}
+          view={projectionView}
+          monthlyLedger={results.monthlyLedger}
         />
-        <EquityChart projections={results.projections} />
         <div className="lg:col-span-2">
           <ROIChart
             projections={results.projections}
             timeHorizon={timeHorizon}
+            view={projectionView}
+            monthlyLedger={results.monthlyLedger}
           />
         </div>
       </div>
@@ -0,0 +1,63 @@
+// IRR, NPV and equity multiple block for a strategy card (sale at the end of the hold period)
+import { ReturnMetrics } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import { formatIRR } from "@calc/returnMetrics";
+
+interface ReturnMetricsSummaryProps {
+  metrics: ReturnMetrics;
+  discountRatePercent: number;
+}
+
+export function ReturnMetricsSummary({
+  metrics,
+  discountRatePercent,
+}: ReturnMetricsSummaryProps) {
+  return (
+    <div className="pt-1 border-t grid grid-cols-2 gap-x-2 gap-y-1">
+      <div>
+        <p className="text-xs text-muted-foreground">Levered IRR</p>
+        <p className="text-sm font-semibold">
+          {formatIRR(metrics.leveredIRR)}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Unlevered IRR</p>
+        <p className="text-sm font-semibold">
+          {formatIRR(metrics.unleveredIRR)}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">
+          NPV @ {discountRatePercent}%
+        </p>
+        <p
+          className={`text-sm font-semibold ${
+            metrics.npv >= 0 ? "text-green-600" : "text-red-600"
+          }`}
+        >
+          {formatCurrency(metrics.npv)}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Equity Multiple</p>
+        <p className="text-sm font-semibold">
+          {metrics.equityMultiple === null
+            ? "—"
+            : `${metrics.equityMultiple.toFixed(2)}x`}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">After-Tax IRR</p>
+        <p className="text-sm font-semibold">
+          {formatIRR(metrics.afterTaxIRR)}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Tax at Sale</p>
+        <p className="text-sm font-semibold">
+          {formatCurrency(metrics.saleTax.totalTax)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+// What-if analysis for one strategy - tornado chart plus a two-variable data table
+import { useMemo, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { TornadoChart } from "./charts/TornadoChart";
+import {
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  SensitivityMetric,
+  SensitivityVariable,
+} from "@calc/types";
+import {
+  buildSensitivityDeltas,
+  buildSensitivityTable,
+  buildTornado,
+  calculateBaseMetric,
+  formatSensitivityDelta,
+  formatSensitivityMetric,
+  getSensitivityVariables,
+  SENSITIVITY_METRIC_LABELS,
+  SENSITIVITY_VARIABLES,
+  SensitivityOptions,
+} from "../utils/sensitivity";
+
+interface SensitivityAnalysisProps {
+  strategy: HoldStrategy;
+  inputs: DealInputs;
+  assumptions: GlobalAssumptions;
+  excludeVacancy: boolean;
+  holdYears: number;
+}
+
+export function SensitivityAnalysis(props: SensitivityAnalysisProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Sensitivity Analysis</CardTitle>
+            <CardDescription>
+              How cash flow, DSCR, cash-on-cash and IRR move when the key
+              drivers change
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+            {open ? (
+              <>
+                <ChevronUp className="h-4 w-4 mr-2" />
+                Hide
+              </>
+            ) : (
+              <>
+                <ChevronDown className="h-4 w-4 mr-2" />
+                Show
+              </>
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      {/* Only re-run the strategy grid while the panel is open */}
+      {open && (
+        <CardContent>
+          <SensitivityPanel {...props} />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function SensitivityPanel({
+  strategy,
+  inputs,
+  assumptions,
+  excludeVacancy,
+  holdYears,
+}: SensitivityAnalysisProps) {
+  const variables = getSensitivityVariables(strategy);
+  const [steps, setSteps] = useState<
+    Partial<Record<SensitivityVariable, number>>
+  >({});
+  const [tornadoMetric, setTornadoMetric] =
+    useState<SensitivityMetric>("cashFlow");
+  const [tableMetric, setTableMetric] = useState<SensitivityMetric>("dscr");
+  const [rowVariable, setRowVariable] =
+    useState<SensitivityVariable>("purchasePrice");
+  const [columnVariable, setColumnVariable] =
+    useState<SensitivityVariable>("interestRate");
+
+  const options: SensitivityOptions = useMemo(
+    () => ({
+      excludeVacancy,
+      holdYears,
+      discountRatePercent: assumptions.discountRatePercent,
+    }),
+    [excludeVacancy, holdYears, assumptions.discountRatePercent]
+  );
+
+  const getStep = (variable: SensitivityVariable) =>
+    steps[variable] ?? SENSITIVITY_VARIABLES[variable].defaultStep;
+
+  const tornado = useMemo(
+    () =>
+      buildTornado(
+        strategy,
+        inputs,
+        assumptions,
+        steps,
+        tornadoMetric,
+        options
+      ),
+    [strategy, inputs, assumptions, steps, tornadoMetric, options]
+  );
+
+  const tornadoBase = useMemo(
+    () =>
+      calculateBaseMetric(
+        strategy,
+        inputs,
+        assumptions,
+        tornadoMetric,
+        options
+      ),
+    [strategy, inputs, assumptions, tornadoMetric, options]
+  );
+
+  const table = useMemo(
+    () =>
+      buildSensitivityTable(
+        strategy,
+        inputs,
+        assumptions,
+        rowVariable,
+        buildSensitivityDeltas(
+          steps[rowVariable] ?? SENSITIVITY_VARIABLES[rowVariable].defaultStep
+        ),
+        columnVariable,
+        buildSensitivityDeltas(
+          steps[columnVariable] ??
+            SENSITIVITY_VARIABLES[columnVariable].defaultStep
+        ),
+        tableMetric,
+        options
+      ),
+    [
+      strategy,
+      inputs,
+      assumptions,
+      rowVariable,
+      columnVariable,
+      steps,
+      tableMetric,
+      options,
+    ]
+  );
+
+  const getCellColor = (value: number | null) => {
+    if (value === null) return "text-muted-foreground";
+    if (tableMetric === "dscr") {
+      return value >= 1.1
+        ? "text-green-600"
+        : value >= 1.0
+        ? "text-yellow-600"
+        : "text-red-600";
+    }
+    return value >= 0 ? "text-green-600" : "text-red-600";
+  };
+
+  const renderMetricButtons = (
+    selected: SensitivityMetric,
+    onSelect: (metric: SensitivityMetric) => void
+  ) => (
+    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+      {(Object.keys(SENSITIVITY_METRIC_LABELS) as SensitivityMetric[]).map(
+        (metric) => (
+          <Button
+            key={metric}
+            variant={selected === metric ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onSelect(metric)}
+          >
+            {SENSITIVITY_METRIC_LABELS[metric]}
+          </Button>
+        )
+      )}
+    </div>
+  );
+
+  const renderVariableSelect = (
+    id: string,
+    value: SensitivityVariable,
+    onChange: (variable: SensitivityVariable) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-9 w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {variables.map((variable) => (
+          <SelectItem key={variable} value={variable}>
+            {SENSITIVITY_VARIABLES[variable].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Flex steps */}
+      <div>
+        <Label className="text-sm mb-2 block">Flex Steps</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {variables.map((variable) => (
+            <div key={variable}>
+              <Label htmlFor={`sensitivity-${variable}`} className="text-xs">
+                {SENSITIVITY_VARIABLES[variable].label} (±
+                {SENSITIVITY_VARIABLES[variable].unit})
+              </Label>
+              <Input
+                id={`sensitivity-${variable}`}
+                type="number"
+                min="0"
+                step="0.5"
+                value={getStep(variable)}
+                onChange={(e) =>
+                  setSteps((prev) => ({
+                    ...prev,
+                    [variable]: Number(e.target.value),
+                  }))
+                }
+                className="h-9"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Tornado */}
+      <div className="space-y-3">
+        {renderMetricButtons(tornadoMetric, setTornadoMetric)}
+        <TornadoChart
+          bars={tornado}
+          baseValue={tornadoBase}
+          metric={tornadoMetric}
+        />
+      </div>
+
+      {/* Two-variable data table */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="sensitivity-rows" className="text-xs">
+              Rows
+            </Label>
+            {renderVariableSelect(
+              "sensitivity-rows",
+              rowVariable,
+              setRowVariable
+            )}
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-columns" className="text-xs">
+              Columns
+            </Label>
+            {renderVariableSelect(
+              "sensitivity-columns",
+              columnVariable,
+              setColumnVariable
+            )}
+          </div>
+          {renderMetricButtons(tableMetric, setTableMetric)}
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                {SENSITIVITY_VARIABLES[rowVariable].label} vs.{" "}
+                {SENSITIVITY_VARIABLES[columnVariable].label}
+              </TableHead>
+              {table.columnDeltas.map((delta) => (
+                <TableHead key={delta} className="text-right">
+                  {delta === 0
+                    ? "Base"
+                    : formatSensitivityDelta(columnVariable, delta)}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.rowDeltas.map((rowDelta, rowIndex) => (
+              <TableRow key={rowDelta}>
+                <TableCell className="font-medium">
+                  {rowDelta === 0
+                    ? "Base"
+                    : formatSensitivityDelta(rowVariable, rowDelta)}
+                </TableCell>
+                {table.values[rowIndex].map((value, columnIndex) => (
+                  <TableCell
+                    key={columnIndex}
+                    className={`text-right ${getCellColor(value)} ${
+                      rowDelta === 0 && table.columnDeltas[columnIndex] === 0
+                        ? "font-bold bg-blue-50"
+                        : ""
+                    }`}
+                  >
+                    {formatSensitivityMetric(tableMetric, value)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+// Seasonal STR bookings - monthly ADR and occupancy per unit, cleaning fees and stay
+// length, with AirDNA import and the month-to-month revenue swing they produce
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { CalendarRange, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { StrategyResults, UnitDetail } from "@calc/types";
+import { formatCurrency } from "@calc/calculations";
+import {
+  buildFlatSeasonalCurve,
+  DEFAULT_STR_AVERAGE_STAY_NIGHTS,
+  hasSeasonalCurve,
+  MONTH_LABELS,
+  parseAirDnaCSV,
+} from "@calc/strSeasonality";
+
+interface StrSeasonalityCardProps {
+  units: UnitDetail[];
+  results: StrategyResults;
+  onChange: (units: UnitDetail[]) => void;
+}
+
+export function StrSeasonalityCard({
+  units,
+  results,
+  onChange,
+}: StrSeasonalityCardProps) {
+  const [unitIndex, setUnitIndex] = useState(0);
+  const selectedIndex = Math.min(unitIndex, Math.max(0, units.length - 1));
+  const unit = units[selectedIndex];
+  const seasonality = results.strSeasonality;
+
+  if (!unit) return null;
+
+  const updateUnit = (changes: Partial<UnitDetail>) => {
+    onChange(
+      units.map((existing, i) =>
+        i === selectedIndex ? { ...existing, ...changes } : existing
+      )
+    );
+  };
+
+  const updateMonth = (
+    field: "strMonthlyADR" | "strMonthlyOccupancy",
+    month: number,
+    value: number
+  ) => {
+    const curve = [...(unit[field] ?? [])];
+    curve[month] = value;
+    updateUnit({ [field]: curve });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      updateUnit(parseAirDnaCSV(await file.text()));
+      toast.success(`Imported AirDNA curves for Unit ${selectedIndex + 1}`);
+    } catch (error) {
+      console.error("AirDNA import error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import AirDNA data"
+      );
+    }
+  };
+
+  const isSeasonal = hasSeasonalCurve(unit);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5 text-cyan-600" />
+          <CardTitle>Seasonal Revenue</CardTitle>
+        </div>
+        <CardDescription>
+          Monthly nightly rate and occupancy per unit. Units with a curve are
+          booked month by month; the rest use their flat annual revenue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-48">
+            <Label>Unit</Label>
+            <Select
+              value={String(selectedIndex)}
+              onValueChange={(value: string) => setUnitIndex(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {units.map((u, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    Unit {index + 1} - {u.beds}bd/{u.baths}ba
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isSeasonal ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                updateUnit({
+                  strMonthlyADR: undefined,
+                  strMonthlyOccupancy: undefined,
+                })
+              }
+            >
+              Use Flat Revenue
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                updateUnit(buildFlatSeasonalCurve(unit.strAnnualRevenue || 0))
+              }
+            >
+              Build Monthly Curve
+            </Button>
+          )}
+          <Input
+            type="file"
+            accept=".csv"
+            onChange={handleImport}
+            className="hidden"
+            id="import-airdna"
+          />
+          <Button variant="outline" size="sm" asChild>
+            <label
+              htmlFor="import-airdna"
+              className="cursor-pointer flex items-center gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import AirDNA CSV
+            </label>
+          </Button>
+        </div>
+
+        {isSeasonal && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left text-xs text-muted-foreground font-normal pr-2" />
+                    {MONTH_LABELS.map((label) => (
+                      <th
+                        key={label}
+                        className="text-xs text-muted-foreground font-normal px-1"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td className="text-xs pr-2 whitespace-nowrap">ADR ($)</td>
+                    {MONTH_LABELS.map((label, month) => (
+                      <td key={label} className="px-1 py-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="5"
+                          value={unit.strMonthlyADR?.[month] ?? 0}
+                          onChange={(e) =>
+                            updateMonth(
+                              "strMonthlyADR",
+                              month,
+                              Number(e.target.value)
+                            )
+                          }
+                          className="h-8 min-w-16 px-1"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="text-xs pr-2 whitespace-nowrap">
+                      Occupancy (%)
+                    </td>
+                    {MONTH_LABELS.map((label, month) => (
+                      <td key={label} className="px-1 py-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={unit.strMonthlyOccupancy?.[month] ?? 0}
+                          onChange={(e) =>
+                            updateMonth(
+                              "strMonthlyOccupancy",
+                              month,
+                              Number(e.target.value)
+                            )
+                          }
+                          className="h-8 min-w-16 px-1"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="strCleaningFee">Cleaning Fee / Stay ($)</Label>
+                <Input
+                  id="strCleaningFee"
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={unit.strCleaningFee ?? 0}
+                  onChange={(e) =>
+                    updateUnit({ strCleaningFee: Number(e.target.value) })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="strCleaningCost">
+                  Cleaning Cost / Turnover ($)
+                </Label>
+                <Input
+                  id="strCleaningCost"
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={unit.strCleaningCost ?? 0}
+                  onChange={(e) =>
+                    updateUnit({ strCleaningCost: Number(e.target.value) })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="strAverageStayNights">
+                  Average Stay (nights)
+                </Label>
+                <Input
+                  id="strAverageStayNights"
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={
+                    unit.strAverageStayNights ?? DEFAULT_STR_AVERAGE_STAY_NIGHTS
+                  }
+                  onChange={(e) =>
+                    updateUnit({
+                      strAverageStayNights: Number(e.target.value),
+                    })
+                  }
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        {seasonality && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">
+                  Booking Revenue (Seasonal Units)
+                </p>
+                <p className="text-lg font-semibold">
+                  {formatCurrency(seasonality.annualGrossRevenue)}
+                </p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">
+                  After Platform Fees & Cleaning
+                </p>
+                <p className="text-lg font-semibold">
+                  {formatCurrency(seasonality.annualNetRevenue)}
+                </p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">
+                  Peak / Low Month
+                </p>
+                <p className="text-lg font-semibold">
+                  {MONTH_LABELS[seasonality.peakMonth - 1]} /{" "}
+                  {MONTH_LABELS[seasonality.lowMonth - 1]}
+                </p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">
+                  Monthly Variance
+                </p>
+                <p
+                  className={`text-lg font-semibold ${
+                    seasonality.coefficientOfVariation > 30
+                      ? "text-orange-600"
+                      : ""
+                  }`}
+                >
+                  ±{formatCurrency(seasonality.monthlyStdDev)} (
+                  {seasonality.coefficientOfVariation.toFixed(0)}%)
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-6 md:grid-cols-12 gap-1 text-center">
+              {seasonality.months.map((month) => (
+                <div key={month.month} className="p-1 border rounded text-xs">
+                  <p className="text-muted-foreground">
+                    {MONTH_LABELS[month.month - 1]}
+                  </p>
+                  <p className="font-semibold">
+                    {formatCurrency(month.netRevenue)}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Guests also pay {formatCurrency(seasonality.annualLodgingTax)}/yr
+              in Florida sales and Broward tourist development tax, which is
+              remitted and not counted as income.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+// After-tax view of a strategy - depreciation, passive losses and taxable sale vs 1031 exchange
+import { useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Landmark } from "lucide-react";
+import { DealInputs, GlobalAssumptions, HoldStrategy } from "@calc/types";
+import { calculateStrategy, formatCurrency } from "@calc/calculations";
+import {
+  calculateReturnMetrics,
+  DEFAULT_DISCOUNT_RATE_PERCENT,
+  formatIRR,
+} from "@calc/returnMetrics";
+import { resolveTaxSettings } from "@calc/taxes";
+
+interface TaxAnalysisProps {
+  strategy: HoldStrategy;
+  inputs: DealInputs;
+  assumptions: GlobalAssumptions;
+  excludeVacancy: boolean;
+  holdYears: number;
+}
+
+export function TaxAnalysis({
+  strategy,
+  inputs,
+  assumptions,
+  excludeVacancy,
+  holdYears,
+}: TaxAnalysisProps) {
+  const taxSettings = resolveTaxSettings(assumptions);
+
+  const { results, taxableSale, exchange } = useMemo(() => {
+    const results = calculateStrategy(
+      strategy,
+      inputs,
+      assumptions,
+      excludeVacancy
+    );
+    const getMetrics = (exchange1031: boolean) =>
+      calculateReturnMetrics(
+        results,
+        holdYears,
+        inputs.sellClosingCosts,
+        assumptions.discountRatePercent ?? DEFAULT_DISCOUNT_RATE_PERCENT,
+        resolveTaxSettings(assumptions),
+        exchange1031
+      );
+    return {
+      results,
+      taxableSale: getMetrics(false),
+      exchange: getMetrics(true),
+    };
+  }, [strategy, inputs, assumptions, excludeVacancy, holdYears]);
+
+  const year1 = results.projections[0];
+  const exitYear = results.projections[taxableSale.holdYears - 1];
+
+  const saleRows: {
+    label: string;
+    taxable: number | string;
+    deferred: number | string;
+  }[] = [
+    {
+      label: "Gain on Sale",
+      taxable: taxableSale.saleTax.gain,
+      deferred: exchange.saleTax.gain,
+    },
+    {
+      label: "Depreciation Recapture Tax",
+      taxable: taxableSale.saleTax.depreciationRecapture,
+      deferred: 0,
+    },
+    {
+      label: "Capital Gains Tax",
+      taxable: taxableSale.saleTax.capitalGainsTax,
+      deferred: 0,
+    },
+    {
+      label: "Released Passive Losses",
+      taxable: -taxableSale.saleTax.releasedLossBenefit,
+      deferred: 0,
+    },
+    {
+      label: "Tax Due at Sale",
+      taxable: taxableSale.saleTax.totalTax,
+      deferred: exchange.saleTax.totalTax,
+    },
+    {
+      label: "Tax Deferred",
+      taxable: 0,
+      deferred: exchange.saleTax.deferredTax,
+    },
+    {
+      label: "After-Tax Sale Proceeds",
+      taxable: taxableSale.netSaleProceeds - taxableSale.saleTax.totalTax,
+      deferred: exchange.netSaleProceeds - exchange.saleTax.totalTax,
+    },
+    {
+      label: "After-Tax IRR",
+      taxable: formatIRR(taxableSale.afterTaxIRR),
+      deferred: formatIRR(exchange.afterTaxIRR),
+    },
+  ];
+
+  const formatCell = (value: number | string) =>
+    typeof value === "string" ? value : formatCurrency(value);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-slate-600" />
+          <CardTitle>Tax Impact</CardTitle>
+        </div>
+        <CardDescription>
+          {taxSettings.ordinaryIncomeRatePercent}% ordinary /{" "}
+          {taxSettings.capitalGainsRatePercent}% capital gains,{" "}
+          {taxSettings.landValuePercent}% land
+          {taxSettings.costSegregationPercent > 0 &&
+            `, ${taxSettings.costSegregationPercent}% cost segregation`}
+          {taxSettings.realEstateProfessional && ", real estate professional"}
+          {" - "}sale at the end of year {taxableSale.holdYears}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Year 1 Depreciation</p>
+            <p className="text-lg font-semibold">
+              {formatCurrency(year1?.depreciation ?? 0)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Year 1 Income Tax</p>
+            <p
+              className={`text-lg font-semibold ${
+                (year1?.incomeTax ?? 0) <= 0 ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {formatCurrency(year1?.incomeTax ?? 0)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              Year 1 After-Tax Cash Flow
+            </p>
+            <p className="text-lg font-semibold">
+              {formatCurrency(year1?.afterTaxCashFlow ?? 0)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              Suspended Losses at Exit
+            </p>
+            <p className="text-lg font-semibold">
+              {formatCurrency(exitYear?.suspendedPassiveLoss ?? 0)}
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead className="text-right">Taxable Sale</TableHead>
+              <TableHead className="text-right">1031 Exchange</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {saleRows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className="text-sm">{row.label}</TableCell>
+                <TableCell className="text-right">
+                  {formatCell(row.taxable)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCell(row.deferred)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Pre-tax levered IRR: {formatIRR(taxableSale.leveredIRR)}. A 1031
+          exchange carries the deferred gain and any suspended losses into the
+          replacement property.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
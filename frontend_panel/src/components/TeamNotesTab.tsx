@@ -12,7 +12,7 @@ import {
   Loader2,
   User,
 } from "lucide-react";
-import { TeamNote, SavedDeal } from "../types/deal";
+import { TeamNote, SavedDeal } from "@calc/types";
 import { dashboardService } from "../services/dashboard.service";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
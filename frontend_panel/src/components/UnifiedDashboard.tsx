@@ -34,26 +34,54 @@ import {
   DialogTrigger,
 } from "./ui/dialog";
 import { Textarea } from "./ui/textarea";
+import { Checkbox } from "./ui/checkbox";
 import {
+  DealFilters,
   DealInputs,
   GlobalAssumptions,
+  HoldStrategy,
   Strategy,
   UnitDetail,
   DealNotes,
   ZillowComp,
+  ARVAdjustmentOverrides,
+  RentComp,
   SavedDeal,
   UnitData,
   DealStage,
-} from "../types/deal";
+  ProjectionView,
+} from "@calc/types";
 import {
   calculateLTR,
+  calculateHouseHack,
   calculateSection8,
   calculateAirbnb,
+  calculateMTR,
   calculateRehab,
+  DEFAULT_MTR_OCCUPANCY_PERCENT,
   formatCurrency,
   formatPercent,
-} from "../utils/calculations";
-import { calculateRehabScenarios } from "../utils/rehabCalculations";
+  isHouseHackEligible,
+} from "@calc/calculations";
+import { calculateRehabScenarios } from "@calc/rehabCalculations";
+import {
+  buildAmortizationSchedule,
+  buildRefiLoanTerms,
+  getAnnualDebtService,
+} from "@calc/loanCalculator";
+import { getLedgerMonths } from "@calc/cashFlowLedger";
+import {
+  calculateExpenseLines,
+  resolveOperatingExpenses,
+  sumExpenseLines,
+} from "@calc/operatingExpenses";
+import {
+  calculateReturnMetrics,
+  DEFAULT_DISCOUNT_RATE_PERCENT,
+  formatIRR,
+} from "@calc/returnMetrics";
+import { assessDealARVConfidence } from "@calc/arvConfidence";
+import { resolveTaxSettings } from "@calc/taxes";
 import {
   extractZipCode,
   autoPopulateSection8Rents,
@@ -69,6 +97,15 @@ import {
   getUnitTypeFromCount,
 } from "../utils/rehabEstimator";
 import { withAutoCalcs } from "../utils/autoCalcs";
+import { parseCSVLine } from "@calc/csv";
+import { hasSeasonalCurve } from "@calc/strSeasonality";
+import {
+  MAX_COMPARED_DEALS,
+  MIN_COMPARED_DEALS,
+} from "../utils/dealComparison";
+import { countActiveFilters, cleanDealFilters } from "../utils/dealFilters";
+import { OFFER_STRATEGY_LABELS } from "../utils/offerSolver";
+import { isPortfolioDeal } from "../utils/portfolio";
 import { getDefaultNotes } from "../utils/defaultNotes";
 import { PhotoGallery } from "./PhotoGallery";
 import {
@@ -98,12 +135,23 @@ import {
   MessageSquare,
   BookOpen,
   Activity,
+  Briefcase,
+  TrendingUp,
+  BedDouble,
+  KeyRound,
+  Columns3,
+  Filter,
 } from "lucide-react";
 import { CashFlowChart } from "./charts/CashFlowChart";
 import { LoanBalanceEquityChart } from "./charts/LoanBalanceEquityChart";
 import { ROIChart } from "./charts/ROIChart";
+import { MonthlyLedgerTable } from "./MonthlyLedgerTable";
+import { ReturnMetricsSummary } from "./ReturnMetricsSummary";
 import { RehabEstimateForm } from "./RehabEstimateForm"; // v256_change: Streamlined rehab-focused form
 import { ARVCalculator, SubjectProperty } from "./ARVCalculator";
+import { RentCompsCalculator, UnitRentUpdate } from "./RentCompsCalculator";
+import { getSubjectRentCondition } from "../utils/rentComps";
+import { ARV_CONFIDENCE_COLORS } from "./ARVConfidencePanel";
 import { parseZillowForSale } from "../utils/zillowParser";
 import { toast } from "sonner";
 import { dashboardService } from "../services/dashboard.service";
@@ -121,16 +169,43 @@ import { DealNotes as DealNotesComp } from "./DealNotes";
 import { getStageInfo, getStagesByPhase } from "../utils/dealStages";
 import { getNotesForDeal, loadTeamNotes } from "../utils/teamNotesStorage";
 import { PipelineStats } from "./PipelineStats";
+import { PortfolioRollup } from "./PortfolioRollup";
 import { UserGuide } from "./UserGuide";
 import { TeamNotesTab } from "./TeamNotesTab";
 import { BulkPasteDialog } from "./BulkPasteDialog";
+import { LoanStructureForm } from "./LoanStructureForm";
+import { RefinanceScheduleForm } from "./RefinanceScheduleForm";
+import { RentRollForm } from "./RentRollForm";
+import { OperatingExpensesForm } from "./OperatingExpensesForm";
+import { ExpenseBreakdownList } from "./ExpenseBreakdownList";
+import { SensitivityAnalysis } from "./SensitivityAnalysis";
+import { MonteCarloSimulation } from "./MonteCarloSimulation";
+import { MaxOfferSolver } from "./MaxOfferSolver";
+import { TaxAnalysis } from "./TaxAnalysis";
+import { FlipAnalysis } from "./FlipAnalysis";
+import { HouseHackAnalysis } from "./HouseHackAnalysis";
+import { StrSeasonalityCard } from "./StrSeasonalityCard";
+import { DealScenarios } from "./DealScenarios";
+import { DealComparison } from "./DealComparison";
+import { DealFiltersPanel } from "./DealFiltersPanel";
+import { CriteriaScore } from "./CriteriaScore";
+import { evaluateCriteria } from "../utils/investmentCriteria";
 import { useAutoSave } from "../hooks/useAutoSave";
+import { useDealScenarios } from "../hooks/useDealScenarios";
 
 interface UnifiedDashboardProps {
   globalAssumptions: GlobalAssumptions;
   onOpenAssumptions: () => void;
 }
 
+// Strategy tab list width and columns by how many tabs the deal shows
+const STRATEGY_TAB_GRID: Record<number, string> = {
+  4: "max-w-2xl grid-cols-4",
+  5: "max-w-3xl grid-cols-5",
+  6: "max-w-4xl grid-cols-6",
+  7: "max-w-5xl grid-cols-7",
+};
+
 // v253_change: getDefaultNotes moved to utils/defaultNotes.ts
 
 export function UnifiedDashboard({
@@ -147,6 +222,9 @@ export function UnifiedDashboard({
         section8Rent: 1650,
         strAnnualRevenue: 28800, // $2400/mo × 12 months (vacancy already accounted for by AirDNA)
         strAnnualExpenses: 5000, // Annual operating expenses
+        mtrMonthlyRent: 3000, // Furnished 30+ day rent (traveling nurse / insurance housing)
+        mtrMonthlyUtilities: 250,
+        mtrFurnishingCost: 10000,
       },
     ],
     totalSqft: 1500,
@@ -186,6 +264,7 @@ export function UnifiedDashboard({
     dscrAcquisitionCosts: undefined,
     notes: getDefaultNotes(),
     arvComps: [],
+    rentComps: [],
     subjectLat: 0,
     subjectLng: 0,
     calculatedARV: 0,
@@ -195,6 +274,15 @@ export function UnifiedDashboard({
   const [selectedStrategy, setSelectedStrategy] = useState<Strategy>("ltr");
   const [savedDeals, setSavedDeals] = useState<SavedDeal[]>([]);
   const [currentDealId, setCurrentDealId] = useState<string | null>(null);
+  const {
+    activeScenarioId,
+    dealInputs,
+    switchScenario,
+    addScenario,
+    renameScenario,
+    deleteScenario,
+    resetScenarios,
+  } = useDealScenarios(inputs, setInputs);
   const [comparisonYear, setComparisonYear] = useState<3 | 5 | 7 | 10>(5);
   const [deletingDealId, setDeletingDealId] = useState<string | null>(null);
   const [timeHorizon, setTimeHorizon] = useState<5 | 7 | 10 | 15 | 30>(30);
@@ -202,10 +290,19 @@ export function UnifiedDashboard({
   const [projectionMode, setProjectionMode] = useState<"realistic" | "lender">(
     "realistic"
   );
+  const [projectionView, setProjectionView] =
+    useState<ProjectionView>("yearly");
   const [hasManuallySelectedTab, setHasManuallySelectedTab] = useState(false);
   const [showCharts, setShowCharts] = useState(false);
   const [mainView, setMainView] = useState<
-    "overview" | "condition" | "arv" | "teamnotes" | "stats" | "guide"
+    | "overview"
+    | "condition"
+    | "arv"
+    | "rentcomps"
+    | "teamnotes"
+    | "stats"
+    | "portfolio"
+    | "guide"
   >("overview");
 
   // Team notes state for badge counts
@@ -225,6 +322,8 @@ export function UnifiedDashboard({
 
   // Zillow Quick Start
   const [showZillowQuickStart, setShowZillowQuickStart] = useState(false);
+  const [compareDealIds, setCompareDealIds] = useState<string[]>([]);
+  const [showDealComparison, setShowDealComparison] = useState(false);
   const [zillowQuickStartData, setZillowQuickStartData] = useState("");
 
   // Bulk Paste
@@ -246,15 +345,33 @@ export function UnifiedDashboard({
     | "units"
     | "ltrCF"
     | "ltrDSCR"
+    | "ltrIRR"
     | "s8CF"
     | "s8DSCR"
+    | "s8IRR"
     | "strCF"
     | "strDSCR"
-    | "best";
+    | "strIRR"
+    | "mtrCF"
+    | "mtrDSCR"
+    | "mtrIRR"
+    | "rehabIRR"
+    | "best"
+    | "criteria";
   type SortDirection = "asc" | "desc";
   const [sortColumn, setSortColumn] = useState<SortColumn | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
 
+  // Saved-deals filters run on the server; null ids = no filter active
+  const [dealFilters, setDealFilters] = useState<DealFilters>({});
+  const [showDealFilters, setShowDealFilters] = useState(false);
+  const [filteredDealIds, setFilteredDealIds] = useState<string[] | null>(null);
+
+  // Buy box profile the saved deals are scored against (defaults to the first)
+  const [criteriaProfileId, setCriteriaProfileId] = useState<string | null>(
+    null
+  );
+
   const [loading, setLoading] = useState(false);
   const [savingDeal, setSavingDeal] = useState(false); // For manual save button
   const [isAutoSaving, setIsAutoSaving] = useState(false); // For auto-save indicator
@@ -273,7 +390,14 @@ export function UnifiedDashboard({
         page: 1,
         limit: 100, // Load all deals for now
       });
-      setSavedDeals(response.data);
+      // Deals saved before the server kept an ARV confidence get one here
+      setSavedDeals(
+        response.data.map((deal) =>
+          deal.arvConfidence || !deal.arvComps?.length
+            ? deal
+            : { ...deal, arvConfidence: assessDealARVConfidence(deal) }
+        )
+      );
       setLoading(false);
     } catch (error) {
       setLoading(false);
@@ -282,6 +406,35 @@ export function UnifiedDashboard({
     }
   };
 
+  // Re-run the server-side filter when it changes or a deal is saved (debounced)
+  useEffect(() => {
+    if (countActiveFilters(dealFilters) === 0) {
+      setFilteredDealIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await dashboardService.getDeals({
+          page: 1,
+          limit: 100,
+          ...cleanDealFilters(dealFilters),
+        });
+        if (!cancelled) {
+          setFilteredDealIds(response.data.map((deal) => deal.id));
+        }
+      } catch (error) {
+        console.error("Failed to filter deals:", error);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [dealFilters, savedDeals]);
+
   // Update team notes count
   useEffect(() => {
     const updateNotesCount = () => {
@@ -313,6 +466,9 @@ export function UnifiedDashboard({
           strAnnualRevenue: 28800,
           strAnnualExpenses: 5000,
           strOccupancy: 75,
+          mtrMonthlyRent: 3000,
+          mtrMonthlyUtilities: 250,
+          mtrFurnishingCost: 10000,
         };
         while (newUnitDetails.length < inputs.units) {
           newUnitDetails.push({ ...lastUnit });
@@ -747,10 +903,63 @@ export function UnifiedDashboard({
     }
   };
 
+  const handlePortfolioStrategyChange = async (
+    dealId: string,
+    strategy: HoldStrategy
+  ) => {
+    try {
+      await dashboardService.updateDeal(dealId, {
+        portfolioStrategy: strategy,
+      });
+
+      setSavedDeals((deals) =>
+        deals.map((deal) =>
+          deal.id === dealId ? { ...deal, portfolioStrategy: strategy } : deal
+        )
+      );
+      toast.success(`Strategy set to: ${OFFER_STRATEGY_LABELS[strategy]}`);
+    } catch (error) {
+      console.error("Failed to update portfolio strategy:", error);
+      toast.error("Failed to update portfolio strategy");
+    }
+  };
+
   const handleARVCompsChange = (comps: ZillowComp[]) => {
     setInputs((prev) => ({ ...prev, arvComps: comps }));
   };
 
+  const handleARVAdjustmentOverridesChange = (
+    overrides: ARVAdjustmentOverrides
+  ) => {
+    setInputs((prev) => ({ ...prev, arvAdjustmentOverrides: overrides }));
+  };
+
+  const handleRentCompsChange = (comps: RentComp[]) => {
+    setInputs((prev) => ({ ...prev, rentComps: comps }));
+  };
+
+  // Push suggested rents from the Rent Comps tab into the unit details
+  const handleApplyRentComps = (updates: UnitRentUpdate[]) => {
+    setInputs((prev) => {
+      const unitDetails = [...prev.unitDetails];
+      updates.forEach(({ index, marketRent, afterRehabMarketRent }) => {
+        unitDetails[index] = {
+          ...unitDetails[index],
+          marketRent,
+          afterRehabMarketRent,
+        };
+      });
+      return { ...prev, unitDetails };
+    });
+    toast.success(
+      updates.length === 1
+        ? `Unit ${updates[0].index + 1}: market rent set to ${formatCurrency(
+            updates[0].marketRent
+          )}`
+        : `Market rents set for ${updates.length} units`
+    );
+  };
+
   const handleCalculatedARVChange = (arv: number) => {
     setInputs((prev) => ({
       ...prev,
@@ -785,6 +994,8 @@ export function UnifiedDashboard({
         purchasePrice: property.purchasePrice || prev.purchasePrice,
         totalSqft: property.sqft || prev.totalSqft,
         yearBuilt: property.yearBuilt || prev.yearBuilt,
+        lotSize: property.lotSize ?? prev.lotSize,
+        parkingSpaces: property.parkingSpaces ?? prev.parkingSpaces,
         units: property.units || prev.units,
         subjectPropertyDescription:
           property.description || prev.subjectPropertyDescription,
@@ -1112,6 +1323,7 @@ export function UnifiedDashboard({
 
     setInputs(newInputs);
     setCurrentDealId(null);
+    resetScenarios();
     setShowZillowQuickStart(false);
     setZillowQuickStartData("");
 
@@ -1166,7 +1378,7 @@ export function UnifiedDashboard({
         }
 
         // Convert and upload photos to VPS
-        let photosToSave = inputs.photos || [];
+        let photosToSave = dealInputs.photos || [];
 
         if (photosToSave.length > 0) {
           const uploadResults = await Promise.all(
@@ -1211,11 +1423,16 @@ export function UnifiedDashboard({
         }
 
         const dealToSave: DealInputs = {
-          ...inputs,
+          ...dealInputs,
           photos: photosToSave,
         };
 
-        let result: { data: SavedDeal; message?: string };
+        let result: {
+          data: SavedDeal;
+          message?: string;
+          updatedDeals?: number;
+          replacedComps?: { id: string; address: string }[];
+        };
         if (currentDealId) {
           result = await dashboardService.updateDeal(currentDealId, dealToSave);
           setSavedDeals((prev) =>
@@ -1230,6 +1447,56 @@ export function UnifiedDashboard({
           setCurrentDealId(newDeal.id);
         }
 
+        // Take the server's copy of comps it linked to the library or re-versioned
+        // (a stale copy is refreshed from the library), so the next save is current.
+        // Replaced comps also moved the server's ARV, so take that too.
+        const replacedComps = result.replacedComps || [];
+        const serverComps = new Map(
+          (result.data.arvComps || []).map((comp) => [comp.id, comp])
+        );
+        setInputs((prev) => {
+          const arvComps = prev.arvComps || [];
+          const isRelinked = (comp: ZillowComp) => {
+            const serverComp = serverComps.get(comp.id);
+            return (
+              !!serverComp?.libraryId &&
+              (serverComp.libraryId !== comp.libraryId ||
+                serverComp.libraryUpdatedAt !== comp.libraryUpdatedAt)
+            );
+          };
+          if (!arvComps.some(isRelinked)) {
+            return prev;
+          }
+          return {
+            ...prev,
+            ...(replacedComps.length > 0 && {
+              calculatedARV: result.data.calculatedARV,
+              afterRepairValue: result.data.afterRepairValue,
+            }),
+            arvComps: arvComps.map((comp) =>
+              isRelinked(comp) ? { ...comp, ...serverComps.get(comp.id) } : comp
+            ),
+          };
+        });
+
+        if (replacedComps.length > 0) {
+          toast.warning(
+            `Comp edits not saved - newer library copies replaced ${replacedComps
+              .map((comp) => comp.address)
+              .join(", ")}`
+          );
+        }
+
+        // Other deals sharing an edited comp changed too - loadDealsFromAPI below
+        // refreshes them in the saved deals list
+        if (result.updatedDeals) {
+          toast.info(
+            `Comp edits copied to ${result.updatedDeals} other ${
+              result.updatedDeals === 1 ? "deal" : "deals"
+            }`
+          );
+        }
+
         // Only show toast for manual saves, not auto-saves
         if (!isAutoSave) {
           const successfulUploads = photosToSave.filter(
@@ -1270,12 +1537,12 @@ export function UnifiedDashboard({
         }
       }
     },
-    [inputs, currentDealId]
+    [inputs, dealInputs, currentDealId]
   );
 
   // Use the auto-save hook with proper error handling
   useAutoSave(
-    inputs,
+    dealInputs,
     currentDealId,
     useCallback(() => {
       console.log("🚀 Auto-save triggered!");
@@ -1370,6 +1637,9 @@ export function UnifiedDashboard({
       if (!loadedDeal.arvComps) {
         loadedDeal.arvComps = [];
       }
+      if (!loadedDeal.rentComps) {
+        loadedDeal.rentComps = [];
+      }
       if (!loadedDeal.calculatedARV) {
         loadedDeal.calculatedARV = 0;
       }
@@ -1390,6 +1660,7 @@ export function UnifiedDashboard({
 
       setInputs(loadedDeal);
       setCurrentDealId(deal.id);
+      resetScenarios();
       setHasManuallySelectedTab(false);
 
       toast.success("Deal loaded successfully");
@@ -1654,6 +1925,20 @@ export function UnifiedDashboard({
           afterRehabMarketRent: unit.afterRehabMarketRent,
           strAnnualRevenue: unit.strAnnualRevenue,
           strAnnualExpenses: unit.strAnnualExpenses,
+          strMonthlyADR: unit.strMonthlyADR,
+          strMonthlyOccupancy: unit.strMonthlyOccupancy,
+          strCleaningFee: unit.strCleaningFee,
+          strCleaningCost: unit.strCleaningCost,
+          strAverageStayNights: unit.strAverageStayNights,
+          mtrMonthlyRent: unit.mtrMonthlyRent,
+          mtrOccupancyPercent: unit.mtrOccupancyPercent,
+          mtrMonthlyUtilities: unit.mtrMonthlyUtilities,
+          mtrFurnishingCost: unit.mtrFurnishingCost,
+          currentRent: unit.currentRent,
+          leaseEndDate: unit.leaseEndDate,
+          securityDeposit: unit.securityDeposit,
+          tenantType: unit.tenantType,
+          markToMarketPlan: unit.markToMarketPlan,
           _id: undefined, // Remove MongoDB _id
         })) || [],
     }));
@@ -1731,29 +2016,6 @@ export function UnifiedDashboard({
     return deals;
   };
 
-  // Helper function to parse CSV line with quoted values
-  const parseCSVLine = (line: string): string[] => {
-    const values: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === "," && !inQuotes) {
-        values.push(current.trim().replace(/^"|"$/g, ""));
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    values.push(current.trim().replace(/^"|"$/g, ""));
-    return values;
-  };
-
   // Create DealInputs from CSV row
   const createDealFromCSVRow = (
     headers: string[],
@@ -2117,6 +2379,7 @@ export function UnifiedDashboard({
       notes: getDefaultNotes(),
     });
     setCurrentDealId(null);
+    resetScenarios();
     setHasManuallySelectedTab(false); // Reset manual selection for new deal
     toast.success("New deal started");
   };
@@ -2157,6 +2420,26 @@ export function UnifiedDashboard({
   const ltrResults =
     projectionMode === "lender" ? ltrResultsLender : ltrResultsRealistic;
 
+  // House hack only applies to 2-4 unit properties
+  const houseHackResultsRealistic = useMemo(
+    () =>
+      isHouseHackEligible(inputs)
+        ? calculateHouseHack(inputs, globalAssumptions, false)
+        : null,
+    [inputs, globalAssumptions]
+  );
+  const houseHackResultsLender = useMemo(
+    () =>
+      isHouseHackEligible(inputs)
+        ? calculateHouseHack(inputs, globalAssumptions, true)
+        : null,
+    [inputs, globalAssumptions]
+  );
+  const houseHackResults =
+    projectionMode === "lender"
+      ? houseHackResultsLender
+      : houseHackResultsRealistic;
+
   const section8ResultsRealistic = useMemo(
     () => calculateSection8(inputs, globalAssumptions, false),
     [inputs, globalAssumptions]
@@ -2170,16 +2453,22 @@ export function UnifiedDashboard({
       ? section8ResultsLender
       : section8ResultsRealistic;
 
-  const airbnbResultsRealistic = useMemo(
-    () => calculateAirbnb(inputs, globalAssumptions, false),
+  // Same in both projection modes - occupancy already prices in vacancy
+  const airbnbResults = useMemo(
+    () => calculateAirbnb(inputs, globalAssumptions),
     [inputs, globalAssumptions]
   );
-  const airbnbResultsLender = useMemo(
-    () => calculateAirbnb(inputs, globalAssumptions, true),
+
+  const mtrResultsRealistic = useMemo(
+    () => calculateMTR(inputs, globalAssumptions, false),
+    [inputs, globalAssumptions]
+  );
+  const mtrResultsLender = useMemo(
+    () => calculateMTR(inputs, globalAssumptions, true),
     [inputs, globalAssumptions]
   );
-  const airbnbResults =
-    projectionMode === "lender" ? airbnbResultsLender : airbnbResultsRealistic;
+  const mtrResults =
+    projectionMode === "lender" ? mtrResultsLender : mtrResultsRealistic;
 
   const rehabResultsRealistic = useMemo(
     () =>
@@ -2201,6 +2490,8 @@ export function UnifiedDashboard({
         ? rehabResultsLender
         : rehabResultsRealistic
       : null;
+  const strategyTabCount =
+    4 + (houseHackResults ? 1 : 0) + (inputs.isRehab && rehabResults ? 2 : 0);
 
   const getBestStrategy = () => {
     // Use Cash-on-Cash % for comparison (factors in initial capital investment)
@@ -2208,6 +2499,7 @@ export function UnifiedDashboard({
       ltr: ltrResults.year1Summary.cashOnCash || 0,
       section8: section8Results.year1Summary.cashOnCash || 0,
       airbnb: airbnbResults.year1Summary.cashOnCash || 0,
+      mtr: mtrResults.year1Summary.cashOnCash || 0,
       rehab: rehabResults?.year1Summary.cashOnCash || 0,
     };
 
@@ -2215,11 +2507,13 @@ export function UnifiedDashboard({
       cashOnCash.ltr,
       cashOnCash.section8,
       cashOnCash.airbnb,
+      cashOnCash.mtr,
       cashOnCash.rehab
     );
 
     if (cashOnCash.rehab === maxCashOnCash && rehabResults) return "rehab";
     if (cashOnCash.airbnb === maxCashOnCash) return "airbnb";
+    if (cashOnCash.mtr === maxCashOnCash) return "mtr";
     if (cashOnCash.section8 === maxCashOnCash) return "section8";
     return "ltr";
   };
@@ -2249,20 +2543,83 @@ export function UnifiedDashboard({
     }
   };
 
+  // Levered IRR for a saved deal, assuming a sale at the end of the comparison year
+  const getDealIRR = (deal: SavedDeal, results: typeof ltrResults | null) =>
+    results
+      ? calculateReturnMetrics(
+          results,
+          comparisonYear,
+          deal.sellClosingCosts || 8,
+          globalAssumptions.discountRatePercent ?? DEFAULT_DISCOUNT_RATE_PERCENT
+        ).leveredIRR
+      : null;
+
+  // Rental strategy with the highest 5-year total return (later entries win ties)
+  const getBestRentalLabel = (year5ROI: {
+    ltr: number;
+    section8: number;
+    mtr: number;
+    airbnb: number;
+  }) => {
+    const labels = {
+      ltr: "LTR",
+      section8: "Section 8",
+      mtr: "MTR",
+      airbnb: "Airbnb",
+    };
+    let best: keyof typeof labels = "ltr";
+    (["section8", "mtr", "airbnb"] as const).forEach((strategy) => {
+      if (year5ROI[strategy] >= year5ROI[best]) best = strategy;
+    });
+    return labels[best];
+  };
+
+  const criteriaProfiles = globalAssumptions.criteriaProfiles ?? [];
+  const activeCriteriaProfile =
+    criteriaProfiles.find((profile) => profile.id === criteriaProfileId) ??
+    criteriaProfiles[0] ??
+    null;
+
+  // Deals ticked for side-by-side comparison (deleted deals drop out)
+  const comparedDeals = useMemo(
+    () => savedDeals.filter((deal) => compareDealIds.includes(deal.id)),
+    [savedDeals, compareDealIds]
+  );
+
+  const portfolioCount = savedDeals.filter(isPortfolioDeal).length;
+
+  const filteredDeals = useMemo(
+    () =>
+      filteredDealIds
+        ? savedDeals.filter((deal) => filteredDealIds.includes(deal.id))
+        : savedDeals,
+    [savedDeals, filteredDealIds]
+  );
+
   // Compute sorted deals
   const sortedDeals = useMemo(() => {
-    if (!sortColumn) return savedDeals;
+    if (!sortColumn) return filteredDeals;
 
-    return [...savedDeals].sort((a, b) => {
+    return [...filteredDeals].sort((a, b) => {
       const aCalcs = {
         ltr: calculateLTR(a, globalAssumptions),
         sec8: calculateSection8(a, globalAssumptions),
         str: calculateAirbnb(a, globalAssumptions),
+        mtr: calculateMTR(a, globalAssumptions),
+        rehab:
+          a.isRehab && a.rehabCost > 0
+            ? calculateRehab(a, globalAssumptions)
+            : null,
       };
       const bCalcs = {
         ltr: calculateLTR(b, globalAssumptions),
         sec8: calculateSection8(b, globalAssumptions),
         str: calculateAirbnb(b, globalAssumptions),
+        mtr: calculateMTR(b, globalAssumptions),
+        rehab:
+          b.isRehab && b.rehabCost > 0
+            ? calculateRehab(b, globalAssumptions)
+            : null,
       };
 
       let aValue: any;
@@ -2309,37 +2666,57 @@ export function UnifiedDashboard({
           aValue = aCalcs.str.year1Summary.dscr || 0;
           bValue = bCalcs.str.year1Summary.dscr || 0;
           break;
+        case "mtrCF":
+          aValue = aCalcs.mtr.year1Summary.cashFlow || 0;
+          bValue = bCalcs.mtr.year1Summary.cashFlow || 0;
+          break;
+        case "mtrDSCR":
+          aValue = aCalcs.mtr.year1Summary.dscr || 0;
+          bValue = bCalcs.mtr.year1Summary.dscr || 0;
+          break;
+        case "ltrIRR":
+          aValue = getDealIRR(a, aCalcs.ltr) ?? -Infinity;
+          bValue = getDealIRR(b, bCalcs.ltr) ?? -Infinity;
+          break;
+        case "s8IRR":
+          aValue = getDealIRR(a, aCalcs.sec8) ?? -Infinity;
+          bValue = getDealIRR(b, bCalcs.sec8) ?? -Infinity;
+          break;
+        case "strIRR":
+          aValue = getDealIRR(a, aCalcs.str) ?? -Infinity;
+          bValue = getDealIRR(b, bCalcs.str) ?? -Infinity;
+          break;
+        case "mtrIRR":
+          aValue = getDealIRR(a, aCalcs.mtr) ?? -Infinity;
+          bValue = getDealIRR(b, bCalcs.mtr) ?? -Infinity;
+          break;
+        case "rehabIRR":
+          aValue = getDealIRR(a, aCalcs.rehab) ?? -Infinity;
+          bValue = getDealIRR(b, bCalcs.rehab) ?? -Infinity;
+          break;
         case "best":
-          const aYear5ROI = {
+          aValue = getBestRentalLabel({
             ltr: aCalcs.ltr.projections[4]?.cumulativeReturn || 0,
             section8: aCalcs.sec8.projections[4]?.cumulativeReturn || 0,
+            mtr: aCalcs.mtr.projections[4]?.cumulativeReturn || 0,
             airbnb: aCalcs.str.projections[4]?.cumulativeReturn || 0,
-          };
-          const bYear5ROI = {
+          });
+          bValue = getBestRentalLabel({
             ltr: bCalcs.ltr.projections[4]?.cumulativeReturn || 0,
             section8: bCalcs.sec8.projections[4]?.cumulativeReturn || 0,
+            mtr: bCalcs.mtr.projections[4]?.cumulativeReturn || 0,
             airbnb: bCalcs.str.projections[4]?.cumulativeReturn || 0,
-          };
-          let aBest = "LTR";
-          if (
-            aYear5ROI.airbnb >= aYear5ROI.ltr &&
-            aYear5ROI.airbnb >= aYear5ROI.section8
-          ) {
-            aBest = "Airbnb";
-          } else if (aYear5ROI.section8 >= aYear5ROI.ltr) {
-            aBest = "Section 8";
-          }
-          let bBest = "LTR";
-          if (
-            bYear5ROI.airbnb >= bYear5ROI.ltr &&
-            bYear5ROI.airbnb >= bYear5ROI.section8
-          ) {
-            bBest = "Airbnb";
-          } else if (bYear5ROI.section8 >= bYear5ROI.ltr) {
-            bBest = "Section 8";
-          }
-          aValue = aBest;
-          bValue = bBest;
+          });
+          break;
+        case "criteria":
+          aValue = activeCriteriaProfile
+            ? evaluateCriteria(a, activeCriteriaProfile, globalAssumptions)
+                .score
+            : 0;
+          bValue = activeCriteriaProfile
+            ? evaluateCriteria(b, activeCriteriaProfile, globalAssumptions)
+                .score
+            : 0;
           break;
       }
 
@@ -2347,13 +2724,20 @@ export function UnifiedDashboard({
       let comparison = 0;
       if (typeof aValue === "string") {
         comparison = aValue.localeCompare(bValue);
-      } else {
+      } else if (aValue !== bValue) {
         comparison = aValue - bValue;
       }
 
       return sortDirection === "asc" ? comparison : -comparison;
     });
-  }, [savedDeals, sortColumn, sortDirection, globalAssumptions]);
+  }, [
+    filteredDeals,
+    sortColumn,
+    sortDirection,
+    globalAssumptions,
+    comparisonYear,
+    activeCriteriaProfile,
+  ]);
 
   // Auto-select best strategy tab only when user hasn't manually selected a tab
   useEffect(() => {
@@ -2362,6 +2746,13 @@ export function UnifiedDashboard({
     }
   }, [bestStrategy, hasManuallySelectedTab]);
 
+  // Fall back to LTR when the unit count no longer allows a house hack
+  useEffect(() => {
+    if (selectedStrategy === "houseHack" && !houseHackResults) {
+      setSelectedStrategy("ltr");
+    }
+  }, [selectedStrategy, houseHackResults]);
+
   // Sort icon component for table headers
   const SortIcon = ({ column }: { column: SortColumn }) => {
     if (sortColumn !== column) {
@@ -2487,15 +2878,38 @@ export function UnifiedDashboard({
             <p className="text-blue-600 text-xs mt-1">Total capital invested</p>
           </div>
         </div>
+        <ExpenseBreakdownList items={results.year1Summary.expenseBreakdown} />
       </CardContent>
     </Card>
   );
 
+  const renderViewToggle = () => (
+    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+      {(["yearly", "monthly"] as ProjectionView[]).map((view) => (
+        <Button
+          key={view}
+          variant={projectionView === view ? "default" : "ghost"}
+          size="sm"
+          onClick={() => setProjectionView(view)}
+          className={projectionView === view ? "bg-blue-600" : ""}
+        >
+          {view === "yearly" ? "Yearly" : "Monthly"}
+        </Button>
+      ))}
+    </div>
+  );
+
   const renderProjectionTable = (results: typeof ltrResults) => {
     const allProjections = results.projections.slice(0, timeHorizon);
+    const hasRefinances = (results.refinances?.length ?? 0) > 0;
     const displayedProjections = isTableExpanded
       ? allProjections
       : allProjections.slice(0, 5);
+    // Collapsed monthly view shows the rehab period (if any) and the first year
+    const displayedMonths = getLedgerMonths(
+      results.monthlyLedger,
+      isTableExpanded ? timeHorizon : 1
+    );
 
     return (
       <Card>
@@ -2552,6 +2966,7 @@ export function UnifiedDashboard({
                   Lender DSCR
                 </Button>
               </div>
+              {renderViewToggle()}
             </div>
           </div>
           {projectionMode === "lender" && (
@@ -2563,72 +2978,112 @@ export function UnifiedDashboard({
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Year</TableHead>
-                  <TableHead className="text-right">Gross Income</TableHead>
-                  <TableHead className="text-right">NOI</TableHead>
-                  <TableHead className="text-right">Debt Service</TableHead>
-                  <TableHead className="text-right">Cash Flow</TableHead>
-                  <TableHead className="text-right">Appreciation</TableHead>
-                  <TableHead className="text-right">Equity</TableHead>
-                  <TableHead className="text-right">Annual Return</TableHead>
-                  <TableHead className="text-right">Cumulative Cash</TableHead>
-                  <TableHead className="text-right">
-                    Cumulative Return
-                  </TableHead>
-                  <TableHead className="text-right">Cumulative ROI %</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {displayedProjections.map((projection) => {
-                  const cumulativeROI =
-                    (projection.cumulativeReturn / results.cashInvested) * 100;
-                  return (
-                    <TableRow key={projection.year}>
-                      <TableCell>{projection.year}</TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.grossIncome)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.noi)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.debtService)}
-                      </TableCell>
-                      <TableCell
-                        className={`text-right ${
-                          projection.cashFlow >= 0
-                            ? "text-green-600"
-                            : "text-red-600"
-                        }`}
-                      >
-                        {formatCurrency(projection.cashFlow)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.appreciation)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.equity)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(projection.annualReturn)}
-                      </TableCell>
-                      <TableCell className="text-right text-blue-600">
-                        {formatCurrency(projection.cumulativeCashFlow)}
-                      </TableCell>
-                      <TableCell className="text-right text-green-600">
-                        {formatCurrency(projection.cumulativeReturn)}
-                      </TableCell>
-                      <TableCell className="text-right text-purple-600">
-                        {formatPercent(cumulativeROI)}
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
+            {projectionView === "monthly" ? (
+              <MonthlyLedgerTable entries={displayedMonths} />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Year</TableHead>
+                    <TableHead className="text-right">Gross Income</TableHead>
+                    <TableHead className="text-right">NOI</TableHead>
+                    <TableHead className="text-right">Debt Service</TableHead>
+                    <TableHead className="text-right">Cash Flow</TableHead>
+                    <TableHead
+                      className="text-right"
+                      title="Income tax after depreciation and passive loss limits (negative = savings)"
+                    >
+                      Income Tax
+                    </TableHead>
+                    <TableHead className="text-right">After-Tax CF</TableHead>
+                    {hasRefinances && (
+                      <TableHead className="text-right">
+                        Refi Cash Out
+                      </TableHead>
+                    )}
+                    <TableHead className="text-right">Appreciation</TableHead>
+                    <TableHead className="text-right">Equity</TableHead>
+                    <TableHead className="text-right">Annual Return</TableHead>
+                    <TableHead className="text-right">
+                      Cumulative Cash
+                    </TableHead>
+                    <TableHead className="text-right">
+                      Cumulative Return
+                    </TableHead>
+                    <TableHead className="text-right">
+                      Cumulative ROI %
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {displayedProjections.map((projection) => {
+                    const cumulativeROI =
+                      (projection.cumulativeReturn / results.cashInvested) *
+                      100;
+                    return (
+                      <TableRow key={projection.year}>
+                        <TableCell>{projection.year}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.grossIncome)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.noi)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.debtService)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${
+                            projection.cashFlow >= 0
+                              ? "text-green-600"
+                              : "text-red-600"
+                          }`}
+                        >
+                          {formatCurrency(projection.cashFlow)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatCurrency(projection.incomeTax ?? 0)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${
+                            (projection.afterTaxCashFlow ?? 0) >= 0
+                              ? "text-green-600"
+                              : "text-red-600"
+                          }`}
+                        >
+                          {formatCurrency(projection.afterTaxCashFlow ?? 0)}
+                        </TableCell>
+                        {hasRefinances && (
+                          <TableCell className="text-right text-blue-600">
+                            {projection.refiProceeds
+                              ? formatCurrency(projection.refiProceeds)
+                              : "—"}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.appreciation)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.equity)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(projection.annualReturn)}
+                        </TableCell>
+                        <TableCell className="text-right text-blue-600">
+                          {formatCurrency(projection.cumulativeCashFlow)}
+                        </TableCell>
+                        <TableCell className="text-right text-green-600">
+                          {formatCurrency(projection.cumulativeReturn)}
+                        </TableCell>
+                        <TableCell className="text-right text-purple-600">
+                          {formatPercent(cumulativeROI)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
           </div>
           {allProjections.length > 5 && (
             <div className="mt-4 flex justify-center">
@@ -2648,6 +3103,33 @@ export function UnifiedDashboard({
     );
   };
 
+  // Tax impact plus the sensitivity and Monte Carlo tools for a strategy tab
+  const renderWhatIfAnalysis = (strategy: HoldStrategy) => (
+    <>
+      <TaxAnalysis
+        strategy={strategy}
+        inputs={inputs}
+        assumptions={globalAssumptions}
+        excludeVacancy={projectionMode === "lender"}
+        holdYears={comparisonYear}
+      />
+      <SensitivityAnalysis
+        strategy={strategy}
+        inputs={inputs}
+        assumptions={globalAssumptions}
+        excludeVacancy={projectionMode === "lender"}
+        holdYears={comparisonYear}
+      />
+      <MonteCarloSimulation
+        strategy={strategy}
+        inputs={inputs}
+        assumptions={globalAssumptions}
+        excludeVacancy={projectionMode === "lender"}
+        holdYears={comparisonYear}
+      />
+    </>
+  );
+
   const renderCharts = (results: typeof ltrResults) => {
     // Determine initial property value for refi threshold calculations
     const initialPropertyValue =
@@ -2682,17 +3164,20 @@ export function UnifiedDashboard({
               </CollapsibleTrigger>
             </div>
             {showCharts && (
-              <div className="flex gap-1">
-                {timeHorizons.map((horizon) => (
-                  <Button
-                    key={horizon}
-                    variant={timeHorizon === horizon ? "default" : "outline"}
-                    size="sm"
-                    onClick={() => setTimeHorizon(horizon)}
-                  >
-                    {horizon}Y
-                  </Button>
-                ))}
+              <div className="flex items-center gap-3">
+                {renderViewToggle()}
+                <div className="flex gap-1">
+                  {timeHorizons.map((horizon) => (
+                    <Button
+                      key={horizon}
+                      variant={timeHorizon === horizon ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setTimeHorizon(horizon)}
+                    >
+                      {horizon}Y
+                    </Button>
+                  ))}
+                </div>
               </div>
             )}
           </div>
@@ -2701,16 +3186,22 @@ export function UnifiedDashboard({
               <CashFlowChart
                 projections={results.projections}
                 timeHorizon={timeHorizon}
+                view={projectionView}
+                monthlyLedger={results.monthlyLedger}
               />
               <LoanBalanceEquityChart
                 projections={results.projections}
                 initialPropertyValue={initialPropertyValue}
                 timeHorizon={timeHorizon}
+                view={projectionView}
+                monthlyLedger={results.monthlyLedger}
               />
               <div className="lg:col-span-2">
                 <ROIChart
                   projections={results.projections}
                   timeHorizon={timeHorizon}
+                  view={projectionView}
+                  monthlyLedger={results.monthlyLedger}
                 />
               </div>
             </div>
@@ -2784,6 +3275,7 @@ export function UnifiedDashboard({
                     {bestStrategy === "ltr" && "🏠 Long-Term"}
                     {bestStrategy === "section8" && "🎫 Section 8"}
                     {bestStrategy === "airbnb" && "🏖️ Airbnb"}
+                    {bestStrategy === "mtr" && "🛏️ Mid-Term"}
                     {bestStrategy === "rehab" && "🔨 Rehab"}
                   </Badge>
                   <span className="text-xs">
@@ -2793,6 +3285,8 @@ export function UnifiedDashboard({
                       formatPercent(section8Results.year1Summary.cashOnCash)}
                     {bestStrategy === "airbnb" &&
                       formatPercent(airbnbResults.year1Summary.cashOnCash)}
+                    {bestStrategy === "mtr" &&
+                      formatPercent(mtrResults.year1Summary.cashOnCash)}
                     {bestStrategy === "rehab" &&
                       rehabResults &&
                       formatPercent(rehabResults.year1Summary.cashOnCash)}
@@ -2909,6 +3403,20 @@ export function UnifiedDashboard({
                   </Badge>
                 )}
               </Button>
+              <Button
+                variant={mainView === "rentcomps" ? "default" : "ghost"}
+                onClick={() => setMainView("rentcomps")}
+                size="sm"
+                className="relative"
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                Rent Comps
+                {inputs.rentComps && inputs.rentComps.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+                    {inputs.rentComps.length}
+                  </Badge>
+                )}
+              </Button>
 
               <Button
                 variant={mainView === "teamnotes" ? "default" : "ghost"}
@@ -2937,6 +3445,20 @@ export function UnifiedDashboard({
                 <Activity className="mr-2 h-4 w-4" />
                 Pipeline Stats
               </Button>
+              <Button
+                variant={mainView === "portfolio" ? "default" : "ghost"}
+                onClick={() => setMainView("portfolio")}
+                size="sm"
+                className="relative"
+              >
+                <Briefcase className="mr-2 h-4 w-4" />
+                Portfolio
+                {portfolioCount > 0 && (
+                  <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+                    {portfolioCount}
+                  </Badge>
+                )}
+              </Button>
             </div>
 
             {/* Right side button */}
@@ -3051,6 +3573,9 @@ export function UnifiedDashboard({
                 units: inputs.units,
                 description: inputs.subjectPropertyDescription || "",
                 zillowLink: inputs.subjectPropertyZillowLink || "",
+                hasPool: inputs.notes?.pool?.hasPool,
+                lotSize: inputs.lotSize,
+                parkingSpaces: inputs.parkingSpaces,
                 lat: inputs.subjectLat,
                 lng: inputs.subjectLng,
               }}
@@ -3061,6 +3586,33 @@ export function UnifiedDashboard({
               onExpandedDescriptionsChange={setArvExpandedDescriptions}
               hoveredCompId={hoveredCompId}
               onCompHover={setHoveredCompId}
+              adjustmentOverrides={inputs.arvAdjustmentOverrides}
+              onAdjustmentOverridesChange={handleARVAdjustmentOverridesChange}
+            />
+          </div>
+        ) : mainView === "rentcomps" ? (
+          /* Rent Comps View */
+          <div>
+            <div className="mb-6">
+              <h2>Rent Comps - Market Rent Analysis</h2>
+              <p className="text-muted-foreground mt-1">
+                Add rental listings near the property to price each unit's
+                market rent. Applying a suggestion updates the unit's market and
+                after-rehab rents.
+              </p>
+            </div>
+            <RentCompsCalculator
+              comps={inputs.rentComps || []}
+              onCompsChange={handleRentCompsChange}
+              unitDetails={inputs.unitDetails}
+              subjectAddress={inputs.address}
+              subjectLat={inputs.subjectLat}
+              subjectLng={inputs.subjectLng}
+              subjectCondition={getSubjectRentCondition(inputs.notes)}
+              subjectHasPool={!!inputs.notes?.pool?.hasPool}
+              onApplyRents={handleApplyRentComps}
+              hoveredCompId={hoveredCompId}
+              onCompHover={setHoveredCompId}
             />
           </div>
         ) : mainView === "condition" ? (
@@ -3110,6 +3662,17 @@ export function UnifiedDashboard({
         ) : mainView === "stats" ? (
           /* Pipeline Stats - Analytics & Metrics */
           <PipelineStats savedDeals={savedDeals} />
+        ) : mainView === "portfolio" ? (
+          /* Portfolio - Accepted & closed deals as owned assets */
+          <PortfolioRollup
+            savedDeals={savedDeals}
+            assumptions={globalAssumptions}
+            onStrategyChange={handlePortfolioStrategyChange}
+            onLoadDeal={(deal) => {
+              handleLoadDeal(deal);
+              setMainView("overview");
+            }}
+          />
         ) : mainView === "guide" ? (
           /* User Guide - Help & Documentation */
           <UserGuide />
@@ -3210,13 +3773,75 @@ export function UnifiedDashboard({
                         })()}
                       </div>
                       <CardDescription>
-                        Click any deal to view and compare side by side
+                        Click any deal to open it, or tick 2-5 deals to compare
+                        side by side
                       </CardDescription>
                     </div>
 
+                    {criteriaProfiles.length > 0 && activeCriteriaProfile && (
+                      <div className="flex items-center gap-2 mr-2">
+                        <Label className="text-xs text-muted-foreground whitespace-nowrap">
+                          Buy Box
+                        </Label>
+                        <Select
+                          value={activeCriteriaProfile.id}
+                          onValueChange={setCriteriaProfileId}
+                        >
+                          <SelectTrigger className="h-8 w-[160px] text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {criteriaProfiles.map((profile) => (
+                              <SelectItem key={profile.id} value={profile.id}>
+                                {profile.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
                     {/* Responsive button container */}
                     <div className="flex gap-2">
                       <div className="flex gap-2">
+                        <Button
+                          variant={
+                            countActiveFilters(dealFilters) > 0
+                              ? "default"
+                              : "outline"
+                          }
+                          size="sm"
+                          onClick={() => setShowDealFilters((prev) => !prev)}
+                          className="flex-shrink-0"
+                        >
+                          <Filter className="h-4 w-4 mr-2" />
+                          <span className="hidden sm:inline">
+                            Filters
+                            {countActiveFilters(dealFilters) > 0 &&
+                              ` (${countActiveFilters(dealFilters)})`}
+                          </span>
+                          <span className="sm:hidden">
+                            {countActiveFilters(dealFilters)}
+                          </span>
+                        </Button>
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowDealComparison(true)}
+                          disabled={comparedDeals.length < MIN_COMPARED_DEALS}
+                          className="flex-shrink-0 border-blue-600 text-blue-600 hover:bg-blue-50"
+                          title={`Tick ${MIN_COMPARED_DEALS}-${MAX_COMPARED_DEALS} deals to compare`}
+                        >
+                          <Columns3 className="h-4 w-4 mr-2" />
+                          <span className="hidden sm:inline">
+                            Compare ({comparedDeals.length})
+                          </span>
+                          <span className="sm:hidden">
+                            {comparedDeals.length}
+                          </span>
+                        </Button>
+
                         <Button
                           variant="outline"
                           size="sm"
@@ -3362,11 +3987,20 @@ export function UnifiedDashboard({
                   </div>
                 </CardHeader>
                 <CardContent>
+                  {showDealFilters && (
+                    <DealFiltersPanel
+                      filters={dealFilters}
+                      onChange={setDealFilters}
+                      matchCount={filteredDealIds ? filteredDeals.length : null}
+                      totalCount={savedDeals.length}
+                    />
+                  )}
                   {savedDeals.length > 0 && !loading && !isSaving && (
                     <div>
                       <Table>
                         <TableHeader>
                           <TableRow>
+                            <TableHead className="w-[36px]" />
                             <TableHead className="w-[60px]">Photo</TableHead>
                             <TableHead
                               className="max-w-[180px] truncate cursor-pointer hover:bg-muted/50 select-none"
@@ -3423,6 +4057,16 @@ export function UnifiedDashboard({
                                 <SortIcon column="ltrDSCR" />
                               </div>
                             </TableHead>
+                            <TableHead
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("ltrIRR")}
+                              title={`Levered IRR with a sale at the end of year ${comparisonYear}`}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>IRR</span>
+                                <SortIcon column="ltrIRR" />
+                              </div>
+                            </TableHead>
                             <TableHead
                               className="text-right cursor-pointer hover:bg-muted/50 select-none"
                               onClick={() => handleSort("s8CF")}
@@ -3441,6 +4085,16 @@ export function UnifiedDashboard({
                                 <SortIcon column="s8DSCR" />
                               </div>
                             </TableHead>
+                            <TableHead
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("s8IRR")}
+                              title={`Levered IRR with a sale at the end of year ${comparisonYear}`}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>IRR</span>
+                                <SortIcon column="s8IRR" />
+                              </div>
+                            </TableHead>
                             <TableHead
                               className="text-right cursor-pointer hover:bg-muted/50 select-none"
                               onClick={() => handleSort("strCF")}
@@ -3460,45 +4114,108 @@ export function UnifiedDashboard({
                               </div>
                             </TableHead>
                             <TableHead
-                              className="text-center w-[80px] cursor-pointer hover:bg-muted/50 select-none"
-                              onClick={() => handleSort("best")}
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("strIRR")}
+                              title={`Levered IRR with a sale at the end of year ${comparisonYear}`}
                             >
-                              <div className="flex items-center justify-center">
-                                <span>Best</span>
-                                <SortIcon column="best" />
+                              <div className="flex items-center justify-end">
+                                <span>IRR</span>
+                                <SortIcon column="strIRR" />
                               </div>
                             </TableHead>
-                            <TableHead className="w-[100px]"></TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {sortedDeals.map((deal) => {
-                            const ltr = calculateLTR(deal, globalAssumptions);
-                            const sec8 = calculateSection8(
-                              deal,
-                              globalAssumptions
-                            );
-                            const str = calculateAirbnb(
-                              deal,
-                              globalAssumptions
-                            );
-
-                            const year5ROI = {
-                              ltr: ltr.projections[4]?.cumulativeReturn || 0,
-                              section8:
-                                sec8.projections[4]?.cumulativeReturn || 0,
-                              airbnb: str.projections[4]?.cumulativeReturn || 0,
-                            };
-
-                            let bestStrat = "LTR";
-                            if (
-                              year5ROI.airbnb >= year5ROI.ltr &&
-                              year5ROI.airbnb >= year5ROI.section8
-                            ) {
-                              bestStrat = "Airbnb";
-                            } else if (year5ROI.section8 >= year5ROI.ltr) {
-                              bestStrat = "Section 8";
-                            }
+                            <TableHead
+                              className="text-right cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("mtrCF")}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>MTR CF</span>
+                                <SortIcon column="mtrCF" />
+                              </div>
+                            </TableHead>
+                            <TableHead
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("mtrDSCR")}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>DSCR</span>
+                                <SortIcon column="mtrDSCR" />
+                              </div>
+                            </TableHead>
+                            <TableHead
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("mtrIRR")}
+                              title={`Levered IRR with a sale at the end of year ${comparisonYear}`}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>IRR</span>
+                                <SortIcon column="mtrIRR" />
+                              </div>
+                            </TableHead>
+                            <TableHead
+                              className="text-right w-[60px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("rehabIRR")}
+                              title={`Levered IRR with a sale at the end of year ${comparisonYear}`}
+                            >
+                              <div className="flex items-center justify-end">
+                                <span>Rehab IRR</span>
+                                <SortIcon column="rehabIRR" />
+                              </div>
+                            </TableHead>
+                            <TableHead
+                              className="text-center w-[80px] cursor-pointer hover:bg-muted/50 select-none"
+                              onClick={() => handleSort("best")}
+                            >
+                              <div className="flex items-center justify-center">
+                                <span>Best</span>
+                                <SortIcon column="best" />
+                              </div>
+                            </TableHead>
+                            {activeCriteriaProfile && (
+                              <TableHead
+                                className="text-center w-[80px] cursor-pointer hover:bg-muted/50 select-none"
+                                onClick={() => handleSort("criteria")}
+                                title={`Criteria met for ${activeCriteriaProfile.name}`}
+                              >
+                                <div className="flex items-center justify-center">
+                                  <span>Criteria</span>
+                                  <SortIcon column="criteria" />
+                                </div>
+                              </TableHead>
+                            )}
+                            <TableHead className="w-[100px]"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sortedDeals.map((deal) => {
+                            const ltr = calculateLTR(deal, globalAssumptions);
+                            const sec8 = calculateSection8(
+                              deal,
+                              globalAssumptions
+                            );
+                            const str = calculateAirbnb(
+                              deal,
+                              globalAssumptions
+                            );
+                            const mtr = calculateMTR(deal, globalAssumptions);
+                            const rehab =
+                              deal.isRehab && deal.rehabCost > 0
+                                ? calculateRehab(deal, globalAssumptions)
+                                : null;
+                            const irr = {
+                              ltr: getDealIRR(deal, ltr),
+                              sec8: getDealIRR(deal, sec8),
+                              str: getDealIRR(deal, str),
+                              mtr: getDealIRR(deal, mtr),
+                              rehab: getDealIRR(deal, rehab),
+                            };
+
+                            const bestStrat = getBestRentalLabel({
+                              ltr: ltr.projections[4]?.cumulativeReturn || 0,
+                              section8:
+                                sec8.projections[4]?.cumulativeReturn || 0,
+                              mtr: mtr.projections[4]?.cumulativeReturn || 0,
+                              airbnb: str.projections[4]?.cumulativeReturn || 0,
+                            });
 
                             return (
                               <TableRow
@@ -3512,6 +4229,26 @@ export function UnifiedDashboard({
                                 }`}
                                 onClick={() => handleLoadDeal(deal)}
                               >
+                                <TableCell
+                                  className="w-[36px] p-1"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  <Checkbox
+                                    checked={compareDealIds.includes(deal.id)}
+                                    disabled={
+                                      !compareDealIds.includes(deal.id) &&
+                                      comparedDeals.length >= MAX_COMPARED_DEALS
+                                    }
+                                    onCheckedChange={(checked) =>
+                                      setCompareDealIds((prev) =>
+                                        checked
+                                          ? [...prev, deal.id]
+                                          : prev.filter((id) => id !== deal.id)
+                                      )
+                                    }
+                                    aria-label="Select deal to compare"
+                                  />
+                                </TableCell>
                                 <TableCell className="w-[60px] p-1">
                                   {(() => {
                                     const primaryPhoto =
@@ -3555,6 +4292,21 @@ export function UnifiedDashboard({
                                             {deal.notes.overallCondition}
                                           </Badge>
                                         )}
+                                      {deal.arvConfidence &&
+                                        !!deal.arvComps?.length && (
+                                          <Badge
+                                            variant="outline"
+                                            className={`text-xs w-fit ${
+                                              ARV_CONFIDENCE_COLORS[
+                                                deal.arvConfidence.level
+                                              ]
+                                            }`}
+                                            title={`${deal.arvConfidence.level} confidence ARV: ${formatCurrency(deal.arvConfidence.low)} - ${formatCurrency(deal.arvConfidence.high)}`}
+                                          >
+                                            ARV ±
+                                            {deal.arvConfidence.bandPercent}%
+                                          </Badge>
+                                        )}
                                     </div>
                                   </div>
                                 </TableCell>
@@ -3593,6 +4345,17 @@ export function UnifiedDashboard({
                                 >
                                   {ltr.year1Summary.dscr.toFixed(2)}
                                 </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    irr.ltr === null
+                                      ? "text-muted-foreground"
+                                      : irr.ltr >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatIRR(irr.ltr)}
+                                </TableCell>
                                 <TableCell
                                   className={`text-right text-sm ${
                                     sec8.year1Summary.cashFlow >= 0
@@ -3611,6 +4374,17 @@ export function UnifiedDashboard({
                                 >
                                   {sec8.year1Summary.dscr.toFixed(2)}
                                 </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    irr.sec8 === null
+                                      ? "text-muted-foreground"
+                                      : irr.sec8 >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatIRR(irr.sec8)}
+                                </TableCell>
                                 <TableCell
                                   className={`text-right text-sm ${
                                     str.year1Summary.cashFlow >= 0
@@ -3629,11 +4403,73 @@ export function UnifiedDashboard({
                                 >
                                   {str.year1Summary.dscr.toFixed(2)}
                                 </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    irr.str === null
+                                      ? "text-muted-foreground"
+                                      : irr.str >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatIRR(irr.str)}
+                                </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    mtr.year1Summary.cashFlow >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatCurrency(mtr.year1Summary.cashFlow)}
+                                </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    mtr.year1Summary.dscr >= 1.0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {mtr.year1Summary.dscr.toFixed(2)}
+                                </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    irr.mtr === null
+                                      ? "text-muted-foreground"
+                                      : irr.mtr >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatIRR(irr.mtr)}
+                                </TableCell>
+                                <TableCell
+                                  className={`text-right text-sm ${
+                                    irr.rehab === null
+                                      ? "text-muted-foreground"
+                                      : irr.rehab >= 0
+                                      ? "text-green-600"
+                                      : "text-red-600"
+                                  }`}
+                                >
+                                  {formatIRR(irr.rehab)}
+                                </TableCell>
                                 <TableCell className="text-center">
                                   <Badge variant="outline" className="text-xs">
                                     {bestStrat}
                                   </Badge>
                                 </TableCell>
+                                {activeCriteriaProfile && (
+                                  <TableCell className="text-center">
+                                    <CriteriaScore
+                                      evaluation={evaluateCriteria(
+                                        deal,
+                                        activeCriteriaProfile,
+                                        globalAssumptions
+                                      )}
+                                    />
+                                  </TableCell>
+                                )}
                                 <TableCell>
                                   <div className="flex gap-2">
                                     {/* NOT UPDATING BACKEND */}
@@ -4068,6 +4904,44 @@ export function UnifiedDashboard({
                             }
                           />
                         </div>
+                        <div>
+                          <Label htmlFor="lotSize">Lot Size (sqft)</Label>
+                          <Input
+                            id="lotSize"
+                            value={
+                              inputs.lotSize !== undefined
+                                ? formatNumber(inputs.lotSize)
+                                : ""
+                            }
+                            onChange={(e) =>
+                              handleChange(
+                                "lotSize",
+                                e.target.value === ""
+                                  ? undefined
+                                  : parseNumber(e.target.value)
+                              )
+                            }
+                            placeholder="Unknown"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="parkingSpaces">Parking Spaces</Label>
+                          <Input
+                            id="parkingSpaces"
+                            type="number"
+                            min="0"
+                            value={inputs.parkingSpaces ?? ""}
+                            onChange={(e) =>
+                              handleChange(
+                                "parkingSpaces",
+                                e.target.value === ""
+                                  ? undefined
+                                  : Number(e.target.value)
+                              )
+                            }
+                            placeholder="Unknown"
+                          />
+                        </div>
                       </div>
                     </div>
 
@@ -4320,6 +5194,18 @@ export function UnifiedDashboard({
                       </div>
                     </div>
 
+                    {/* Rent Roll - in-place leases on occupied units */}
+                    <RentRollForm
+                      units={inputs.unitDetails}
+                      onChange={(unitDetails) =>
+                        setInputs((prev) => ({
+                          ...prev,
+                          unitDetails,
+                          units: unitDetails.length,
+                        }))
+                      }
+                    />
+
                     {/* v254_change: Property Photos Gallery - Moved lower */}
                     <PhotoGallery
                       photos={inputs.photos || []}
@@ -4406,6 +5292,20 @@ export function UnifiedDashboard({
                             }
                           />
                         </div>
+                        <LoanStructureForm
+                          structure={inputs.loanStructure}
+                          onChange={(loanStructure) =>
+                            setInputs((prev) => ({ ...prev, loanStructure }))
+                          }
+                        />
+                        <RefinanceScheduleForm
+                          events={inputs.refinanceEvents ?? []}
+                          results={ltrResults.refinances}
+                          defaultRate={inputs.loanInterestRate}
+                          onChange={(refinanceEvents) =>
+                            setInputs((prev) => ({ ...prev, refinanceEvents }))
+                          }
+                        />
                         <div>
                           <Label htmlFor="acquisitionCostsAmount">
                             Acquisition Costs
@@ -4551,6 +5451,44 @@ export function UnifiedDashboard({
                       </div>
                     </div>
 
+                    {/* Operating Expenses */}
+                    <div className="space-y-4 border-2 border-slate-200 bg-slate-50/30 rounded-lg p-4">
+                      <div className="flex justify-between items-center border-b border-slate-300 pb-2">
+                        <h4 className="text-slate-900">
+                          🧾 Operating Expenses
+                        </h4>
+                        {inputs.operatingExpenses && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setInputs((prev) => ({
+                                ...prev,
+                                operatingExpenses: undefined,
+                              }))
+                            }
+                          >
+                            Use Global Defaults
+                          </Button>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {inputs.operatingExpenses
+                          ? "Custom expense schedule for this deal"
+                          : "Using the global default schedule - edit any line to customize this deal"}
+                        . Property taxes and insurance are entered above.
+                      </p>
+                      <OperatingExpensesForm
+                        lines={resolveOperatingExpenses(
+                          inputs,
+                          globalAssumptions
+                        )}
+                        onChange={(operatingExpenses) =>
+                          setInputs((prev) => ({ ...prev, operatingExpenses }))
+                        }
+                      />
+                    </div>
+
                     {/* Rental Strategy Parameters */}
                     <div className="space-y-4 border-2 border-cyan-200 bg-cyan-50/30 rounded-lg p-4">
                       <h4 className="text-cyan-900 border-b border-cyan-300 pb-2">
@@ -4571,10 +5509,16 @@ export function UnifiedDashboard({
                             key={index}
                             className="bg-white border border-cyan-200 rounded-lg p-3 mb-2"
                           >
-                            <div className="mb-2">
+                            <div className="mb-2 flex items-center justify-between">
                               <Label className="text-xs">
                                 Unit {index + 1} - {unit.beds}bd/{unit.baths}ba
                               </Label>
+                              {hasSeasonalCurve(unit) && (
+                                <span className="text-xs text-muted-foreground">
+                                  Monthly curve set - revenue comes from the
+                                  Airbnb tab
+                                </span>
+                              )}
                             </div>
                             <div className="grid grid-cols-3 gap-3">
                               <div>
@@ -4677,6 +5621,130 @@ export function UnifiedDashboard({
                       </div>
                     </div>
 
+                    {/* Mid-Term Rental Parameters */}
+                    <div className="space-y-4 border-2 border-indigo-200 bg-indigo-50/30 rounded-lg p-4">
+                      <h4 className="text-indigo-900 border-b border-indigo-300 pb-2">
+                        🛏️ Mid-Term Rental (Furnished 30+ Days) Parameters
+                      </h4>
+                      <div>
+                        <Label className="text-sm mb-2 block">
+                          MTR Performance Data (Per Unit)
+                        </Label>
+                        <p className="text-xs text-muted-foreground mb-3">
+                          Furnished monthly rent for traveling nurse and
+                          insurance housing stays, the share of the year booked,
+                          owner-paid utilities and the cost to furnish each unit
+                        </p>
+                        {inputs.unitDetails.map((unit, index) => (
+                          <div
+                            key={index}
+                            className="bg-white border border-indigo-200 rounded-lg p-3 mb-2"
+                          >
+                            <div className="mb-2">
+                              <Label className="text-xs">
+                                Unit {index + 1} - {unit.beds}bd/{unit.baths}ba
+                              </Label>
+                            </div>
+                            <div className="grid grid-cols-4 gap-3">
+                              <div>
+                                <Label
+                                  htmlFor={`mtr-rent-${index}`}
+                                  className="text-xs"
+                                >
+                                  Monthly Rent ($)
+                                </Label>
+                                <Input
+                                  id={`mtr-rent-${index}`}
+                                  value={formatNumber(unit.mtrMonthlyRent || 0)}
+                                  onChange={(e) =>
+                                    handleUnitChange(
+                                      index,
+                                      "mtrMonthlyRent",
+                                      parseNumber(e.target.value)
+                                    )
+                                  }
+                                  className="h-8"
+                                  placeholder="e.g., 3000"
+                                />
+                              </div>
+                              <div>
+                                <Label
+                                  htmlFor={`mtr-occupancy-${index}`}
+                                  className="text-xs"
+                                >
+                                  Occupancy (%)
+                                </Label>
+                                <Input
+                                  id={`mtr-occupancy-${index}`}
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  value={
+                                    unit.mtrOccupancyPercent ??
+                                    DEFAULT_MTR_OCCUPANCY_PERCENT
+                                  }
+                                  onChange={(e) =>
+                                    handleUnitChange(
+                                      index,
+                                      "mtrOccupancyPercent",
+                                      Number(e.target.value)
+                                    )
+                                  }
+                                  className="h-8"
+                                />
+                              </div>
+                              <div>
+                                <Label
+                                  htmlFor={`mtr-utilities-${index}`}
+                                  className="text-xs"
+                                >
+                                  Utilities / Mo ($)
+                                </Label>
+                                <Input
+                                  id={`mtr-utilities-${index}`}
+                                  value={formatNumber(
+                                    unit.mtrMonthlyUtilities || 0
+                                  )}
+                                  onChange={(e) =>
+                                    handleUnitChange(
+                                      index,
+                                      "mtrMonthlyUtilities",
+                                      parseNumber(e.target.value)
+                                    )
+                                  }
+                                  className="h-8"
+                                  placeholder="e.g., 250"
+                                />
+                              </div>
+                              <div>
+                                <Label
+                                  htmlFor={`mtr-furnishing-${index}`}
+                                  className="text-xs"
+                                >
+                                  Furnishing ($)
+                                </Label>
+                                <Input
+                                  id={`mtr-furnishing-${index}`}
+                                  value={formatNumber(
+                                    unit.mtrFurnishingCost || 0
+                                  )}
+                                  onChange={(e) =>
+                                    handleUnitChange(
+                                      index,
+                                      "mtrFurnishingCost",
+                                      parseNumber(e.target.value)
+                                    )
+                                  }
+                                  className="h-8"
+                                  placeholder="e.g., 10000"
+                                />
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
                     {/* Renovation/Rehab Section */}
                     <div className="space-y-4 border-2 border-orange-300 bg-orange-50/30 rounded-lg p-4">
                       <div className="flex items-center justify-between border-b border-orange-300 pb-2">
@@ -5266,24 +6334,14 @@ export function UnifiedDashboard({
                                 </div>
                                 <div>
                                   {(() => {
-                                    // Calculate After Repair DSCR using EXIT REFI RATE
-                                    const newLoanAmount =
-                                      inputs.afterRepairValue *
-                                      (inputs.exitRefiLTV / 100);
-                                    const monthlyRate =
-                                      inputs.exitRefiRate / 100 / 12;
-                                    const numPayments = inputs.loanTerm * 12;
-                                    const newMonthlyPayment =
-                                      (newLoanAmount *
-                                        (monthlyRate *
-                                          Math.pow(
-                                            1 + monthlyRate,
-                                            numPayments
-                                          ))) /
-                                      (Math.pow(1 + monthlyRate, numPayments) -
-                                        1);
+                                    // Calculate After Repair DSCR using EXIT REFI RATE (year 1 of the refi loan schedule)
                                     const newAnnualDebtService =
-                                      newMonthlyPayment * 12;
+                                      getAnnualDebtService(
+                                        buildAmortizationSchedule(
+                                          buildRefiLoanTerms(inputs)
+                                        ),
+                                        1
+                                      );
 
                                     // Calculate After Repair NOI (using after rehab market rents)
                                     const totalAfterRehabRent =
@@ -5300,14 +6358,27 @@ export function UnifiedDashboard({
                                       (globalAssumptions.ltrVacancyMonths / 12);
                                     const effectiveIncome =
                                       annualGrossIncome - vacancyLoss;
-                                    const maintenance =
-                                      effectiveIncome *
-                                      (globalAssumptions.maintenancePercent /
-                                        100);
+                                    const expenseSchedule =
+                                      resolveOperatingExpenses(
+                                        inputs,
+                                        globalAssumptions
+                                      );
+                                    const unitCount =
+                                      inputs.unitDetails.length ||
+                                      inputs.units ||
+                                      1;
+                                    const operatingExpenses = sumExpenseLines(
+                                      calculateExpenseLines(
+                                        expenseSchedule,
+                                        effectiveIncome,
+                                        unitCount,
+                                        1
+                                      )
+                                    );
                                     const totalExpenses =
                                       inputs.rehabPropertyTaxes +
                                       inputs.rehabPropertyInsurance +
-                                      maintenance;
+                                      operatingExpenses;
                                     const noi = effectiveIncome - totalExpenses;
 
                                     const dscr =
@@ -5332,14 +6403,19 @@ export function UnifiedDashboard({
                                     // Calculate DSCR @ 0% Vacancy (for lender qualification)
                                     const effectiveIncomeNoVacancy =
                                       annualGrossIncome; // No vacancy deduction
-                                    const maintenanceNoVacancy =
-                                      effectiveIncomeNoVacancy *
-                                      (globalAssumptions.maintenancePercent /
-                                        100);
+                                    const operatingExpensesNoVacancy =
+                                      sumExpenseLines(
+                                        calculateExpenseLines(
+                                          expenseSchedule,
+                                          effectiveIncomeNoVacancy,
+                                          unitCount,
+                                          1
+                                        )
+                                      );
                                     const totalExpensesNoVacancy =
                                       inputs.rehabPropertyTaxes +
                                       inputs.rehabPropertyInsurance +
-                                      maintenanceNoVacancy;
+                                      operatingExpensesNoVacancy;
                                     const noiNoVacancy =
                                       effectiveIncomeNoVacancy -
                                       totalExpensesNoVacancy;
@@ -5454,6 +6530,17 @@ export function UnifiedDashboard({
                   </p>
                 </div>
 
+                <DealScenarios
+                  deal={dealInputs}
+                  activeScenarioId={activeScenarioId}
+                  assumptions={globalAssumptions}
+                  excludeVacancy={projectionMode === "lender"}
+                  onSwitch={switchScenario}
+                  onAdd={addScenario}
+                  onRename={renameScenario}
+                  onDelete={deleteScenario}
+                />
+
                 {/* Rehab Exit Strategy Comparison */}
                 {inputs.isRehab && inputs.rehabCost > 0 && (
                   <Card className="mb-6 border-orange-300 bg-orange-50/30">
@@ -5833,11 +6920,7 @@ export function UnifiedDashboard({
                   className="space-y-6"
                 >
                   <TabsList
-                    className={`grid w-full ${
-                      inputs.isRehab && rehabResults
-                        ? "max-w-2xl grid-cols-4"
-                        : "max-w-md grid-cols-3"
-                    }`}
+                    className={`grid w-full ${STRATEGY_TAB_GRID[strategyTabCount]}`}
                   >
                     <TabsTrigger
                       value="ltr"
@@ -5846,6 +6929,15 @@ export function UnifiedDashboard({
                       <Home className="h-4 w-4" />
                       Long-Term
                     </TabsTrigger>
+                    {houseHackResults && (
+                      <TabsTrigger
+                        value="houseHack"
+                        className="flex items-center gap-2"
+                      >
+                        <KeyRound className="h-4 w-4" />
+                        House Hack
+                      </TabsTrigger>
+                    )}
                     <TabsTrigger
                       value="section8"
                       className="flex items-center gap-2"
@@ -5860,6 +6952,13 @@ export function UnifiedDashboard({
                       <Palmtree className="h-4 w-4" />
                       Airbnb
                     </TabsTrigger>
+                    <TabsTrigger
+                      value="mtr"
+                      className="flex items-center gap-2"
+                    >
+                      <BedDouble className="h-4 w-4" />
+                      Mid-Term
+                    </TabsTrigger>
                     {inputs.isRehab && rehabResults && (
                       <TabsTrigger
                         value="rehab"
@@ -5869,6 +6968,15 @@ export function UnifiedDashboard({
                         Rehab/Refi
                       </TabsTrigger>
                     )}
+                    {inputs.isRehab && rehabResults && (
+                      <TabsTrigger
+                        value="flip"
+                        className="flex items-center gap-2"
+                      >
+                        <TrendingUp className="h-4 w-4" />
+                        Fix & Flip
+                      </TabsTrigger>
+                    )}
                   </TabsList>
 
                   <TabsContent value="ltr" className="space-y-6">
@@ -5880,8 +6988,30 @@ export function UnifiedDashboard({
                     )}
                     {renderProjectionTable(ltrResults)}
                     {renderCharts(ltrResults)}
+                    {renderWhatIfAnalysis("ltr")}
                   </TabsContent>
 
+                  {houseHackResults && (
+                    <TabsContent value="houseHack" className="space-y-6">
+                      <HouseHackAnalysis
+                        inputs={inputs}
+                        results={houseHackResults}
+                        onChange={(changes) =>
+                          setInputs((prev) => ({ ...prev, ...changes }))
+                        }
+                      />
+                      {renderYear1Summary(
+                        houseHackResults,
+                        "House Hack (Owner-Occupied Year 1)",
+                        <KeyRound className="h-5 w-5" />,
+                        "houseHack"
+                      )}
+                      {renderProjectionTable(houseHackResults)}
+                      {renderCharts(houseHackResults)}
+                      {renderWhatIfAnalysis("houseHack")}
+                    </TabsContent>
+                  )}
+
                   <TabsContent value="section8" className="space-y-6">
                     {renderYear1Summary(
                       section8Results,
@@ -5891,9 +7021,17 @@ export function UnifiedDashboard({
                     )}
                     {renderProjectionTable(section8Results)}
                     {renderCharts(section8Results)}
+                    {renderWhatIfAnalysis("section8")}
                   </TabsContent>
 
                   <TabsContent value="airbnb" className="space-y-6">
+                    <StrSeasonalityCard
+                      units={inputs.unitDetails}
+                      results={airbnbResults}
+                      onChange={(unitDetails) =>
+                        setInputs((prev) => ({ ...prev, unitDetails }))
+                      }
+                    />
                     {renderYear1Summary(
                       airbnbResults,
                       "Short-Term Rental (Airbnb)",
@@ -5902,6 +7040,19 @@ export function UnifiedDashboard({
                     )}
                     {renderProjectionTable(airbnbResults)}
                     {renderCharts(airbnbResults)}
+                    {renderWhatIfAnalysis("airbnb")}
+                  </TabsContent>
+
+                  <TabsContent value="mtr" className="space-y-6">
+                    {renderYear1Summary(
+                      mtrResults,
+                      "Mid-Term Rental (Furnished 30+ Days)",
+                      <BedDouble className="h-5 w-5" />,
+                      "mtr"
+                    )}
+                    {renderProjectionTable(mtrResults)}
+                    {renderCharts(mtrResults)}
+                    {renderWhatIfAnalysis("mtr")}
                   </TabsContent>
 
                   {inputs.isRehab && rehabResults && (
@@ -5914,10 +7065,34 @@ export function UnifiedDashboard({
                       )}
                       {renderProjectionTable(rehabResults)}
                       {renderCharts(rehabResults)}
+                      {renderWhatIfAnalysis("rehab")}
+                    </TabsContent>
+                  )}
+
+                  {inputs.isRehab && rehabResults && (
+                    <TabsContent value="flip" className="space-y-6">
+                      <FlipAnalysis
+                        inputs={inputs}
+                        onChange={(changes) =>
+                          setInputs((prev) => ({ ...prev, ...changes }))
+                        }
+                      />
                     </TabsContent>
                   )}
                 </Tabs>
 
+                {/* Max Offer Solver */}
+                <MaxOfferSolver
+                  inputs={inputs}
+                  assumptions={globalAssumptions}
+                  onLockMaxOffer={(price) => {
+                    handleChange("maxOffer", price);
+                    toast.success(
+                      `Max offer locked at ${formatCurrency(price)}`
+                    );
+                  }}
+                />
+
                 {/* Max Offer Banner */}
                 {inputs.maxOffer && inputs.maxOffer > 0 && (
                   <div className="mt-6 bg-gradient-to-r from-amber-100 to-amber-50 border-2 border-amber-500 rounded-lg p-4 shadow-lg">
@@ -5962,7 +7137,9 @@ export function UnifiedDashboard({
                         <CardTitle>Strategy Comparison</CardTitle>
                         <CardDescription>
                           Year 1 & Year {comparisonYear} Cash-on-Cash +{" "}
-                          {comparisonYear}-Year Cumulative Returns
+                          {comparisonYear}-Year Cumulative Returns (IRR, NPV and
+                          equity multiple assume a sale at the end of year{" "}
+                          {comparisonYear})
                         </CardDescription>
                       </div>
                       <div className="flex gap-2">
@@ -5993,6 +7170,8 @@ export function UnifiedDashboard({
                         section8Results.year1Summary.cashOnCash || 0;
                       const airbnbCashOnCash =
                         airbnbResults.year1Summary.cashOnCash || 0;
+                      const mtrCashOnCash =
+                        mtrResults.year1Summary.cashOnCash || 0;
                       const rehabRefiCashOnCash =
                         rehabResults?.year1Summary.cashOnCash || 0;
 
@@ -6010,6 +7189,26 @@ export function UnifiedDashboard({
                         rehabSellProfit = sellScenario.netProfit || 0;
                       }
 
+                      // IRR / NPV / equity multiple with a sale at the end of the selected year
+                      const discountRatePercent =
+                        globalAssumptions.discountRatePercent ??
+                        DEFAULT_DISCOUNT_RATE_PERCENT;
+                      const getReturnMetrics = (results: typeof ltrResults) =>
+                        calculateReturnMetrics(
+                          results,
+                          comparisonYear,
+                          inputs.sellClosingCosts,
+                          discountRatePercent,
+                          resolveTaxSettings(globalAssumptions)
+                        );
+                      const ltrMetrics = getReturnMetrics(ltrResults);
+                      const section8Metrics = getReturnMetrics(section8Results);
+                      const airbnbMetrics = getReturnMetrics(airbnbResults);
+                      const mtrMetrics = getReturnMetrics(mtrResults);
+                      const rehabRefiMetrics = rehabResults
+                        ? getReturnMetrics(rehabResults)
+                        : null;
+
                       // Get cumulative returns for the selected year
                       const yearIndex = comparisonYear - 1;
                       const ltrReturn =
@@ -6021,6 +7220,9 @@ export function UnifiedDashboard({
                       const airbnbReturn =
                         airbnbResults.projections[yearIndex]
                           ?.cumulativeReturn || 0;
+                      const mtrReturn =
+                        mtrResults.projections[yearIndex]?.cumulativeReturn ||
+                        0;
                       const rehabRefiReturn =
                         rehabResults?.projections[yearIndex]
                           ?.cumulativeReturn || 0;
@@ -6053,6 +7255,13 @@ export function UnifiedDashboard({
                               inputs.setupFurnishCost)) *
                           100
                         : 0;
+                      // Mid-term cash in includes furnishing every unit
+                      const mtrCoCYear = mtrResults.projections[yearIndex]
+                        ? (mtrResults.projections[yearIndex]
+                            .cumulativeCashFlow /
+                            mtrResults.cashInvested) *
+                          100
+                        : 0;
 
                       // ===== 3-YEAR TOTAL ROI COMPARISON (APPLES TO APPLES) =====
                       // Compare all strategies based on 3-year total return trajectory
@@ -6065,6 +7274,7 @@ export function UnifiedDashboard({
                       const section8InitialInvestment = ltrInitialInvestment;
                       const airbnbInitialInvestment =
                         ltrInitialInvestment + inputs.setupFurnishCost;
+                      const mtrInitialInvestment = mtrResults.cashInvested;
                       const rehabRefiInitialInvestment =
                         rehabScenarios?.refiScenario.capitalLeftInDeal || 0;
 
@@ -6094,6 +7304,14 @@ export function UnifiedDashboard({
                           ? (airbnb3YearReturn / airbnbInitialInvestment) * 100
                           : 0;
 
+                      const mtr3YearReturn =
+                        mtrResults.projections[threeYearIndex]
+                          ?.cumulativeReturn || 0;
+                      const mtr3YearROI =
+                        mtrInitialInvestment > 0
+                          ? (mtr3YearReturn / mtrInitialInvestment) * 100
+                          : 0;
+
                       const rehabRefi3YearReturn =
                         rehabResults?.projections[threeYearIndex]
                           ?.cumulativeReturn || 0;
@@ -6112,6 +7330,7 @@ export function UnifiedDashboard({
                         { name: "ltr", value: ltr3YearROI },
                         { name: "section8", value: section83YearROI },
                         { name: "airbnb", value: airbnb3YearROI },
+                        { name: "mtr", value: mtr3YearROI },
                         { name: "rehabSell", value: rehabSell3YearROI },
                         { name: "rehabRefi", value: rehabRefi3YearROI },
                       ];
@@ -6140,6 +7359,7 @@ export function UnifiedDashboard({
                               section83YearROI.toFixed(2) + "%",
                             "Airbnb 3-Year ROI":
                               airbnb3YearROI.toFixed(2) + "%",
+                            "Mid-Term 3-Year ROI": mtr3YearROI.toFixed(2) + "%",
                             "Rehab/Sell ROI":
                               rehabSell3YearROI.toFixed(2) + "%",
                             "Rehab/Refi 3-Year ROI":
@@ -6155,8 +7375,8 @@ export function UnifiedDashboard({
                         <div
                           className={`grid grid-cols-1 gap-4 ${
                             inputs.isRehab && inputs.rehabCost > 0
-                              ? "md:grid-cols-5"
-                              : "md:grid-cols-3"
+                              ? "md:grid-cols-6"
+                              : "md:grid-cols-4"
                           }`}
                         >
                           <div
@@ -6207,6 +7427,10 @@ export function UnifiedDashboard({
                                   {formatCurrency(ltrReturn)}
                                 </p>
                               </div>
+                              <ReturnMetricsSummary
+                                metrics={ltrMetrics}
+                                discountRatePercent={discountRatePercent}
+                              />
                             </div>
                           </div>
 
@@ -6258,6 +7482,10 @@ export function UnifiedDashboard({
                                   {formatCurrency(section8Return)}
                                 </p>
                               </div>
+                              <ReturnMetricsSummary
+                                metrics={section8Metrics}
+                                discountRatePercent={discountRatePercent}
+                              />
                             </div>
                           </div>
 
@@ -6309,6 +7537,65 @@ export function UnifiedDashboard({
                                   {formatCurrency(airbnbReturn)}
                                 </p>
                               </div>
+                              <ReturnMetricsSummary
+                                metrics={airbnbMetrics}
+                                discountRatePercent={discountRatePercent}
+                              />
+                            </div>
+                          </div>
+
+                          <div
+                            className={`p-4 rounded-lg border-2 ${
+                              isBestStrategy("mtr")
+                                ? "bg-green-100 border-green-500"
+                                : "bg-white border-gray-200"
+                            }`}
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <div className="flex items-center gap-2">
+                                <BedDouble className="h-4 w-4" />
+                                <p className="text-sm">Mid-Term</p>
+                              </div>
+                              {isBestStrategy("mtr") && (
+                                <Badge
+                                  variant="default"
+                                  className="bg-green-600 text-xs"
+                                >
+                                  BEST ROI
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="space-y-1">
+                              <div>
+                                <p className="text-xs text-muted-foreground">
+                                  Year 1 CoC
+                                </p>
+                                <p className="text-xl font-semibold">
+                                  {mtrCashOnCash.toFixed(1)}%
+                                </p>
+                              </div>
+                              {comparisonYear > 1 && (
+                                <div>
+                                  <p className="text-xs text-muted-foreground">
+                                    Year {comparisonYear} CoC
+                                  </p>
+                                  <p className="text-lg font-semibold">
+                                    {mtrCoCYear.toFixed(1)}%
+                                  </p>
+                                </div>
+                              )}
+                              <div className="pt-1 border-t">
+                                <p className="text-xs text-muted-foreground">
+                                  {comparisonYear}-Year Total Return
+                                </p>
+                                <p className="text-lg font-semibold">
+                                  {formatCurrency(mtrReturn)}
+                                </p>
+                              </div>
+                              <ReturnMetricsSummary
+                                metrics={mtrMetrics}
+                                discountRatePercent={discountRatePercent}
+                              />
                             </div>
                           </div>
 
@@ -6394,6 +7681,14 @@ export function UnifiedDashboard({
                                         {formatCurrency(rehabRefiReturn)}
                                       </p>
                                     </div>
+                                    {rehabRefiMetrics && (
+                                      <ReturnMetricsSummary
+                                        metrics={rehabRefiMetrics}
+                                        discountRatePercent={
+                                          discountRatePercent
+                                        }
+                                      />
+                                    )}
                                   </div>
                                 </div>
                               )}
@@ -6410,6 +7705,15 @@ export function UnifiedDashboard({
         )}
       </div>
 
+      <DealComparison
+        open={showDealComparison}
+        onOpenChange={setShowDealComparison}
+        deals={comparedDeals}
+        assumptions={globalAssumptions}
+        excludeVacancy={projectionMode === "lender"}
+        onLoadDeal={handleLoadDeal}
+      />
+
       {/* Quick Start from Zillow Dialog */}
       <Dialog
         open={showZillowQuickStart}
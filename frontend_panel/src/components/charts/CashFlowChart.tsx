@@ -1,25 +1,33 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { YearProjection } from '../../types/deal';
+import { MonthlyLedgerEntry, ProjectionView, YearProjection } from '@calc/types';
+import { getLedgerMonths } from '@calc/cashFlowLedger';
 
 interface CashFlowChartProps {
   projections: YearProjection[];
   timeHorizon: 5 | 7 | 10 | 15 | 30;
+  view?: ProjectionView;
+  monthlyLedger?: MonthlyLedgerEntry[];
 }
 
-export function CashFlowChart({ projections, timeHorizon }: CashFlowChartProps) {
-  const displayedProjections = projections.slice(0, timeHorizon);
+export function CashFlowChart({ projections, timeHorizon, view = 'yearly', monthlyLedger }: CashFlowChartProps) {
+  const isMonthly = view === 'monthly' && !!monthlyLedger;
   
-  const data = displayedProjections.map(p => ({
-    year: `Year ${p.year}`,
-    cashFlow: Math.round(p.cashFlow)
-  }));
+  const data = isMonthly
+    ? getLedgerMonths(monthlyLedger, timeHorizon).map(m => ({
+        year: `Month ${m.month}`,
+        cashFlow: Math.round(m.cashFlow)
+      }))
+    : projections.slice(0, timeHorizon).map(p => ({
+        year: `Year ${p.year}`,
+        cashFlow: Math.round(p.cashFlow)
+      }));
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Cash Flow Trend</CardTitle>
-        <CardDescription>Annual cash flow over {timeHorizon} years</CardDescription>
+        <CardDescription>{isMonthly ? 'Monthly' : 'Annual'} cash flow over {timeHorizon} years</CardDescription>
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={300}>
@@ -35,7 +43,7 @@ export function CashFlowChart({ projections, timeHorizon }: CashFlowChartProps)
               stroke="var(--chart-1)" 
               strokeWidth={3}
               name="Cash Flow"
-              dot={{ r: 4 }}
+              dot={isMonthly ? false : { r: 4 }}
             />
           </LineChart>
         </ResponsiveContainer>
@@ -1,6 +1,6 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { YearProjection } from '../../types/deal';
+import { YearProjection } from '@calc/types';
 
 interface CashOnCashChartProps {
   projections: YearProjection[];
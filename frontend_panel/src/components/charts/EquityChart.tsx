@@ -1,16 +1,23 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { YearProjection } from '../../types/deal';
+import { MonthlyLedgerEntry, ProjectionView, YearProjection } from '@calc/types';
 
 interface EquityChartProps {
   projections: YearProjection[];
+  view?: ProjectionView;
+  monthlyLedger?: MonthlyLedgerEntry[];
 }
 
-export function EquityChart({ projections }: EquityChartProps) {
-  const data = projections.map(p => ({
-    year: `Year ${p.year}`,
-    equity: Math.round(p.equity)
-  }));
+export function EquityChart({ projections, view = 'yearly', monthlyLedger }: EquityChartProps) {
+  const data = view === 'monthly' && monthlyLedger
+    ? monthlyLedger.map(m => ({
+        year: `Month ${m.month}`,
+        equity: Math.round(m.propertyValue - m.loanBalance)
+      }))
+    : projections.map(p => ({
+        year: `Year ${p.year}`,
+        equity: Math.round(p.equity)
+      }));
 
   return (
     <Card>
@@ -1,22 +1,32 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { YearProjection } from '../../types/deal';
+import { MonthlyLedgerEntry, ProjectionView, YearProjection } from '@calc/types';
+import { getLedgerMonths } from '@calc/cashFlowLedger';
 
 interface LoanBalanceEquityChartProps {
   projections: YearProjection[];
   initialPropertyValue: number;
   timeHorizon: 5 | 7 | 10 | 15 | 30;
+  view?: ProjectionView;
+  monthlyLedger?: MonthlyLedgerEntry[];
 }
 
-export function LoanBalanceEquityChart({ projections, initialPropertyValue, timeHorizon }: LoanBalanceEquityChartProps) {
-  const displayedProjections = projections.slice(0, timeHorizon);
+export function LoanBalanceEquityChart({ projections, initialPropertyValue, timeHorizon, view = 'yearly', monthlyLedger }: LoanBalanceEquityChartProps) {
+  const isMonthly = view === 'monthly' && !!monthlyLedger;
   
-  const data = displayedProjections.map(p => ({
-    year: `Year ${p.year}`,
-    loanBalance: Math.round(p.loanBalance),
-    equity: Math.round(p.equity),
-    propertyValue: Math.round(p.equity + p.loanBalance)
-  }));
+  const data = isMonthly
+    ? getLedgerMonths(monthlyLedger, timeHorizon).map(m => ({
+        year: `Month ${m.month}`,
+        loanBalance: Math.round(m.loanBalance),
+        equity: Math.round(m.propertyValue - m.loanBalance),
+        propertyValue: Math.round(m.propertyValue)
+      }))
+    : projections.slice(0, timeHorizon).map(p => ({
+        year: `Year ${p.year}`,
+        loanBalance: Math.round(p.loanBalance),
+        equity: Math.round(p.equity),
+        propertyValue: Math.round(p.equity + p.loanBalance)
+      }));
 
   // Calculate 75% and 80% LTV thresholds for refi timing
   const currentPropertyValue = data[data.length - 1]?.propertyValue || initialPropertyValue;
@@ -57,7 +67,7 @@ export function LoanBalanceEquityChart({ projections, initialPropertyValue, time
               stroke="var(--chart-1)" 
               strokeWidth={3}
               name="Loan Balance"
-              dot={{ r: 4 }}
+              dot={isMonthly ? false : { r: 4 }}
             />
             <Line 
               type="monotone" 
@@ -65,7 +75,7 @@ export function LoanBalanceEquityChart({ projections, initialPropertyValue, time
               stroke="var(--chart-2)" 
               strokeWidth={3}
               name="Equity"
-              dot={{ r: 4 }}
+              dot={isMonthly ? false : { r: 4 }}
             />
           </LineChart>
         </ResponsiveContainer>
@@ -1,21 +1,28 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { YearProjection } from '../../types/deal';
+import { MonthlyLedgerEntry, ProjectionView, YearProjection } from '@calc/types';
+import { getLedgerMonths } from '@calc/cashFlowLedger';
 
 interface ROIChartProps {
   projections: YearProjection[];
   timeHorizon: 5 | 7 | 10 | 15 | 30;
+  view?: ProjectionView;
+  monthlyLedger?: MonthlyLedgerEntry[];
 }
 
-export function ROIChart({ projections, timeHorizon }: ROIChartProps) {
+export function ROIChart({ projections, timeHorizon, view = 'yearly', monthlyLedger }: ROIChartProps) {
   // Limit projections to selected time horizon
-  const displayedProjections = projections.slice(0, timeHorizon);
-  
-  const data = displayedProjections.map(p => ({
-    year: `Year ${p.year}`,
-    propertyValue: Math.round(p.propertyValue),
-    equity: Math.round(p.equity)
-  }));
+  const data = view === 'monthly' && monthlyLedger
+    ? getLedgerMonths(monthlyLedger, timeHorizon).map(m => ({
+        year: `Month ${m.month}`,
+        propertyValue: Math.round(m.propertyValue),
+        equity: Math.round(m.propertyValue - m.loanBalance)
+      }))
+    : projections.slice(0, timeHorizon).map(p => ({
+        year: `Year ${p.year}`,
+        propertyValue: Math.round(p.propertyValue),
+        equity: Math.round(p.equity)
+      }));
 
   return (
     <Card>
@@ -0,0 +1,40 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { SimulationResults } from '@calc/types';
+
+interface SimulationBandChartProps {
+  results: SimulationResults;
+}
+
+export function SimulationBandChart({ results }: SimulationBandChartProps) {
+  const data = results.yearlyCashFlow.map(band => ({
+    year: `Year ${band.year}`,
+    p10: Math.round(band.p10),
+    p50: Math.round(band.p50),
+    p90: Math.round(band.p90)
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Simulated Cash Flow Range</CardTitle>
+        <CardDescription>P10 / P50 / P90 annual cash flow across {results.trials.toLocaleString()} trials</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="year" />
+            <YAxis />
+            <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#666" />
+            <Line type="monotone" dataKey="p90" stroke="var(--chart-2)" strokeDasharray="5 5" name="P90 (upside)" dot={false} />
+            <Line type="monotone" dataKey="p50" stroke="var(--chart-1)" strokeWidth={3} name="P50 (median)" dot={{ r: 3 }} />
+            <Line type="monotone" dataKey="p10" stroke="var(--chart-5)" strokeDasharray="5 5" name="P10 (downside)" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
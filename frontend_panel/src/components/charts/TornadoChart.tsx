@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { SensitivityMetric, TornadoBar } from '@calc/types';
+import {
+  formatSensitivityDelta,
+  formatSensitivityMetric,
+  SENSITIVITY_METRIC_LABELS
+} from '../../utils/sensitivity';
+
+interface TornadoChartProps {
+  bars: TornadoBar[];
+  baseValue: number | null;
+  metric: SensitivityMetric;
+}
+
+export function TornadoChart({ bars, baseValue, metric }: TornadoChartProps) {
+  // Bars are drawn as the change from the base case so they extend either side of zero
+  const base = baseValue ?? 0;
+  const data = bars.map(bar => ({
+    label: bar.label,
+    down: bar.lowValue === null ? 0 : bar.lowValue - base,
+    up: bar.highValue === null ? 0 : bar.highValue - base,
+    downLabel: `${formatSensitivityDelta(bar.variable, bar.lowDelta)}: ${formatSensitivityMetric(metric, bar.lowValue)}`,
+    upLabel: `${formatSensitivityDelta(bar.variable, bar.highDelta)}: ${formatSensitivityMetric(metric, bar.highValue)}`
+  }));
+
+  const formatChange = (value: number) =>
+    metric === 'cashFlow' ? `$${Math.round(value).toLocaleString()}` : value.toFixed(metric === 'dscr' ? 2 : 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tornado: {SENSITIVITY_METRIC_LABELS[metric]}</CardTitle>
+        <CardDescription>
+          Change from the base case ({formatSensitivityMetric(metric, baseValue)}) when each driver is flexed down or up
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={Math.max(200, data.length * 45)}>
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" tickFormatter={formatChange} />
+            <YAxis type="category" dataKey="label" width={110} />
+            <Tooltip
+              formatter={(_value, name, item) =>
+                name === 'Driver down' ? item.payload.downLabel : item.payload.upLabel
+              }
+            />
+            <Legend />
+            <ReferenceLine x={0} stroke="#666" />
+            <Bar dataKey="down" stackId="swing" fill="var(--chart-5)" name="Driver down" />
+            <Bar dataKey="up" stackId="swing" fill="var(--chart-2)" name="Driver up" />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
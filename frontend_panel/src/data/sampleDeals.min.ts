@@ -1,5 +1,5 @@
 // v253_change: Minimal sample deals (2 high-quality examples only)
-import { SavedDeal, DEAL_SCHEMA_VERSION } from '../types/deal';
+import { SavedDeal, DEAL_SCHEMA_VERSION } from '@calc/types';
 
 export const minimalSampleDeals: SavedDeal[] = [
   // Sample A - Duplex Medium Rehab (BRRRR)
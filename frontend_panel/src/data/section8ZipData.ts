@@ -1,4 +1,4 @@
-import { Section8ZipData } from '../types/deal';
+import { Section8ZipData } from '@calc/types';
 
 /**
  * Official 2025 Section 8 Payment Standards
@@ -1,6 +1,6 @@
 // src/hooks/useAutoSave.ts
 import { useEffect, useRef } from "react";
-import { DealInputs } from "../types/deal";
+import { DealInputs } from "@calc/types";
 
 interface AutoSaveOptions {
   delay?: number;
@@ -0,0 +1,115 @@
+// src/hooks/useDealScenarios.ts
+import { useCallback, useMemo, useState } from "react";
+import { DealInputs, DealScenario } from "@calc/types";
+import {
+  applyScenario,
+  commitScenario,
+  createScenario,
+  getScenarioOverrides,
+} from "../utils/scenarios";
+
+/**
+ * Scenario switcher for the deal being edited.
+ * The form always edits `inputs`; while a scenario is open those are the deal with the
+ * scenario applied, and `dealInputs` folds the edits back into the deal for saving.
+ */
+export function useDealScenarios(
+  inputs: DealInputs,
+  setInputs: (inputs: DealInputs) => void
+) {
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(
+    null
+  );
+  const [baseInputs, setBaseInputs] = useState<DealInputs | null>(null);
+
+  const dealInputs = useMemo(
+    () =>
+      activeScenarioId && baseInputs
+        ? commitScenario(baseInputs, inputs, activeScenarioId)
+        : inputs,
+    [activeScenarioId, baseInputs, inputs]
+  );
+
+  const openScenario = useCallback(
+    (deal: DealInputs, scenario: DealScenario | null) => {
+      if (scenario) {
+        setBaseInputs(deal);
+        setInputs(applyScenario(deal, scenario));
+      } else {
+        setBaseInputs(null);
+        setInputs(deal);
+      }
+      setActiveScenarioId(scenario?.id ?? null);
+    },
+    [setInputs]
+  );
+
+  const switchScenario = useCallback(
+    (scenarioId: string | null) => {
+      const scenario =
+        dealInputs.scenarios?.find((s) => s.id === scenarioId) ?? null;
+      openScenario(dealInputs, scenario);
+    },
+    [dealInputs, openScenario]
+  );
+
+  // New scenarios start from whatever is on screen
+  const addScenario = useCallback(
+    (name: string) => {
+      const scenario = createScenario(
+        name,
+        activeScenarioId ? getScenarioOverrides(dealInputs, inputs) : {}
+      );
+      openScenario(
+        {
+          ...dealInputs,
+          scenarios: [...(dealInputs.scenarios ?? []), scenario],
+        },
+        scenario
+      );
+    },
+    [activeScenarioId, dealInputs, inputs, openScenario]
+  );
+
+  const renameScenario = useCallback(
+    (scenarioId: string, name: string) => {
+      const scenarios = (dealInputs.scenarios ?? []).map((s) =>
+        s.id === scenarioId ? { ...s, name } : s
+      );
+      openScenario(
+        { ...dealInputs, scenarios },
+        scenarios.find((s) => s.id === activeScenarioId) ?? null
+      );
+    },
+    [activeScenarioId, dealInputs, openScenario]
+  );
+
+  const deleteScenario = useCallback(
+    (scenarioId: string) => {
+      const scenarios = (dealInputs.scenarios ?? []).filter(
+        (s) => s.id !== scenarioId
+      );
+      openScenario(
+        { ...dealInputs, scenarios },
+        scenarios.find((s) => s.id === activeScenarioId) ?? null
+      );
+    },
+    [activeScenarioId, dealInputs, openScenario]
+  );
+
+  // Loading or starting a deal always opens it on its base inputs
+  const resetScenarios = useCallback(() => {
+    setActiveScenarioId(null);
+    setBaseInputs(null);
+  }, []);
+
+  return {
+    activeScenarioId,
+    dealInputs,
+    switchScenario,
+    addScenario,
+    renameScenario,
+    deleteScenario,
+    resetScenarios,
+  };
+}
@@ -0,0 +1,75 @@
+// src/hooks/useMonteCarloSimulation.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SimulationResults } from "@calc/types";
+import type {
+  MonteCarloRequest,
+  MonteCarloResponse,
+} from "../workers/monteCarlo.worker";
+
+/**
+ * Runs Monte Carlo simulations in a Web Worker so the dashboard stays responsive.
+ * Starting a new run (or unmounting) terminates any run still in progress.
+ */
+export function useMonteCarloSimulation() {
+  const workerRef = useRef<Worker | null>(null);
+  const [running, setRunning] = useState(false);
+  const [completedTrials, setCompletedTrials] = useState(0);
+  const [results, setResults] = useState<SimulationResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setRunning(false);
+  }, [stopWorker]);
+
+  const run = useCallback(
+    (request: MonteCarloRequest) => {
+      stopWorker();
+
+      const worker = new Worker(
+        new URL("../workers/monteCarlo.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      workerRef.current = worker;
+      setRunning(true);
+      setCompletedTrials(0);
+      setError(null);
+
+      worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          setCompletedTrials(response.completed);
+          return;
+        }
+
+        if (response.type === "result") {
+          setResults(response.results);
+          setCompletedTrials(response.results.trials);
+        } else {
+          setError(response.message);
+        }
+        stopWorker();
+        setRunning(false);
+      };
+
+      worker.onerror = (event) => {
+        setError(event.message || "Simulation failed");
+        stopWorker();
+        setRunning(false);
+      };
+
+      worker.postMessage(request);
+    },
+    [stopWorker]
+  );
+
+  // Don't leave a worker running after the dashboard unmounts
+  useEffect(() => stopWorker, [stopWorker]);
+
+  return { run, cancel, running, completedTrials, results, error };
+}
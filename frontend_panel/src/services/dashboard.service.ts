@@ -2,6 +2,7 @@
 import axios, { AxiosError } from "axios";
 import { toast } from "sonner";
 import {
+  DealFilters,
   DealInputs,
   Section8ZipData,
   GlobalAssumptions,
@@ -9,12 +10,16 @@ import {
   TeamNote,
   UserSettings,
   PipelineStats,
-} from "../types/deal";
+} from "@calc/types";
 import {
   AssumptionsResponse,
+  BatchAnalysisResponse,
   BulkOperationResponse,
+  DealAnalysisResponse,
   DealResponse,
   ErrorResponse,
+  LibraryComp,
+  LibraryCompsResponse,
   PaginatedResponse,
   Section8RentResponse,
   StatisticsResponse,
@@ -76,9 +81,10 @@ class DashboardService {
       minUnits?: number;
       maxUnits?: number;
       isRehab?: boolean;
+      dealStage?: string;
       sortBy?: string;
       sortOrder?: "asc" | "desc";
-    } = {}
+    } & DealFilters = {}
   ): Promise<PaginatedResponse<SavedDeal>> {
     try {
       const response = await this.api.get("/api/deals", { params });
@@ -99,9 +105,12 @@ class DashboardService {
   }
 
   // Create new deal
-  async createDeal(
-    dealData: DealInputs
-  ): Promise<{ status: string; data: SavedDeal; message: string }> {
+  async createDeal(dealData: DealInputs): Promise<{
+    status: string;
+    data: SavedDeal;
+    replacedComps?: { id: string; address: string }[]; // Comps replaced by newer library copies
+    message: string;
+  }> {
     try {
       const response = await this.api.post("/api/deals", dealData);
       toast.success(response.data.message || "Deal created successfully");
@@ -182,7 +191,13 @@ class DashboardService {
   async updateDeal(
     id: string,
     updateData: Partial<DealInputs>
-  ): Promise<{ status: string; data: SavedDeal; message: string }> {
+  ): Promise<{
+    status: string;
+    data: SavedDeal;
+    updatedDeals?: number; // Other deals that received this deal's comp edits
+    replacedComps?: { id: string; address: string }[]; // Comps replaced by newer library copies
+    message: string;
+  }> {
     try {
       const response = await this.api.put(`/api/deals/${id}`, updateData);
       toast.success(response.data.message || "Deal updated successfully");
@@ -256,6 +271,33 @@ class DashboardService {
     }
   }
 
+  // Run the server-side calculation engine on a saved deal
+  async getDealAnalysis(
+    id: string,
+    excludeVacancy: boolean = false
+  ): Promise<DealAnalysisResponse> {
+    try {
+      const response = await this.api.get(`/api/deals/${id}/analysis`, {
+        params: { excludeVacancy },
+      });
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error as AxiosError<ErrorResponse>);
+    }
+  }
+
+  // Recompute persisted metrics (every active deal when no ids are given)
+  async analyzeDeals(dealIds?: string[]): Promise<BatchAnalysisResponse> {
+    try {
+      const response = await this.api.post("/api/deals/analysis/batch", {
+        dealIds,
+      });
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error as AxiosError<ErrorResponse>);
+    }
+  }
+
   // ========== GLOBAL ASSUMPTIONS ENDPOINTS ==========
 
   // Get global assumptions
@@ -706,6 +748,42 @@ class DashboardService {
     }
   }
 
+  // ========== COMP LIBRARY ENDPOINTS ==========
+
+  // Get library comps near a subject property
+  async getNearbyComps(params: {
+    lat: number;
+    lng: number;
+    radiusMiles?: number;
+    months?: number;
+    limit?: number;
+  }): Promise<LibraryCompsResponse> {
+    try {
+      const response = await this.api.get("/api/comps/nearby", { params });
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error as AxiosError<ErrorResponse>);
+    }
+  }
+
+  // Update library comp (copied to every deal that uses it)
+  async updateLibraryComp(
+    compId: string,
+    updateData: Partial<LibraryComp>
+  ): Promise<{
+    status: string;
+    data: LibraryComp;
+    updatedDeals: number;
+    message: string;
+  }> {
+    try {
+      const response = await this.api.put(`/api/comps/${compId}`, updateData);
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error as AxiosError<ErrorResponse>);
+    }
+  }
+
   // ========== BULK IMPORT ENDPOINTS ==========
 
   // Enhanced bulk import with stage tracking
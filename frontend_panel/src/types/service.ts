@@ -1,5 +1,11 @@
 // src/types/service.ts
-import { GlobalAssumptions, SavedDeal } from "./deal";
+import {
+  DealMetrics,
+  GlobalAssumptions,
+  SavedDeal,
+  ZillowComp,
+} from "@calc/types";
+import { DealAnalysis } from "@calc/analysis";
 
 // Define error response types
 export interface ValidationError {
@@ -60,10 +66,40 @@ export interface StatisticsResponse {
     multiFamilyDeals: number;
     avgPrice: number;
     avgUnits: number;
+    analyzedDeals: number;
+    cashFlowPositiveDeals: number;
+    avgMonthlyCashFlow: number;
   };
   message: string;
 }
 
+export interface DealAnalysisResponse {
+  status: string;
+  data: DealAnalysis;
+}
+
+export interface BatchAnalysisResponse {
+  status: string;
+  data: { dealId: string; address: string; metrics?: DealMetrics }[];
+  message: string;
+}
+
+// Comp library entry (its id is the deal comps' libraryId)
+export interface LibraryComp extends Omit<
+  ZillowComp,
+  "libraryId" | "libraryUpdatedAt"
+> {
+  distanceMiles?: number; // From the subject, on nearby searches
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LibraryCompsResponse {
+  status: string;
+  data: LibraryComp[];
+  message: string;
+}
+
 export interface BulkOperationResponse {
   status: string;
   data: any[];
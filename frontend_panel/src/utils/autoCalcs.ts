@@ -1,5 +1,5 @@
 // v253_change: Centralized auto-calculations helper
-import { DealInputs } from '../types/deal';
+import { DealInputs } from '@calc/types';
 import { calculateCurrentInsurance, calculateRehabInsurance } from './insuranceCalculator';
 
 /**
@@ -3,7 +3,7 @@
  * Extracts condition values from ChatGPT analysis and maps them to form fields
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 
 interface ParsedData {
   updates: Partial<DealNotes>;
@@ -0,0 +1,221 @@
+/**
+ * Market-Derived Adjustment Rates
+ * Ordinary least squares of sold price on living area, beds, baths and pool across
+ * a set of comps (a deal's ARV comps or a pooled comp library). Each coefficient is
+ * the market's marginal value of that feature, converted into the adjustment grid's
+ * rates (% of the comp's price or $/sqft) so it can replace the default constants.
+ */
+import { ARVAdjustmentRates } from "@calc/types";
+import {
+  ARVCompSource,
+  PropertyData,
+  compToPropertyData,
+} from "@calc/arvCalculator";
+
+export type RegressionFeature = "sqft" | "beds" | "baths" | "pool";
+
+export const REGRESSION_FEATURE_LABELS: Record<RegressionFeature, string> = {
+  sqft: "Per Sqft",
+  beds: "Per Bedroom",
+  baths: "Per Bathroom",
+  pool: "Pool",
+};
+
+// Fewer sales than this (or a weaker fit) and the constants are kept
+export const MIN_REGRESSION_SAMPLE = 8;
+export const MIN_REGRESSION_R_SQUARED = 0.5;
+
+export interface FeatureEstimate {
+  feature: RegressionFeature;
+  value: number; // $ per unit (per sqft, per bed, per bath, pool vs none)
+  standardError: number;
+}
+
+export interface CompRegressionResult {
+  sampleSize: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  intercept: number;
+  estimates: FeatureEstimate[];
+  rates: Partial<ARVAdjustmentRates>; // Only features with a positive marginal value
+  isReliable: boolean;
+}
+
+type FeatureReader = (comp: PropertyData) => number;
+
+const FEATURE_VALUE: Record<RegressionFeature, FeatureReader> = {
+  sqft: (comp) => comp.sqft,
+  beds: (comp) => comp.beds,
+  baths: (comp) => comp.baths,
+  pool: (comp) => (comp.hasPool ? 1 : 0),
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+};
+
+// Gauss-Jordan inverse with partial pivoting - null when singular
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...row.map((_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-9) return null;
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const divisor = augmented[col][col];
+    augmented[col] = augmented[col].map((value) => value / divisor);
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      augmented[row] = augmented[row].map(
+        (value, j) => value - factor * augmented[col][j]
+      );
+    }
+  }
+
+  return augmented.map((row) => row.slice(n));
+}
+
+/**
+ * Regress sold price on the comps' features. Features that don't vary across
+ * the sample (e.g. no comp has a pool) are left out. Returns null when there
+ * are too few usable sales to fit the model at all.
+ */
+export function estimateMarketRates(
+  comps: PropertyData[]
+): CompRegressionResult | null {
+  const sample = comps.filter(
+    (comp) =>
+      comp.soldPrice > 0 && comp.sqft > 0 && comp.beds > 0 && comp.baths > 0
+  );
+
+  const features = (Object.keys(FEATURE_VALUE) as RegressionFeature[]).filter(
+    (feature) =>
+      new Set(sample.map((comp) => FEATURE_VALUE[feature](comp))).size > 1
+  );
+  const k = features.length + 1; // + intercept
+  if (features.length === 0 || sample.length <= k) return null;
+
+  const X = sample.map((comp) => [
+    1,
+    ...features.map((feature) => FEATURE_VALUE[feature](comp)),
+  ]);
+  const y = sample.map((comp) => comp.soldPrice);
+
+  // beta = (X'X)^-1 X'y
+  const XtX = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) =>
+      X.reduce((sum, row) => sum + row[i] * row[j], 0)
+    )
+  );
+  const XtXInverse = invert(XtX);
+  if (!XtXInverse) return null; // Collinear features (e.g. beds always track baths)
+
+  const Xty = Array.from({ length: k }, (_, i) =>
+    X.reduce((sum, row, r) => sum + row[i] * y[r], 0)
+  );
+  const beta = XtXInverse.map((row) =>
+    row.reduce((sum, value, j) => sum + value * Xty[j], 0)
+  );
+
+  const n = sample.length;
+  const meanPrice = y.reduce((sum, price) => sum + price, 0) / n;
+  const residualSS = X.reduce((sum, row, r) => {
+    const predicted = row.reduce(
+      (total, value, j) => total + value * beta[j],
+      0
+    );
+    return sum + (y[r] - predicted) ** 2;
+  }, 0);
+  const totalSS = y.reduce((sum, price) => sum + (price - meanPrice) ** 2, 0);
+  const rSquared = totalSS > 0 ? 1 - residualSS / totalSS : 0;
+  const adjustedRSquared = 1 - ((1 - rSquared) * (n - 1)) / (n - k);
+  const variance = residualSS / (n - k);
+
+  const estimates = features.map((feature, index) => ({
+    feature,
+    value: beta[index + 1],
+    standardError: Math.sqrt(
+      Math.max(0, variance * XtXInverse[index + 1][index + 1])
+    ),
+  }));
+
+  // Grid rates are a share of the comp's price (and of its $/sqft for living area)
+  const typicalPrice = median(y);
+  const typicalPricePerSqft = median(
+    sample.map((comp) => comp.soldPrice / comp.sqft)
+  );
+  const toPercent = (value: number, base: number) =>
+    Math.round((value / base) * 1000) / 10;
+
+  const rates: Partial<ARVAdjustmentRates> = {};
+  estimates
+    .filter((estimate) => estimate.value > 0)
+    .forEach(({ feature, value }) => {
+      switch (feature) {
+        case "sqft":
+          rates.sqftPercent = toPercent(value, typicalPricePerSqft);
+          break;
+        case "beds":
+          rates.perBedPercent = toPercent(value, typicalPrice);
+          break;
+        case "baths":
+          rates.perBathPercent = toPercent(value, typicalPrice);
+          break;
+        case "pool":
+          rates.poolPercent = toPercent(value, typicalPrice);
+          break;
+      }
+    });
+
+  return {
+    sampleSize: n,
+    rSquared,
+    adjustedRSquared,
+    intercept: beta[0],
+    estimates,
+    rates,
+    isReliable:
+      n >= MIN_REGRESSION_SAMPLE &&
+      rSquared >= MIN_REGRESSION_R_SQUARED &&
+      Object.keys(rates).length > 0,
+  };
+}
+
+/**
+ * A deal's comps plus library comps sold nearby, for a larger regression sample.
+ * Library comps already on the deal (same library id or address) count once.
+ */
+export function poolRegressionComps(
+  dealComps: (PropertyData & { address: string; libraryId?: string })[],
+  libraryComps: ARVCompSource[]
+): PropertyData[] {
+  const usedIds = new Set(dealComps.map((comp) => comp.libraryId));
+  const usedAddresses = new Set(
+    dealComps.map((comp) => comp.address.toLowerCase().trim())
+  );
+  return [
+    ...dealComps,
+    ...libraryComps
+      .filter(
+        (comp) =>
+          !usedIds.has(comp.id) &&
+          !usedAddresses.has(comp.address.toLowerCase().trim())
+      )
+      .map(compToPropertyData),
+  ];
+}
@@ -3,7 +3,7 @@
  * Calculates estimate confidence (0-100%) based on data completeness and quality
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 
 export interface ConfidenceResult {
   score: number; // 0-100
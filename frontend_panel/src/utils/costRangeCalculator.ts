@@ -3,7 +3,7 @@
  * Generates low-high cost estimates with top cost drivers
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 import { LineItem } from '../components/LineItemEditor';
 
 export interface CostDriver {
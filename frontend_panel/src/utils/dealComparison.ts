@@ -0,0 +1,406 @@
+/**
+ * Multi-Deal Comparison
+ * Lines 2-5 saved deals up metric by metric: property and financing inputs, year-1
+ * and 10-year results for every hold strategy, rehab exits and ARV support.
+ * Each row says which direction is better so the view can highlight the winner.
+ */
+import {
+  ARVConfidenceLevel,
+  DealComparisonRow,
+  DealComparisonSection,
+  GlobalAssumptions,
+  HoldStrategy,
+  SavedDeal,
+  StrategyResults,
+} from "@calc/types";
+import {
+  calculateStrategy,
+  formatCurrency,
+  formatPercent,
+  isHouseHackEligible,
+} from "@calc/calculations";
+import { calculateFlip } from "@calc/flipCalculations";
+import { OFFER_STRATEGY_LABELS } from "./offerSolver";
+import { calculateRehabScenarios } from "@calc/rehabCalculations";
+import {
+  calculateReturnMetrics,
+  DEFAULT_DISCOUNT_RATE_PERCENT,
+} from "@calc/returnMetrics";
+import { assessDealARVConfidence } from "@calc/arvConfidence";
+
+export const MIN_COMPARED_DEALS = 2;
+export const MAX_COMPARED_DEALS = 5;
+
+const PROJECTION_YEARS = 10;
+
+const HOLD_STRATEGIES: HoldStrategy[] = [
+  "ltr",
+  "houseHack",
+  "section8",
+  "airbnb",
+  "mtr",
+  "rehab",
+];
+
+function isStrategyApplicable(
+  strategy: HoldStrategy,
+  deal: SavedDeal
+): boolean {
+  if (strategy === "houseHack") return isHouseHackEligible(deal);
+  if (strategy === "rehab") return hasRehab(deal);
+  return true;
+}
+
+function hasRehab(deal: SavedDeal): boolean {
+  return deal.isRehab && deal.rehabCost > 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Comp count, the saved ARV confidence band (assessed here for deals saved before
+ * the server kept one) and the median comp $/sqft
+ */
+export function getArvSupport(deal: SavedDeal): {
+  compCount: number;
+  bandPercent: number | null;
+  medianPricePerSqft: number | null;
+  confidence: ARVConfidenceLevel | "No comps";
+} {
+  const comps = (deal.arvComps ?? []).filter((comp) => comp.soldPrice > 0);
+  const arvConfidence =
+    comps.length > 0
+      ? (deal.arvConfidence ?? assessDealARVConfidence(deal))
+      : undefined;
+  const perSqft = comps
+    .filter((comp) => comp.sqft > 0)
+    .map((comp) => comp.soldPrice / comp.sqft);
+
+  return {
+    compCount: comps.length,
+    bandPercent: arvConfidence?.bandPercent ?? null,
+    medianPricePerSqft: perSqft.length > 0 ? median(perSqft) : null,
+    confidence: arvConfidence?.level ?? "No comps",
+  };
+}
+
+function buildStrategyRows(
+  results: (StrategyResults | null)[],
+  deals: SavedDeal[],
+  assumptions: GlobalAssumptions
+): DealComparisonRow[] {
+  const tenYear = results.map((result) =>
+    result ? (result.projections[PROJECTION_YEARS - 1] ?? null) : null
+  );
+  const map = (pick: (result: StrategyResults) => number | null) =>
+    results.map((result) => (result ? pick(result) : null));
+
+  return [
+    {
+      label: "Year 1 Cash Flow / mo",
+      values: map((result) => result.year1Summary.cashFlow / 12),
+      format: "currency",
+      better: "higher",
+    },
+    {
+      label: "Cash-on-Cash",
+      values: map((result) => result.year1Summary.cashOnCash),
+      format: "percent",
+      better: "higher",
+    },
+    {
+      label: "Cap Rate",
+      values: map((result) => result.year1Summary.capRate),
+      format: "percent",
+      better: "higher",
+    },
+    {
+      label: "DSCR",
+      values: map((result) => result.year1Summary.dscr),
+      format: "ratio",
+      better: "higher",
+    },
+    {
+      label: "Cash Invested",
+      values: map((result) => result.cashInvested),
+      format: "currency",
+      better: "lower",
+    },
+    {
+      label: `Year ${PROJECTION_YEARS} Cumulative Cash Flow`,
+      values: tenYear.map((year) => (year ? year.cumulativeCashFlow : null)),
+      format: "currency",
+      better: "higher",
+    },
+    {
+      label: `Year ${PROJECTION_YEARS} Equity`,
+      values: tenYear.map((year) => (year ? year.equity : null)),
+      format: "currency",
+      better: "higher",
+    },
+    {
+      label: `${PROJECTION_YEARS}-Year IRR`,
+      values: results.map((result, index) =>
+        result
+          ? calculateReturnMetrics(
+              result,
+              PROJECTION_YEARS,
+              deals[index].sellClosingCosts || 8,
+              assumptions.discountRatePercent ?? DEFAULT_DISCOUNT_RATE_PERCENT
+            ).leveredIRR
+          : null
+      ),
+      format: "percent",
+      better: "higher",
+    },
+  ];
+}
+
+/**
+ * Every comparison section for the selected deals, one value per deal in each row
+ */
+export function buildDealComparison(
+  deals: SavedDeal[],
+  assumptions: GlobalAssumptions,
+  excludeVacancy: boolean = false
+): DealComparisonSection[] {
+  const sections: DealComparisonSection[] = [
+    {
+      title: "Property & Financing",
+      rows: [
+        {
+          label: "Purchase Price",
+          values: deals.map((deal) => deal.purchasePrice),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Units",
+          values: deals.map((deal) => deal.units),
+          format: "number",
+        },
+        {
+          label: "Beds / Baths",
+          values: deals.map((deal) => {
+            const beds = deal.unitDetails.reduce((sum, u) => sum + u.beds, 0);
+            const baths = deal.unitDetails.reduce((sum, u) => sum + u.baths, 0);
+            return `${beds} / ${baths}`;
+          }),
+          format: "text",
+        },
+        {
+          label: "Square Feet",
+          values: deals.map((deal) => deal.totalSqft || null),
+          format: "number",
+          better: "higher",
+        },
+        {
+          label: "Price / Sqft",
+          values: deals.map((deal) =>
+            deal.totalSqft > 0 ? deal.purchasePrice / deal.totalSqft : null
+          ),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Year Built",
+          values: deals.map((deal) => deal.yearBuilt || null),
+          format: "text",
+        },
+        {
+          label: "Property Taxes",
+          values: deals.map((deal) => deal.propertyTaxes),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Insurance",
+          values: deals.map((deal) => deal.propertyInsurance),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Down Payment",
+          values: deals.map((deal) => deal.downPayment),
+          format: "percent",
+        },
+        {
+          label: "Interest Rate",
+          values: deals.map((deal) => deal.loanInterestRate),
+          format: "percent",
+          better: "lower",
+        },
+        {
+          label: "Rehab Cost",
+          values: deals.map((deal) => (deal.isRehab ? deal.rehabCost : null)),
+          format: "currency",
+        },
+      ],
+    },
+  ];
+
+  HOLD_STRATEGIES.forEach((strategy) => {
+    const results = deals.map((deal) =>
+      isStrategyApplicable(strategy, deal)
+        ? calculateStrategy(strategy, deal, assumptions, excludeVacancy)
+        : null
+    );
+    if (results.every((result) => result === null)) return;
+    sections.push({
+      title: OFFER_STRATEGY_LABELS[strategy],
+      rows: buildStrategyRows(results, deals, assumptions),
+    });
+  });
+
+  if (deals.some(hasRehab)) {
+    const scenarios = deals.map((deal) =>
+      hasRehab(deal) ? calculateRehabScenarios(deal) : null
+    );
+    const flips = deals.map((deal) =>
+      hasRehab(deal) ? calculateFlip(deal) : null
+    );
+    sections.push({
+      title: "Rehab Exit",
+      rows: [
+        {
+          label: "Sell: Net Profit",
+          values: scenarios.map((s) => s?.sellScenario.netProfit ?? null),
+          format: "currency",
+          better: "higher",
+        },
+        {
+          label: "Refi: Cash Out",
+          values: scenarios.map((s) => s?.refiScenario.cashOutAmount ?? null),
+          format: "currency",
+          better: "higher",
+        },
+        {
+          label: "Refi: Capital Left In Deal",
+          values: scenarios.map(
+            (s) => s?.refiScenario.capitalLeftInDeal ?? null
+          ),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Funds Gap",
+          values: scenarios.map((s) => s?.refiScenario.fundsGap ?? null),
+          format: "currency",
+          better: "lower",
+        },
+        {
+          label: "Fix & Flip: Net Profit",
+          values: flips.map((flip) => flip?.netProfit ?? null),
+          format: "currency",
+          better: "higher",
+        },
+        {
+          label: "Fix & Flip: Annualized ROI",
+          values: flips.map((flip) => flip?.annualizedRoi ?? null),
+          format: "percent",
+          better: "higher",
+        },
+      ],
+    });
+  }
+
+  const arvSupport = deals.map(getArvSupport);
+  sections.push({
+    title: "ARV & Comps",
+    rows: [
+      {
+        label: "ARV",
+        values: deals.map(
+          (deal) => deal.afterRepairValue || deal.calculatedARV || null
+        ),
+        format: "currency",
+      },
+      {
+        label: "ARV / Purchase Price",
+        values: deals.map((deal) => {
+          const arv = deal.afterRepairValue || deal.calculatedARV;
+          return arv && deal.purchasePrice > 0
+            ? arv / deal.purchasePrice
+            : null;
+        }),
+        format: "ratio",
+        better: "higher",
+      },
+      {
+        label: "Sold Comps",
+        values: arvSupport.map((support) => support.compCount),
+        format: "number",
+        better: "higher",
+      },
+      {
+        label: "ARV Band (±)",
+        values: arvSupport.map((support) => support.bandPercent),
+        format: "percent",
+        better: "lower",
+      },
+      {
+        label: "Median Comp $/Sqft",
+        values: arvSupport.map((support) => support.medianPricePerSqft),
+        format: "currency",
+      },
+      {
+        label: "ARV Confidence",
+        values: arvSupport.map((support) => support.confidence),
+        format: "text",
+      },
+    ],
+  });
+
+  return sections;
+}
+
+/**
+ * Indexes of the deals holding the best value in a row (ties all win)
+ * Rows without a direction, or where fewer than two deals have a value, have no winner
+ */
+export function getBestValueIndexes(row: DealComparisonRow): number[] {
+  if (!row.better) return [];
+  const numbers = row.values
+    .map((value, index) => ({ value, index }))
+    .filter(
+      (entry): entry is { value: number; index: number } =>
+        typeof entry.value === "number" && isFinite(entry.value)
+    );
+  if (numbers.length < 2) return [];
+
+  const best =
+    row.better === "higher"
+      ? Math.max(...numbers.map((entry) => entry.value))
+      : Math.min(...numbers.map((entry) => entry.value));
+  if (numbers.every((entry) => entry.value === best)) return [];
+  return numbers
+    .filter((entry) => entry.value === best)
+    .map((entry) => entry.index);
+}
+
+export function formatComparisonValue(
+  value: number | string | null,
+  format: DealComparisonRow["format"]
+): string {
+  if (value === null) return "—";
+  if (typeof value === "string") return value;
+  if (!isFinite(value)) return "∞";
+  switch (format) {
+    case "currency":
+      return formatCurrency(value);
+    case "percent":
+      return formatPercent(value);
+    case "ratio":
+      return value.toFixed(2);
+    case "number":
+      return Math.round(value).toLocaleString();
+    default:
+      return String(value);
+  }
+}
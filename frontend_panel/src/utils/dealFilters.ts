@@ -0,0 +1,50 @@
+/**
+ * Saved-Deals Filters
+ * Filters for the saved-deals table are applied server-side (metrics persisted on
+ * each deal); named filter sets are kept in this browser's localStorage.
+ */
+import { DealFilters, SavedDealFilter } from "@calc/types";
+import { safeLocalStorageGet, safeLocalStorageSet } from "./migrations";
+
+const SAVED_DEAL_FILTERS_KEY = "deal-analyzer-saved-filters";
+
+// Drop blank fields (and a zip still being typed) so they aren't sent as query params
+export function cleanDealFilters(filters: DealFilters): DealFilters {
+  const cleaned: Record<string, unknown> = {};
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      cleaned[key] = value;
+    }
+  });
+  if (filters.zipCode && !/^\d{5}$/.test(filters.zipCode)) {
+    delete cleaned.zipCode;
+  }
+  return cleaned as DealFilters;
+}
+
+// Strategy only picks which numbers the thresholds read, so it doesn't count
+export function countActiveFilters(filters: DealFilters): number {
+  return Object.keys(cleanDealFilters(filters)).filter(
+    (key) => key !== "strategy"
+  ).length;
+}
+
+export function loadSavedDealFilters(): SavedDealFilter[] {
+  const stored = safeLocalStorageGet(SAVED_DEAL_FILTERS_KEY);
+  return Array.isArray(stored) ? stored : [];
+}
+
+export function saveSavedDealFilters(filters: SavedDealFilter[]): boolean {
+  return safeLocalStorageSet(SAVED_DEAL_FILTERS_KEY, filters);
+}
+
+export function createSavedDealFilter(
+  name: string,
+  filters: DealFilters
+): SavedDealFilter {
+  return {
+    id: `filter-${Date.now()}`,
+    name: name.trim(),
+    filters: cleanDealFilters(filters),
+  };
+}
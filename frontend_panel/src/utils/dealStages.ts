@@ -1,4 +1,4 @@
-import { DealStage, DealStageInfo } from "../types/deal";
+import { DealStage, DealStageInfo } from "@calc/types";
 
 /**
  * Deal Stage Configuration
@@ -77,6 +77,15 @@ export const DEAL_STAGES: Record<DealStage, DealStageInfo> = {
     description: 'Offer submitted - waiting on outcome (Counter)',
     order: 6,
   },
+  'stage7-closed': {
+    stage: 'stage7-closed',
+    label: 'Closed / Owned',
+    shortLabel: 'Closed',
+    color: 'text-emerald-800',
+    bgColor: 'bg-emerald-100 border-emerald-400',
+    description: 'Purchase closed - tracked in the portfolio',
+    order: 7,
+  },
   'archived': {
     stage: 'archived',
     label: 'Archived',
@@ -121,6 +130,7 @@ export function getStagesByPhase() {
       DEAL_STAGES['stage6-accepted'],
       DEAL_STAGES['stage6-rejected'],
       DEAL_STAGES['stage6-counter'],
+      DEAL_STAGES['stage7-closed'],
     ],
     closed: [
       DEAL_STAGES['archived'],
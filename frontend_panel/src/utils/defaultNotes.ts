@@ -1,5 +1,5 @@
 // v253_change: Default notes structure factory
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 
 export function getDefaultNotes(): DealNotes {
   return {
@@ -1,7 +1,7 @@
 // v255_change: Export presets for deals - JSON, PDF, CSV formats with smart naming
 
-import { DealInputs, SavedDeal } from '../types/deal';
-import { formatCurrency, formatPercent } from './calculations';
+import { DealComparisonSection, DealInputs, SavedDeal } from '@calc/types';
+import { formatCurrency, formatPercent } from '@calc/calculations';
 
 /**
  * Generate smart filename for exports
@@ -229,3 +229,34 @@ export function copyAgentCallSheet(deal: DealInputs | SavedDeal): Promise<void>
   const content = generateAgentCallSheet(deal);
   return navigator.clipboard.writeText(content);
 }
+
+/**
+ * Export a multi-deal comparison as CSV (one column per deal, raw numbers for spreadsheets)
+ */
+export function exportDealComparisonCSV(deals: SavedDeal[], sections: DealComparisonSection[]): void {
+  const filename = `DealComparison_${new Date().toISOString().split('T')[0]}.csv`;
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  
+  const headers = ['Section', 'Metric', ...deals.map(deal => quote(deal.address || 'N/A'))].join(',');
+  const rows = sections.flatMap(section =>
+    section.rows.map(row => [
+      quote(section.title),
+      quote(row.label),
+      ...row.values.map(value => {
+        if (value === null) return '';
+        if (typeof value === 'string') return quote(value);
+        return Number.isFinite(value) ? Math.round(value * 100) / 100 : '';
+      }),
+    ].join(','))
+  );
+  
+  const csvContent = [headers, ...rows].join('\n');
+  
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
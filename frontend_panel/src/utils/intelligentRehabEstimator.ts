@@ -4,7 +4,7 @@
  * and appropriate rehab condition levels (light, lite+, medium, heavy, fullgut)
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 import { calculateRehabEstimate } from './rehabEstimator';
 
 export interface RehabEstimateResult {
@@ -0,0 +1,146 @@
+/**
+ * Investment Criteria (Buy Box) Profiles
+ * Judges a deal against a named profile's thresholds using the numbers of the
+ * profile's strategy. Each criterion the profile sets is pass/fail; the score
+ * is the share of criteria passed.
+ */
+import {
+  CriteriaEvaluation,
+  CriterionKey,
+  CriterionResult,
+  DealInputs,
+  GlobalAssumptions,
+  InvestmentCriteriaProfile,
+} from "@calc/types";
+import {
+  calculateStrategy,
+  formatCurrency,
+  formatPercent,
+} from "@calc/calculations";
+import { calculateRehabScenarios } from "@calc/rehabCalculations";
+import { extractZipCode } from "./section8Helper";
+
+export const CRITERION_LABELS: Record<CriterionKey, string> = {
+  minCapRate: "Cap Rate",
+  minDscr: "DSCR",
+  minCashOnCash: "Cash-on-Cash",
+  maxCashLeftInDeal: "Cash Left in Deal",
+  maxPricePerUnit: "Price / Unit",
+  allowedZips: "Zip Code",
+};
+
+export function createCriteriaProfile(
+  name: string = "New Profile"
+): InvestmentCriteriaProfile {
+  return {
+    id: `profile-${Date.now()}`,
+    name,
+    strategy: "ltr",
+    minDscr: 1.2,
+    minCashOnCash: 8,
+  };
+}
+
+/**
+ * Cash still tied up in the deal - after the refi for BRRRR, total cash in otherwise
+ */
+function getCashLeftInDeal(
+  deal: DealInputs,
+  profile: InvestmentCriteriaProfile,
+  cashInvested: number
+): number {
+  if (profile.strategy === "rehab") {
+    return calculateRehabScenarios(deal).refiScenario.capitalLeftInDeal ?? 0;
+  }
+  return cashInvested;
+}
+
+/**
+ * Pass/fail for every criterion the profile sets, plus the aggregate score
+ */
+export function evaluateCriteria(
+  deal: DealInputs,
+  profile: InvestmentCriteriaProfile,
+  assumptions: GlobalAssumptions
+): CriteriaEvaluation {
+  const results: CriterionResult[] = [];
+  const add = (
+    key: CriterionKey,
+    passed: boolean,
+    actual: string,
+    target: string
+  ) =>
+    results.push({ key, label: CRITERION_LABELS[key], passed, actual, target });
+
+  const strategyResults = calculateStrategy(
+    profile.strategy,
+    deal,
+    assumptions
+  );
+  const { year1Summary } = strategyResults;
+  const units = deal.unitDetails.length || deal.units || 1;
+
+  if (profile.minCapRate !== undefined) {
+    add(
+      "minCapRate",
+      year1Summary.capRate >= profile.minCapRate,
+      formatPercent(year1Summary.capRate),
+      `≥ ${formatPercent(profile.minCapRate)}`
+    );
+  }
+  if (profile.minDscr !== undefined) {
+    add(
+      "minDscr",
+      year1Summary.dscr >= profile.minDscr,
+      isFinite(year1Summary.dscr) ? year1Summary.dscr.toFixed(2) : "—",
+      `≥ ${profile.minDscr.toFixed(2)}`
+    );
+  }
+  if (profile.minCashOnCash !== undefined) {
+    add(
+      "minCashOnCash",
+      year1Summary.cashOnCash >= profile.minCashOnCash,
+      formatPercent(year1Summary.cashOnCash),
+      `≥ ${formatPercent(profile.minCashOnCash)}`
+    );
+  }
+  if (profile.maxCashLeftInDeal !== undefined) {
+    const cashLeft = getCashLeftInDeal(
+      deal,
+      profile,
+      strategyResults.cashInvested
+    );
+    add(
+      "maxCashLeftInDeal",
+      cashLeft <= profile.maxCashLeftInDeal,
+      formatCurrency(cashLeft),
+      `≤ ${formatCurrency(profile.maxCashLeftInDeal)}`
+    );
+  }
+  if (profile.maxPricePerUnit !== undefined) {
+    const pricePerUnit = deal.purchasePrice / units;
+    add(
+      "maxPricePerUnit",
+      pricePerUnit <= profile.maxPricePerUnit,
+      formatCurrency(pricePerUnit),
+      `≤ ${formatCurrency(profile.maxPricePerUnit)}`
+    );
+  }
+  if (profile.allowedZips && profile.allowedZips.length > 0) {
+    const zip = extractZipCode(deal.address);
+    add(
+      "allowedZips",
+      zip !== null && profile.allowedZips.includes(zip),
+      zip ?? "No zip",
+      profile.allowedZips.join(", ")
+    );
+  }
+
+  const passedCount = results.filter((result) => result.passed).length;
+  return {
+    profileId: profile.id,
+    results,
+    passedCount,
+    score: results.length > 0 ? (passedCount / results.length) * 100 : 100,
+  };
+}
@@ -3,7 +3,7 @@
  * Converts property condition assessment into detailed scope of work line items
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 import { LineItem } from '../components/LineItemEditor';
 
 export function generateLineItems(
@@ -1,5 +1,5 @@
 // v253_change: Schema migrations for deal data
-import { DealInputs, SavedDeal, DEAL_SCHEMA_VERSION, UnitDetail } from '../types/deal';
+import { DealInputs, SavedDeal, DEAL_SCHEMA_VERSION, UnitDetail } from '@calc/types';
 import { getDefaultNotes } from './defaultNotes';
 
 /**
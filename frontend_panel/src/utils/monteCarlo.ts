@@ -0,0 +1,216 @@
+/**
+ * Monte Carlo Risk Simulation
+ * Draws rent growth, appreciation, vacancy and insurance increases from their
+ * distributions, re-runs the strategy for every trial and summarizes the spread
+ * of outcomes. Trials use a seeded generator so a run can be reproduced exactly.
+ *
+ * Heavy - run it through workers/monteCarlo.worker.ts, not on the UI thread
+ */
+import {
+  AssumptionDistribution,
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  PercentileBand,
+  SimulationConfig,
+  SimulationResults,
+  SimulationVariable,
+} from "@calc/types";
+import { calculateStrategy } from "@calc/calculations";
+
+export const DEFAULT_SIMULATION_TRIALS = 2000;
+
+export const SIMULATION_VARIABLE_LABELS: Record<SimulationVariable, string> = {
+  rentGrowthPercent: "Rent Growth (%/yr)",
+  appreciationPercent: "Appreciation (%/yr)",
+  vacancyMonths: "Vacancy (months/yr)",
+  insuranceIncreasePercent: "Insurance Increase (%/yr)",
+};
+
+/**
+ * Seeded PRNG (mulberry32) - uniform values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * One draw from a distribution
+ */
+export function sampleDistribution(
+  distribution: AssumptionDistribution,
+  random: () => number
+): number {
+  if (distribution.kind === "range") {
+    const min = distribution.min ?? 0;
+    const max = distribution.max ?? min;
+    return min + (max - min) * random();
+  }
+  if (distribution.kind === "normal") {
+    // Box-Muller transform
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return (distribution.mean ?? 0) + (distribution.stdDev ?? 0) * z;
+  }
+  return distribution.mean ?? distribution.min ?? 0;
+}
+
+/**
+ * Starting distributions centered on the current point estimates
+ */
+export function getDefaultDistributions(
+  strategy: HoldStrategy,
+  assumptions: GlobalAssumptions
+): Record<SimulationVariable, AssumptionDistribution> {
+  const vacancy =
+    strategy === "section8"
+      ? assumptions.section8VacancyMonths
+      : assumptions.ltrVacancyMonths;
+
+  return {
+    rentGrowthPercent: {
+      kind: "normal",
+      mean: assumptions.rentGrowthPercent,
+      stdDev: 1.5,
+    },
+    appreciationPercent: {
+      kind: "normal",
+      mean: assumptions.appreciationPercent,
+      stdDev: 2,
+    },
+    vacancyMonths: {
+      kind: "range",
+      min: Math.max(0, vacancy - 0.5),
+      max: vacancy + 1,
+    },
+    insuranceIncreasePercent: {
+      kind: "normal",
+      mean: assumptions.insuranceIncreasePercent,
+      stdDev: 3,
+    },
+  };
+}
+
+/**
+ * Value at percentile p (0-100) of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function toPercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+  };
+}
+
+/**
+ * Run every trial of the simulation for one strategy
+ * onProgress receives the number of completed trials every 100 trials
+ */
+export function runMonteCarlo(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  config: SimulationConfig,
+  excludeVacancy: boolean = false,
+  onProgress?: (completed: number) => void
+): SimulationResults {
+  const random = createRandom(config.seed);
+  const trials = Math.max(1, Math.round(config.trials));
+  const holdYears = Math.max(1, Math.min(30, Math.round(config.holdYears)));
+
+  const averageCashFlows: number[] = [];
+  const cashFlowsByYear: number[][] = Array.from(
+    { length: holdYears },
+    () => []
+  );
+  let negativeCashFlowTrials = 0;
+  let lowDscrTrials = 0;
+
+  for (let trial = 1; trial <= trials; trial++) {
+    // Draw in a fixed order so the seed reproduces the same trials
+    const vacancyMonths = Math.min(
+      12,
+      Math.max(
+        0,
+        sampleDistribution(config.distributions.vacancyMonths, random)
+      )
+    );
+    const trialAssumptions: GlobalAssumptions = {
+      ...assumptions,
+      rentGrowthPercent: sampleDistribution(
+        config.distributions.rentGrowthPercent,
+        random
+      ),
+      appreciationPercent: sampleDistribution(
+        config.distributions.appreciationPercent,
+        random
+      ),
+      ltrVacancyMonths: vacancyMonths,
+      section8VacancyMonths: vacancyMonths,
+      insuranceIncreasePercent: sampleDistribution(
+        config.distributions.insuranceIncreasePercent,
+        random
+      ),
+    };
+
+    const results = calculateStrategy(
+      strategy,
+      inputs,
+      trialAssumptions,
+      excludeVacancy
+    );
+    const heldYears = results.projections.slice(0, holdYears);
+
+    heldYears.forEach((projection, index) => {
+      cashFlowsByYear[index].push(projection.cashFlow);
+    });
+    averageCashFlows.push(
+      heldYears.reduce((total, projection) => total + projection.cashFlow, 0) /
+        Math.max(1, heldYears.length)
+    );
+    if (heldYears.some((projection) => projection.cashFlow < 0)) {
+      negativeCashFlowTrials++;
+    }
+    if (
+      heldYears.some(
+        (projection) =>
+          projection.debtService > 0 &&
+          projection.noi / projection.debtService < 1.0
+      )
+    ) {
+      lowDscrTrials++;
+    }
+
+    if (onProgress && trial % 100 === 0) onProgress(trial);
+  }
+
+  return {
+    trials,
+    seed: config.seed,
+    holdYears,
+    averageCashFlow: toPercentileBand(averageCashFlows),
+    yearlyCashFlow: cashFlowsByYear.map((values, index) => ({
+      year: index + 1,
+      ...toPercentileBand(values),
+    })),
+    probabilityNegativeCashFlow: (negativeCashFlowTrials / trials) * 100,
+    probabilityDscrBelowOne: (lowDscrTrials / trials) * 100,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Max Offer Solver
+ * Binary-searches the purchase price for the highest offer that still meets the
+ * return targets, per strategy. Every metric used here gets worse as the price
+ * goes up, so the feasible prices form a single range starting at $0.
+ *
+ * Hold strategies (LTR, house hack, Section 8, Airbnb, mid-term, BRRRR) check
+ * DSCR, cash-on-cash and cash flow per unit; the flip checks sale profit and the
+ * 70% rule.
+ */
+import {
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  OfferSolution,
+  OfferTargets,
+  Strategy,
+} from "@calc/types";
+import { getApplicableStrategies } from "@calc/analysis";
+import { calculateStrategy } from "@calc/calculations";
+import { calculateFlip } from "@calc/flipCalculations";
+
+export const DEFAULT_OFFER_TARGETS: OfferTargets = {
+  minDscr: 1.25,
+  minCashOnCash: 8,
+  minMonthlyCashFlowPerUnit: 100,
+  flipRulePercent: 70,
+  minFlipProfit: 25000,
+};
+
+export const OFFER_TARGET_LABELS: Record<keyof OfferTargets, string> = {
+  minDscr: "Min DSCR",
+  minCashOnCash: "Min Cash-on-Cash",
+  minMonthlyCashFlowPerUnit: "Min Cash Flow / Unit / Mo",
+  flipRulePercent: "Flip Rule (% of ARV)",
+  minFlipProfit: "Min Flip Profit",
+};
+
+export const OFFER_STRATEGY_LABELS: Record<Strategy, string> = {
+  ltr: "Long-Term Rental",
+  houseHack: "House Hack",
+  section8: "Section 8",
+  airbnb: "Airbnb",
+  mtr: "Mid-Term Rental",
+  rehab: "BRRRR (Rehab & Refi)",
+  flip: "Fix & Flip",
+};
+
+// Offers are rounded down to the nearest $500
+const PRICE_ROUNDING = 500;
+const SEARCH_PRECISION = 100;
+
+/**
+ * Deal inputs at a different purchase price
+ * Dollar closing costs keep the same ratio to the price they were entered against
+ */
+export function withPurchasePrice(
+  inputs: DealInputs,
+  purchasePrice: number
+): DealInputs {
+  const scale = (amount?: number) =>
+    amount !== undefined && inputs.purchasePrice > 0
+      ? amount * (purchasePrice / inputs.purchasePrice)
+      : undefined;
+
+  return {
+    ...inputs,
+    purchasePrice,
+    acquisitionCostsAmount: scale(inputs.acquisitionCostsAmount),
+    bridgeSettlementCharges: scale(inputs.bridgeSettlementCharges),
+  };
+}
+
+/**
+ * Targets a hold strategy misses at this price (empty = all met)
+ */
+function getHoldShortfalls(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  targets: OfferTargets
+): (keyof OfferTargets)[] {
+  const { year1Summary } = calculateStrategy(strategy, inputs, assumptions);
+  const units = inputs.unitDetails.length || inputs.units || 1;
+  const shortfalls: (keyof OfferTargets)[] = [];
+
+  if (
+    targets.minDscr !== undefined &&
+    !(year1Summary.dscr >= targets.minDscr)
+  ) {
+    shortfalls.push("minDscr");
+  }
+  if (
+    targets.minCashOnCash !== undefined &&
+    !(year1Summary.cashOnCash >= targets.minCashOnCash)
+  ) {
+    shortfalls.push("minCashOnCash");
+  }
+  if (
+    targets.minMonthlyCashFlowPerUnit !== undefined &&
+    !(year1Summary.cashFlow / 12 / units >= targets.minMonthlyCashFlowPerUnit)
+  ) {
+    shortfalls.push("minMonthlyCashFlowPerUnit");
+  }
+  return shortfalls;
+}
+
+/**
+ * Targets the flip misses at this price (empty = all met)
+ */
+function getFlipShortfalls(
+  inputs: DealInputs,
+  targets: OfferTargets
+): (keyof OfferTargets)[] {
+  const shortfalls: (keyof OfferTargets)[] = [];
+
+  if (
+    targets.flipRulePercent !== undefined &&
+    inputs.purchasePrice >
+      inputs.afterRepairValue * (targets.flipRulePercent / 100) -
+        inputs.rehabCost
+  ) {
+    shortfalls.push("flipRulePercent");
+  }
+  if (targets.minFlipProfit !== undefined) {
+    if (!(calculateFlip(inputs).netProfit >= targets.minFlipProfit)) {
+      shortfalls.push("minFlipProfit");
+    }
+  }
+  return shortfalls;
+}
+
+/**
+ * Highest purchase price that meets every target for one strategy
+ */
+export function solveMaxOffer(
+  strategy: Strategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  targets: OfferTargets
+): OfferSolution {
+  const shortfallsAt = (price: number) => {
+    const priced = withPurchasePrice(inputs, price);
+    return strategy === "flip"
+      ? getFlipShortfalls(priced, targets)
+      : getHoldShortfalls(strategy, priced, assumptions, targets);
+  };
+
+  let low = PRICE_ROUNDING;
+  let high =
+    Math.max(inputs.purchasePrice, inputs.afterRepairValue || 0, 100000) * 3;
+
+  const shortfallsAtFloor = shortfallsAt(low);
+  if (shortfallsAtFloor.length > 0) {
+    return {
+      strategy,
+      status: "infeasible",
+      maxPrice: null,
+      bindingConstraints: shortfallsAtFloor,
+    };
+  }
+  if (shortfallsAt(high).length === 0) {
+    return {
+      strategy,
+      status: "unbounded",
+      maxPrice: null,
+      bindingConstraints: [],
+    };
+  }
+
+  while (high - low > SEARCH_PRECISION) {
+    const mid = (low + high) / 2;
+    if (shortfallsAt(mid).length === 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return {
+    strategy,
+    status: "solved",
+    maxPrice: Math.floor(low / PRICE_ROUNDING) * PRICE_ROUNDING,
+    // Whatever fails just above the answer is what caps the offer
+    bindingConstraints: shortfallsAt(high),
+  };
+}
+
+/**
+ * Max offer for every strategy the deal supports (house hack needs 2-4 units,
+ * BRRRR and flip need rehab data)
+ */
+export function solveMaxOffers(
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  targets: OfferTargets
+): OfferSolution[] {
+  const strategies: Strategy[] = getApplicableStrategies(inputs).filter(
+    (strategy) => strategy !== "rehab" || inputs.afterRepairValue > 0
+  );
+  if (strategies.includes("rehab")) {
+    strategies.push("flip");
+  }
+  return strategies.map((strategy) =>
+    solveMaxOffer(strategy, inputs, assumptions, targets)
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Portfolio Roll-Up
+ * Treats every accepted or closed deal as an owned asset run under its hold strategy
+ * and adds the holdings up: year-1 value, debt, equity and cash flow, debt-weighted
+ * DSCR, blended cap rate, the combined 30-year projection and concentration by zip
+ * code and strategy.
+ */
+import {
+  DealStage,
+  GlobalAssumptions,
+  HoldStrategy,
+  PortfolioConcentration,
+  PortfolioHolding,
+  PortfolioSummary,
+  SavedDeal,
+  YearProjection,
+} from "@calc/types";
+import { getApplicableStrategies } from "@calc/analysis";
+import { calculateStrategy } from "@calc/calculations";
+import { OFFER_STRATEGY_LABELS } from "./offerSolver";
+import { extractZipCode } from "./section8Helper";
+
+export const PORTFOLIO_STAGES: DealStage[] = [
+  "stage6-accepted",
+  "stage7-closed",
+];
+
+export function isPortfolioDeal(deal: SavedDeal): boolean {
+  return !!deal.dealStage && PORTFOLIO_STAGES.includes(deal.dealStage);
+}
+
+/**
+ * The deal's chosen strategy, or BRRRR for a rehab held after the refi and LTR otherwise
+ * (a saved choice that no longer applies, e.g. house hack on a 5+ unit, falls back too)
+ */
+export function getPortfolioStrategy(deal: SavedDeal): HoldStrategy {
+  const strategies = getApplicableStrategies(deal);
+  if (deal.portfolioStrategy && strategies.includes(deal.portfolioStrategy)) {
+    return deal.portfolioStrategy;
+  }
+  return strategies.includes("rehab") && deal.exitStrategy === "refi"
+    ? "rehab"
+    : "ltr";
+}
+
+// Year-by-year fields that add up across properties
+const SUMMED_FIELDS = [
+  "grossIncome",
+  "noi",
+  "debtService",
+  "cashFlow",
+  "appreciation",
+  "propertyValue",
+  "equity",
+  "annualReturn",
+  "cumulativeCashFlow",
+  "cumulativeReturn",
+  "loanBalance",
+  "interestPaid",
+] as const;
+
+function combineProjections(
+  projectionSets: YearProjection[][]
+): YearProjection[] {
+  const years = Math.max(0, ...projectionSets.map((set) => set.length));
+  return Array.from({ length: years }, (_, index) => {
+    const combined: YearProjection = {
+      year: index + 1,
+      grossIncome: 0,
+      noi: 0,
+      debtService: 0,
+      cashFlow: 0,
+      appreciation: 0,
+      propertyValue: 0,
+      equity: 0,
+      annualReturn: 0,
+      cumulativeCashFlow: 0,
+      cumulativeReturn: 0,
+      loanBalance: 0,
+      interestPaid: 0,
+    };
+    projectionSets.forEach((set) => {
+      const year = set[index];
+      if (!year) return;
+      SUMMED_FIELDS.forEach((field) => {
+        combined[field] += year[field];
+      });
+      if (year.refiProceeds) {
+        combined.refiProceeds =
+          (combined.refiProceeds ?? 0) + year.refiProceeds;
+      }
+    });
+    return combined;
+  });
+}
+
+function groupConcentration(
+  holdings: PortfolioHolding[],
+  getKey: (holding: PortfolioHolding) => string,
+  getLabel: (key: string) => string
+): PortfolioConcentration[] {
+  const totalEquity = holdings.reduce((sum, h) => sum + h.equity, 0);
+  const groups = new Map<string, PortfolioHolding[]>();
+  holdings.forEach((holding) => {
+    const key = getKey(holding);
+    groups.set(key, [...(groups.get(key) ?? []), holding]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const equity = group.reduce((sum, h) => sum + h.equity, 0);
+      return {
+        key,
+        label: getLabel(key),
+        count: group.length,
+        equity,
+        equityPercent: totalEquity > 0 ? (equity / totalEquity) * 100 : 0,
+        monthlyCashFlow: group.reduce((sum, h) => sum + h.monthlyCashFlow, 0),
+      };
+    })
+    .sort((a, b) => b.equity - a.equity || b.count - a.count);
+}
+
+export function calculatePortfolio(
+  deals: SavedDeal[],
+  assumptions: GlobalAssumptions,
+  excludeVacancy: boolean = false
+): PortfolioSummary {
+  const owned = deals.filter(isPortfolioDeal).map((deal) => {
+    const strategy = getPortfolioStrategy(deal);
+    return {
+      deal,
+      strategy,
+      results: calculateStrategy(strategy, deal, assumptions, excludeVacancy),
+    };
+  });
+
+  const holdings: PortfolioHolding[] = owned.map(
+    ({ deal, strategy, results }) => {
+      const year1 = results.projections[0];
+
+      return {
+        dealId: deal.id,
+        address: deal.address,
+        zipCode: extractZipCode(deal.address || ""),
+        strategy,
+        propertyValue: year1?.propertyValue ?? 0,
+        loanBalance: year1?.loanBalance ?? 0,
+        equity: year1?.equity ?? 0,
+        monthlyCashFlow: results.year1Summary.cashFlow / 12,
+        noi: results.year1Summary.noi,
+        debtService: results.year1Summary.debtService,
+        costBasis:
+          strategy === "rehab" ? deal.afterRepairValue : deal.purchasePrice,
+      };
+    }
+  );
+
+  const sum = (pick: (holding: PortfolioHolding) => number) =>
+    holdings.reduce((total, holding) => total + pick(holding), 0);
+  const totalNoi = sum((h) => h.noi);
+  const totalDebtService = sum((h) => h.debtService);
+  const totalCostBasis = sum((h) => h.costBasis);
+
+  return {
+    holdings,
+    totalValue: sum((h) => h.propertyValue),
+    totalDebt: sum((h) => h.loanBalance),
+    totalEquity: sum((h) => h.equity),
+    monthlyCashFlow: sum((h) => h.monthlyCashFlow),
+    weightedDSCR: totalDebtService > 0 ? totalNoi / totalDebtService : Infinity,
+    blendedCapRate: totalCostBasis > 0 ? (totalNoi / totalCostBasis) * 100 : 0,
+    projections: combineProjections(
+      owned.map(({ results }) => results.projections)
+    ),
+    byZip: groupConcentration(
+      holdings,
+      (h) => h.zipCode ?? "unknown",
+      (key) => (key === "unknown" ? "No zip" : key)
+    ),
+    byStrategy: groupConcentration(
+      holdings,
+      (h) => h.strategy,
+      (key) => OFFER_STRATEGY_LABELS[key as HoldStrategy]
+    ),
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Rent Comps
+ * Prices a unit's market rent from rental listings the way the ARV calculator
+ * prices the property from sales: each comp's rent is adjusted for differences in
+ * beds, baths, size, condition and pool, and the unit's suggested rent is the
+ * median of the adjusted rents with the interquartile range as low/high.
+ */
+import {
+  DealNotes,
+  RentComp,
+  RentCompCondition,
+  UnitDetail,
+} from "@calc/types";
+
+export const RENT_COMP_CONDITION_LABELS: Record<RentCompCondition, string> = {
+  dated: "Dated",
+  average: "Average",
+  renovated: "Renovated",
+};
+
+// Adjustment rates - percentages are of the comp's rent
+export const RENT_ADJUSTMENTS = {
+  perBedPercent: 8,
+  perBathPercent: 4,
+  sqftRatePercent: 50, // Share of the comp's rent/sqft paid for extra space
+  perConditionStepPercent: 7, // dated -> average -> renovated
+  pool: 100, // $/month
+};
+
+const CONDITION_RANK: Record<RentCompCondition, number> = {
+  dated: 0,
+  average: 1,
+  renovated: 2,
+};
+
+// Comps within this many bedrooms of the unit are used when there are any
+const BED_MATCH_RANGE = 1;
+
+export interface RentSubject {
+  beds: number;
+  baths: number;
+  sqft?: number;
+  condition: RentCompCondition;
+  hasPool: boolean;
+}
+
+export interface RentCompAdjustment {
+  beds: number;
+  baths: number;
+  sqft: number;
+  condition: number;
+  pool: number;
+  adjustedRent: number;
+}
+
+export interface RentSuggestion {
+  suggestedRent: number;
+  lowRent: number;
+  highRent: number;
+  compCount: number;
+}
+
+// Subject's as-is condition from the deal notes (blank = average)
+export function getSubjectRentCondition(notes?: DealNotes): RentCompCondition {
+  switch (notes?.overallCondition) {
+    case "Excellent":
+      return "renovated";
+    case "Fair":
+    case "Poor":
+    case "Uninhabitable":
+      return "dated";
+    default:
+      return "average";
+  }
+}
+
+export function adjustRentComp(
+  comp: RentComp,
+  subject: RentSubject
+): RentCompAdjustment {
+  const rent = comp.monthlyRent;
+  // Beds, baths and size only adjust when the comp lists them
+  const beds =
+    comp.beds !== undefined
+      ? (subject.beds - comp.beds) *
+        rent *
+        (RENT_ADJUSTMENTS.perBedPercent / 100)
+      : 0;
+  const baths =
+    comp.baths !== undefined
+      ? (subject.baths - comp.baths) *
+        rent *
+        (RENT_ADJUSTMENTS.perBathPercent / 100)
+      : 0;
+  const sqft =
+    comp.sqft && subject.sqft
+      ? (subject.sqft - comp.sqft) *
+        (rent / comp.sqft) *
+        (RENT_ADJUSTMENTS.sqftRatePercent / 100)
+      : 0;
+  const condition =
+    (CONDITION_RANK[subject.condition] - CONDITION_RANK[comp.condition]) *
+    rent *
+    (RENT_ADJUSTMENTS.perConditionStepPercent / 100);
+  const pool =
+    subject.hasPool === !!comp.hasPool
+      ? 0
+      : subject.hasPool
+      ? RENT_ADJUSTMENTS.pool
+      : -RENT_ADJUSTMENTS.pool;
+
+  return {
+    beds,
+    baths,
+    sqft,
+    condition,
+    pool,
+    adjustedRent: Math.max(0, rent + beds + baths + sqft + condition + pool),
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+const roundRent = (rent: number) => Math.round(rent / 25) * 25;
+
+// Comps used for a unit: similar bedroom counts when there are any, else all
+export function getMatchingRentComps(
+  comps: RentComp[],
+  subject: RentSubject
+): RentComp[] {
+  const priced = comps.filter((comp) => comp.monthlyRent > 0);
+  const similar = priced.filter(
+    (comp) =>
+      comp.beds !== undefined &&
+      Math.abs(comp.beds - subject.beds) <= BED_MATCH_RANGE
+  );
+  return similar.length > 0 ? similar : priced;
+}
+
+export function suggestUnitRent(
+  comps: RentComp[],
+  subject: RentSubject
+): RentSuggestion | null {
+  const matching = getMatchingRentComps(comps, subject);
+  if (matching.length === 0) return null;
+
+  const adjusted = matching
+    .map((comp) => adjustRentComp(comp, subject).adjustedRent)
+    .sort((a, b) => a - b);
+
+  return {
+    suggestedRent: roundRent(percentile(adjusted, 0.5)),
+    lowRent: roundRent(percentile(adjusted, 0.25)),
+    highRent: roundRent(percentile(adjusted, 0.75)),
+    compCount: matching.length,
+  };
+}
+
+export function getRentSubject(
+  unit: UnitDetail,
+  condition: RentCompCondition,
+  hasPool: boolean
+): RentSubject {
+  return {
+    beds: unit.beds,
+    baths: unit.baths,
+    sqft: unit.sqft,
+    condition,
+    hasPool,
+  };
+}
+
+/**
+ * Parse a rental listing copied from Zillow (or similar), e.g.
+ * "$2,450/mo 3 bds 2 ba 1,200 sqft - House for rent 123 NW 5th Ave, Fort Lauderdale, FL 33311"
+ */
+export function parseRentalListing(rawData: string): RentComp | null {
+  const rentMatch =
+    rawData.match(/\$\s?([\d,]+)\+?\s*\/\s*mo/i) ||
+    rawData.match(/(?:rent|price)[:\s]*\$\s?([\d,]+)/i);
+  if (!rentMatch) return null;
+
+  const monthlyRent = parseInt(rentMatch[1].replace(/,/g, ""));
+  if (!monthlyRent) return null;
+
+  const addressMatch = rawData.match(
+    /(\d+\s+[^,\n$]+,\s*[^,\n]+,\s*[A-Z]{2}\s+\d{5})/
+  );
+  const bedsMatch = rawData.match(/(\d+)\s*(?:bds?|beds?|br)\b/i);
+  const bathsMatch = rawData.match(/(\d+(?:\.\d+)?)\s*(?:ba|baths?)\b/i);
+  const sqftMatch = rawData.match(/([\d,]+)\s*(?:sqft|sq\.?\s*ft)/i);
+  const dateMatch = rawData.match(/(\d{1,2}\/\d{1,2}\/\d{2,4})/);
+  const typeMatch = rawData.match(
+    /(Apartment|Duplex|Single Family|House|Townhouse|Townhome|Condo|Triplex|Fourplex)/i
+  );
+  const linkMatch = rawData.match(/(https?:\/\/\S+)/);
+  const isRenovated =
+    /\b(renovated|remodeled|updated|brand new|new construction)\b/i.test(
+      rawData
+    );
+
+  return {
+    id: Date.now().toString() + Math.random(),
+    address: addressMatch ? addressMatch[1].trim() : "Unknown Address",
+    monthlyRent,
+    listedDate: dateMatch?.[1],
+    beds: bedsMatch
+      ? parseInt(bedsMatch[1])
+      : /\bstudio\b/i.test(rawData)
+      ? 0
+      : undefined,
+    baths: bathsMatch ? parseFloat(bathsMatch[1]) : undefined,
+    sqft: sqftMatch ? parseInt(sqftMatch[1].replace(/,/g, "")) : undefined,
+    condition: isRenovated ? "renovated" : "average",
+    hasPool: /\bpool\b/i.test(rawData),
+    propertyType: typeMatch?.[1],
+    link: linkMatch?.[1],
+  };
+}
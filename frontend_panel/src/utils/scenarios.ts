@@ -0,0 +1,176 @@
+/**
+ * Deal Scenarios
+ * Named what-if variants saved under one deal. Each scenario keeps only the analysis
+ * fields that differ from the deal itself; the property record (address, notes,
+ * photos, comps, pipeline stage) is shared by every scenario.
+ */
+import {
+  DealInputs,
+  DealScenario,
+  GlobalAssumptions,
+  ScenarioComparison,
+  ScenarioStrategyMetrics,
+  Strategy,
+} from "@calc/types";
+import { getApplicableStrategies } from "@calc/analysis";
+import { calculateStrategy } from "@calc/calculations";
+import { calculateFlip } from "@calc/flipCalculations";
+
+// Fields that describe the property or the pipeline rather than the analysis
+const SHARED_FIELDS = new Set<string>([
+  "id",
+  "_id",
+  "address",
+  "notes",
+  "photos",
+  "photoUrl",
+  "arvComps",
+  "arvAdjustmentOverrides",
+  "rentComps",
+  "subjectLat",
+  "subjectLng",
+  "subjectPropertyDescription",
+  "subjectPropertyZillowLink",
+  "isOffMarket",
+  "maxOffer",
+  "scenarios",
+  "dealStage",
+  "portfolioStrategy",
+  "stageUpdatedAt",
+  "isCompleted",
+  "completedAt",
+  "teamNotes",
+  "metrics",
+  "savedAt",
+  "createdAt",
+  "updatedAt",
+  "schemaVersion",
+  "daysOnMarket",
+]);
+
+export function applyScenario(
+  deal: DealInputs,
+  scenario: DealScenario
+): DealInputs {
+  return { ...deal, ...scenario.overrides, scenarios: deal.scenarios };
+}
+
+/**
+ * Analysis fields where the working copy differs from the deal
+ */
+export function getScenarioOverrides(
+  deal: DealInputs,
+  working: DealInputs
+): Partial<DealInputs> {
+  const overrides: Record<string, unknown> = {};
+  Object.entries(working).forEach(([key, value]) => {
+    if (SHARED_FIELDS.has(key)) return;
+    const original = (deal as unknown as Record<string, unknown>)[key];
+    if (JSON.stringify(value) !== JSON.stringify(original)) {
+      overrides[key] = value;
+    }
+  });
+  return overrides as Partial<DealInputs>;
+}
+
+/**
+ * Fold edits made while a scenario is open back into the deal:
+ * analysis changes become that scenario's overrides, property changes go to the deal
+ */
+export function commitScenario(
+  deal: DealInputs,
+  working: DealInputs,
+  scenarioId: string
+): DealInputs {
+  const committed: Record<string, unknown> = { ...deal };
+  Object.entries(working).forEach(([key, value]) => {
+    if (SHARED_FIELDS.has(key) && key !== "scenarios") {
+      committed[key] = value;
+    }
+  });
+
+  return {
+    ...(committed as unknown as DealInputs),
+    scenarios: (deal.scenarios ?? []).map((scenario) =>
+      scenario.id === scenarioId
+        ? { ...scenario, overrides: getScenarioOverrides(deal, working) }
+        : scenario
+    ),
+  };
+}
+
+export function createScenario(
+  name: string,
+  overrides: Partial<DealInputs> = {}
+): DealScenario {
+  return {
+    id: `scenario-${Date.now()}`,
+    name,
+    overrides,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function getComparedStrategies(inputs: DealInputs): Strategy[] {
+  const strategies: Strategy[] = getApplicableStrategies(inputs);
+  return strategies.includes("rehab") ? [...strategies, "flip"] : strategies;
+}
+
+function getStrategyMetrics(
+  strategy: Strategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  excludeVacancy: boolean
+): ScenarioStrategyMetrics {
+  if (strategy === "flip") {
+    const flip = calculateFlip(inputs);
+    return {
+      strategy,
+      cashInvested: flip.totalCashInvested,
+      annualCashFlow: flip.netProfit,
+      cashOnCash: flip.roi,
+    };
+  }
+
+  const results = calculateStrategy(
+    strategy,
+    inputs,
+    assumptions,
+    excludeVacancy
+  );
+  return {
+    strategy,
+    cashInvested: results.cashInvested,
+    annualCashFlow: results.year1Summary.cashFlow,
+    cashOnCash: results.year1Summary.cashOnCash,
+    capRate: results.year1Summary.capRate,
+    dscr: results.year1Summary.dscr,
+  };
+}
+
+/**
+ * Every strategy that applies to the deal as saved and to each of its scenarios
+ * (a scenario can add the rehab strategies or change the unit count)
+ */
+export function compareScenarios(
+  deal: DealInputs,
+  assumptions: GlobalAssumptions,
+  excludeVacancy: boolean = false
+): ScenarioComparison[] {
+  const variants = [
+    { scenarioId: null, name: "Base", inputs: deal },
+    ...(deal.scenarios ?? []).map((scenario) => ({
+      scenarioId: scenario.id,
+      name: scenario.name,
+      inputs: applyScenario(deal, scenario),
+    })),
+  ];
+
+  return variants.map((variant) => ({
+    scenarioId: variant.scenarioId,
+    name: variant.name,
+    strategies: getComparedStrategies(variant.inputs).map((strategy) =>
+      getStrategyMetrics(strategy, variant.inputs, assumptions, excludeVacancy)
+    ),
+  }));
+}
@@ -1,4 +1,4 @@
-import { GlobalAssumptions, Section8ZipData, UnitData } from '../types/deal';
+import { GlobalAssumptions, Section8ZipData, UnitData } from '@calc/types';
 
 /**
  * Extract zip code from address string
@@ -0,0 +1,347 @@
+/**
+ * Sensitivity Analysis
+ * Flexes one or two deal drivers around the base case, re-runs the strategy
+ * and reports the effect on year 1 cash flow, DSCR, cash-on-cash and IRR
+ *
+ * Price, rents, ARV and rehab cost flex by a % of their base value; rate and
+ * appreciation by percentage points; vacancy by months per year
+ */
+import {
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  SensitivityMetric,
+  SensitivityTable,
+  SensitivityVariable,
+  StrategyResults,
+  TornadoBar,
+} from "@calc/types";
+import {
+  calculateStrategy,
+  formatCurrency,
+  formatPercent,
+} from "@calc/calculations";
+import {
+  calculateReturnMetrics,
+  DEFAULT_DISCOUNT_RATE_PERCENT,
+  formatIRR,
+} from "@calc/returnMetrics";
+
+export const SENSITIVITY_VARIABLES: Record<
+  SensitivityVariable,
+  { label: string; unit: "%" | "pts" | "mo"; defaultStep: number }
+> = {
+  purchasePrice: { label: "Purchase Price", unit: "%", defaultStep: 10 },
+  rents: { label: "Rents", unit: "%", defaultStep: 10 },
+  interestRate: { label: "Interest Rate", unit: "pts", defaultStep: 1 },
+  afterRepairValue: { label: "ARV", unit: "%", defaultStep: 10 },
+  rehabCost: { label: "Rehab Cost", unit: "%", defaultStep: 20 },
+  vacancy: { label: "Vacancy", unit: "mo", defaultStep: 0.5 },
+  appreciation: { label: "Appreciation", unit: "pts", defaultStep: 1 },
+};
+
+export const SENSITIVITY_METRIC_LABELS: Record<SensitivityMetric, string> = {
+  cashFlow: "Year 1 Cash Flow",
+  dscr: "DSCR",
+  cashOnCash: "Cash-on-Cash",
+  irr: "Levered IRR",
+};
+
+export interface SensitivityOptions {
+  excludeVacancy: boolean; // Lender projection mode
+  holdYears: number; // Sale year for the IRR
+  discountRatePercent?: number;
+}
+
+/**
+ * Drivers that actually move a strategy's numbers
+ * ARV and rehab cost only matter for BRRRR; STR revenue already nets out vacancy
+ * and mid-term rentals use their own per-unit occupancy
+ */
+export function getSensitivityVariables(
+  strategy: HoldStrategy
+): SensitivityVariable[] {
+  const variables: SensitivityVariable[] = [
+    "purchasePrice",
+    "rents",
+    "interestRate",
+  ];
+  if (strategy === "rehab") variables.push("afterRepairValue", "rehabCost");
+  if (strategy !== "airbnb" && strategy !== "mtr") variables.push("vacancy");
+  variables.push("appreciation");
+  return variables;
+}
+
+/**
+ * Copy of the deal inputs and assumptions with one driver flexed
+ */
+export function applySensitivity(
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  variable: SensitivityVariable,
+  delta: number
+): { inputs: DealInputs; assumptions: GlobalAssumptions } {
+  const factor = 1 + delta / 100;
+
+  switch (variable) {
+    case "purchasePrice": {
+      const purchasePrice = inputs.purchasePrice * factor;
+      // Dollar acquisition costs scale with the price
+      const acquisitionCostsAmount =
+        inputs.acquisitionCostsAmount !== undefined
+          ? inputs.acquisitionCostsAmount * factor
+          : undefined;
+      return {
+        inputs: { ...inputs, purchasePrice, acquisitionCostsAmount },
+        assumptions,
+      };
+    }
+    case "rents": {
+      const scale = (value?: number) =>
+        value === undefined ? undefined : value * factor;
+      return {
+        inputs: {
+          ...inputs,
+          unitDetails: inputs.unitDetails.map((unit) => ({
+            ...unit,
+            section8Rent: scale(unit.section8Rent),
+            marketRent: scale(unit.marketRent),
+            afterRehabMarketRent: scale(unit.afterRehabMarketRent),
+            strMonthlyRevenue: scale(unit.strMonthlyRevenue),
+            strAnnualRevenue: scale(unit.strAnnualRevenue),
+            mtrMonthlyRent: scale(unit.mtrMonthlyRent),
+            strMonthlyADR: unit.strMonthlyADR?.map((adr) => adr * factor),
+          })),
+        },
+        assumptions,
+      };
+    }
+    case "interestRate":
+      return {
+        inputs: {
+          ...inputs,
+          loanInterestRate: Math.max(0, inputs.loanInterestRate + delta),
+          exitRefiRate: Math.max(0, inputs.exitRefiRate + delta),
+          houseHackInterestRate:
+            inputs.houseHackInterestRate === undefined
+              ? undefined
+              : Math.max(0, inputs.houseHackInterestRate + delta),
+        },
+        assumptions,
+      };
+    case "afterRepairValue":
+      return {
+        inputs: {
+          ...inputs,
+          afterRepairValue: inputs.afterRepairValue * factor,
+        },
+        assumptions,
+      };
+    case "rehabCost":
+      return {
+        inputs: { ...inputs, rehabCost: inputs.rehabCost * factor },
+        assumptions,
+      };
+    case "vacancy": {
+      const flex = (months: number) =>
+        Math.min(12, Math.max(0, months + delta));
+      return {
+        inputs,
+        assumptions: {
+          ...assumptions,
+          ltrVacancyMonths: flex(assumptions.ltrVacancyMonths),
+          section8VacancyMonths: flex(assumptions.section8VacancyMonths),
+        },
+      };
+    }
+    case "appreciation":
+      return {
+        inputs,
+        assumptions: {
+          ...assumptions,
+          appreciationPercent: assumptions.appreciationPercent + delta,
+        },
+      };
+  }
+}
+
+/**
+ * Read one output metric off a strategy result
+ */
+export function getSensitivityMetric(
+  results: StrategyResults,
+  metric: SensitivityMetric,
+  inputs: DealInputs,
+  options: SensitivityOptions
+): number | null {
+  switch (metric) {
+    case "cashFlow":
+      return results.year1Summary.cashFlow;
+    case "dscr":
+      return isFinite(results.year1Summary.dscr)
+        ? results.year1Summary.dscr
+        : null;
+    case "cashOnCash":
+      return isFinite(results.year1Summary.cashOnCash)
+        ? results.year1Summary.cashOnCash
+        : null;
+    case "irr":
+      return calculateReturnMetrics(
+        results,
+        options.holdYears,
+        inputs.sellClosingCosts || 8,
+        options.discountRatePercent ?? DEFAULT_DISCOUNT_RATE_PERCENT
+      ).leveredIRR;
+  }
+}
+
+function runFlexed(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  flexes: { variable: SensitivityVariable; delta: number }[],
+  metric: SensitivityMetric,
+  options: SensitivityOptions
+): number | null {
+  let flexed = { inputs, assumptions };
+  flexes.forEach(({ variable, delta }) => {
+    flexed = applySensitivity(
+      flexed.inputs,
+      flexed.assumptions,
+      variable,
+      delta
+    );
+  });
+
+  const results = calculateStrategy(
+    strategy,
+    flexed.inputs,
+    flexed.assumptions,
+    options.excludeVacancy
+  );
+  return getSensitivityMetric(results, metric, flexed.inputs, options);
+}
+
+/**
+ * Base-case value of a metric (no drivers flexed)
+ */
+export function calculateBaseMetric(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  metric: SensitivityMetric,
+  options: SensitivityOptions
+): number | null {
+  return runFlexed(strategy, inputs, assumptions, [], metric, options);
+}
+
+/**
+ * Tornado bars - each driver flexed down and up by its step, widest swing first
+ */
+export function buildTornado(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  steps: Partial<Record<SensitivityVariable, number>>,
+  metric: SensitivityMetric,
+  options: SensitivityOptions
+): TornadoBar[] {
+  const bars = getSensitivityVariables(strategy).map((variable) => {
+    const step = Math.abs(
+      steps[variable] ?? SENSITIVITY_VARIABLES[variable].defaultStep
+    );
+    const run = (delta: number) =>
+      runFlexed(
+        strategy,
+        inputs,
+        assumptions,
+        [{ variable, delta }],
+        metric,
+        options
+      );
+
+    return {
+      variable,
+      label: SENSITIVITY_VARIABLES[variable].label,
+      lowDelta: -step,
+      highDelta: step,
+      lowValue: run(-step),
+      highValue: run(step),
+    };
+  });
+
+  const swing = (bar: TornadoBar) =>
+    bar.lowValue === null || bar.highValue === null
+      ? 0
+      : Math.abs(bar.highValue - bar.lowValue);
+  return bars.sort((a, b) => swing(b) - swing(a));
+}
+
+/**
+ * Deltas for a data table axis: -steps..+steps around the base case
+ */
+export function buildSensitivityDeltas(step: number, steps = 2): number[] {
+  const deltas: number[] = [];
+  for (let i = -steps; i <= steps; i++) {
+    deltas.push(i * Math.abs(step));
+  }
+  return deltas;
+}
+
+/**
+ * Two-variable data table - every combination of row and column deltas
+ */
+export function buildSensitivityTable(
+  strategy: HoldStrategy,
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions,
+  rowVariable: SensitivityVariable,
+  rowDeltas: number[],
+  columnVariable: SensitivityVariable,
+  columnDeltas: number[],
+  metric: SensitivityMetric,
+  options: SensitivityOptions
+): SensitivityTable {
+  const values = rowDeltas.map((rowDelta) =>
+    columnDeltas.map((columnDelta) =>
+      runFlexed(
+        strategy,
+        inputs,
+        assumptions,
+        [
+          { variable: rowVariable, delta: rowDelta },
+          { variable: columnVariable, delta: columnDelta },
+        ],
+        metric,
+        options
+      )
+    )
+  );
+
+  return { rowVariable, columnVariable, rowDeltas, columnDeltas, values };
+}
+
+/**
+ * Display helpers
+ */
+export function formatSensitivityMetric(
+  metric: SensitivityMetric,
+  value: number | null
+): string {
+  if (value === null) return "—";
+  if (metric === "cashFlow") return formatCurrency(value);
+  if (metric === "dscr") return value.toFixed(2);
+  if (metric === "irr") return formatIRR(value);
+  return formatPercent(value);
+}
+
+export function formatSensitivityDelta(
+  variable: SensitivityVariable,
+  delta: number
+): string {
+  const unit = SENSITIVITY_VARIABLES[variable].unit;
+  const sign = delta > 0 ? "+" : "";
+  if (unit === "%") return `${sign}${delta}%`;
+  if (unit === "pts") return `${sign}${delta} pts`;
+  return `${sign}${delta} mo`;
+}
@@ -3,7 +3,7 @@
  * Intelligently fills in missing data based on property characteristics
  */
 
-import { DealNotes } from '../types/deal';
+import { DealNotes } from '@calc/types';
 
 export interface SmartDefaultsResult {
   updatedNotes: DealNotes;
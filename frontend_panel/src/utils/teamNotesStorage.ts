@@ -1,4 +1,4 @@
-import { TeamNote, UserSettings } from "../types/deal";
+import { TeamNote, UserSettings } from "@calc/types";
 
 const TEAM_NOTES_KEY = "deal-analyzer-team-notes";
 const USER_SETTINGS_KEY = "deal-analyzer-user-settings";
@@ -0,0 +1,46 @@
+// Runs the Monte Carlo simulation off the UI thread (see hooks/useMonteCarloSimulation.ts)
+import {
+  DealInputs,
+  GlobalAssumptions,
+  HoldStrategy,
+  SimulationConfig,
+  SimulationResults,
+} from "@calc/types";
+import { runMonteCarlo } from "../utils/monteCarlo";
+
+export interface MonteCarloRequest {
+  strategy: HoldStrategy;
+  inputs: DealInputs;
+  assumptions: GlobalAssumptions;
+  config: SimulationConfig;
+  excludeVacancy: boolean;
+}
+
+export type MonteCarloResponse =
+  | { type: "progress"; completed: number }
+  | { type: "result"; results: SimulationResults }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { strategy, inputs, assumptions, config, excludeVacancy } = event.data;
+  const post = (response: MonteCarloResponse) => ctx.postMessage(response);
+
+  try {
+    const results = runMonteCarlo(
+      strategy,
+      inputs,
+      assumptions,
+      config,
+      excludeVacancy,
+      (completed) => post({ type: "progress", completed })
+    );
+    post({ type: "result", results });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Simulation failed",
+    });
+  }
+};
@@ -46,6 +46,7 @@ export default defineConfig({
       "@radix-ui/react-aspect-ratio@1.1.2": "@radix-ui/react-aspect-ratio",
       "@radix-ui/react-alert-dialog@1.1.6": "@radix-ui/react-alert-dialog",
       "@radix-ui/react-accordion@1.2.3": "@radix-ui/react-accordion",
+      "@calc": path.resolve(__dirname, "../shared_calc/src"),
       "@": path.resolve(__dirname, "./src"),
     },
   },
@@ -74,6 +75,10 @@ export default defineConfig({
   server: {
     port: 3000,
     open: true,
+    fs: {
+      // The calculation engine lives in ../shared_calc, outside the Vite root
+      allow: [__dirname, path.resolve(__dirname, "../shared_calc")],
+    },
   },
   // Vercel-specific optimizations
   optimizeDeps: {
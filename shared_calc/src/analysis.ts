@@ -0,0 +1,116 @@
+/**
+ * Deal Analysis
+ * Runs every strategy that applies to a deal in one pass - what the backend serves
+ * from /api/deals/:id/analysis - and condenses the year-1 results into the metrics
+ * persisted on each saved deal.
+ */
+import {
+  DealInputs,
+  DealMetrics,
+  GlobalAssumptions,
+  HoldStrategy,
+  StrategyMetrics,
+  StrategyResults,
+} from "./types";
+import { calculateStrategy, isHouseHackEligible } from "./calculations";
+import { calculateFlip, FlipResults } from "./flipCalculations";
+import {
+  calculateRehabScenarios,
+  RehabExitScenario,
+} from "./rehabCalculations";
+
+export interface DealAnalysis {
+  strategies: Partial<Record<HoldStrategy, StrategyResults>>;
+  rehabScenarios: {
+    sellScenario: RehabExitScenario;
+    refiScenario: RehabExitScenario;
+  } | null;
+  flip: FlipResults | null;
+  metrics: DealMetrics;
+}
+
+export function getApplicableStrategies(deal: DealInputs): HoldStrategy[] {
+  const strategies: HoldStrategy[] = ["ltr", "section8", "airbnb", "mtr"];
+  if (isHouseHackEligible(deal)) {
+    strategies.splice(1, 0, "houseHack");
+  }
+  if (deal.isRehab && deal.rehabCost > 0) {
+    strategies.push("rehab");
+  }
+  return strategies;
+}
+
+// Infinity/NaN (no debt, no cash in) don't survive JSON or make sense to sort on
+function finiteOrNull(value: number | undefined): number | null {
+  return typeof value === "number" && isFinite(value) ? value : null;
+}
+
+function getStrategyMetrics(results: StrategyResults): StrategyMetrics {
+  return {
+    monthlyCashFlow: finiteOrNull(results.year1Summary.cashFlow / 12),
+    cashOnCash: finiteOrNull(results.year1Summary.cashOnCash),
+    capRate: finiteOrNull(results.year1Summary.capRate),
+    dscr:
+      results.year1Summary.debtService > 0
+        ? finiteOrNull(results.year1Summary.dscr)
+        : null,
+    cashInvested: finiteOrNull(results.cashInvested),
+  };
+}
+
+export function analyzeDeal(
+  deal: DealInputs,
+  assumptions: GlobalAssumptions,
+  excludeVacancy: boolean = false
+): DealAnalysis {
+  const strategies: Partial<Record<HoldStrategy, StrategyResults>> = {};
+  const strategyMetrics: Partial<Record<HoldStrategy, StrategyMetrics>> = {};
+  let bestStrategy: HoldStrategy = "ltr";
+
+  getApplicableStrategies(deal).forEach((strategy) => {
+    const results = calculateStrategy(
+      strategy,
+      deal,
+      assumptions,
+      excludeVacancy
+    );
+    strategies[strategy] = results;
+    strategyMetrics[strategy] = getStrategyMetrics(results);
+    if (
+      (strategyMetrics[strategy]!.monthlyCashFlow ?? -Infinity) >
+      (strategyMetrics[bestStrategy]!.monthlyCashFlow ?? -Infinity)
+    ) {
+      bestStrategy = strategy;
+    }
+  });
+
+  const isRehab = deal.isRehab && deal.rehabCost > 0;
+  const rehabScenarios = isRehab ? calculateRehabScenarios(deal) : null;
+  const flip = isRehab ? calculateFlip(deal) : null;
+  const best = strategyMetrics[bestStrategy]!;
+  const arv = deal.afterRepairValue || deal.calculatedARV || 0;
+  const rehabCost = deal.isRehab ? deal.rehabCost : 0;
+
+  return {
+    strategies,
+    rehabScenarios,
+    flip,
+    metrics: {
+      bestStrategy,
+      monthlyCashFlow: best.monthlyCashFlow,
+      cashOnCash: best.cashOnCash,
+      capRate: best.capRate,
+      dscr: best.dscr,
+      strategies: strategyMetrics,
+      fundsGap: rehabScenarios
+        ? finiteOrNull(rehabScenarios.refiScenario.fundsGap)
+        : undefined,
+      flipNetProfit: flip ? finiteOrNull(flip.netProfit) : undefined,
+      arvSpreadPercent:
+        arv > 0
+          ? finiteOrNull(((arv - deal.purchasePrice - rehabCost) / arv) * 100)
+          : undefined,
+      computedAt: new Date().toISOString(),
+    },
+  };
+}
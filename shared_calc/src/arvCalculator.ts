@@ -0,0 +1,406 @@
+/**
+ * Enhanced ARV Calculator for South Florida Real Estate
+ * Considers all relevant factors specific to Miami-Dade, Broward, and Palm Beach counties
+ */
+import {
+  ARVAdjustmentFactor,
+  ARVAdjustmentOverrides,
+  ARVAdjustmentRates,
+  DealInputs,
+  ZillowComp
+} from './types';
+
+export interface PropertyData {
+  id?: string; // Comp id - keys per-comp overrides
+  soldPrice: number;
+  sqft: number;
+  beds: number;
+  baths: number;
+  yearBuilt: number;
+  propertyType?: string;
+  lotSize?: number;
+  hasPool?: boolean;
+  parkingSpaces?: number;
+  daysOnMarket?: number;
+  soldDate?: string;
+}
+
+// The comp fields the adjustment engine reads (the ARV calculator's comps carry more)
+export type ARVCompSource = Pick<
+  ZillowComp,
+  | 'id'
+  | 'address'
+  | 'soldPrice'
+  | 'soldDate'
+  | 'beds'
+  | 'baths'
+  | 'sqft'
+  | 'yearBuilt'
+  | 'propertyType'
+  | 'lotSize'
+  | 'hasPool'
+  | 'parkingSpaces'
+  | 'daysOnMarket'
+  | 'lat'
+  | 'lng'
+>;
+
+export type ARVAdjustmentValues = Record<ARVAdjustmentFactor, number>;
+
+export interface ARVAdjustment {
+  adjustedPrice: number;
+  similarityScore: number;
+  adjustments: ARVAdjustmentValues; // Applied (overridden cells replace the calculated value)
+  calculated: ARVAdjustmentValues; // From the rates alone
+  overridden: ARVAdjustmentFactor[];
+}
+
+// Grid row order
+export const ARV_ADJUSTMENT_FACTORS: ARVAdjustmentFactor[] = [
+  'sqft',
+  'beds',
+  'baths',
+  'age',
+  'lotSize',
+  'pool',
+  'parking',
+  'propertyType',
+  'marketTiming'
+];
+
+export const ARV_ADJUSTMENT_LABELS: Record<ARVAdjustmentFactor, string> = {
+  sqft: 'Living Area',
+  beds: 'Bedrooms',
+  baths: 'Bathrooms',
+  age: 'Age / Year Built',
+  lotSize: 'Lot Size',
+  pool: 'Pool',
+  parking: 'Parking',
+  propertyType: 'Property Type',
+  marketTiming: 'Market Timing'
+};
+
+export const DEFAULT_ARV_ADJUSTMENT_RATES: ARVAdjustmentRates = {
+  sqftPercent: 100, // Full $/sqft of the comp
+  perBedPercent: 11, // Each bedroom worth approximately 10-12% in South Florida
+  perBathPercent: 7, // Each bathroom worth approximately 6-8% in South Florida
+  perYearAgePercent: 0.8,
+  hurricaneCodePercent: 5, // Hurricane Andrew standards (post-2001 construction)
+  lotPerSqft: 20, // Land worth approximately $15-25/sqft in South Florida
+  poolPercent: 5, // Pools are highly valuable in South Florida climate
+  perParkingSpace: 12500, // Each parking space worth approximately $10,000-15,000
+  propertyTypePercent: 10, // Condo vs house
+  annualAppreciationPercent: 3
+};
+
+// Saved rate edits on top of the defaults
+export function resolveARVAdjustmentRates(
+  overrides?: ARVAdjustmentOverrides
+): ARVAdjustmentRates {
+  return { ...DEFAULT_ARV_ADJUSTMENT_RATES, ...overrides?.rates };
+}
+
+/**
+ * Calculate ARV adjustment for a comparable property against subject property
+ * Optimized for South Florida market conditions
+ */
+export function calculateARVAdjustment(
+  comp: PropertyData,
+  subject: PropertyData,
+  rates: ARVAdjustmentRates = DEFAULT_ARV_ADJUSTMENT_RATES,
+  cellOverrides: Partial<ARVAdjustmentValues> = {}
+): ARVAdjustment {
+  let similarityScore = 100; // Start at 100%
+
+  const calculated: ARVAdjustmentValues = {
+    sqft: 0,
+    beds: 0,
+    baths: 0,
+    age: 0,
+    lotSize: 0,
+    pool: 0,
+    parking: 0,
+    propertyType: 0,
+    marketTiming: 0
+  };
+
+  // 1. SQUARE FOOTAGE ADJUSTMENT (Primary Factor - 35% weight)
+  if (comp.sqft > 0 && subject.sqft > 0) {
+    const sqftDiff = subject.sqft - comp.sqft;
+    const pricePerSqft = comp.soldPrice / comp.sqft;
+    calculated.sqft = sqftDiff * pricePerSqft * (rates.sqftPercent / 100);
+
+    // Penalize similarity for large sqft differences
+    const sqftDiffPercent = Math.abs(sqftDiff) / subject.sqft;
+    similarityScore -= sqftDiffPercent * 35; // Up to 35 point penalty
+  }
+
+  // 2. BEDROOM ADJUSTMENT (10% weight per bedroom)
+  if (comp.beds > 0 && subject.beds > 0) {
+    const bedDiff = subject.beds - comp.beds;
+    calculated.beds = bedDiff * comp.soldPrice * (rates.perBedPercent / 100);
+
+    const bedDiffAbs = Math.abs(bedDiff);
+    similarityScore -= bedDiffAbs * 12; // 12 points per bedroom difference
+  }
+
+  // 3. BATHROOM ADJUSTMENT (6% weight per bathroom)
+  if (comp.baths > 0 && subject.baths > 0) {
+    const bathDiff = subject.baths - comp.baths;
+    calculated.baths = bathDiff * comp.soldPrice * (rates.perBathPercent / 100);
+
+    const bathDiffAbs = Math.abs(bathDiff);
+    similarityScore -= bathDiffAbs * 6; // 6 points per bathroom difference
+  }
+
+  // 4. AGE/YEAR BUILT ADJUSTMENT
+  // Very important in South Florida due to hurricane codes and updates
+  if (comp.yearBuilt > 0 && subject.yearBuilt > 0) {
+    const ageDiff = comp.yearBuilt - subject.yearBuilt;
+
+    calculated.age = -ageDiff * comp.soldPrice * (rates.perYearAgePercent / 100);
+
+    // Properties built after 2001 have significant hurricane code upgrades
+    const codeAdjustment = comp.soldPrice * (rates.hurricaneCodePercent / 100);
+    if (subject.yearBuilt > 2001 && comp.yearBuilt <= 2001) {
+      calculated.age += codeAdjustment; // Bonus for modern codes
+    } else if (subject.yearBuilt <= 2001 && comp.yearBuilt > 2001) {
+      calculated.age -= codeAdjustment; // Penalty for older construction
+    }
+
+    // Similarity penalty for age differences
+    const ageDiffAbs = Math.abs(ageDiff);
+    if (ageDiffAbs > 10) {
+      similarityScore -= Math.min(ageDiffAbs / 2, 20); // Max 20 point penalty
+    }
+  }
+
+  // 5. LOT SIZE ADJUSTMENT
+  // Important in South Florida where land is valuable
+  if (comp.lotSize && subject.lotSize && comp.lotSize > 0 && subject.lotSize > 0) {
+    const lotDiff = subject.lotSize - comp.lotSize;
+    calculated.lotSize = lotDiff * rates.lotPerSqft;
+
+    // Similarity adjustment
+    const lotDiffPercent = Math.abs(lotDiff) / subject.lotSize;
+    if (lotDiffPercent > 0.2) { // More than 20% difference
+      similarityScore -= Math.min(lotDiffPercent * 10, 8); // Max 8 point penalty
+    }
+  }
+
+  // 6. POOL ADJUSTMENT
+  if (subject.hasPool !== undefined && comp.hasPool !== undefined) {
+    const poolValue = comp.soldPrice * (rates.poolPercent / 100);
+    if (subject.hasPool && !comp.hasPool) {
+      // Subject has pool, comp doesn't - add pool value
+      calculated.pool = poolValue;
+    } else if (!subject.hasPool && comp.hasPool) {
+      // Comp has pool, subject doesn't - subtract pool value
+      calculated.pool = -poolValue;
+    }
+
+    // Penalty for pool mismatch
+    if (subject.hasPool !== comp.hasPool) {
+      similarityScore -= 8; // 8 point penalty for pool mismatch
+    }
+  }
+
+  // 7. PARKING/GARAGE ADJUSTMENT
+  // Important in South Florida for hurricane protection and security
+  if (subject.parkingSpaces !== undefined && comp.parkingSpaces !== undefined) {
+    const parkingDiff = (subject.parkingSpaces || 0) - (comp.parkingSpaces || 0);
+    if (parkingDiff !== 0) {
+      calculated.parking = parkingDiff * rates.perParkingSpace;
+
+      const parkingDiffAbs = Math.abs(parkingDiff);
+      similarityScore -= parkingDiffAbs * 4; // 4 points per parking space difference
+    }
+  }
+
+  // 8. PROPERTY TYPE MATCH
+  if (comp.propertyType && subject.propertyType) {
+    const compType = comp.propertyType.toLowerCase();
+    const subjectType = subject.propertyType.toLowerCase();
+
+    if (compType.includes('multi') && subjectType.includes('multi')) {
+      similarityScore += 12; // Bonus for both being multifamily
+    } else if (compType === subjectType) {
+      similarityScore += 8; // Bonus for exact match
+    } else {
+      similarityScore -= 15; // Penalty for type mismatch
+      // Different property types need significant adjustment
+      if (compType.includes('condo') !== subjectType.includes('condo')) {
+        const typeValue = comp.soldPrice * (rates.propertyTypePercent / 100);
+        // Condos typically worth less
+        calculated.propertyType = subjectType.includes('condo') ? -typeValue : typeValue;
+      }
+    }
+  }
+
+  // 9. MARKET TIMING ADJUSTMENT
+  // Account for recent sales being more relevant
+  if (comp.soldDate) {
+    try {
+      const soldDate = new Date(comp.soldDate);
+      const now = new Date();
+      const monthsAgo = (now.getTime() - soldDate.getTime()) / (1000 * 60 * 60 * 24 * 30);
+
+      if (monthsAgo > 3) {
+        // Older sales are less similar
+        similarityScore -= Math.min(monthsAgo / 2, 10); // Max 10 point penalty
+
+        // Bring the sale price up to today's market
+        const monthlyAppreciation = rates.annualAppreciationPercent / 100 / 12;
+        calculated.marketTiming = comp.soldPrice * (monthlyAppreciation * monthsAgo);
+      }
+    } catch (e) {
+      // Invalid date, skip this adjustment
+    }
+  }
+
+  // 10. DAYS ON MARKET PENALTY
+  // Properties that sold quickly are better comps
+  if (comp.daysOnMarket !== undefined) {
+    if (comp.daysOnMarket > 90) {
+      // Long time on market suggests overpricing or issues
+      similarityScore -= Math.min((comp.daysOnMarket - 90) / 10, 8); // Max 8 point penalty
+    } else if (comp.daysOnMarket < 30) {
+      // Quick sale suggests strong market demand
+      similarityScore += 3; // Small bonus
+    }
+  }
+
+  // Ensure similarity score stays between 0 and 100
+  similarityScore = Math.max(0, Math.min(100, similarityScore));
+
+  // User-entered cells replace the calculated adjustment
+  const adjustments = { ...calculated };
+  const overridden: ARVAdjustmentFactor[] = [];
+  ARV_ADJUSTMENT_FACTORS.forEach(factor => {
+    const value = cellOverrides[factor];
+    if (typeof value === 'number' && isFinite(value)) {
+      adjustments[factor] = value;
+      overridden.push(factor);
+    }
+  });
+
+  const adjustedPrice = ARV_ADJUSTMENT_FACTORS.reduce(
+    (price, factor) => price + adjustments[factor],
+    comp.soldPrice
+  );
+
+  return {
+    adjustedPrice: Math.round(adjustedPrice),
+    similarityScore: Math.round(similarityScore),
+    adjustments,
+    calculated,
+    overridden
+  };
+}
+
+/**
+ * Calculate weighted ARV from multiple comps
+ */
+export function calculateWeightedARV(
+  comps: PropertyData[],
+  subject: PropertyData,
+  overrides?: ARVAdjustmentOverrides
+): { arv: number; adjustments: ARVAdjustment[] } {
+  if (comps.length === 0) {
+    return { arv: 0, adjustments: [] };
+  }
+
+  const rates = resolveARVAdjustmentRates(overrides);
+  const adjustments = comps.map(comp =>
+    calculateARVAdjustment(
+      comp,
+      subject,
+      rates,
+      comp.id ? overrides?.cells?.[comp.id] : undefined
+    )
+  );
+
+  // Calculate weighted average based on similarity scores
+  let totalWeightedPrice = 0;
+  let totalWeight = 0;
+
+  adjustments.forEach(adj => {
+    const weight = adj.similarityScore / 100;
+    totalWeightedPrice += adj.adjustedPrice * weight;
+    totalWeight += weight;
+  });
+
+  const arv = totalWeight > 0
+    ? Math.round(totalWeightedPrice / totalWeight)
+    : Math.round(adjustments.reduce((sum, adj) => sum + adj.adjustedPrice, 0) / adjustments.length);
+
+  return { arv, adjustments };
+}
+
+export function compToPropertyData(comp: ARVCompSource): PropertyData {
+  return {
+    id: comp.id,
+    soldPrice: comp.soldPrice,
+    sqft: comp.sqft,
+    beds: comp.beds,
+    baths: comp.baths,
+    yearBuilt: comp.yearBuilt,
+    propertyType: comp.propertyType,
+    lotSize: comp.lotSize,
+    hasPool: comp.hasPool,
+    parkingSpaces: comp.parkingSpaces,
+    daysOnMarket: comp.daysOnMarket,
+    soldDate: comp.soldDate
+  };
+}
+
+/**
+ * A saved deal as the ARV subject - the same fields the ARV calculator tab is
+ * given. Null until the deal has a living area to adjust against.
+ */
+export function getSubjectPropertyData(deal: DealInputs): PropertyData | null {
+  if (!deal.totalSqft) return null;
+  const unitDetails = deal.unitDetails || [];
+  return {
+    soldPrice: deal.purchasePrice,
+    sqft: deal.totalSqft,
+    beds: unitDetails.reduce((sum, unit) => sum + unit.beds, 0),
+    baths: unitDetails.reduce((sum, unit) => sum + unit.baths, 0),
+    yearBuilt: deal.yearBuilt,
+    propertyType: deal.units > 1 ? `${deal.units}-Unit Multifamily` : 'Single Family',
+    lotSize: deal.lotSize,
+    hasPool: deal.notes?.pool?.hasPool,
+    parkingSpaces: deal.parkingSpaces
+  };
+}
+
+/**
+ * ARV from a set of comps: the similarity-weighted adjusted price, or the
+ * median sale price when there is no subject to adjust against
+ */
+export function calculateCompsARV(
+  comps: ARVCompSource[],
+  subject: PropertyData | null,
+  overrides?: ARVAdjustmentOverrides
+): number {
+  if (comps.length === 0) return 0;
+
+  if (!subject) {
+    const sortedPrices = comps.map(comp => comp.soldPrice).sort((a, b) => a - b);
+    const mid = Math.floor(sortedPrices.length / 2);
+    return sortedPrices.length % 2 === 0
+      ? Math.round((sortedPrices[mid - 1] + sortedPrices[mid]) / 2)
+      : sortedPrices[mid];
+  }
+
+  return calculateWeightedARV(comps.map(compToPropertyData), subject, overrides).arv;
+}
+
+// A saved deal's ARV from its comps, as the ARV calculator tab computes it
+export function calculateDealARV(deal: DealInputs): number {
+  return calculateCompsARV(
+    deal.arvComps || [],
+    getSubjectPropertyData(deal),
+    deal.arvAdjustmentOverrides
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * ARV Confidence
+ * A band around the weighted ARV from how widely the comps' adjusted prices disagree
+ * (weighted by similarity, so a few strong comps count for more than many weak
+ * ones), plus per-comp diagnostics an appraiser would question: outliers, stale
+ * sales, distant comps and comps that needed too much adjusting.
+ */
+import {
+  ARVAdjustmentOverrides,
+  ARVConfidence,
+  ARVConfidenceLevel,
+  DealInputs,
+} from "./types";
+import {
+  ARV_ADJUSTMENT_FACTORS,
+  ARVCompSource,
+  PropertyData,
+  calculateDealARV,
+  calculateWeightedARV,
+  compToPropertyData,
+  getSubjectPropertyData,
+} from "./arvCalculator";
+
+export type CompWarning =
+  "outlier" | "stale" | "distance" | "netAdjustment" | "grossAdjustment";
+
+// Limits - net/gross adjustment limits follow the usual appraisal guidelines
+export const ARV_CONFIDENCE_LIMITS = {
+  outlierIqrMultiple: 1.5,
+  staleSaleMonths: 6,
+  maxDistanceMiles: 1,
+  maxNetAdjustmentPercent: 15,
+  maxGrossAdjustmentPercent: 25,
+};
+
+export const COMP_WARNING_LABELS: Record<CompWarning, string> = {
+  outlier: "Outlier",
+  stale: `Sold over ${ARV_CONFIDENCE_LIMITS.staleSaleMonths} months ago`,
+  distance: `Over ${ARV_CONFIDENCE_LIMITS.maxDistanceMiles} mile away`,
+  netAdjustment: `Net adjustment over ${ARV_CONFIDENCE_LIMITS.maxNetAdjustmentPercent}%`,
+  grossAdjustment: `Gross adjustment over ${ARV_CONFIDENCE_LIMITS.maxGrossAdjustmentPercent}%`,
+};
+
+// Two-sided 90% t critical values for 1-10 degrees of freedom (then ~normal)
+const T_90 = [
+  6.314, 2.92, 2.353, 2.132, 2.015, 1.943, 1.895, 1.86, 1.833, 1.812,
+];
+const Z_90 = 1.645;
+
+export interface ConfidenceComp {
+  id: string;
+  address: string;
+  soldPrice: number;
+  soldDate?: string;
+  lat?: number;
+  lng?: number;
+  adjustedPrice: number;
+  weight: number; // 0-1 similarity
+  netAdjustment: number; // $ (signed sum of adjustments)
+  grossAdjustment: number; // $ (sum of absolute adjustments)
+}
+
+export interface CompDiagnostic {
+  compId: string;
+  address: string;
+  warnings: CompWarning[];
+  netAdjustmentPercent: number;
+  grossAdjustmentPercent: number;
+  monthsSinceSale: number | null;
+  distanceMiles: number | null;
+}
+
+export interface ARVConfidenceReport {
+  confidence: ARVConfidence;
+  diagnostics: CompDiagnostic[];
+}
+
+// Great-circle distance in miles
+export function distanceMiles(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const R = 3959; // Earth's radius in miles
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function monthsSince(dateString?: string): number | null {
+  if (!dateString) return null;
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return null;
+  return (Date.now() - date.getTime()) / (1000 * 60 * 60 * 24 * 30.44);
+}
+
+function quantile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function getLevel(
+  compCount: number,
+  bandPercent: number,
+  outlierCount: number
+): ARVConfidenceLevel {
+  if (compCount >= 5 && bandPercent <= 5 && outlierCount === 0) return "High";
+  if (compCount >= 3 && bandPercent <= 10) return "Medium";
+  return "Low";
+}
+
+export function assessARVConfidence(
+  comps: ConfidenceComp[],
+  arv: number,
+  subject?: { lat?: number; lng?: number }
+): ARVConfidenceReport | null {
+  const priced = comps.filter((comp) => comp.soldPrice > 0);
+  if (priced.length === 0 || arv <= 0) return null;
+
+  // Outliers: adjusted price beyond 1.5 IQR of the quartiles (needs 4+ comps)
+  const sortedPrices = priced
+    .map((comp) => comp.adjustedPrice)
+    .sort((a, b) => a - b);
+  let lowerFence = -Infinity;
+  let upperFence = Infinity;
+  if (sortedPrices.length >= 4) {
+    const q1 = quantile(sortedPrices, 0.25);
+    const q3 = quantile(sortedPrices, 0.75);
+    const fence = (q3 - q1) * ARV_CONFIDENCE_LIMITS.outlierIqrMultiple;
+    lowerFence = q1 - fence;
+    upperFence = q3 + fence;
+  }
+
+  const diagnostics = priced.map((comp): CompDiagnostic => {
+    const netAdjustmentPercent = (comp.netAdjustment / comp.soldPrice) * 100;
+    const grossAdjustmentPercent =
+      (comp.grossAdjustment / comp.soldPrice) * 100;
+    const monthsSinceSale = monthsSince(comp.soldDate);
+    const distance =
+      subject?.lat && subject?.lng && comp.lat && comp.lng
+        ? distanceMiles(subject.lat, subject.lng, comp.lat, comp.lng)
+        : null;
+
+    const warnings: CompWarning[] = [];
+    if (comp.adjustedPrice < lowerFence || comp.adjustedPrice > upperFence) {
+      warnings.push("outlier");
+    }
+    if (
+      monthsSinceSale !== null &&
+      monthsSinceSale > ARV_CONFIDENCE_LIMITS.staleSaleMonths
+    ) {
+      warnings.push("stale");
+    }
+    if (
+      distance !== null &&
+      distance > ARV_CONFIDENCE_LIMITS.maxDistanceMiles
+    ) {
+      warnings.push("distance");
+    }
+    if (
+      Math.abs(netAdjustmentPercent) >
+      ARV_CONFIDENCE_LIMITS.maxNetAdjustmentPercent
+    ) {
+      warnings.push("netAdjustment");
+    }
+    if (
+      grossAdjustmentPercent > ARV_CONFIDENCE_LIMITS.maxGrossAdjustmentPercent
+    ) {
+      warnings.push("grossAdjustment");
+    }
+
+    return {
+      compId: comp.id,
+      address: comp.address,
+      warnings,
+      netAdjustmentPercent,
+      grossAdjustmentPercent,
+      monthsSinceSale,
+      distanceMiles: distance,
+    };
+  });
+
+  // Weighted spread of adjusted prices around the ARV; the effective sample size
+  // shrinks when a few comps carry most of the weight
+  const weights = priced.map((comp) => Math.max(comp.weight, 0.01));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weightedVariance =
+    priced.reduce(
+      (sum, comp, i) => sum + weights[i] * (comp.adjustedPrice - arv) ** 2,
+      0
+    ) / totalWeight;
+  const effectiveCount =
+    totalWeight ** 2 / weights.reduce((sum, weight) => sum + weight ** 2, 0);
+
+  let halfWidth = 0;
+  if (priced.length > 1) {
+    // Bessel-style correction on the effective sample size
+    const stdDev = Math.sqrt(
+      (weightedVariance * effectiveCount) / Math.max(effectiveCount - 1, 1)
+    );
+    const degreesOfFreedom = Math.max(1, Math.round(effectiveCount) - 1);
+    const t = T_90[degreesOfFreedom - 1] ?? Z_90;
+    halfWidth = (t * stdDev) / Math.sqrt(effectiveCount);
+  }
+
+  const bandPercent = (halfWidth / arv) * 100;
+  const outlierCount = diagnostics.filter((d) =>
+    d.warnings.includes("outlier")
+  ).length;
+
+  return {
+    confidence: {
+      low: Math.round(arv - halfWidth),
+      high: Math.round(arv + halfWidth),
+      bandPercent: Math.round(bandPercent * 10) / 10,
+      // A single comp has no spread to measure
+      level:
+        priced.length === 1
+          ? "Low"
+          : getLevel(priced.length, bandPercent, outlierCount),
+      compCount: priced.length,
+      outlierCount,
+      warningCount: diagnostics.filter((d) => d.warnings.length > 0).length,
+    },
+    diagnostics,
+  };
+}
+
+/**
+ * Adjusted prices, similarity weights and adjustment totals for each comp
+ * (unadjusted sale prices, equally weighted, when there is no subject)
+ */
+export function getConfidenceComps(
+  comps: ARVCompSource[],
+  subject: PropertyData | null,
+  overrides?: ARVAdjustmentOverrides
+): ConfidenceComp[] {
+  const base = (comp: ARVCompSource) => ({
+    id: comp.id,
+    address: comp.address,
+    soldPrice: comp.soldPrice,
+    soldDate: comp.soldDate,
+    lat: comp.lat,
+    lng: comp.lng,
+  });
+
+  if (!subject) {
+    return comps.map((comp) => ({
+      ...base(comp),
+      adjustedPrice: comp.soldPrice,
+      weight: 1,
+      netAdjustment: 0,
+      grossAdjustment: 0,
+    }));
+  }
+
+  const { adjustments } = calculateWeightedARV(
+    comps.map(compToPropertyData),
+    subject,
+    overrides
+  );
+  return adjustments.map((adjustment, i) => ({
+    ...base(comps[i]),
+    adjustedPrice: adjustment.adjustedPrice,
+    weight: adjustment.similarityScore / 100,
+    netAdjustment: adjustment.adjustedPrice - comps[i].soldPrice,
+    grossAdjustment: ARV_ADJUSTMENT_FACTORS.reduce(
+      (sum, factor) => sum + Math.abs(adjustment.adjustments[factor]),
+      0
+    ),
+  }));
+}
+
+// A saved deal's confidence summary - what the backend persists on every save
+export function assessDealARVConfidence(
+  deal: DealInputs
+): ARVConfidence | undefined {
+  const comps = deal.arvComps || [];
+  const report = assessARVConfidence(
+    getConfidenceComps(
+      comps,
+      getSubjectPropertyData(deal),
+      deal.arvAdjustmentOverrides
+    ),
+    calculateDealARV(deal),
+    { lat: deal.subjectLat, lng: deal.subjectLng }
+  );
+  return report?.confidence;
+}
@@ -0,0 +1,646 @@
+import { DealInputs, ExpenseBreakdownItem, GlobalAssumptions, HoldStrategy, HouseHackLoanProgram, OperatingExpenseLine, StrategyResults, StrSeasonMonth } from './types';
+import {
+  applyMortgageInsurance,
+  applyRefinances,
+  buildAmortizationSchedule,
+  buildHoldLoanSchedule,
+  buildLoanTerms,
+  buildRefiLoanTerms
+} from './loanCalculator';
+import { buildMonthlyLedger, OperatingYear, rollUpProjections } from './cashFlowLedger';
+import { calculateExpenseLines, resolveOperatingExpenses, sumExpenseLines } from './operatingExpenses';
+import { applyIncomeTaxes, resolveTaxSettings } from './taxes';
+import { DEFAULT_TURNOVER_VACANCY_MONTHS, getUnitRentForYear } from './rentRoll';
+import {
+  calculateUnitSeason,
+  DEFAULT_STR_LODGING_TAX_PERCENT,
+  DEFAULT_STR_PLATFORM_FEE_PERCENT,
+  hasSeasonalCurve,
+  summarizeSeason
+} from './strSeasonality';
+
+// Taxes, insurance and the itemized expense lines for one projection year
+function buildYearExpenses(
+  schedule: OperatingExpenseLine[],
+  effectiveIncome: number,
+  units: number,
+  year: number,
+  propertyTaxes: number,
+  insurance: number
+): ExpenseBreakdownItem[] {
+  return [
+    { key: 'propertyTaxes', label: 'Property Taxes', amount: propertyTaxes },
+    { key: 'insurance', label: 'Insurance', amount: insurance },
+    ...calculateExpenseLines(schedule, effectiveIncome, units, year)
+  ];
+}
+
+// CapEx reserve is tracked separately from the other operating expenses in the ledger
+function toOperatingYear(grossRent: number, vacancy: number, expenses: ExpenseBreakdownItem[]): OperatingYear {
+  const capexReserve = sumExpenseLines(expenses.filter(item => item.key === 'capexReserve'));
+  return {
+    grossRent,
+    vacancy,
+    operatingExpenses: sumExpenseLines(expenses) - capexReserve,
+    capexReserve
+  };
+}
+
+export function calculateLTR(inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  const downPaymentAmount = inputs.purchasePrice * (inputs.downPayment / 100);
+  // Use editable acquisition costs amount, or calculate from percentage (default 5%)
+  const acquisitionCostsAmount = inputs.acquisitionCostsAmount ?? (inputs.purchasePrice * 0.05);
+  const cashInvested = downPaymentAmount + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  const totalProjectCost = inputs.purchasePrice + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  
+  // Monthly schedule handles fixed, interest-only, ARM, balloon and seller-financed loans, plus scheduled refis
+  const { schedule: loanSchedule, refinances } = buildHoldLoanSchedule(inputs, assumptions.appreciationPercent);
+  
+  const operatingYears: OperatingYear[] = [];
+  const yearlyExpenses: ExpenseBreakdownItem[][] = [];
+  const expenseSchedule = resolveOperatingExpenses(inputs, assumptions);
+  const unitCount = inputs.unitDetails.length || inputs.units || 1;
+  const turnoverVacancyMonths = assumptions.turnoverVacancyMonths ?? DEFAULT_TURNOVER_VACANCY_MONTHS;
+  // Track each unit's rent separately - calculate market rent from Section 8 rent
+  // Use explicit marketRent if provided, otherwise calculate: Section 8 Rent / 1.1
+  const targetUnitRents = inputs.unitDetails.map(unit => 
+    unit.marketRent ?? ((unit.section8Rent ?? 0) / 1.1)
+  );
+  let year1Vacancy = 0;
+  
+  // Track annual tax and insurance increases
+  let currentPropertyTaxes = inputs.propertyTaxes;
+  let currentPropertyInsurance = inputs.propertyInsurance;
+  
+  for (let year = 1; year <= 30; year++) {
+    // Occupied units hold their in-place rent until the lease ends, then mark to market
+    const unitRents = inputs.unitDetails.map((unit, index) => 
+      getUnitRentForYear(unit, targetUnitRents[index], year, assumptions.rentGrowthPercent, turnoverVacancyMonths)
+    );
+    const grossIncome = unitRents.reduce((sum, rent) => sum + rent.grossRent, 0);
+    // Turnover after a lease ends, plus the usual vacancy allowance on units at market rent
+    const vacancyAllowance = unitRents.reduce((sum, rent) => sum + rent.turnoverVacancy + rent.marketRent * (assumptions.ltrVacancyMonths / 12), 0);
+    if (year === 1) year1Vacancy = vacancyAllowance;
+    const vacancyLoss = excludeVacancy ? 0 : vacancyAllowance;
+    const effectiveIncome = grossIncome - vacancyLoss;
+    
+    const expenses = buildYearExpenses(expenseSchedule, effectiveIncome, unitCount, year, currentPropertyTaxes, currentPropertyInsurance);
+    yearlyExpenses.push(expenses);
+    operatingYears.push(toOperatingYear(grossIncome, vacancyLoss, expenses));
+    
+    // Apply annual tax and insurance increases
+    currentPropertyTaxes *= (1 + assumptions.propertyTaxIncreasePercent / 100);
+    currentPropertyInsurance *= (1 + assumptions.insuranceIncreasePercent / 100);
+  }
+  
+  // Yearly projections roll up from the month-by-month ledger
+  const monthlyLedger = buildMonthlyLedger(operatingYears, loanSchedule, inputs.purchasePrice, assumptions.appreciationPercent, undefined, refinances);
+  const projections = applyIncomeTaxes(rollUpProjections(monthlyLedger, inputs.purchasePrice), totalProjectCost, resolveTaxSettings(assumptions));
+  
+  const year1 = projections[0];
+  const capRate = (year1.noi / inputs.purchasePrice) * 100;
+  const dscr = year1.noi / year1.debtService;
+  const cashOnCash = (year1.cashFlow / cashInvested) * 100;
+  
+  return {
+    year1Summary: {
+      grossIncome: year1.grossIncome,
+      vacancy: year1Vacancy,
+      expenses: sumExpenseLines(yearlyExpenses[0]),
+      expenseBreakdown: yearlyExpenses[0],
+      noi: year1.noi,
+      debtService: year1.debtService,
+      cashFlow: year1.cashFlow,
+      capRate,
+      dscr,
+      cashOnCash
+    },
+    cashInvested,
+    totalProjectCost,
+    projections,
+    loanSchedule,
+    monthlyLedger,
+    refinances
+  };
+}
+
+// Owner-occupied loan programs for a house hack
+export const HOUSE_HACK_LOAN_PROGRAMS: Record<HouseHackLoanProgram, {
+  label: string;
+  downPaymentPercent: number;
+  upfrontPremiumPercent: number; // Financed into the loan at closing
+  annualPremiumPercent: number;
+  cancelAtLTVPercent?: number; // Premiums stop at this LTV of the purchase price (never, when omitted)
+}> = {
+  // FHA with under 10% down pays annual MIP on the declining balance for the life of the loan
+  fha: { label: 'FHA (3.5% down)', downPaymentPercent: 3.5, upfrontPremiumPercent: 1.75, annualPremiumPercent: 0.55 },
+  // Conventional PMI is priced on the original loan and cancels automatically at 78% LTV
+  conventional: { label: 'Conventional (5% down)', downPaymentPercent: 5, upfrontPremiumPercent: 0, annualPremiumPercent: 0.6, cancelAtLTVPercent: 78 }
+};
+
+// The owner lives in one unit for this many years before moving out and renting it
+export const HOUSE_HACK_OWNER_OCCUPIED_YEARS = 1;
+
+// Owner-occupied residential financing only covers 2-4 units (duplex, triplex or quad)
+export function isHouseHackEligible(inputs: DealInputs): boolean {
+  const unitCount = inputs.unitDetails.length || inputs.units;
+  return unitCount >= 2 && unitCount <= 4;
+}
+
+export function calculateHouseHack(inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  const loanProgram = inputs.houseHackLoanProgram ?? 'fha';
+  const program = HOUSE_HACK_LOAN_PROGRAMS[loanProgram];
+  const downPaymentAmount = inputs.purchasePrice * (program.downPaymentPercent / 100);
+  const baseLoanAmount = inputs.purchasePrice - downPaymentAmount;
+  const upfrontMortgageInsurance = baseLoanAmount * (program.upfrontPremiumPercent / 100);
+  const loanAmount = baseLoanAmount + upfrontMortgageInsurance;
+  // Use editable acquisition costs amount, or calculate from percentage (default 5%)
+  const acquisitionCostsAmount = inputs.acquisitionCostsAmount ?? (inputs.purchasePrice * 0.05);
+  const cashInvested = downPaymentAmount + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  const totalProjectCost = inputs.purchasePrice + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  
+  // 30-year fixed owner-occupied loan with mortgage insurance, plus any scheduled refis (which drop the MI)
+  const insuredSchedule = applyMortgageInsurance(
+    buildAmortizationSchedule(buildLoanTerms(loanAmount, inputs.houseHackInterestRate ?? inputs.loanInterestRate, 30)),
+    {
+      annualPercent: inputs.houseHackMortgageInsurancePercent ?? program.annualPremiumPercent,
+      onOriginalBalance: loanProgram === 'conventional',
+      cancelAtBalance: program.cancelAtLTVPercent !== undefined ? inputs.purchasePrice * (program.cancelAtLTVPercent / 100) : undefined
+    }
+  );
+  const { schedule: loanSchedule, refinances } = applyRefinances(
+    insuredSchedule,
+    inputs.refinanceEvents ?? [],
+    month => inputs.purchasePrice * Math.pow(1 + assumptions.appreciationPercent / 100, month / 12)
+  );
+  
+  const operatingYears: OperatingYear[] = [];
+  const yearlyExpenses: ExpenseBreakdownItem[][] = [];
+  const expenseSchedule = resolveOperatingExpenses(inputs, assumptions);
+  const unitCount = inputs.unitDetails.length || inputs.units || 1;
+  const ownerUnitIndex = Math.min(Math.max(0, inputs.houseHackOwnerUnit ?? 0), Math.max(0, inputs.unitDetails.length - 1));
+  const turnoverVacancyMonths = assumptions.turnoverVacancyMonths ?? DEFAULT_TURNOVER_VACANCY_MONTHS;
+  // Same market rents and in-place leases as the LTR strategy
+  const targetUnitRents = inputs.unitDetails.map(unit => 
+    unit.marketRent ?? ((unit.section8Rent ?? 0) / 1.1)
+  );
+  const ownerUnitRent = targetUnitRents[ownerUnitIndex] || 0;
+  
+  // Track annual tax and insurance increases
+  let currentPropertyTaxes = inputs.propertyTaxes;
+  let currentPropertyInsurance = inputs.propertyInsurance;
+  
+  for (let year = 1; year <= 30; year++) {
+    const ownerOccupied = year <= HOUSE_HACK_OWNER_OCCUPIED_YEARS;
+    const unitRents = inputs.unitDetails.map((unit, index) => {
+      if (index !== ownerUnitIndex) {
+        return getUnitRentForYear(unit, targetUnitRents[index], year, assumptions.rentGrowthPercent, turnoverVacancyMonths);
+      }
+      // The owner moves into a vacant unit and it brings in no rent until they move out
+      return ownerOccupied
+        ? { grossRent: 0, turnoverVacancy: 0, marketRent: 0 }
+        : getUnitRentForYear({ ...unit, currentRent: undefined }, targetUnitRents[index], year, assumptions.rentGrowthPercent, turnoverVacancyMonths);
+    });
+    const grossIncome = unitRents.reduce((sum, rent) => sum + rent.grossRent, 0);
+    const vacancyLoss = excludeVacancy ? 0 : unitRents.reduce((sum, rent) => sum + rent.turnoverVacancy + rent.marketRent * (assumptions.ltrVacancyMonths / 12), 0);
+    const effectiveIncome = grossIncome - vacancyLoss;
+    
+    const expenses = buildYearExpenses(expenseSchedule, effectiveIncome, unitCount, year, currentPropertyTaxes, currentPropertyInsurance);
+    yearlyExpenses.push(expenses);
+    operatingYears.push(toOperatingYear(grossIncome, vacancyLoss, expenses));
+    
+    // Apply annual tax and insurance increases
+    currentPropertyTaxes *= (1 + assumptions.propertyTaxIncreasePercent / 100);
+    currentPropertyInsurance *= (1 + assumptions.insuranceIncreasePercent / 100);
+  }
+  
+  // Yearly projections roll up from the month-by-month ledger
+  const monthlyLedger = buildMonthlyLedger(operatingYears, loanSchedule, inputs.purchasePrice, assumptions.appreciationPercent, undefined, refinances);
+  const projections = applyIncomeTaxes(rollUpProjections(monthlyLedger, inputs.purchasePrice), totalProjectCost, resolveTaxSettings(assumptions));
+  
+  const year1 = projections[0];
+  const capRate = (year1.noi / inputs.purchasePrice) * 100;
+  const dscr = year1.noi / year1.debtService;
+  const cashOnCash = (year1.cashFlow / cashInvested) * 100;
+  const lastInsuredMonth = insuredSchedule.reduce((last, row) => (row.mortgageInsurance ? row.month : last), 0);
+  
+  return {
+    year1Summary: {
+      grossIncome: year1.grossIncome,
+      vacancy: operatingYears[0].vacancy,
+      expenses: sumExpenseLines(yearlyExpenses[0]),
+      expenseBreakdown: yearlyExpenses[0],
+      noi: year1.noi,
+      debtService: year1.debtService,
+      cashFlow: year1.cashFlow,
+      capRate,
+      dscr,
+      cashOnCash
+    },
+    cashInvested,
+    totalProjectCost,
+    projections,
+    loanSchedule,
+    monthlyLedger,
+    refinances,
+    houseHack: {
+      loanProgram,
+      downPayment: downPaymentAmount,
+      upfrontMortgageInsurance,
+      loanAmount,
+      monthlyMortgageInsurance: insuredSchedule[0]?.mortgageInsurance ?? 0,
+      mortgageInsuranceEndMonth: lastInsuredMonth > 0 && lastInsuredMonth < insuredSchedule.length ? lastInsuredMonth : null,
+      ownerUnitIndex,
+      ownerUnitRent,
+      effectiveHousingCost: -year1.cashFlow / 12,
+      cashFlowAfterMoveOut: projections[HOUSE_HACK_OWNER_OCCUPIED_YEARS]?.cashFlow ?? 0
+    }
+  };
+}
+
+export function calculateSection8(inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  // Section 8 uses the actual section8Rent from each unit (no conversion needed)
+  // calculateLTR divides by 1.1 to get market rent, so we pre-multiply by 1.1
+  // to ensure we use the full Section 8 voucher amount
+  const section8Inputs = {
+    ...inputs,
+    unitDetails: inputs.unitDetails.map(unit => ({
+      ...unit,
+      section8Rent: (unit.section8Rent ?? 0) * 1.1, // Pre-multiply so division in calculateLTR gives us the original amount
+      marketRent: undefined // CRITICAL: Clear marketRent so Section 8 ONLY uses voucher amount, not market rent
+    }))
+  };
+  
+  // Section 8 uses its own lower vacancy rate
+  const section8Assumptions = {
+    ...assumptions,
+    ltrVacancyMonths: assumptions.section8VacancyMonths
+  };
+  
+  return calculateLTR(section8Inputs, section8Assumptions, excludeVacancy);
+}
+
+export function calculateAirbnb(inputs: DealInputs, assumptions: GlobalAssumptions): StrategyResults {
+  const downPaymentAmount = inputs.purchasePrice * (inputs.downPayment / 100);
+  // Use editable acquisition costs amount, or calculate from percentage (default 5%)
+  const acquisitionCostsAmount = inputs.acquisitionCostsAmount ?? (inputs.purchasePrice * 0.05);
+  const cashInvested = downPaymentAmount + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  const totalProjectCost = inputs.purchasePrice + acquisitionCostsAmount + (inputs.setupFurnishCost || 0);
+  
+  // Monthly schedule handles fixed, interest-only, ARM, balloon and seller-financed loans, plus scheduled refis
+  const { schedule: loanSchedule, refinances } = buildHoldLoanSchedule(inputs, assumptions.appreciationPercent);
+  
+  const operatingYears: OperatingYear[] = [];
+  const yearlyExpenses: ExpenseBreakdownItem[][] = [];
+  const expenseSchedule = resolveOperatingExpenses(inputs, assumptions);
+  const unitCount = inputs.unitDetails.length || inputs.units || 1;
+  // Units with monthly ADR and occupancy curves are booked month by month; the rest keep a flat annual revenue
+  const bookingRates = {
+    platformFeePercent: assumptions.strPlatformFeePercent ?? DEFAULT_STR_PLATFORM_FEE_PERCENT,
+    lodgingTaxPercent: assumptions.strLodgingTaxPercent ?? DEFAULT_STR_LODGING_TAX_PERCENT
+  };
+  const unitSeasons = inputs.unitDetails.map(unit => hasSeasonalCurve(unit) ? calculateUnitSeason(unit, bookingRates) : null);
+  const seasonalUnits = unitSeasons.filter((season): season is StrSeasonMonth[] => season !== null);
+  const strSeasonality = seasonalUnits.length > 0 ? summarizeSeason(seasonalUnits) : undefined;
+  // Track each unit's annual revenue and expenses separately (vacancy already accounted for by AirDNA or the occupancy curve)
+  let currentUnitData = inputs.unitDetails.map((unit, index) => {
+    const season = unitSeasons[index];
+    const seasonTotal = (field: keyof StrSeasonMonth) => season ? season.reduce((sum, month) => sum + month[field], 0) : 0;
+    return {
+      annualRevenue: season
+        ? seasonTotal('grossRevenue')
+        : unit.strAnnualRevenue || (unit.strMonthlyRevenue ? unit.strMonthlyRevenue * 12 : 0), // Support both new and legacy format
+      annualExpenses: unit.strAnnualExpenses || 0,
+      platformFees: seasonTotal('platformFees'),
+      cleaningCosts: seasonTotal('cleaningCosts')
+    };
+  });
+  
+  // Each month's share of the year's income follows the booking curves (flat-revenue units contribute evenly)
+  const year1MonthlyIncome = Array.from({ length: 12 }, (_, month) =>
+    currentUnitData.reduce((sum, unit, index) => {
+      const season = unitSeasons[index];
+      return sum + (season ? season[month].grossRevenue : unit.annualRevenue / 12) - unit.annualExpenses / 12;
+    }, 0)
+  );
+  const year1Income = year1MonthlyIncome.reduce((sum, amount) => sum + amount, 0);
+  const revenueSeasonality = strSeasonality && year1Income !== 0 ? year1MonthlyIncome.map(amount => amount / year1Income) : undefined;
+  
+  // Track annual tax and insurance increases
+  let currentPropertyTaxes = inputs.propertyTaxes;
+  let currentPropertyInsurance = inputs.propertyInsurance;
+  
+  for (let year = 1; year <= 30; year++) {
+    // Calculate gross income from sum of all units: annual revenue - annual expenses (vacancy already in AirDNA data)
+    const grossIncome = currentUnitData.reduce((sum, unit) => {
+      const netRevenue = unit.annualRevenue - unit.annualExpenses;
+      return sum + netRevenue;
+    }, 0);
+    const effectiveIncome = grossIncome; // Vacancy accounted for in AirDNA annual revenue projections
+    
+    const expenses = buildYearExpenses(expenseSchedule, effectiveIncome, unitCount, year, currentPropertyTaxes, currentPropertyInsurance);
+    if (strSeasonality) {
+      expenses.push(
+        { key: 'platformFees', label: 'Platform Fees', amount: currentUnitData.reduce((sum, unit) => sum + unit.platformFees, 0) },
+        { key: 'cleaning', label: 'Cleaning & Turnovers', amount: currentUnitData.reduce((sum, unit) => sum + unit.cleaningCosts, 0) }
+      );
+    }
+    yearlyExpenses.push(expenses);
+    operatingYears.push({ ...toOperatingYear(grossIncome, 0, expenses), revenueSeasonality });
+    
+    // Apply revenue growth to each unit's annual revenue
+    currentUnitData = currentUnitData.map(unit => ({
+      ...unit,
+      annualRevenue: unit.annualRevenue * (1 + assumptions.rentGrowthPercent / 100),
+      annualExpenses: unit.annualExpenses * (1 + assumptions.rentGrowthPercent / 100), // Expenses also grow
+      platformFees: unit.platformFees * (1 + assumptions.rentGrowthPercent / 100),
+      cleaningCosts: unit.cleaningCosts * (1 + assumptions.rentGrowthPercent / 100)
+    }));
+    
+    // Apply annual tax and insurance increases
+    currentPropertyTaxes *= (1 + assumptions.propertyTaxIncreasePercent / 100);
+    currentPropertyInsurance *= (1 + assumptions.insuranceIncreasePercent / 100);
+  }
+  
+  // Yearly projections roll up from the month-by-month ledger
+  const monthlyLedger = buildMonthlyLedger(operatingYears, loanSchedule, inputs.purchasePrice, assumptions.appreciationPercent, undefined, refinances);
+  const projections = applyIncomeTaxes(rollUpProjections(monthlyLedger, inputs.purchasePrice), totalProjectCost, resolveTaxSettings(assumptions));
+  
+  const year1 = projections[0];
+  const capRate = (year1.noi / inputs.purchasePrice) * 100;
+  const dscr = year1.noi / year1.debtService;
+  const cashOnCash = (year1.cashFlow / cashInvested) * 100;
+  
+  return {
+    year1Summary: {
+      grossIncome: year1.grossIncome, // Sum of (annual revenue - annual expenses) per unit
+      vacancy: 0, // Vacancy accounted for in AirDNA annual revenue projections
+      expenses: sumExpenseLines(yearlyExpenses[0]),
+      expenseBreakdown: yearlyExpenses[0],
+      noi: year1.noi,
+      debtService: year1.debtService,
+      cashFlow: year1.cashFlow,
+      capRate,
+      dscr,
+      cashOnCash
+    },
+    cashInvested,
+    totalProjectCost,
+    projections,
+    loanSchedule,
+    monthlyLedger,
+    refinances,
+    strSeasonality
+  };
+}
+
+// Mid-term rental defaults when the unit or assumptions leave them blank
+export const DEFAULT_MTR_OCCUPANCY_PERCENT = 85;
+export const DEFAULT_MTR_PLATFORM_FEE_PERCENT = 5;
+export const DEFAULT_MTR_FURNISHING_LIFE_YEARS = 5;
+
+export function calculateMTR(inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  const downPaymentAmount = inputs.purchasePrice * (inputs.downPayment / 100);
+  // Use editable acquisition costs amount, or calculate from percentage (default 5%)
+  const acquisitionCostsAmount = inputs.acquisitionCostsAmount ?? (inputs.purchasePrice * 0.05);
+  // Every unit has to be furnished before the first traveling nurse or insurance tenant moves in
+  const furnishingCost = inputs.unitDetails.reduce((sum, unit) => sum + (unit.mtrFurnishingCost || 0), 0);
+  const cashInvested = downPaymentAmount + acquisitionCostsAmount + (inputs.setupFurnishCost || 0) + furnishingCost;
+  const totalProjectCost = inputs.purchasePrice + acquisitionCostsAmount + (inputs.setupFurnishCost || 0) + furnishingCost;
+  
+  // Monthly schedule handles fixed, interest-only, ARM, balloon and seller-financed loans, plus scheduled refis
+  const { schedule: loanSchedule, refinances } = buildHoldLoanSchedule(inputs, assumptions.appreciationPercent);
+  
+  const operatingYears: OperatingYear[] = [];
+  const yearlyExpenses: ExpenseBreakdownItem[][] = [];
+  const expenseSchedule = resolveOperatingExpenses(inputs, assumptions);
+  const unitCount = inputs.unitDetails.length || inputs.units || 1;
+  const platformFeeRate = (assumptions.mtrPlatformFeePercent ?? DEFAULT_MTR_PLATFORM_FEE_PERCENT) / 100;
+  // Furnishings wear out on a cycle, so their replacement is an annual expense
+  const furnishingLifeYears = Math.max(1, assumptions.mtrFurnishingLifeYears ?? DEFAULT_MTR_FURNISHING_LIFE_YEARS);
+  // Track each unit's furnished rent and owner-paid utilities separately
+  let currentUnitData = inputs.unitDetails.map(unit => ({
+    monthlyRent: unit.mtrMonthlyRent || 0,
+    occupancy: (unit.mtrOccupancyPercent ?? DEFAULT_MTR_OCCUPANCY_PERCENT) / 100,
+    monthlyUtilities: unit.mtrMonthlyUtilities || 0
+  }));
+  
+  // Track annual tax and insurance increases
+  let currentPropertyTaxes = inputs.propertyTaxes;
+  let currentPropertyInsurance = inputs.propertyInsurance;
+  
+  for (let year = 1; year <= 30; year++) {
+    const grossIncome = currentUnitData.reduce((sum, unit) => sum + unit.monthlyRent * 12, 0);
+    // Unbooked months between stays are the mid-term version of vacancy
+    const vacancyLoss = excludeVacancy ? 0 : currentUnitData.reduce((sum, unit) => sum + unit.monthlyRent * 12 * (1 - unit.occupancy), 0);
+    const effectiveIncome = grossIncome - vacancyLoss;
+    
+    const expenses: ExpenseBreakdownItem[] = [
+      ...buildYearExpenses(expenseSchedule, effectiveIncome, unitCount, year, currentPropertyTaxes, currentPropertyInsurance),
+      { key: 'platformFees', label: 'Platform Fees', amount: effectiveIncome * platformFeeRate },
+      { key: 'ownerUtilities', label: 'Furnished Utilities & Internet', amount: currentUnitData.reduce((sum, unit) => sum + unit.monthlyUtilities * 12, 0) },
+      { key: 'furnishingReplacement', label: 'Furnishing Replacement', amount: furnishingCost / furnishingLifeYears }
+    ];
+    yearlyExpenses.push(expenses);
+    operatingYears.push(toOperatingYear(grossIncome, vacancyLoss, expenses));
+    
+    // Apply rent growth to each unit's rent and utilities
+    currentUnitData = currentUnitData.map(unit => ({
+      ...unit,
+      monthlyRent: unit.monthlyRent * (1 + assumptions.rentGrowthPercent / 100),
+      monthlyUtilities: unit.monthlyUtilities * (1 + assumptions.rentGrowthPercent / 100)
+    }));
+    
+    // Apply annual tax and insurance increases
+    currentPropertyTaxes *= (1 + assumptions.propertyTaxIncreasePercent / 100);
+    currentPropertyInsurance *= (1 + assumptions.insuranceIncreasePercent / 100);
+  }
+  
+  // Yearly projections roll up from the month-by-month ledger
+  const monthlyLedger = buildMonthlyLedger(operatingYears, loanSchedule, inputs.purchasePrice, assumptions.appreciationPercent, undefined, refinances);
+  const projections = applyIncomeTaxes(rollUpProjections(monthlyLedger, inputs.purchasePrice), totalProjectCost, resolveTaxSettings(assumptions));
+  
+  const year1 = projections[0];
+  const capRate = (year1.noi / inputs.purchasePrice) * 100;
+  const dscr = year1.noi / year1.debtService;
+  const cashOnCash = (year1.cashFlow / cashInvested) * 100;
+  
+  return {
+    year1Summary: {
+      grossIncome: year1.grossIncome,
+      vacancy: operatingYears[0].vacancy,
+      expenses: sumExpenseLines(yearlyExpenses[0]),
+      expenseBreakdown: yearlyExpenses[0],
+      noi: year1.noi,
+      debtService: year1.debtService,
+      cashFlow: year1.cashFlow,
+      capRate,
+      dscr,
+      cashOnCash
+    },
+    cashInvested,
+    totalProjectCost,
+    projections,
+    loanSchedule,
+    monthlyLedger,
+    refinances
+  };
+}
+
+/**
+ * Run a single strategy by key (used by what-if tools that re-run one strategy many times)
+ */
+export function calculateStrategy(strategy: HoldStrategy, inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  switch (strategy) {
+    case 'houseHack':
+      return calculateHouseHack(inputs, assumptions, excludeVacancy);
+    case 'section8':
+      return calculateSection8(inputs, assumptions, excludeVacancy);
+    case 'airbnb':
+      return calculateAirbnb(inputs, assumptions); // Occupancy already prices in vacancy
+    case 'mtr':
+      return calculateMTR(inputs, assumptions, excludeVacancy);
+    case 'rehab':
+      return calculateRehab(inputs, assumptions, excludeVacancy);
+    default:
+      return calculateLTR(inputs, assumptions, excludeVacancy);
+  }
+}
+
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+}
+
+export function formatPercent(value: number): string {
+  return `${value.toFixed(2)}%`;
+}
+
+/**
+ * Parses a currency string or number into a numeric value
+ * Handles formats like: "$1,234.56", "1234.56", "1,234", etc.
+ */
+export function parseCurrency(value: string | number): number {
+  if (typeof value === 'number') return value;
+  
+  // Remove currency symbols, commas, and whitespace
+  const cleaned = value.replace(/[$,\s]/g, '');
+  const parsed = parseFloat(cleaned);
+  
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+export function calculateRehab(inputs: DealInputs, assumptions: GlobalAssumptions, excludeVacancy: boolean = false): StrategyResults {
+  // Calculate refi loan amount using user-specified exit refi LTV (default 75%)
+  const refiLTV = inputs.exitRefiLTV / 100;
+  const newLoanAmount = inputs.afterRepairValue * refiLTV;
+  
+  // Calculate bridge loan based on LTC % and Financed Rehab Budget %
+  // Bridge loan = (Purchase × LTC%) + (Rehab × Financed Rehab Budget %)
+  const purchaseLoan = inputs.purchasePrice * (inputs.bridgeLTC / 100);
+  const rehabLoan = inputs.rehabCost * (inputs.bridgeRehabBudgetPercent / 100);
+  const hardMoneyLoanAmount = purchaseLoan + rehabLoan;
+  
+  // Calculate cash invested for rehab
+  const totalProjectCost = inputs.purchasePrice + inputs.rehabCost;
+  
+  // Bridge settlement charges: Use editable amount if provided, otherwise 6% of purchase price
+  const entryPointsCost = inputs.bridgeSettlementCharges ?? (inputs.purchasePrice * 0.06);
+  
+  // Down payment = what you pay cash upfront
+  // Lender deducts settlement charges from loan proceeds, so actual cash received = Bridge loan - Settlement charges
+  // Down payment = Total cost - (Bridge loan - Settlement charges)
+  const downPaymentAmount = totalProjectCost - (hardMoneyLoanAmount - entryPointsCost);
+  
+  // Use user-provided or auto-calculated taxes and insurance based on ARV for rehab properties
+  const rehabPropertyTaxes = inputs.rehabPropertyTaxes || (inputs.afterRepairValue * 0.013);
+  const rehabPropertyInsurance = inputs.rehabPropertyInsurance || (inputs.afterRepairValue * 0.011);
+  
+  // Carrying costs during rehab (using current purchase price for taxes/insurance during rehab)
+  const monthlyRehabInterest = hardMoneyLoanAmount * (inputs.rehabFinancingRate / 100 / 12);
+  const monthlyTaxesInsurance = (inputs.propertyTaxes + inputs.propertyInsurance) / 12;
+  const rehabCarryingCosts = (monthlyRehabInterest + monthlyTaxesInsurance) * inputs.rehabMonths;
+  
+  // Total cash invested = Down payment (which already includes settlement charges) + carrying costs
+  // NOTE: Down payment already includes the settlement charges (deducted from loan proceeds, not separate cash)
+  // NOTE: Exit points NOT included here - they're handled separately in the BRRRR refi scenario
+  const cashInvested = downPaymentAmount + rehabCarryingCosts;
+  // All-cash basis excludes bridge interest and points
+  const allCashProjectCost = totalProjectCost + monthlyTaxesInsurance * inputs.rehabMonths;
+  
+  // Long-term DSCR refi loan (same loan structure options as the purchase loan)
+  const loanSchedule = buildAmortizationSchedule(buildRefiLoanTerms(inputs));
+  
+  const operatingYears: OperatingYear[] = [];
+  const yearlyExpenses: ExpenseBreakdownItem[][] = [];
+  const expenseSchedule = resolveOperatingExpenses(inputs, assumptions);
+  const unitCount = inputs.unitDetails.length || inputs.units || 1;
+  // Use after-repair market rents, fallback to explicit marketRent, then calculate from Section 8
+  let currentUnitRents = inputs.unitDetails.map(unit => 
+    unit.afterRehabMarketRent ?? unit.marketRent ?? ((unit.section8Rent ?? 0) / 1.1)
+  );
+  
+  // Track annual tax and insurance increases (start with ARV-based amounts)
+  let currentRehabPropertyTaxes = rehabPropertyTaxes;
+  let currentRehabPropertyInsurance = rehabPropertyInsurance;
+  
+  for (let year = 1; year <= 30; year++) {
+    const totalMonthlyRent = currentUnitRents.reduce((sum, rent) => sum + rent, 0);
+    const grossIncome = totalMonthlyRent * 12;
+    const vacancyLoss = excludeVacancy ? 0 : grossIncome * (assumptions.ltrVacancyMonths / 12);
+    const effectiveIncome = grossIncome - vacancyLoss;
+    
+    // Use ARV-based taxes and insurance for rehab properties (Broward County rates)
+    const expenses = buildYearExpenses(expenseSchedule, effectiveIncome, unitCount, year, currentRehabPropertyTaxes, currentRehabPropertyInsurance);
+    yearlyExpenses.push(expenses);
+    operatingYears.push(toOperatingYear(grossIncome, vacancyLoss, expenses));
+    
+    currentUnitRents = currentUnitRents.map(rent => rent * (1 + assumptions.rentGrowthPercent / 100));
+    
+    // Apply annual tax and insurance increases
+    currentRehabPropertyTaxes *= (1 + assumptions.propertyTaxIncreasePercent / 100);
+    currentRehabPropertyInsurance *= (1 + assumptions.insuranceIncreasePercent / 100);
+  }
+  
+  // Rehab months (no rent, bridge interest) lead up to the refi; projections start once stabilized
+  const dscrAcquisitionCosts = inputs.dscrAcquisitionCosts ?? (inputs.afterRepairValue * 0.05);
+  const monthlyLedger = buildMonthlyLedger(operatingYears, loanSchedule, inputs.afterRepairValue, assumptions.appreciationPercent, {
+    months: inputs.rehabMonths,
+    monthlyInterest: monthlyRehabInterest,
+    monthlyCarryingCosts: monthlyTaxesInsurance,
+    bridgeLoanBalance: hardMoneyLoanAmount,
+    asIsValue: inputs.purchasePrice,
+    refiProceeds: newLoanAmount - hardMoneyLoanAmount - dscrAcquisitionCosts
+  });
+  // Cost basis for depreciation is the all-cash cost of the purchase and rehab
+  const projections = applyIncomeTaxes(rollUpProjections(monthlyLedger, inputs.afterRepairValue), allCashProjectCost, resolveTaxSettings(assumptions));
+  
+  const year1 = projections[0];
+  const capRate = (year1.noi / inputs.afterRepairValue) * 100;
+  const dscr = year1.noi / year1.debtService;
+  const cashOnCash = (year1.cashFlow / cashInvested) * 100;
+  
+  return {
+    year1Summary: {
+      grossIncome: year1.grossIncome,
+      vacancy: year1.grossIncome * (assumptions.ltrVacancyMonths / 12),
+      expenses: sumExpenseLines(yearlyExpenses[0]),
+      expenseBreakdown: yearlyExpenses[0],
+      noi: year1.noi,
+      debtService: year1.debtService,
+      cashFlow: year1.cashFlow,
+      capRate,
+      dscr,
+      cashOnCash
+    },
+    cashInvested,
+    totalProjectCost: allCashProjectCost,
+    projections,
+    loanSchedule,
+    monthlyLedger
+  };
+}
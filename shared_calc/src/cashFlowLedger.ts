@@ -0,0 +1,203 @@
+/**
+ * Monthly Cash-Flow Ledger
+ * Every strategy is modelled month by month; the yearly YearProjection rows
+ * shown in tables and charts are roll-ups of this ledger
+ *
+ * Rehab deals get a pre-stabilization period (zero rent, bridge interest and
+ * carrying costs) ending with the BRRRR refi. Those months are kept in the
+ * ledger for visibility but stay out of the yearly roll-ups, because their
+ * carrying costs are already part of the strategy's cash invested.
+ */
+import {
+  AmortizationRow,
+  LedgerEvent,
+  MonthlyLedgerEntry,
+  RefinanceResult,
+  YearProjection,
+} from "./types";
+
+// Annual operating figures for one projection year, spread across its 12 months
+export interface OperatingYear {
+  grossRent: number;
+  vacancy: number;
+  operatingExpenses: number;
+  capexReserve: number;
+  revenueSeasonality?: number[]; // Share of the year's rent and vacancy in each month (even when omitted)
+}
+
+// Bridge-financed rehab months before the long-term loan takes over
+export interface RehabPhase {
+  months: number;
+  monthlyInterest: number; // Bridge loan interest
+  monthlyCarryingCosts: number; // Taxes and insurance while vacant
+  bridgeLoanBalance: number;
+  asIsValue: number; // Value before the rehab is complete (purchase price)
+  refiProceeds: number; // Cash out when the refi closes
+}
+
+/**
+ * Build the month-by-month ledger for a strategy
+ * Debt service, balloons and balances come straight from the long-term loan schedule;
+ * scheduled refinances (already spliced into that schedule) are flagged on their month
+ */
+export function buildMonthlyLedger(
+  operatingYears: OperatingYear[],
+  loanSchedule: AmortizationRow[],
+  initialPropertyValue: number,
+  appreciationPercent: number,
+  rehab?: RehabPhase,
+  refinances: RefinanceResult[] = []
+): MonthlyLedgerEntry[] {
+  const ledger: MonthlyLedgerEntry[] = [];
+  const rehabMonths = rehab ? Math.max(0, Math.round(rehab.months)) : 0;
+  const refiLoanAmount = loanSchedule[0]
+    ? loanSchedule[0].balance + loanSchedule[0].principal
+    : 0;
+
+  for (let month = 1; month <= rehabMonths && rehab; month++) {
+    const isRefiMonth = month === rehabMonths;
+    const noi = -rehab.monthlyCarryingCosts;
+    const events: LedgerEvent[] = isRefiMonth ? ["rehab", "refi"] : ["rehab"];
+
+    ledger.push({
+      month,
+      year: 0,
+      grossRent: 0,
+      vacancy: 0,
+      operatingExpenses: rehab.monthlyCarryingCosts,
+      capexReserve: 0,
+      noi,
+      debtService: rehab.monthlyInterest,
+      interest: rehab.monthlyInterest,
+      balloonPayment: 0,
+      cashFlow: noi - rehab.monthlyInterest,
+      // The refi pays off the bridge loan at the end of the last rehab month
+      loanBalance: isRefiMonth ? refiLoanAmount : rehab.bridgeLoanBalance,
+      propertyValue: isRefiMonth ? initialPropertyValue : rehab.asIsValue,
+      refiProceeds: isRefiMonth ? rehab.refiProceeds : undefined,
+      events,
+    });
+  }
+
+  const growth = appreciationPercent / 100;
+  let startOfYearValue = initialPropertyValue;
+
+  operatingYears.forEach((operating, index) => {
+    const year = index + 1;
+    const operatingExpenses = operating.operatingExpenses / 12;
+    const capexReserve = operating.capexReserve / 12;
+
+    for (let monthOfYear = 1; monthOfYear <= 12; monthOfYear++) {
+      const revenueShare =
+        operating.revenueSeasonality?.[monthOfYear - 1] ?? 1 / 12;
+      const grossRent = operating.grossRent * revenueShare;
+      const vacancy = operating.vacancy * revenueShare;
+      const noi = grossRent - vacancy - operatingExpenses - capexReserve;
+      const loanMonth = index * 12 + monthOfYear;
+      const loanRow = loanSchedule[loanMonth - 1];
+      const debtService = loanRow ? loanRow.payment : 0;
+      const balloonPayment = loanRow ? loanRow.balloonPayment : 0;
+      const refinance = refinances.find((refi) => refi.month === loanMonth);
+      const events: LedgerEvent[] = [];
+      if (balloonPayment > 0) events.push("balloon");
+      if (refinance) events.push("refi");
+
+      ledger.push({
+        month: rehabMonths + index * 12 + monthOfYear,
+        year,
+        grossRent,
+        vacancy,
+        operatingExpenses,
+        capexReserve,
+        noi,
+        debtService,
+        interest: loanRow ? loanRow.interest : 0,
+        balloonPayment,
+        cashFlow: noi - debtService - balloonPayment,
+        loanBalance: loanRow ? loanRow.balance : 0,
+        // Annual appreciation compounds smoothly through the year
+        propertyValue:
+          startOfYearValue * Math.pow(1 + growth, monthOfYear / 12),
+        refiProceeds: refinance ? refinance.cashOutProceeds : undefined,
+        events,
+      });
+    }
+
+    startOfYearValue *= 1 + growth;
+  });
+
+  return ledger;
+}
+
+type SummedField =
+  | "grossRent"
+  | "noi"
+  | "debtService"
+  | "interest"
+  | "balloonPayment"
+  | "cashFlow";
+
+/**
+ * Roll the ledger up into yearly projections (rehab-period months are skipped)
+ */
+export function rollUpProjections(
+  ledger: MonthlyLedgerEntry[],
+  initialPropertyValue: number
+): YearProjection[] {
+  const projections: YearProjection[] = [];
+  let previousValue = initialPropertyValue;
+  let cumulativeCashFlow = 0;
+  let cumulativeReturn = 0;
+
+  const years = Math.max(0, ...ledger.map((entry) => entry.year));
+  for (let year = 1; year <= years; year++) {
+    const months = ledger.filter((entry) => entry.year === year);
+    if (months.length === 0) continue;
+
+    const sum = (field: SummedField) =>
+      months.reduce((total, entry) => total + entry[field], 0);
+
+    const lastMonth = months[months.length - 1];
+    const cashFlow = sum("cashFlow");
+    const refiProceeds = months.reduce(
+      (total, entry) => total + (entry.refiProceeds || 0),
+      0
+    );
+    const appreciation = lastMonth.propertyValue - previousValue;
+    const annualReturn = cashFlow + appreciation;
+
+    cumulativeCashFlow += cashFlow;
+    cumulativeReturn += annualReturn;
+    previousValue = lastMonth.propertyValue;
+
+    projections.push({
+      year,
+      grossIncome: sum("grossRent"),
+      noi: sum("noi"),
+      debtService: sum("debtService"),
+      cashFlow,
+      appreciation,
+      propertyValue: lastMonth.propertyValue,
+      equity: lastMonth.propertyValue - lastMonth.loanBalance,
+      annualReturn,
+      cumulativeCashFlow,
+      cumulativeReturn,
+      loanBalance: lastMonth.loanBalance,
+      balloonPayment: sum("balloonPayment"),
+      interestPaid: sum("interest"),
+      refiProceeds: refiProceeds || undefined,
+    });
+  }
+
+  return projections;
+}
+
+/**
+ * Ledger months within the first N projection years (rehab-period months included)
+ */
+export function getLedgerMonths(
+  ledger: MonthlyLedgerEntry[],
+  years: number
+): MonthlyLedgerEntry[] {
+  return ledger.filter((entry) => entry.year <= years);
+}
@@ -0,0 +1,37 @@
+/**
+ * CSV helpers shared by the deal and rent roll imports
+ */
+
+/**
+ * Split one CSV line into trimmed values, honoring double-quoted fields
+ */
+export function parseCSVLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      values.push(current.trim().replace(/^"|"$/g, ""));
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current.trim().replace(/^"|"$/g, ""));
+  return values;
+}
+
+/**
+ * Number from a spreadsheet cell ("$1,250.00" -> 1250), undefined when blank or not numeric
+ */
+export function parseCSVNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ""));
+  return isNaN(parsed) ? undefined : parsed;
+}
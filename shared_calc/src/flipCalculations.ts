@@ -0,0 +1,169 @@
+/**
+ * Fix & Flip
+ * Month-by-month model of buying with a bridge loan, renovating and selling:
+ * - The purchase is funded at closing (LTC %), the rehab is funded in monthly
+ *   draws (financed rehab %), each financed draw paying lender points
+ * - Interest-only on the outstanding balance every month, plus taxes and insurance
+ * - Staging once the rehab is done, then the sale at ARV less selling costs
+ *   pays off the loan at the end of the holding period
+ */
+import { DealInputs } from "./types";
+import { getPreRepairCarryingCosts } from "./rehabCalculations";
+
+export const DEFAULT_FLIP_DRAW_POINTS_PERCENT = 2;
+export const DEFAULT_FLIP_LISTING_MONTHS = 3; // Listing and closing after the rehab
+export const FLIP_RULE_PERCENT = 70;
+
+export interface FlipMonth {
+  month: number; // 1-based month since purchase
+  draw: number; // Rehab work paid this month
+  financedDraw: number; // Part of the draw funded by the lender
+  drawPoints: number;
+  interest: number;
+  taxesInsurance: number;
+  otherCosts: number; // Staging
+  cashOutlay: number; // Everything out of pocket this month
+  loanBalance: number; // After this month's draw
+}
+
+export interface FlipResults {
+  holdingMonths: number;
+  purchaseLoan: number;
+  totalLoan: number; // Purchase loan + financed draws
+  closingCosts: number; // Bridge settlement charges at purchase
+  cashAtClosing: number; // Purchase price - purchase loan + closing costs
+  totalDrawPoints: number;
+  totalInterest: number;
+  totalTaxesInsurance: number;
+  stagingCost: number;
+  sellingCosts: number; // Listing commissions and seller closing costs
+  salePrice: number;
+  netSaleProceeds: number; // Sale price - selling costs - loan payoff
+  totalCashInvested: number;
+  netProfit: number;
+  roi: number; // Net profit / cash invested (%)
+  annualizedRoi: number; // ROI compounded to a 12-month rate (%)
+  maxAllowableOffer: number; // 70% rule: ARV x 70% - rehab
+  passes70Rule: boolean;
+  months: FlipMonth[];
+}
+
+/**
+ * Share of the rehab budget drawn in each month
+ * A custom schedule is scaled to total 100%; otherwise the draws are even over the rehab
+ */
+export function resolveFlipDrawSchedule(inputs: DealInputs): number[] {
+  const custom = (inputs.flipDrawSchedule ?? []).map((percent) =>
+    Math.max(0, percent || 0)
+  );
+  const customTotal = custom.reduce((total, percent) => total + percent, 0);
+  if (customTotal > 0) {
+    return custom.map((percent) => percent / customTotal);
+  }
+
+  const rehabMonths = Math.max(1, Math.round(inputs.rehabMonths || 0));
+  return Array(rehabMonths).fill(1 / rehabMonths);
+}
+
+export function calculateFlip(inputs: DealInputs): FlipResults {
+  const drawSchedule = resolveFlipDrawSchedule(inputs);
+  const holdingMonths = Math.max(
+    drawSchedule.length,
+    Math.round(
+      inputs.flipHoldingMonths ??
+        (inputs.rehabMonths || 0) + DEFAULT_FLIP_LISTING_MONTHS
+    )
+  );
+  const drawPointsRate =
+    (inputs.flipDrawPointsPercent ?? DEFAULT_FLIP_DRAW_POINTS_PERCENT) / 100;
+  const monthlyRate = inputs.rehabFinancingRate / 100 / 12;
+  const monthlyTaxesInsurance = getPreRepairCarryingCosts(inputs) / 12;
+  const stagingCost = inputs.flipStagingCost ?? 0;
+
+  // The lender never lends more than the ARLTV cap, across the purchase and every draw
+  const loanCap =
+    inputs.bridgeMaxARLTV > 0
+      ? inputs.afterRepairValue * (inputs.bridgeMaxARLTV / 100)
+      : Infinity;
+  const purchaseLoan = Math.min(
+    inputs.purchasePrice * (inputs.bridgeLTC / 100),
+    loanCap
+  );
+  const closingCosts =
+    inputs.bridgeSettlementCharges ?? inputs.purchasePrice * 0.06;
+  const cashAtClosing = inputs.purchasePrice - purchaseLoan + closingCosts;
+
+  let loanBalance = purchaseLoan;
+  const months: FlipMonth[] = [];
+  for (let month = 1; month <= holdingMonths; month++) {
+    const draw = inputs.rehabCost * (drawSchedule[month - 1] ?? 0);
+    const financedDraw = Math.min(
+      draw * (inputs.bridgeRehabBudgetPercent / 100),
+      Math.max(0, loanCap - loanBalance)
+    );
+    const drawPoints = financedDraw * drawPointsRate;
+    loanBalance += financedDraw;
+
+    // Draws fund at the start of the month, so they accrue interest right away
+    const interest = loanBalance * monthlyRate;
+    const otherCosts =
+      month === Math.min(drawSchedule.length + 1, holdingMonths)
+        ? stagingCost
+        : 0;
+
+    months.push({
+      month,
+      draw,
+      financedDraw,
+      drawPoints,
+      interest,
+      taxesInsurance: monthlyTaxesInsurance,
+      otherCosts,
+      cashOutlay:
+        draw -
+        financedDraw +
+        drawPoints +
+        interest +
+        monthlyTaxesInsurance +
+        otherCosts,
+      loanBalance,
+    });
+  }
+
+  const sum = (field: keyof FlipMonth) =>
+    months.reduce((total, row) => total + row[field], 0);
+
+  const salePrice = inputs.afterRepairValue;
+  const sellingCosts = salePrice * (inputs.sellClosingCosts / 100);
+  const netSaleProceeds = salePrice - sellingCosts - loanBalance;
+  const totalCashInvested = cashAtClosing + sum("cashOutlay");
+  const netProfit = netSaleProceeds - totalCashInvested;
+
+  const roi = totalCashInvested > 0 ? netProfit / totalCashInvested : 0;
+  const annualizedRoi =
+    roi > -1 ? Math.pow(1 + roi, 12 / holdingMonths) - 1 : -1;
+  const maxAllowableOffer =
+    inputs.afterRepairValue * (FLIP_RULE_PERCENT / 100) - inputs.rehabCost;
+
+  return {
+    holdingMonths,
+    purchaseLoan,
+    totalLoan: loanBalance,
+    closingCosts,
+    cashAtClosing,
+    totalDrawPoints: sum("drawPoints"),
+    totalInterest: sum("interest"),
+    totalTaxesInsurance: sum("taxesInsurance"),
+    stagingCost,
+    sellingCosts,
+    salePrice,
+    netSaleProceeds,
+    totalCashInvested,
+    netProfit,
+    roi: roi * 100,
+    annualizedRoi: annualizedRoi * 100,
+    maxAllowableOffer,
+    passes70Rule: inputs.purchasePrice <= maxAllowableOffer,
+    months,
+  };
+}
@@ -0,0 +1,15 @@
+// shared_calc - deal underwriting engine used by frontend_panel and backend_service
+export * from "./types";
+export * from "./calculations";
+export * from "./cashFlowLedger";
+export * from "./loanCalculator";
+export * from "./operatingExpenses";
+export * from "./rentRoll";
+export * from "./strSeasonality";
+export * from "./taxes";
+export * from "./rehabCalculations";
+export * from "./flipCalculations";
+export * from "./returnMetrics";
+export * from "./analysis";
+export * from "./arvCalculator";
+export * from "./arvConfidence";
@@ -0,0 +1,376 @@
+/**
+ * Loan & Amortization Engine
+ * Single source of truth for every financing calculation in the app
+ *
+ * Supports:
+ * - Fixed-rate fully amortizing loans (classic 30-year DSCR)
+ * - Interest-only periods (e.g. DSCR loan with 5 years IO, then amortizes over the remaining term)
+ * - ARMs with rate resets (e.g. 7/1 ARM with periodic and lifetime caps)
+ * - Balloon notes (remaining balance due at a given month)
+ * - Seller financing (same math - usually IO and/or balloon at the seller's rate)
+ * - Scheduled cash-out or rate-and-term refinances during a hold
+ * - Mortgage insurance on low down payment owner-occupied loans (FHA MIP, PMI)
+ */
+import {
+  AmortizationRow,
+  DealInputs,
+  LoanStructure,
+  RefinanceEvent,
+  RefinanceResult,
+} from "./types";
+
+export interface LoanTerms {
+  principal: number;
+  annualRate: number; // Initial note rate %
+  amortizationYears: number; // Full term of the loan
+  interestOnlyMonths?: number; // Payments are interest only for the first N months
+  balloonMonth?: number; // Remaining balance is due at the end of this month
+  arm?: {
+    initialFixedMonths: number; // 84 for a 7/1 ARM
+    adjustmentIntervalMonths: number; // 12 for a 7/1 ARM
+    fullyIndexedRate: number; // Expected index + margin at each reset %
+    periodicCap: number; // Max rate change per reset (percentage points)
+    lifetimeCap: number; // Max rate increase over the initial rate (percentage points)
+  };
+}
+
+/**
+ * Standard amortizing payment for a principal, annual rate % and number of months
+ * Handles 0% rates (seller financing is sometimes interest free)
+ */
+export function calculateMonthlyPayment(
+  principal: number,
+  annualRate: number,
+  months: number
+): number {
+  if (principal <= 0 || months <= 0) return 0;
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return principal / months;
+  return (
+    (principal * (monthlyRate * Math.pow(1 + monthlyRate, months))) /
+    (Math.pow(1 + monthlyRate, months) - 1)
+  );
+}
+
+/**
+ * Build a month-by-month amortization schedule
+ * The schedule always covers the full amortization term; months after a balloon
+ * payoff are zero rows so callers can index by month without bounds checks
+ */
+export function buildAmortizationSchedule(terms: LoanTerms): AmortizationRow[] {
+  const totalMonths = Math.max(0, Math.round(terms.amortizationYears * 12));
+  const interestOnlyMonths = Math.min(
+    Math.max(0, terms.interestOnlyMonths || 0),
+    totalMonths
+  );
+  const balloonMonth =
+    terms.balloonMonth && terms.balloonMonth > 0
+      ? Math.min(terms.balloonMonth, totalMonths)
+      : undefined;
+
+  const schedule: AmortizationRow[] = [];
+  let balance = Math.max(0, terms.principal);
+  let rate = terms.annualRate;
+  let payment = 0;
+  let needsRecast = true; // Recalculate payment at start, after IO ends and at each ARM reset
+
+  for (let month = 1; month <= totalMonths; month++) {
+    if (balance <= 0.005) {
+      schedule.push({
+        month,
+        rate,
+        payment: 0,
+        interest: 0,
+        principal: 0,
+        balloonPayment: 0,
+        balance: 0,
+      });
+      continue;
+    }
+
+    // ARM rate reset at the start of each adjustment period
+    if (terms.arm && month > terms.arm.initialFixedMonths) {
+      const monthsIntoAdjustable = month - terms.arm.initialFixedMonths - 1;
+      const interval = Math.max(1, terms.arm.adjustmentIntervalMonths);
+      if (monthsIntoAdjustable % interval === 0) {
+        const maxRate = terms.annualRate + terms.arm.lifetimeCap;
+        const targetRate = Math.min(terms.arm.fullyIndexedRate, maxRate);
+        const change = Math.max(
+          -terms.arm.periodicCap,
+          Math.min(terms.arm.periodicCap, targetRate - rate)
+        );
+        if (change !== 0) {
+          rate = rate + change;
+          needsRecast = true;
+        }
+      }
+    }
+
+    const isInterestOnly = month <= interestOnlyMonths;
+    if (month === interestOnlyMonths + 1) needsRecast = true;
+
+    const monthlyRate = rate / 100 / 12;
+    const interest = balance * monthlyRate;
+
+    if (isInterestOnly) {
+      payment = interest;
+    } else if (needsRecast) {
+      // Re-amortize the remaining balance over the remaining term
+      payment = calculateMonthlyPayment(balance, rate, totalMonths - month + 1);
+      needsRecast = false;
+    }
+
+    const principal = isInterestOnly ? 0 : Math.min(payment - interest, balance);
+    balance -= principal;
+
+    let balloonPayment = 0;
+    if (balloonMonth !== undefined && month === balloonMonth) {
+      balloonPayment = balance;
+      balance = 0;
+    }
+
+    schedule.push({
+      month,
+      rate,
+      payment: interest + principal,
+      interest,
+      principal,
+      balloonPayment,
+      balance,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Map a deal's loan structure onto engine terms
+ * Fixed loans ignore every optional feature so stale fields don't leak into the math
+ */
+export function buildLoanTerms(
+  principal: number,
+  annualRate: number,
+  termYears: number,
+  structure?: LoanStructure
+): LoanTerms {
+  const terms: LoanTerms = {
+    principal,
+    annualRate,
+    amortizationYears: termYears,
+  };
+
+  if (!structure || structure.type === "fixed") return terms;
+
+  if (structure.interestOnlyYears && structure.interestOnlyYears > 0) {
+    terms.interestOnlyMonths = Math.round(structure.interestOnlyYears * 12);
+  }
+
+  if (structure.type === "arm") {
+    terms.arm = {
+      initialFixedMonths: Math.round((structure.armInitialFixedYears ?? 7) * 12),
+      adjustmentIntervalMonths: Math.round(
+        (structure.armAdjustmentIntervalYears ?? 1) * 12
+      ),
+      fullyIndexedRate: structure.armFullyIndexedRate ?? annualRate,
+      periodicCap: structure.armPeriodicCap ?? 2,
+      lifetimeCap: structure.armLifetimeCap ?? 5,
+    };
+  }
+
+  if (
+    (structure.type === "balloon" || structure.type === "seller") &&
+    structure.balloonYears &&
+    structure.balloonYears > 0
+  ) {
+    terms.balloonMonth = Math.round(structure.balloonYears * 12);
+  }
+
+  return terms;
+}
+
+/**
+ * Purchase loan used by the hold strategies (LTR, Section 8, Airbnb)
+ */
+export function buildPurchaseLoanTerms(inputs: DealInputs): LoanTerms {
+  const downPaymentAmount = inputs.purchasePrice * (inputs.downPayment / 100);
+  const loanAmount = inputs.purchasePrice - downPaymentAmount;
+  return buildLoanTerms(
+    loanAmount,
+    inputs.loanInterestRate,
+    inputs.loanTerm,
+    inputs.loanStructure
+  );
+}
+
+/**
+ * Long-term DSCR loan that replaces the bridge loan on a BRRRR refinance
+ * Uses the exit refi rate and LTV, with the same loan structure as the purchase loan
+ */
+export function buildRefiLoanTerms(inputs: DealInputs): LoanTerms {
+  const newLoanAmount = inputs.afterRepairValue * (inputs.exitRefiLTV / 100);
+  return buildLoanTerms(
+    newLoanAmount,
+    inputs.exitRefiRate,
+    inputs.loanTerm,
+    inputs.loanStructure
+  );
+}
+
+/**
+ * Splice scheduled refinances into a loan schedule
+ * A refi closes at the end of the first month of its year: that month's payment is
+ * still on the old loan, the balance becomes the new loan, and the new loan's
+ * payments start the following month. New loans are fixed rate and fully amortizing.
+ */
+export function applyRefinances(
+  schedule: AmortizationRow[],
+  events: RefinanceEvent[],
+  valueAtMonth: (month: number) => number
+): { schedule: AmortizationRow[]; refinances: RefinanceResult[] } {
+  let combined = schedule;
+  const refinances: RefinanceResult[] = [];
+  const ordered = events
+    .filter((event) => event.year >= 1)
+    .sort((a, b) => a.year - b.year);
+
+  for (const event of ordered) {
+    const month = (Math.round(event.year) - 1) * 12 + 1;
+    // All-cash deals and paid-off loans still need rows up to the closing month
+    while (combined.length < month) {
+      combined = [
+        ...combined,
+        {
+          month: combined.length + 1,
+          rate: 0,
+          payment: 0,
+          interest: 0,
+          principal: 0,
+          balloonPayment: 0,
+          balance: 0,
+        },
+      ];
+    }
+
+    const closingRow = combined[month - 1];
+    const payoffAmount = closingRow.balance;
+    const propertyValue = event.appraisedValue || valueAtMonth(month);
+    const maxLoan = propertyValue * (event.ltvPercent / 100);
+    const costRate = event.closingCostsPercent / 100;
+    // Rate-and-term rolls its closing costs into the new loan, still capped by the LTV
+    const newLoanAmount =
+      event.type === "cashOut"
+        ? maxLoan
+        : Math.min(maxLoan, payoffAmount / Math.max(0.01, 1 - costRate));
+    const closingCosts = newLoanAmount * costRate;
+    const newLoan = buildAmortizationSchedule(
+      buildLoanTerms(newLoanAmount, event.interestRate, event.termYears)
+    );
+
+    combined = [
+      ...combined.slice(0, month - 1),
+      { ...closingRow, balance: newLoanAmount },
+      ...newLoan.map((row) => ({ ...row, month: row.month + month })),
+    ];
+    refinances.push({
+      eventId: event.id,
+      year: event.year,
+      month,
+      propertyValue,
+      payoffAmount,
+      newLoanAmount,
+      closingCosts,
+      cashOutProceeds: newLoanAmount - payoffAmount - closingCosts,
+      newMonthlyPayment: newLoan[0]?.payment ?? 0,
+    });
+  }
+
+  return { schedule: combined, refinances };
+}
+
+export interface MortgageInsuranceTerms {
+  annualPercent: number; // Annual premium as % of the loan balance
+  onOriginalBalance?: boolean; // PMI is priced on the original loan, FHA MIP on the declining balance
+  cancelAtBalance?: number; // Premiums stop once the balance falls to this (PMI cancels at 78% LTV)
+}
+
+/**
+ * Add a monthly mortgage insurance premium to each payment of a schedule
+ * The premium for a month is based on the balance going into that month
+ */
+export function applyMortgageInsurance(
+  schedule: AmortizationRow[],
+  insurance: MortgageInsuranceTerms
+): AmortizationRow[] {
+  const monthlyRate = insurance.annualPercent / 100 / 12;
+  const originalBalance = schedule.length
+    ? schedule[0].balance + schedule[0].principal
+    : 0;
+  let openingBalance = originalBalance;
+
+  return schedule.map((row) => {
+    const cancelled =
+      openingBalance <= 0 ||
+      (insurance.cancelAtBalance !== undefined &&
+        openingBalance <= insurance.cancelAtBalance);
+    const premium = cancelled
+      ? 0
+      : (insurance.onOriginalBalance ? originalBalance : openingBalance) *
+        monthlyRate;
+    openingBalance = row.balance;
+    return premium > 0
+      ? { ...row, payment: row.payment + premium, mortgageInsurance: premium }
+      : row;
+  });
+}
+
+/**
+ * Purchase loan schedule with the deal's scheduled refinances applied
+ * The refi value is the purchase price appreciated to the closing month
+ */
+export function buildHoldLoanSchedule(
+  inputs: DealInputs,
+  appreciationPercent: number
+): { schedule: AmortizationRow[]; refinances: RefinanceResult[] } {
+  return applyRefinances(
+    buildAmortizationSchedule(buildPurchaseLoanTerms(inputs)),
+    inputs.refinanceEvents ?? [],
+    (month) =>
+      inputs.purchasePrice * Math.pow(1 + appreciationPercent / 100, month / 12)
+  );
+}
+
+/**
+ * Sum of scheduled payments (excluding balloon) for a 1-based projection year
+ */
+export function getAnnualDebtService(
+  schedule: AmortizationRow[],
+  year: number
+): number {
+  return schedule
+    .slice((year - 1) * 12, year * 12)
+    .reduce((sum, row) => sum + row.payment, 0);
+}
+
+/**
+ * Balloon amount due within a 1-based projection year
+ */
+export function getAnnualBalloonPayment(
+  schedule: AmortizationRow[],
+  year: number
+): number {
+  return schedule
+    .slice((year - 1) * 12, year * 12)
+    .reduce((sum, row) => sum + row.balloonPayment, 0);
+}
+
+/**
+ * Loan balance at the end of a 1-based projection year
+ * Returns 0 once the schedule has run out (loan paid off)
+ */
+export function getBalanceAtEndOfYear(
+  schedule: AmortizationRow[],
+  year: number
+): number {
+  const row = schedule[year * 12 - 1];
+  return row ? row.balance : 0;
+}
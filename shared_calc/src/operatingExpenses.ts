@@ -0,0 +1,103 @@
+/**
+ * Itemized Operating Expenses
+ * Each line is either a % of effective income, a fixed $/year, or $/unit/month,
+ * with its own annual growth rate. Deals can override the global default schedule.
+ */
+import {
+  DealInputs,
+  ExpenseBasis,
+  ExpenseBreakdownItem,
+  GlobalAssumptions,
+  OperatingExpenseKey,
+  OperatingExpenseLine,
+} from "./types";
+
+export const OPERATING_EXPENSE_LABELS: Record<OperatingExpenseKey, string> = {
+  management: "Property Management",
+  maintenance: "Maintenance & Repairs",
+  capexReserve: "CapEx Reserve",
+  utilities: "Owner-Paid Utilities",
+  hoa: "HOA Dues",
+  lawnPest: "Lawn & Pest",
+  turnover: "Turnover / Make-Ready",
+};
+
+export const EXPENSE_BASIS_LABELS: Record<ExpenseBasis, string> = {
+  percentOfIncome: "% of income",
+  annual: "$ / year",
+  perUnitMonthly: "$ / unit / month",
+};
+
+/**
+ * Default schedule from global assumptions
+ * Older saved assumptions only have maintenancePercent - every other line starts at 0
+ */
+export function getDefaultOperatingExpenses(
+  assumptions: GlobalAssumptions
+): OperatingExpenseLine[] {
+  if (assumptions.operatingExpenses && assumptions.operatingExpenses.length > 0) {
+    return assumptions.operatingExpenses;
+  }
+
+  return [
+    { key: "management", basis: "percentOfIncome", amount: 0, growthPercent: 0 },
+    {
+      key: "maintenance",
+      basis: "percentOfIncome",
+      amount: assumptions.maintenancePercent,
+      growthPercent: 0,
+    },
+    { key: "capexReserve", basis: "percentOfIncome", amount: 0, growthPercent: 0 },
+    { key: "utilities", basis: "perUnitMonthly", amount: 0, growthPercent: 3 },
+    { key: "hoa", basis: "annual", amount: 0, growthPercent: 3 },
+    { key: "lawnPest", basis: "annual", amount: 0, growthPercent: 3 },
+    { key: "turnover", basis: "annual", amount: 0, growthPercent: 3 },
+  ];
+}
+
+/**
+ * Expense schedule for a deal - its own lines if set, otherwise the global defaults
+ */
+export function resolveOperatingExpenses(
+  inputs: DealInputs,
+  assumptions: GlobalAssumptions
+): OperatingExpenseLine[] {
+  return inputs.operatingExpenses && inputs.operatingExpenses.length > 0
+    ? inputs.operatingExpenses
+    : getDefaultOperatingExpenses(assumptions);
+}
+
+/**
+ * Annual dollar amount of each line for a 1-based projection year
+ */
+export function calculateExpenseLines(
+  lines: OperatingExpenseLine[],
+  effectiveIncome: number,
+  units: number,
+  year: number
+): ExpenseBreakdownItem[] {
+  return lines.map((line) => {
+    const growth = Math.pow(1 + (line.growthPercent || 0) / 100, year - 1);
+    let amount = 0;
+    if (line.basis === "percentOfIncome") {
+      amount = effectiveIncome * (line.amount / 100);
+    } else if (line.basis === "annual") {
+      amount = line.amount * growth;
+    } else {
+      amount = line.amount * 12 * units * growth;
+    }
+
+    return {
+      key: line.key,
+      label: OPERATING_EXPENSE_LABELS[line.key],
+      amount,
+    };
+  });
+}
+
+/**
+ * Sum of a set of expense lines
+ */
+export function sumExpenseLines(items: ExpenseBreakdownItem[]): number {
+  return items.reduce((total, item) => total + item.amount, 0);
+}
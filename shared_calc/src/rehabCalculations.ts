@@ -1,5 +1,10 @@
-import { DealInputs } from "../types/deal";
+import { DealInputs } from "./types";
 import { formatCurrency } from "./calculations";
+import {
+  buildAmortizationSchedule,
+  buildRefiLoanTerms,
+  getAnnualDebtService,
+} from "./loanCalculator";
 
 export interface RehabExitScenario {
   exitType: "sell" | "refi";
@@ -25,14 +30,40 @@ export interface RehabExitScenario {
   fundsGap?: number; // Positive = shortfall, Negative = surplus
 }
 
+/**
+ * Annual property taxes and insurance while the property is being renovated
+ * Based on the purchase price, since the property is not yet worth the ARV
+ */
+export function getPreRepairCarryingCosts(inputs: DealInputs): number {
+  // Property taxes during rehab: 2.0% of purchase price for Broward investment properties
+  const preRepairTaxes = inputs.purchasePrice * 0.02; // Annual
+
+  // Property insurance during rehab: Calculate based on purchase price sqft and property age
+  const preRepairInsurance =
+    inputs.totalSqft && inputs.totalSqft > 0
+      ? (() => {
+          // Use same logic as insuranceCalculator but for purchase price
+          const currentYear = new Date().getFullYear();
+          const age = currentYear - inputs.yearBuilt;
+          let baseRatePerSqft: number;
+
+          if (age <= 5) baseRatePerSqft = 2.5;
+          else if (age <= 15) baseRatePerSqft = 3.0;
+          else if (age <= 30) baseRatePerSqft = 3.5;
+          else if (age <= 50) baseRatePerSqft = 4.25;
+          else baseRatePerSqft = 5.0;
+
+          return Math.round((inputs.totalSqft * baseRatePerSqft) / 50) * 50;
+        })()
+      : inputs.purchasePrice * 0.012; // Fallback: 1.2% of purchase price (mid-range for 20-30 year old property)
+
+  return preRepairTaxes + preRepairInsurance;
+}
+
 export function calculateRehabScenarios(inputs: DealInputs): {
   sellScenario: RehabExitScenario;
   refiScenario: RehabExitScenario;
 } {
-  // Calculate acquisition costs (use editable amount or calculate from percentage - default 5%)
-  const acquisitionCostsAmount =
-    inputs.acquisitionCostsAmount ?? inputs.purchasePrice * 0.05;
-
   // Total project cost = purchase + rehab
   const totalProjectCost = inputs.purchasePrice + inputs.rehabCost;
 
@@ -61,29 +92,7 @@ export function calculateRehabScenarios(inputs: DealInputs): {
   const monthlyRehabInterest =
     hardMoneyLoanAmount * (inputs.rehabFinancingRate / 100 / 12);
 
-  // Property taxes during rehab: 2.0% of purchase price for Broward investment properties
-  const preRepairTaxes = inputs.purchasePrice * 0.02; // Annual
-
-  // Property insurance during rehab: Calculate based on purchase price sqft and property age
-  const preRepairInsurance =
-    inputs.totalSqft && inputs.totalSqft > 0
-      ? (() => {
-          // Use same logic as insuranceCalculator but for purchase price
-          const currentYear = new Date().getFullYear();
-          const age = currentYear - inputs.yearBuilt;
-          let baseRatePerSqft: number;
-
-          if (age <= 5) baseRatePerSqft = 2.5;
-          else if (age <= 15) baseRatePerSqft = 3.0;
-          else if (age <= 30) baseRatePerSqft = 3.5;
-          else if (age <= 50) baseRatePerSqft = 4.25;
-          else baseRatePerSqft = 5.0;
-
-          return Math.round((inputs.totalSqft * baseRatePerSqft) / 50) * 50;
-        })()
-      : inputs.purchasePrice * 0.012; // Fallback: 1.2% of purchase price (mid-range for 20-30 year old property)
-
-  const monthlyTaxesInsurance = (preRepairTaxes + preRepairInsurance) / 12;
+  const monthlyTaxesInsurance = getPreRepairCarryingCosts(inputs) / 12;
   const rehabCarryingCosts =
     (monthlyRehabInterest + monthlyTaxesInsurance) * inputs.rehabMonths;
 
@@ -135,13 +144,11 @@ export function calculateRehabScenarios(inputs: DealInputs): {
   // Equity in the property = ARV - New Loan
   const equityRetained = inputs.afterRepairValue - newLoanAmount;
 
-  // Calculate new monthly payment based on new loan using EXIT REFI RATE
-  const monthlyRate = inputs.exitRefiRate / 100 / 12;
-  const numPayments = inputs.loanTerm * 12;
-  const newMonthlyPayment =
-    (newLoanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments))) /
-    (Math.pow(1 + monthlyRate, numPayments) - 1);
-  const newAnnualDebtService = newMonthlyPayment * 12;
+  // Calculate new payment based on new loan using EXIT REFI RATE and the deal's loan structure
+  // (first payment reflects any interest-only period; annual figure is year 1 of the schedule)
+  const refiSchedule = buildAmortizationSchedule(buildRefiLoanTerms(inputs));
+  const newMonthlyPayment = refiSchedule[0]?.payment ?? 0;
+  const newAnnualDebtService = getAnnualDebtService(refiSchedule, 1);
 
   const refiScenario: RehabExitScenario = {
     exitType: "refi",
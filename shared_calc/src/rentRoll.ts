@@ -0,0 +1,205 @@
+/**
+ * Rent Roll
+ * In-place leases on occupied units:
+ * - Current rent holds flat until the lease ends (month-to-month tenants can be moved right away)
+ * - At lease end the unit marks to market: turnover (vacant, then re-let at the target rent),
+ *   renewal at the target rent, or keeping the tenant at current rent plus rent growth
+ * - Rent rolls import from CSV exports of property management software
+ */
+import { MarkToMarketPlan, TenantType, UnitDetail } from "./types";
+import { parseCSVLine, parseCSVNumber } from "./csv";
+
+export const DEFAULT_TURNOVER_VACANCY_MONTHS = 1;
+
+const AVERAGE_DAYS_PER_MONTH = 30.4375;
+
+export interface UnitRentYear {
+  grossRent: number; // Scheduled rent for the year, including months lost to turnover
+  turnoverVacancy: number; // Rent lost while the unit turns over after the lease ends
+  marketRent: number; // Rent from months at the target rent, subject to the usual vacancy allowance
+}
+
+export function hasInPlaceLease(unit: UnitDetail): boolean {
+  return (unit.currentRent ?? 0) > 0;
+}
+
+/**
+ * Whole months left on the lease (0 for month-to-month or expired leases)
+ */
+export function getLeaseMonthsRemaining(
+  unit: UnitDetail,
+  asOf: Date = new Date()
+): number {
+  if (!unit.leaseEndDate) return 0;
+  const leaseEnd = new Date(unit.leaseEndDate);
+  if (isNaN(leaseEnd.getTime())) return 0;
+  const days = (leaseEnd.getTime() - asOf.getTime()) / (1000 * 60 * 60 * 24);
+  return Math.max(0, Math.round(days / AVERAGE_DAYS_PER_MONTH));
+}
+
+/**
+ * One unit's rent for a 1-based projection year
+ * targetRent is the year-1 monthly rent the strategy expects; it grows annually like
+ * every other rent in the projections
+ */
+export function getUnitRentForYear(
+  unit: UnitDetail,
+  targetRent: number,
+  year: number,
+  rentGrowthPercent: number,
+  turnoverVacancyMonths: number,
+  asOf: Date = new Date()
+): UnitRentYear {
+  const growth = Math.pow(1 + rentGrowthPercent / 100, year - 1);
+  const target = targetRent * growth;
+
+  if (!hasInPlaceLease(unit)) {
+    return {
+      grossRent: target * 12,
+      turnoverVacancy: 0,
+      marketRent: target * 12,
+    };
+  }
+
+  const currentRent = unit.currentRent ?? 0;
+  const plan: MarkToMarketPlan = unit.markToMarketPlan ?? "turnover";
+  if (plan === "keep") {
+    return {
+      grossRent: currentRent * growth * 12,
+      turnoverVacancy: 0,
+      marketRent: 0,
+    };
+  }
+
+  const leaseMonths = getLeaseMonthsRemaining(unit, asOf);
+  const turnoverMonths = plan === "turnover" ? turnoverVacancyMonths : 0;
+  const result: UnitRentYear = {
+    grossRent: 0,
+    turnoverVacancy: 0,
+    marketRent: 0,
+  };
+  for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+    if (month <= leaseMonths) {
+      result.grossRent += currentRent;
+      continue;
+    }
+    // Share of this month the unit sits empty (turnover can end mid-month)
+    const vacantShare = Math.min(
+      1,
+      Math.max(0, leaseMonths + turnoverMonths - (month - 1))
+    );
+    result.grossRent += target;
+    result.turnoverVacancy += target * vacantShare;
+    result.marketRent += target * (1 - vacantShare);
+  }
+  return result;
+}
+
+// Rent roll columns by normalized header (lowercase letters and digits only)
+const RENT_ROLL_HEADERS: Record<string, keyof UnitDetail> = {
+  beds: "beds",
+  bedrooms: "beds",
+  bd: "beds",
+  br: "beds",
+  baths: "baths",
+  bathrooms: "baths",
+  ba: "baths",
+  sqft: "sqft",
+  squarefeet: "sqft",
+  sf: "sqft",
+  rent: "currentRent",
+  currentrent: "currentRent",
+  contractrent: "currentRent",
+  leaserent: "currentRent",
+  marketrent: "marketRent",
+  leaseend: "leaseEndDate",
+  leaseenddate: "leaseEndDate",
+  leaseexpiration: "leaseEndDate",
+  leaseexp: "leaseEndDate",
+  moveout: "leaseEndDate",
+  deposit: "securityDeposit",
+  securitydeposit: "securityDeposit",
+  tenanttype: "tenantType",
+  section8: "tenantType",
+  plan: "markToMarketPlan",
+  marktomarket: "markToMarketPlan",
+};
+
+const MARK_TO_MARKET_PLANS: MarkToMarketPlan[] = ["turnover", "renew", "keep"];
+
+// "3/31/2027" or "2027-03-31" -> "2027-03-31"
+function parseLeaseDate(value: string): string | undefined {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+// "Section 8", "HCV", "Voucher" or a yes in a Section 8 column
+function parseTenantType(value: string): TenantType {
+  return /8|hcv|voucher|housing|^y(es)?$/i.test(value) ? "section8" : "market";
+}
+
+/**
+ * Parse a rent roll CSV (one row per unit) into unit details
+ * Only the columns present are set, so the result can be merged over existing units
+ */
+export function parseRentRollCSV(csvText: string): Partial<UnitDetail>[] {
+  const lines = csvText.trim().split(/\r?\n/);
+  if (lines.length < 2) {
+    throw new Error("Rent roll is empty or has no unit rows");
+  }
+
+  const columns = parseCSVLine(lines[0]).map(
+    (header) =>
+      RENT_ROLL_HEADERS[header.toLowerCase().replace(/[^a-z0-9]/g, "")]
+  );
+  if (!columns.includes("currentRent")) {
+    throw new Error("Rent roll needs a rent column");
+  }
+
+  const units: Partial<UnitDetail>[] = [];
+  for (const line of lines.slice(1)) {
+    const values = parseCSVLine(line);
+    // Skip blank lines and the totals row most exports end with
+    if (!line.trim() || /^total/i.test(values[0] ?? "")) continue;
+    const unit: Partial<UnitDetail> = {};
+
+    columns.forEach((field, index) => {
+      const value = values[index]?.trim();
+      if (!field || !value) return;
+      switch (field) {
+        case "leaseEndDate":
+          unit.leaseEndDate = parseLeaseDate(value);
+          break;
+        case "tenantType":
+          unit.tenantType = parseTenantType(value);
+          break;
+        case "markToMarketPlan": {
+          const plan = value.toLowerCase() as MarkToMarketPlan;
+          if (MARK_TO_MARKET_PLANS.includes(plan)) unit.markToMarketPlan = plan;
+          break;
+        }
+        default: {
+          const amount = parseCSVNumber(value);
+          if (amount !== undefined) {
+            (unit as Record<string, number>)[field] = amount;
+          }
+        }
+      }
+    });
+
+    // Notes and section headers carry neither a rent nor a unit size
+    if (unit.currentRent !== undefined || unit.beds !== undefined) {
+      units.push(unit);
+    }
+  }
+
+  if (units.length === 0) {
+    throw new Error("No units found in the rent roll");
+  }
+  return units;
+}
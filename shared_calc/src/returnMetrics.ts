@@ -0,0 +1,138 @@
+/**
+ * Time-Value Return Metrics
+ * Levered/unlevered IRR, NPV and equity multiple for a strategy, assuming the
+ * property is sold at the end of a given hold year
+ *
+ * Levered: equity in (cash invested, less any BRRRR refi cash out), annual cash
+ * flow plus any scheduled refi cash out, then sale price - selling costs - loan payoff
+ * Unlevered: all-cash purchase, annual NOI, then sale price - selling costs
+ * After-tax: levered flows after income tax each year and the tax on the sale
+ */
+import { ReturnMetrics, StrategyResults, TaxSettings } from "./types";
+import { calculateSaleTax, DEFAULT_TAX_SETTINGS } from "./taxes";
+
+export const DEFAULT_DISCOUNT_RATE_PERCENT = 8;
+
+/**
+ * Net present value of annual cash flows (index 0 = today)
+ */
+export function calculateNPV(
+  discountRatePercent: number,
+  cashFlows: number[]
+): number {
+  const rate = discountRatePercent / 100;
+  return cashFlows.reduce(
+    (total, cashFlow, year) => total + cashFlow / Math.pow(1 + rate, year),
+    0
+  );
+}
+
+/**
+ * Internal rate of return (%) of annual cash flows (index 0 = today)
+ * Bisection on the NPV curve - returns null when there is no sign change
+ * (e.g. all cash pulled out at the refi, or the deal never pays back)
+ */
+export function calculateIRR(cashFlows: number[]): number | null {
+  const npvAt = (rate: number) =>
+    cashFlows.reduce(
+      (total, cashFlow, year) => total + cashFlow / Math.pow(1 + rate, year),
+      0
+    );
+
+  let low = -0.99;
+  let high = 10;
+  let npvLow = npvAt(low);
+  const npvHigh = npvAt(high);
+  if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) {
+    return null;
+  }
+
+  while (high - low > 1e-8) {
+    const mid = (low + high) / 2;
+    const npvMid = npvAt(mid);
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+}
+
+/**
+ * IRR, NPV and equity multiple for a sale at the end of holdYears
+ */
+export function calculateReturnMetrics(
+  results: StrategyResults,
+  holdYears: number,
+  sellClosingCostsPercent: number,
+  discountRatePercent: number = DEFAULT_DISCOUNT_RATE_PERCENT,
+  taxSettings: TaxSettings = DEFAULT_TAX_SETTINGS,
+  exchange1031: boolean = false
+): ReturnMetrics {
+  const years = Math.max(
+    1,
+    Math.min(Math.round(holdYears), results.projections.length)
+  );
+  const exitYear = results.projections[years - 1];
+  const salePrice = exitYear ? exitYear.propertyValue : 0;
+  const netSalePrice = salePrice * (1 - sellClosingCostsPercent / 100);
+  const netSaleProceeds = netSalePrice - (exitYear ? exitYear.loanBalance : 0);
+
+  // BRRRR refi cash out comes back before the first projection year
+  const refiProceeds = results.monthlyLedger
+    .filter((entry) => entry.year === 0)
+    .reduce((total, entry) => total + (entry.refiProceeds || 0), 0);
+  const equityInvested = results.cashInvested - refiProceeds;
+  const saleTax = calculateSaleTax(
+    results,
+    years,
+    netSalePrice,
+    taxSettings,
+    exchange1031
+  );
+
+  const leveredFlows = [-equityInvested];
+  const unleveredFlows = [-results.totalProjectCost];
+  const afterTaxFlows = [-equityInvested];
+  for (let year = 1; year <= years; year++) {
+    const projection = results.projections[year - 1];
+    const isExitYear = year === years;
+    // Refi cash out during the hold is loan proceeds - a distribution, not taxable
+    const cashOut = projection.refiProceeds || 0;
+    leveredFlows.push(
+      projection.cashFlow + cashOut + (isExitYear ? netSaleProceeds : 0)
+    );
+    unleveredFlows.push(projection.noi + (isExitYear ? netSalePrice : 0));
+    afterTaxFlows.push(
+      (projection.afterTaxCashFlow ?? projection.cashFlow) +
+        cashOut +
+        (isExitYear ? netSaleProceeds - saleTax.totalTax : 0)
+    );
+  }
+
+  const totalDistributions = leveredFlows
+    .slice(1)
+    .reduce((total, cashFlow) => total + cashFlow, 0);
+
+  return {
+    holdYears: years,
+    leveredIRR: calculateIRR(leveredFlows),
+    unleveredIRR: calculateIRR(unleveredFlows),
+    npv: calculateNPV(discountRatePercent, leveredFlows),
+    equityMultiple:
+      equityInvested > 0 ? totalDistributions / equityInvested : null,
+    netSaleProceeds,
+    afterTaxIRR: calculateIRR(afterTaxFlows),
+    saleTax,
+  };
+}
+
+/**
+ * Display helper - IRR can be undefined for infinite-return deals
+ */
+export function formatIRR(irr: number | null): string {
+  return irr === null ? "—" : `${irr.toFixed(1)}%`;
+}
@@ -0,0 +1,232 @@
+/**
+ * Seasonal Short-Term Rental Model
+ * Builds a unit's year month by month from 12 nightly rates (ADR) and occupancy %:
+ * - Booked nights split into stays by the average length of stay; every stay pays a
+ *   cleaning fee and costs one cleaning turnover
+ * - The host-side platform fee comes off booking revenue (nightly + cleaning fees)
+ * - Florida sales tax plus the Broward tourist development tax are charged to guests on
+ *   top of the booking and remitted, so they're tracked but never count as income
+ * - AirDNA monthly exports (date, ADR, occupancy) fill the curves
+ */
+import { StrSeasonality, StrSeasonMonth, UnitDetail } from "./types";
+import { parseCSVLine, parseCSVNumber } from "./csv";
+
+export const DEFAULT_STR_AVERAGE_STAY_NIGHTS = 3;
+export const DEFAULT_STR_PLATFORM_FEE_PERCENT = 3;
+// 6% Florida sales tax + 1% Broward surtax + 5% Broward tourist development tax
+export const DEFAULT_STR_LODGING_TAX_PERCENT = 12;
+// Occupancy used to turn a flat annual revenue into a starting monthly curve
+export const DEFAULT_STR_OCCUPANCY_PERCENT = 65;
+
+export const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export interface StrBookingRates {
+  platformFeePercent: number;
+  lodgingTaxPercent: number;
+}
+
+export function hasSeasonalCurve(unit: UnitDetail): boolean {
+  return (
+    unit.strMonthlyADR?.length === 12 && unit.strMonthlyOccupancy?.length === 12
+  );
+}
+
+/**
+ * Year-1 bookings for one unit, one row per calendar month
+ */
+export function calculateUnitSeason(
+  unit: UnitDetail,
+  rates: StrBookingRates
+): StrSeasonMonth[] {
+  const stayNights = Math.max(
+    1,
+    unit.strAverageStayNights ?? DEFAULT_STR_AVERAGE_STAY_NIGHTS
+  );
+
+  return DAYS_IN_MONTH.map((days, index) => {
+    const adr = unit.strMonthlyADR?.[index] ?? 0;
+    const occupancyPercent = Math.min(
+      100,
+      Math.max(0, unit.strMonthlyOccupancy?.[index] ?? 0)
+    );
+    const bookedNights = days * (occupancyPercent / 100);
+    const stays = bookedNights / stayNights;
+    const nightlyRevenue = bookedNights * adr;
+    const cleaningFees = stays * (unit.strCleaningFee || 0);
+    const grossRevenue = nightlyRevenue + cleaningFees;
+    const platformFees = grossRevenue * (rates.platformFeePercent / 100);
+    const cleaningCosts = stays * (unit.strCleaningCost || 0);
+
+    return {
+      month: index + 1,
+      adr,
+      occupancyPercent,
+      bookedNights,
+      stays,
+      nightlyRevenue,
+      cleaningFees,
+      grossRevenue,
+      platformFees,
+      cleaningCosts,
+      lodgingTax: grossRevenue * (rates.lodgingTaxPercent / 100),
+      netRevenue: grossRevenue - platformFees - cleaningCosts,
+    };
+  });
+}
+
+/**
+ * Add up several units' seasons and measure how much the months swing
+ */
+export function summarizeSeason(
+  unitSeasons: StrSeasonMonth[][]
+): StrSeasonality {
+  const unitCount = Math.max(1, unitSeasons.length);
+  const months = MONTH_LABELS.map((_, index) => {
+    const rows = unitSeasons.map((season) => season[index]);
+    const sum = (field: keyof StrSeasonMonth) =>
+      rows.reduce((total, row) => total + row[field], 0);
+    const bookedNights = sum("bookedNights");
+    const nightlyRevenue = sum("nightlyRevenue");
+    return {
+      month: index + 1,
+      adr: bookedNights > 0 ? nightlyRevenue / bookedNights : 0,
+      occupancyPercent: sum("occupancyPercent") / unitCount,
+      bookedNights,
+      stays: sum("stays"),
+      nightlyRevenue,
+      cleaningFees: sum("cleaningFees"),
+      grossRevenue: sum("grossRevenue"),
+      platformFees: sum("platformFees"),
+      cleaningCosts: sum("cleaningCosts"),
+      lodgingTax: sum("lodgingTax"),
+      netRevenue: sum("netRevenue"),
+    };
+  });
+
+  const total = (field: keyof StrSeasonMonth) =>
+    months.reduce((sum, month) => sum + month[field], 0);
+  const annualNetRevenue = total("netRevenue");
+  const averageMonth = annualNetRevenue / 12;
+  const monthlyStdDev = Math.sqrt(
+    months.reduce(
+      (sum, month) => sum + Math.pow(month.netRevenue - averageMonth, 2),
+      0
+    ) / 12
+  );
+  const byNet = [...months].sort((a, b) => b.netRevenue - a.netRevenue);
+
+  return {
+    months,
+    annualGrossRevenue: total("grossRevenue"),
+    annualNetRevenue,
+    annualLodgingTax: total("lodgingTax"),
+    peakMonth: byNet[0].month,
+    lowMonth: byNet[byNet.length - 1].month,
+    monthlyStdDev,
+    coefficientOfVariation:
+      averageMonth !== 0 ? (monthlyStdDev / Math.abs(averageMonth)) * 100 : 0,
+  };
+}
+
+/**
+ * Flat starting curve that reproduces a unit's annual revenue at the default occupancy
+ */
+export function buildFlatSeasonalCurve(annualRevenue: number): {
+  strMonthlyADR: number[];
+  strMonthlyOccupancy: number[];
+} {
+  const bookedNights = 365 * (DEFAULT_STR_OCCUPANCY_PERCENT / 100);
+  const adr = bookedNights > 0 ? Math.round(annualRevenue / bookedNights) : 0;
+  return {
+    strMonthlyADR: Array(12).fill(adr),
+    strMonthlyOccupancy: Array(12).fill(DEFAULT_STR_OCCUPANCY_PERCENT),
+  };
+}
+
+// Calendar month (0-11) from "2024-03-01", "3/1/2024", "Mar 2024", "March" or "3"
+function parseMonthIndex(value: string): number | undefined {
+  const iso = value.match(/^\d{4}-(\d{1,2})/);
+  if (iso) return Number(iso[1]) - 1;
+  const us = value.match(/^(\d{1,2})\/\d{1,2}\/\d{2,4}$/);
+  if (us) return Number(us[1]) - 1;
+  const name = MONTH_LABELS.findIndex((label) =>
+    value.toLowerCase().startsWith(label.toLowerCase())
+  );
+  if (name >= 0) return name;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 1 && number <= 12
+    ? number - 1
+    : undefined;
+}
+
+/**
+ * Monthly ADR and occupancy curves from an AirDNA-style CSV export
+ * Multi-year exports are averaged by calendar month
+ */
+export function parseAirDnaCSV(csvText: string): {
+  strMonthlyADR: number[];
+  strMonthlyOccupancy: number[];
+} {
+  const lines = csvText.trim().split(/\r?\n/);
+  if (lines.length < 2) {
+    throw new Error("AirDNA export is empty or has no monthly rows");
+  }
+
+  const headers = parseCSVLine(lines[0]).map((header) => header.toLowerCase());
+  const monthColumn = headers.findIndex((header) =>
+    /date|month|period/.test(header)
+  );
+  const adrColumn = headers.findIndex((header) =>
+    /adr|daily rate/.test(header)
+  );
+  const occupancyColumn = headers.findIndex((header) =>
+    header.includes("occupancy")
+  );
+  if (monthColumn < 0 || adrColumn < 0 || occupancyColumn < 0) {
+    throw new Error("AirDNA export needs month, ADR and occupancy columns");
+  }
+
+  const totals = MONTH_LABELS.map(() => ({ adr: 0, occupancy: 0, rows: 0 }));
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const values = parseCSVLine(line);
+    const month = parseMonthIndex(values[monthColumn] ?? "");
+    const adr = parseCSVNumber(values[adrColumn]);
+    const occupancy = parseCSVNumber(values[occupancyColumn]?.replace("%", ""));
+    if (month === undefined || adr === undefined || occupancy === undefined) {
+      continue;
+    }
+    totals[month].adr += adr;
+    // Occupancy comes as a fraction (0.72) or a percentage (72)
+    totals[month].occupancy += occupancy <= 1 ? occupancy * 100 : occupancy;
+    totals[month].rows += 1;
+  }
+
+  const missing = totals
+    .map((total, index) => (total.rows === 0 ? MONTH_LABELS[index] : null))
+    .filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`AirDNA export is missing ${missing.join(", ")}`);
+  }
+
+  return {
+    strMonthlyADR: totals.map((total) => Math.round(total.adr / total.rows)),
+    strMonthlyOccupancy: totals.map(
+      (total) => Math.round((total.occupancy / total.rows) * 10) / 10
+    ),
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Income Tax Modeling
+ * Layers federal income tax on top of the pre-tax projections:
+ * - Residential straight-line depreciation of the building over 27.5 years
+ *   (mid-month convention, placed in service in month 1); land never depreciates
+ * - Optional cost segregation: part of the building is reclassified to 5-year
+ *   property, with bonus depreciation in year 1 and the rest straight-line
+ * - Passive loss limits: losses are suspended and carried forward unless the
+ *   owner is a real estate professional or has a special allowance
+ * - On sale: depreciation recapture, capital gains and release of suspended
+ *   losses, or full deferral with a 1031 exchange
+ */
+import {
+  GlobalAssumptions,
+  SaleTaxResult,
+  StrategyResults,
+  TaxSettings,
+  YearProjection,
+} from "./types";
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  landValuePercent: 20,
+  ordinaryIncomeRatePercent: 24,
+  capitalGainsRatePercent: 15,
+  recaptureRatePercent: 25,
+  costSegregationPercent: 0,
+  bonusDepreciationPercent: 60,
+  realEstateProfessional: false,
+  passiveLossAllowance: 0,
+};
+
+const RESIDENTIAL_LIFE_YEARS = 27.5;
+const SHORT_LIFE_YEARS = 5;
+
+// Depreciation for one year, split by recapture treatment
+export interface DepreciationYear {
+  building: number; // 27.5-year residential (Section 1250)
+  shortLife: number; // Cost-seg reclassified property (Section 1245)
+}
+
+export function resolveTaxSettings(
+  assumptions: GlobalAssumptions
+): TaxSettings {
+  return { ...DEFAULT_TAX_SETTINGS, ...assumptions.taxSettings };
+}
+
+/**
+ * Depreciation for each of the first `years` years of ownership
+ */
+export function buildDepreciationSchedule(
+  costBasis: number,
+  settings: TaxSettings,
+  years: number
+): DepreciationYear[] {
+  const buildingBasis = costBasis * (1 - settings.landValuePercent / 100);
+  const shortLifeBasis =
+    buildingBasis * (settings.costSegregationPercent / 100);
+  const bonus = shortLifeBasis * (settings.bonusDepreciationPercent / 100);
+  const shortLifeAnnual = (shortLifeBasis - bonus) / SHORT_LIFE_YEARS;
+
+  let remainingBuilding = buildingBasis - shortLifeBasis;
+  const buildingAnnual = remainingBuilding / RESIDENTIAL_LIFE_YEARS;
+
+  const schedule: DepreciationYear[] = [];
+  for (let year = 1; year <= years; year++) {
+    // Mid-month convention - 11.5 months in the first year
+    const building = Math.min(
+      remainingBuilding,
+      year === 1 ? buildingAnnual * (11.5 / 12) : buildingAnnual
+    );
+    remainingBuilding -= building;
+
+    schedule.push({
+      building,
+      shortLife:
+        (year === 1 ? bonus : 0) +
+        (year <= SHORT_LIFE_YEARS ? shortLifeAnnual : 0),
+    });
+  }
+  return schedule;
+}
+
+/**
+ * Add depreciation, income tax, passive loss carryforward and after-tax cash
+ * flow to each projection year
+ */
+export function applyIncomeTaxes(
+  projections: YearProjection[],
+  costBasis: number,
+  settings: TaxSettings
+): YearProjection[] {
+  const schedule = buildDepreciationSchedule(
+    costBasis,
+    settings,
+    projections.length
+  );
+  const ordinaryRate = settings.ordinaryIncomeRatePercent / 100;
+  let suspendedPassiveLoss = 0;
+
+  return projections.map((projection, index) => {
+    const depreciation = schedule[index].building + schedule[index].shortLife;
+    const taxableIncome =
+      projection.noi - projection.interestPaid - depreciation;
+
+    let taxedIncome: number;
+    if (taxableIncome >= 0) {
+      // Income first soaks up losses carried forward from earlier years
+      const used = Math.min(suspendedPassiveLoss, taxableIncome);
+      suspendedPassiveLoss -= used;
+      taxedIncome = taxableIncome - used;
+    } else if (settings.realEstateProfessional) {
+      taxedIncome = taxableIncome;
+    } else {
+      const loss = -taxableIncome;
+      const allowed = Math.min(
+        loss,
+        Math.max(0, settings.passiveLossAllowance)
+      );
+      suspendedPassiveLoss += loss - allowed;
+      taxedIncome = -allowed;
+    }
+
+    const incomeTax = taxedIncome * ordinaryRate;
+    return {
+      ...projection,
+      depreciation,
+      taxableIncome,
+      incomeTax,
+      suspendedPassiveLoss,
+      afterTaxCashFlow: projection.cashFlow - incomeTax,
+    };
+  });
+}
+
+/**
+ * Tax due on a sale at the end of holdYears (or deferred by a 1031 exchange)
+ */
+export function calculateSaleTax(
+  results: StrategyResults,
+  holdYears: number,
+  netSalePrice: number,
+  settings: TaxSettings,
+  exchange1031: boolean = false
+): SaleTaxResult {
+  const schedule = buildDepreciationSchedule(
+    results.totalProjectCost,
+    settings,
+    holdYears
+  );
+  const buildingDepreciation = schedule.reduce(
+    (total, year) => total + year.building,
+    0
+  );
+  const shortLifeDepreciation = schedule.reduce(
+    (total, year) => total + year.shortLife,
+    0
+  );
+  const adjustedBasis =
+    results.totalProjectCost - buildingDepreciation - shortLifeDepreciation;
+  const gain = netSalePrice - adjustedBasis;
+  const ordinaryRate = settings.ordinaryIncomeRatePercent / 100;
+
+  let depreciationRecapture = 0;
+  let capitalGainsTax = 0;
+  if (gain < 0) {
+    // Section 1231 loss - deductible against ordinary income
+    capitalGainsTax = gain * ordinaryRate;
+  } else {
+    // Gain is taxed as 1245 recapture first, then 1250 recapture, then capital gain
+    const shortLifeRecapture = Math.min(gain, shortLifeDepreciation);
+    const buildingRecapture = Math.min(
+      gain - shortLifeRecapture,
+      buildingDepreciation
+    );
+    depreciationRecapture =
+      shortLifeRecapture * ordinaryRate +
+      buildingRecapture * (Math.min(settings.recaptureRatePercent, 25) / 100);
+    capitalGainsTax =
+      (gain - shortLifeRecapture - buildingRecapture) *
+      (settings.capitalGainsRatePercent / 100);
+  }
+
+  // A fully taxable sale frees every suspended passive loss
+  const exitYear = results.projections[holdYears - 1];
+  const releasedLossBenefit =
+    (exitYear?.suspendedPassiveLoss ?? 0) * ordinaryRate;
+  const taxableSaleTax =
+    depreciationRecapture + capitalGainsTax - releasedLossBenefit;
+
+  if (exchange1031) {
+    // Gain, recapture and suspended losses all carry into the replacement property
+    return {
+      adjustedBasis,
+      gain,
+      depreciationRecapture,
+      capitalGainsTax,
+      releasedLossBenefit: 0,
+      totalTax: 0,
+      deferredTax: Math.max(0, depreciationRecapture + capitalGainsTax),
+      exchange1031,
+    };
+  }
+
+  return {
+    adjustedBasis,
+    gain,
+    depreciationRecapture,
+    capitalGainsTax,
+    releasedLossBenefit,
+    totalTax: taxableSaleTax,
+    deferredTax: 0,
+    exchange1031,
+  };
+}
@@ -0,0 +1,1087 @@
+// v253_change: Canonical UnitDetail type - used everywhere in app
+// Deal Stage System for workflow tracking
+export type DealStage =
+  | "stage1-basic-data" // Stage 1: Needs Basic Data (default)
+  | "stage2-ready-comps" // Stage 2: Add Data & Comps (call realtor next)
+  | "stage3-data-collection" // Stage 3: Called Realtor, Collected Notes & Rehab
+  | "stage4-ready-offer" // Stage 4: Ready for Offer (max offer added)
+  | "stage5-offer-submitted" // Stage 5: Offer Submitted
+  | "stage6-accepted" // Stage 6: Offer Accepted Verbally
+  | "stage6-rejected" // Stage 6: Offer Rejected
+  | "stage6-counter" // Stage 6: Counter-Offer Needed
+  | "stage7-closed" // Stage 7: Closed - property acquired
+  | "archived"; // Archived/Closed
+
+export interface DealStageInfo {
+  stage: DealStage;
+  label: string;
+  shortLabel: string;
+  color: string;
+  bgColor: string;
+  description: string;
+  order: number;
+}
+
+export type UnitDetail = {
+  beds: number;
+  baths: number;
+  sqft?: number;
+  section8Rent?: number;
+  marketRent?: number;
+  afterRehabMarketRent?: number;
+  strMonthlyRevenue?: number; // DEPRECATED: kept for backward compatibility, migrated to strAnnualRevenue
+  strAnnualRevenue?: number; // Annual STR revenue per unit (vacancy already accounted for by AirDNA)
+  strAnnualExpenses?: number; // Annual STR operating expenses per unit
+  strMonthlyADR?: number[]; // Nightly rate for Jan-Dec (seasonal model - replaces strAnnualRevenue when set)
+  strMonthlyOccupancy?: number[]; // % of nights booked for Jan-Dec
+  strCleaningFee?: number; // Charged to the guest per stay
+  strCleaningCost?: number; // Paid to the cleaner per turnover
+  strAverageStayNights?: number; // Nights per booking (defaults to DEFAULT_STR_AVERAGE_STAY_NIGHTS)
+  mtrMonthlyRent?: number; // Furnished mid-term (30+ day) rent per month
+  mtrOccupancyPercent?: number; // % of the year booked (defaults to DEFAULT_MTR_OCCUPANCY_PERCENT)
+  mtrMonthlyUtilities?: number; // Owner-paid utilities, internet and streaming per month
+  mtrFurnishingCost?: number; // Furniture and housewares to furnish the unit
+  // In-place lease (occupied units) - current rent holds until the lease ends, then steps to the target rent
+  currentRent?: number; // Rent the current tenant pays per month
+  leaseEndDate?: string; // YYYY-MM-DD (blank = month-to-month)
+  securityDeposit?: number; // Held deposit that transfers to the buyer at closing
+  tenantType?: TenantType;
+  markToMarketPlan?: MarkToMarketPlan; // What happens at lease end (default turnover)
+};
+
+export type TenantType = "market" | "section8";
+
+// turnover = tenant leaves and the unit re-lets at market after turnover vacancy,
+// renew = tenant renews at market, keep = tenant stays at current rent plus rent growth
+export type MarkToMarketPlan = "turnover" | "renew" | "keep";
+
+// v253_change: Alias for backward compatibility
+export type UnitData = UnitDetail;
+
+export interface ZillowComp {
+  id: string;
+  address: string;
+  soldPrice: number;
+  soldDate: string;
+  beds: number;
+  baths: number;
+  sqft: number;
+  propertyType: string;
+  yearBuilt: number;
+  zestimate?: number; // Optional - no longer displayed in UI
+  rentZestimate?: number; // Optional - no longer displayed in UI
+  pricePerSqft: number;
+  description: string;
+  zillowLink: string;
+  photos?: { id: string; url: string; isPrimary?: boolean }[]; // Photo gallery for comp properties
+  lotSize?: number; // sqft
+  hasPool?: boolean;
+  parkingSpaces?: number;
+  daysOnMarket?: number;
+  lat?: number; // Latitude for map display (optional, can be geocoded from address)
+  lng?: number; // Longitude for map display (optional, can be geocoded from address)
+  libraryId?: string; // Shared comp library entry - assigned by the server on save
+  libraryUpdatedAt?: string; // Version of the library entry this copies (stale copies don't overwrite it)
+}
+
+// Rows of the ARV adjustment grid
+export type ARVAdjustmentFactor =
+  | "sqft"
+  | "beds"
+  | "baths"
+  | "age"
+  | "lotSize"
+  | "pool"
+  | "parking"
+  | "propertyType"
+  | "marketTiming";
+
+// Rates behind each ARV adjustment - percentages are of the comp's sold price
+export interface ARVAdjustmentRates {
+  sqftPercent: number; // % of the comp's $/sqft paid per sqft of difference
+  perBedPercent: number;
+  perBathPercent: number;
+  perYearAgePercent: number;
+  hurricaneCodePercent: number; // Built after 2001 vs on/before
+  lotPerSqft: number; // $ per sqft of land
+  poolPercent: number;
+  perParkingSpace: number; // $
+  propertyTypePercent: number; // Condo vs house
+  annualAppreciationPercent: number; // Brings older sales up to today
+}
+
+// User edits to the ARV adjustment grid, saved on the deal
+export interface ARVAdjustmentOverrides {
+  rates?: Partial<ARVAdjustmentRates>;
+  cells?: Record<string, Partial<Record<ARVAdjustmentFactor, number>>>; // By comp id, $
+}
+
+export type ARVConfidenceLevel = "High" | "Medium" | "Low";
+
+// How far the comps support calculatedARV, saved on the deal for the saved-deals badge
+export interface ARVConfidence {
+  low: number; // 90% band around the weighted ARV
+  high: number;
+  bandPercent: number; // Half-width as % of the ARV
+  level: ARVConfidenceLevel;
+  compCount: number;
+  outlierCount: number;
+  warningCount: number; // Comps with at least one diagnostic warning
+}
+
+// Condition of a rental (comp or subject unit) for rent adjustments
+export type RentCompCondition = "dated" | "average" | "renovated";
+
+// Rental listing used to price unit rents (Rent Comps tab)
+export interface RentComp {
+  id: string;
+  address: string;
+  monthlyRent: number;
+  listedDate?: string; // As pasted, e.g. 07/17/25
+  beds?: number; // Unset when the listing gives no count (no bed adjustment)
+  baths?: number; // Unset when the listing gives no count (no bath adjustment)
+  sqft?: number;
+  condition: RentCompCondition;
+  hasPool?: boolean;
+  propertyType?: string;
+  link?: string;
+  lat?: number;
+  lng?: number;
+}
+
+// Long-term loan structure (DSCR purchase loan and BRRRR refi loan)
+export type LoanType = "fixed" | "interest-only" | "arm" | "balloon" | "seller";
+
+export interface LoanStructure {
+  type: LoanType;
+  interestOnlyYears?: number; // IO period before amortization starts (any non-fixed type)
+  armInitialFixedYears?: number; // ARM only: 7 for a 7/1 ARM
+  armAdjustmentIntervalYears?: number; // ARM only: 1 for a 7/1 ARM
+  armFullyIndexedRate?: number; // ARM only: expected index + margin at reset (%)
+  armPeriodicCap?: number; // ARM only: max change per reset (percentage points)
+  armLifetimeCap?: number; // ARM only: max increase over the start rate (percentage points)
+  balloonYears?: number; // Balloon & seller financing: remaining balance due after N years
+}
+
+// Refinance scheduled during a hold (LTR, Section 8, Airbnb)
+export type RefinanceType = "cashOut" | "rateTerm";
+
+export interface RefinanceEvent {
+  id: string;
+  year: number; // Closes at the end of the first month of this projection year
+  type: RefinanceType; // Cash-out borrows up to the LTV; rate-and-term only pays off the old loan
+  ltvPercent: number; // Max new loan as % of the value at the refi
+  interestRate: number;
+  termYears: number;
+  closingCostsPercent: number; // % of the new loan
+  appraisedValue?: number; // Overrides the appreciated value when set
+}
+
+// What a scheduled refinance produced
+export interface RefinanceResult {
+  eventId: string;
+  year: number;
+  month: number; // Month since acquisition the refi closes
+  propertyValue: number;
+  payoffAmount: number; // Old loan balance paid off
+  newLoanAmount: number;
+  closingCosts: number;
+  cashOutProceeds: number; // New loan - payoff - closing costs (negative = cash to close)
+  newMonthlyPayment: number;
+}
+
+export interface AmortizationRow {
+  month: number; // 1-based month since loan origination
+  rate: number; // Note rate % in effect this month
+  payment: number; // Scheduled payment (interest + principal + any mortgage insurance), excludes balloon
+  interest: number;
+  principal: number;
+  balloonPayment: number; // Lump sum paid at the balloon month, 0 otherwise
+  balance: number; // Balance after this month's payment (and balloon)
+  mortgageInsurance?: number; // MIP/PMI premium, included in payment
+}
+
+// Itemized operating expenses (taxes and insurance stay as their own deal fields)
+export type OperatingExpenseKey =
+  | "management"
+  | "maintenance"
+  | "capexReserve"
+  | "utilities"
+  | "hoa"
+  | "lawnPest"
+  | "turnover";
+
+export type ExpenseBasis =
+  | "percentOfIncome" // % of effective income (after vacancy)
+  | "annual" // $ per year for the whole property
+  | "perUnitMonthly"; // $ per unit per month
+
+export interface OperatingExpenseLine {
+  key: OperatingExpenseKey;
+  basis: ExpenseBasis;
+  amount: number;
+  growthPercent: number; // Annual increase for dollar-based lines (% lines grow with income)
+}
+
+// Expenses only the furnished (mid-term and seasonal short-term) rentals carry
+export type FurnishedRentalExpenseKey =
+  "platformFees" | "ownerUtilities" | "furnishingReplacement" | "cleaning";
+
+export interface ExpenseBreakdownItem {
+  key:
+    | OperatingExpenseKey
+    | FurnishedRentalExpenseKey
+    | "propertyTaxes"
+    | "insurance";
+  label: string;
+  amount: number;
+}
+
+// v253_change: Schema version constant
+export const DEAL_SCHEMA_VERSION = 3;
+
+export interface DealInputs {
+  id?: string;
+  address: string;
+  units: number;
+  unitDetails: UnitDetail[];
+  totalSqft: number;
+  yearBuilt: number;
+  lotSize?: number; // Subject lot (sqft) - ARV lot adjustment
+  parkingSpaces?: number; // Subject garage/parking spaces - ARV parking adjustment
+  // strOccupancy: number;
+  // schemaVersion: number;
+  purchasePrice: number;
+  maxOffer?: number; // Maximum offer price locked in for VA
+  isOffMarket?: boolean; // Flag for off-market properties (imported from Zillow off-market listings)
+  strADR: number; // DEPRECATED: Keep for backward compatibility only
+  propertyTaxes: number;
+
+  propertyInsurance: number;
+  hasHurricaneWindows?: boolean; // Impact-rated or hurricane windows for insurance discount (FL)
+  hasNewRoof?: boolean; // Roof 0-5 years old for insurance discount (FL)
+  loanInterestRate: number;
+  loanTerm: number;
+  loanStructure?: LoanStructure; // Defaults to a fixed-rate fully amortizing loan when omitted
+  refinanceEvents?: RefinanceEvent[]; // Refis scheduled during the hold (purchase-loan strategies)
+  downPayment: number;
+  acquisitionCosts: number; // Percentage (for backward compatibility and calculating defaults)
+  acquisitionCostsAmount?: number; // Editable dollar amount (prepopulates at 5% but editable)
+  setupFurnishCost: number; // Cosmetic renovation/furnishing cost - applies to all strategies (LTR, Section 8, Airbnb)
+  operatingExpenses?: OperatingExpenseLine[]; // Deal-specific expense schedule (falls back to GlobalAssumptions defaults)
+
+  // Renovation/Rehab fields
+  isRehab: boolean;
+  rehabUnitType: "single" | "duplex" | "triplex" | "quad";
+  rehabCondition: "light" | "lite+" | "medium" | "heavy" | "fullgut";
+  rehabCost: number;
+  rehabMonths: number;
+  rehabFinancingRate: number;
+  rehabEntryPoints: number;
+  rehabExitPoints: number;
+
+  // Bridge Loan Parameters (Entry)
+  bridgeLTC: number; // Loan-to-Cost % (default 90) - % of (Purchase + Rehab) financed
+  bridgeRehabBudgetPercent: number; // Rehab budget % (default 100) - % of rehab financed
+  bridgeMaxARLTV: number; // Max ARLTV cap (default 70) - max loan as % of ARV upfront
+
+  // Exit Refi Parameters
+  exitStrategy: "sell" | "refi"; // Exit strategy: sell or refinance & hold
+  exitRefiLTV: number; // Refi LTV % (default 75) - refinance at % of ARV
+  exitRefiRate: number; // Exit refi interest rate % (often different from purchase loan)
+
+  afterRepairValue: number;
+  rehabPropertyTaxes: number; // Annual taxes based on ARV
+  rehabPropertyInsurance: number; // Annual insurance based on ARV
+  sellClosingCosts: number; // % of sale price
+
+  // Settlement Charges (editable dollar amounts)
+  bridgeSettlementCharges?: number; // Acquisition costs for bridge loan (prepopulates at 6% of purchase price - 1% higher than standard due to bridge loan costs)
+  dscrAcquisitionCosts?: number; // DSCR refinance closing costs for BRRRR exit (prepopulates at 5% of ARV but editable)
+
+  // Fix & Flip Parameters (bridge loan terms above, exit at ARV less sellClosingCosts)
+  flipHoldingMonths?: number; // Purchase to sale closing (defaults to rehab months + 3 to list and sell)
+  flipDrawSchedule?: number[]; // % of the rehab budget drawn in each month (defaults to even draws over the rehab)
+  flipDrawPointsPercent?: number; // Lender points charged on each financed draw (defaults to 2)
+  flipStagingCost?: number; // Staging and listing prep paid once the rehab is done
+
+  // House Hack (2-4 units - live in one unit the first year on an owner-occupied loan)
+  houseHackLoanProgram?: HouseHackLoanProgram; // Defaults to FHA
+  houseHackOwnerUnit?: number; // Index into unitDetails of the unit the owner lives in (default 0)
+  houseHackInterestRate?: number; // Owner-occupied note rate % (defaults to loanInterestRate)
+  houseHackMortgageInsurancePercent?: number; // Annual MIP/PMI % (defaults to the program's rate)
+
+  // Property notes and condition assessment
+  notes?: DealNotes;
+
+  // v254_change: Multi-photo gallery support (non-breaking addition)
+  photos?: { id: string; url: string; isPrimary?: boolean }[];
+  photoUrl?: string; // Legacy field - kept for backward compatibility, migrated to photos[0] at runtime
+
+  // ARV Calculator - Comparable Sales
+  arvComps?: ZillowComp[];
+  subjectLat?: number; // Subject property latitude for map and distance calculations
+  subjectLng?: number; // Subject property longitude for map and distance calculations
+  calculatedARV?: number; // ARV calculated from comps (median sold price)
+  arvAdjustmentOverrides?: ARVAdjustmentOverrides; // Rate and per-comp edits in the adjustment grid
+  arvConfidence?: ARVConfidence; // Band and comp diagnostics summary for calculatedARV
+  subjectPropertyDescription?: string; // Property description extracted from Zillow listing
+  subjectPropertyZillowLink?: string; // Zillow listing URL for subject property
+
+  // Rent Comps - rental listings that price each unit's market rent
+  rentComps?: RentComp[];
+
+  // Named what-if variants of this deal (e.g. heavy vs light rehab)
+  scenarios?: DealScenario[];
+
+  // Strategy the property is run under once acquired (portfolio roll-up)
+  portfolioStrategy?: HoldStrategy;
+}
+
+// A what-if variant stores only the analysis fields that differ from the deal itself
+export interface DealScenario {
+  id: string;
+  name: string;
+  overrides: Partial<DealInputs>;
+  createdAt: string; // ISO timestamp
+}
+
+export interface Section8ZipData {
+  zipCode: string;
+  zone: number; // HACFL Payment Standard Zone (1-19)
+  rents: {
+    studio?: number;
+    "1bed"?: number;
+    "2bed"?: number;
+    "3bed"?: number;
+    "4bed"?: number;
+    "5bed"?: number;
+    "6bed"?: number;
+    "7bed"?: number;
+  };
+}
+
+// Named buy box - the thresholds a deal has to meet for one strategy
+export interface InvestmentCriteriaProfile {
+  id: string;
+  name: string; // e.g. "BRRRR Broward", "Section 8 cash flow"
+  strategy: HoldStrategy; // Which strategy's numbers are judged
+  minCapRate?: number; // %
+  minDscr?: number;
+  minCashOnCash?: number; // %
+  maxCashLeftInDeal?: number; // $ (after the refi for BRRRR)
+  maxPricePerUnit?: number; // $
+  allowedZips?: string[]; // Empty/undefined = any zip
+}
+
+export type CriterionKey =
+  | "minCapRate"
+  | "minDscr"
+  | "minCashOnCash"
+  | "maxCashLeftInDeal"
+  | "maxPricePerUnit"
+  | "allowedZips";
+
+export interface CriterionResult {
+  key: CriterionKey;
+  label: string;
+  passed: boolean;
+  actual: string; // Formatted value the deal achieved
+  target: string; // Formatted threshold
+}
+
+export interface CriteriaEvaluation {
+  profileId: string;
+  results: CriterionResult[]; // Only criteria the profile sets
+  passedCount: number;
+  score: number; // % of criteria passed (100 when the profile sets none)
+}
+
+// Federal income tax treatment of a rental (rates are marginal %)
+export interface TaxSettings {
+  landValuePercent: number; // Share of the cost basis that is land (not depreciable)
+  ordinaryIncomeRatePercent: number;
+  capitalGainsRatePercent: number;
+  recaptureRatePercent: number; // Unrecaptured Section 1250 gain (max 25%)
+  costSegregationPercent: number; // Share of the building reclassified to 5-year property
+  bonusDepreciationPercent: number; // Year-1 bonus on the reclassified portion
+  realEstateProfessional: boolean; // Rental losses offset other income without limit
+  passiveLossAllowance: number; // Losses usable against other income each year ($25k special allowance)
+}
+
+export interface GlobalAssumptions {
+  ltrVacancyMonths: number;
+  section8VacancyMonths: number;
+  mtrPlatformFeePercent?: number; // Mid-term listing platform fee, % of collected rent (default 5%)
+  mtrFurnishingLifeYears?: number; // Years before mid-term furnishings are replaced (default 5)
+  turnoverVacancyMonths?: number; // Vacant months when a below-market tenant moves out (default 1)
+  strPlatformFeePercent?: number; // Host-side booking platform fee, % of booking revenue (default 3%)
+  strLodgingTaxPercent?: number; // Sales and tourist development tax guests pay on stays (default 12% for Broward)
+  maintenancePercent: number; // Legacy - seeds the maintenance line when no itemized defaults are saved
+  rentGrowthPercent: number;
+  appreciationPercent: number;
+  operatingExpenses?: OperatingExpenseLine[]; // Default itemized expense schedule for new deals
+  propertyTaxIncreasePercent: number; // Annual property tax increase % (default 3%)
+  insuranceIncreasePercent: number; // Annual insurance increase % (default 5% for FL)
+  discountRatePercent?: number; // Discount rate for NPV (default 8%)
+  criteriaProfiles?: InvestmentCriteriaProfile[]; // Team buy boxes for judging saved deals
+  taxSettings?: TaxSettings; // Falls back to DEFAULT_TAX_SETTINGS
+  section8ZipData: Section8ZipData[];
+  updatedAt?: string;
+}
+
+export interface YearProjection {
+  year: number;
+  grossIncome: number;
+  noi: number;
+  debtService: number;
+  cashFlow: number;
+  appreciation: number;
+  propertyValue: number; // Current property value with appreciation
+  equity: number;
+  annualReturn: number; // This year's cash flow + appreciation
+  cumulativeCashFlow: number; // Total cash flow from all years
+  cumulativeReturn: number; // Total returns from all years (cash flow + appreciation)
+  loanBalance: number; // Remaining loan balance for refi tracking
+  balloonPayment?: number; // Balloon due this year (already deducted from cashFlow)
+  interestPaid: number; // Interest portion of debt service (deductible)
+  refiProceeds?: number; // Cash out from a refinance this year (not included in cashFlow)
+  // Tax layer (see utils/taxes.ts)
+  depreciation?: number;
+  taxableIncome?: number; // NOI - interest - depreciation, before passive loss limits
+  incomeTax?: number; // Negative = savings against other income
+  suspendedPassiveLoss?: number; // Carryforward balance at the end of the year
+  afterTaxCashFlow?: number;
+}
+
+// Things that happen in a given month of the cash-flow ledger
+export type LedgerEvent = "rehab" | "refi" | "balloon";
+
+export interface MonthlyLedgerEntry {
+  month: number; // Months since acquisition (1-based)
+  year: number; // Projection year this month rolls up into (0 = rehab period before the refi)
+  grossRent: number;
+  vacancy: number;
+  operatingExpenses: number; // Taxes, insurance and maintenance
+  capexReserve: number;
+  noi: number;
+  debtService: number; // Bridge interest during rehab, long-term loan payment afterwards
+  interest: number; // Interest portion of debtService
+  balloonPayment: number;
+  cashFlow: number;
+  loanBalance: number;
+  propertyValue: number;
+  refiProceeds?: number; // Cash out at the refi (not included in cashFlow)
+  events: LedgerEvent[];
+}
+
+export type ProjectionView = "yearly" | "monthly";
+
+export interface StrategyResults {
+  year1Summary: {
+    grossIncome: number;
+    vacancy: number;
+    expenses: number;
+    expenseBreakdown: ExpenseBreakdownItem[]; // Year 1 expenses by line (sums to expenses)
+    noi: number;
+    debtService: number;
+    cashFlow: number;
+    capRate: number;
+    dscr: number;
+    cashOnCash: number;
+  };
+  cashInvested: number; // Total cash invested for ROI calculations
+  totalProjectCost: number; // All-cash cost basis for unlevered returns
+  projections: YearProjection[];
+  loanSchedule: AmortizationRow[]; // Monthly schedule of the long-term loan (after any scheduled refis)
+  monthlyLedger: MonthlyLedgerEntry[]; // Month-by-month cash flows that projections roll up from
+  refinances?: RefinanceResult[]; // Scheduled refis, in closing order
+  houseHack?: HouseHackResult; // Owner-occupied financing and move-out numbers (house hack only)
+  strSeasonality?: StrSeasonality; // Year-1 month-by-month bookings (Airbnb with seasonal curves only)
+}
+
+// Year-1 headline numbers for one strategy (null where the ratio has no denominator)
+// null wherever the engine produced NaN/Infinity (e.g. a legacy deal missing a field)
+export interface StrategyMetrics {
+  monthlyCashFlow: number | null;
+  cashOnCash: number | null;
+  capRate: number | null;
+  dscr: number | null; // null when there is no debt
+  cashInvested: number | null;
+}
+
+// Computed by the backend whenever a deal is saved, so deals can be filtered and
+// sorted by their numbers without running the engine
+export interface DealMetrics {
+  bestStrategy: HoldStrategy; // Highest year-1 cash flow
+  monthlyCashFlow: number | null; // Best strategy's numbers
+  cashOnCash: number | null;
+  capRate: number | null;
+  dscr: number | null;
+  strategies: Partial<Record<HoldStrategy, StrategyMetrics>>;
+  fundsGap?: number | null; // BRRRR refi shortfall (rehab deals only)
+  flipNetProfit?: number | null; // Rehab deals only
+  arvSpreadPercent?: number | null; // (ARV - price - rehab) / ARV, when an ARV is set
+  computedAt: string; // ISO timestamp
+}
+
+// Server-side saved-deals filters (GET /api/deals); blank = not filtered.
+// Metric thresholds apply to the chosen strategy, or the best one when unset
+export interface DealFilters {
+  strategy?: HoldStrategy;
+  minCashFlow?: number; // Monthly
+  minDSCR?: number;
+  minCapRate?: number;
+  maxFundsGap?: number;
+  minArvSpread?: number; // %
+  zipCode?: string;
+  city?: string;
+  minYearBuilt?: number;
+  maxYearBuilt?: number;
+  minStageAgeDays?: number; // Days since the deal last changed stage
+  maxStageAgeDays?: number;
+  hasComps?: boolean;
+  hasPhotos?: boolean;
+}
+
+export interface SavedDealFilter {
+  id: string;
+  name: string;
+  filters: DealFilters;
+}
+
+// One calendar month of short-term rental bookings
+export interface StrSeasonMonth {
+  month: number; // 1 = January
+  adr: number; // Average nightly rate (booked-night weighted across units)
+  occupancyPercent: number;
+  bookedNights: number;
+  stays: number; // Bookings, each one a cleaning turnover
+  nightlyRevenue: number;
+  cleaningFees: number; // Charged to guests
+  grossRevenue: number; // Nightly revenue + cleaning fees
+  platformFees: number;
+  cleaningCosts: number;
+  lodgingTax: number; // Collected from guests and remitted - not host income
+  netRevenue: number; // Gross revenue - platform fees - cleaning costs
+}
+
+export interface StrSeasonality {
+  months: StrSeasonMonth[];
+  annualGrossRevenue: number;
+  annualNetRevenue: number;
+  annualLodgingTax: number;
+  peakMonth: number; // 1-based month with the highest net revenue
+  lowMonth: number;
+  monthlyStdDev: number; // Standard deviation of monthly net revenue
+  coefficientOfVariation: number; // Std dev / average month (%)
+}
+
+export type HouseHackLoanProgram = "fha" | "conventional";
+
+export interface HouseHackResult {
+  loanProgram: HouseHackLoanProgram;
+  downPayment: number;
+  upfrontMortgageInsurance: number; // FHA upfront MIP, financed into the loan
+  loanAmount: number; // Including any financed upfront premium
+  monthlyMortgageInsurance: number; // First month's MIP/PMI
+  mortgageInsuranceEndMonth: number | null; // Last month with a premium (null = life of loan)
+  ownerUnitIndex: number;
+  ownerUnitRent: number; // Monthly market rent given up while living there
+  effectiveHousingCost: number; // Monthly out-of-pocket cost of living there in year 1 (negative = paid to live there)
+  cashFlowAfterMoveOut: number; // Year 2 cash flow with every unit rented
+}
+
+// Time-value returns for a hypothetical sale at the end of holdYears
+// Year-1 headline numbers for one strategy under one scenario (flip: profit over the hold)
+export interface ScenarioStrategyMetrics {
+  strategy: Strategy;
+  cashInvested: number;
+  annualCashFlow: number; // Flip: net profit
+  cashOnCash: number; // Flip: ROI
+  capRate?: number;
+  dscr?: number;
+}
+
+export interface ScenarioComparison {
+  scenarioId: string | null; // null = the deal as saved
+  name: string;
+  strategies: ScenarioStrategyMetrics[];
+}
+
+// One metric across the deals being compared (null = doesn't apply to that deal)
+export interface DealComparisonRow {
+  label: string;
+  values: (number | string | null)[];
+  format: "currency" | "percent" | "number" | "ratio" | "text";
+  better?: "higher" | "lower"; // Omitted for rows with no better value
+}
+
+export interface DealComparisonSection {
+  title: string;
+  rows: DealComparisonRow[];
+}
+
+export interface ReturnMetrics {
+  holdYears: number;
+  leveredIRR: number | null; // % - null when the cash flows have no IRR
+  unleveredIRR: number | null; // % - as if bought all cash
+  npv: number; // Levered cash flows at the discount rate
+  equityMultiple: number | null; // Total distributions / equity invested
+  netSaleProceeds: number; // Sale price - selling costs - loan payoff
+  afterTaxIRR: number | null; // % - after income taxes and the tax on sale
+  saleTax: SaleTaxResult;
+}
+
+export interface SaleTaxResult {
+  adjustedBasis: number; // Cost basis less accumulated depreciation
+  gain: number; // Net sale price - adjusted basis
+  depreciationRecapture: number; // Tax on recaptured depreciation
+  capitalGainsTax: number;
+  releasedLossBenefit: number; // Suspended passive losses freed up by the sale
+  totalTax: number; // Recapture + capital gains - released losses (0 with a 1031)
+  deferredTax: number; // Tax a 1031 exchange rolls into the replacement property
+  exchange1031: boolean;
+}
+
+export type Strategy =
+  "ltr" | "houseHack" | "section8" | "airbnb" | "mtr" | "rehab" | "flip";
+
+// Strategies that hold the property and produce yearly projections (everything but the flip)
+export type HoldStrategy = Exclude<Strategy, "flip">;
+
+// Sensitivity analysis - deal drivers flexed around the base case
+export type SensitivityVariable =
+  | "purchasePrice" // % change
+  | "rents" // % change (market, Section 8, after-rehab and STR revenue)
+  | "interestRate" // Percentage points (purchase loan and exit refi)
+  | "afterRepairValue" // % change
+  | "rehabCost" // % change
+  | "vacancy" // Months per year
+  | "appreciation"; // Percentage points per year
+
+export type SensitivityMetric = "cashFlow" | "dscr" | "cashOnCash" | "irr";
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  label: string;
+  lowDelta: number; // Flex applied for the low case (e.g. -10)
+  highDelta: number;
+  lowValue: number | null; // Metric value in the low case (IRR can be null)
+  highValue: number | null;
+}
+
+// Two-variable data table (e.g. purchase price vs. rate for DSCR)
+export interface SensitivityTable {
+  rowVariable: SensitivityVariable;
+  columnVariable: SensitivityVariable;
+  rowDeltas: number[];
+  columnDeltas: number[];
+  values: (number | null)[][]; // values[row][column]
+}
+
+// Monte Carlo simulation - each uncertain assumption is drawn from a distribution per trial
+export type SimulationVariable =
+  | "rentGrowthPercent"
+  | "appreciationPercent"
+  | "vacancyMonths" // LTR / Section 8 vacancy
+  | "insuranceIncreasePercent";
+
+export interface AssumptionDistribution {
+  kind: "fixed" | "range" | "normal";
+  min?: number; // range: uniform between min and max
+  max?: number;
+  mean?: number; // normal: mean and standard deviation
+  stdDev?: number;
+}
+
+export interface SimulationConfig {
+  trials: number;
+  seed: number; // Same seed + inputs = same results
+  holdYears: number; // Years checked for negative cash flow / DSCR < 1.0
+  distributions: Record<SimulationVariable, AssumptionDistribution>;
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationResults {
+  trials: number;
+  seed: number;
+  holdYears: number;
+  averageCashFlow: PercentileBand; // Average annual cash flow over the hold period
+  yearlyCashFlow: (PercentileBand & { year: number })[];
+  probabilityNegativeCashFlow: number; // % of trials with any hold year below $0
+  probabilityDscrBelowOne: number; // % of trials with any hold year below 1.0
+}
+
+// Reverse solver - targets a purchase price has to hit to be worth offering
+export interface OfferTargets {
+  minDscr?: number;
+  minCashOnCash?: number; // %
+  minMonthlyCashFlowPerUnit?: number; // $ per unit per month (year 1)
+  flipRulePercent?: number; // Flip: max price = ARV x % - rehab (the 70% rule)
+  minFlipProfit?: number; // Flip: minimum net profit on the sale ($)
+}
+
+export interface OfferSolution {
+  strategy: Strategy;
+  status: "solved" | "infeasible" | "unbounded"; // unbounded = targets met at any price searched
+  maxPrice: number | null;
+  bindingConstraints: (keyof OfferTargets)[]; // Targets that stop the price going higher
+}
+
+// Team collaboration notes
+export interface TeamNote {
+  id: string;
+  dealId: string; // Associated deal ID
+  author: "user1" | "user2" | "user3" | "system"; // This should include 'system'
+  message: string;
+  timestamp: string; // ISO timestamp
+  isPinned: boolean;
+  isSystemNote?: boolean; // True for auto-generated change tracking notes
+  changeType?: "stage" | "maxOffer" | "rehab" | "offMarket" | "price"; // Type of change tracked
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// User settings for team collaboration
+export interface UserSettings {
+  user1Name: string; // Your name
+  user2Name: string; // Partner's name
+  user3Name: string;
+}
+
+// One acquired property in the portfolio roll-up (year 1 of its hold strategy)
+export interface PortfolioHolding {
+  dealId: string;
+  address: string;
+  zipCode: string | null;
+  strategy: HoldStrategy;
+  propertyValue: number;
+  loanBalance: number;
+  equity: number;
+  monthlyCashFlow: number;
+  noi: number;
+  debtService: number;
+  costBasis: number; // Cap rate denominator - purchase price, or ARV for BRRRR
+}
+
+// Share of the portfolio held in one zip code or strategy
+export interface PortfolioConcentration {
+  key: string;
+  label: string;
+  count: number;
+  equity: number;
+  equityPercent: number;
+  monthlyCashFlow: number;
+}
+
+export interface PortfolioSummary {
+  holdings: PortfolioHolding[];
+  totalValue: number;
+  totalDebt: number;
+  totalEquity: number;
+  monthlyCashFlow: number;
+  weightedDSCR: number; // Total NOI / total debt service
+  blendedCapRate: number; // Total NOI / total cost basis
+  projections: YearProjection[]; // Every holding's projection summed year by year
+  byZip: PortfolioConcentration[];
+  byStrategy: PortfolioConcentration[];
+}
+
+export interface PipelineStats {
+  dealsCreated: number;
+  dealsToStage5: number;
+  dealsWithMaxOffer: number;
+  currentStage5: number;
+  avgDaysToStage5: number;
+  conversionRate: number;
+  avgMaxOffer: number;
+  stageDistribution: {
+    stage1: number;
+    stage2: number;
+    stage3: number;
+    stage4: number;
+    stage5: number;
+    stage6: number;
+    archived: number;
+  };
+}
+
+// v253_change: SavedDeal type with schema versioning
+export interface SavedDeal extends DealInputs {
+  id: string;
+  savedAt: string;
+  schemaVersion: number;
+  daysOnMarket?: number;
+  dealStage?: DealStage; // Current stage in deal workflow
+  stageUpdatedAt?: string; // ISO timestamp when stage was last changed
+  isCompleted?: boolean; // DEPRECATED: Use dealStage instead (kept for migration)
+  createdAt?: string; // ISO timestamp when deal was first added to system
+  completedAt?: string; // ISO timestamp when deal was marked as completed
+  teamNotes?: TeamNote[]; // Inline team collaboration notes
+  metrics?: DealMetrics; // Server-computed, read-only
+}
+// Property Condition Assessment Notes
+export interface DealNotes {
+  // Realtor contact info
+  realtorName: string;
+  realtorPhone: string;
+  realtorEmail: string;
+  realtorNotes: string;
+
+  // Seller motivation
+  sellerMotivation: string;
+
+  // Overall property assessment
+  overallCondition:
+    | "Excellent"
+    | "Good"
+    | "Fair"
+    | "Poor"
+    | "Uninhabitable"
+    | "";
+  estimatedRehabCost: string;
+
+  // Structural & Major Systems
+  roof: {
+    condition:
+      | "New (0-5 yrs)"
+      | "Good (6-15 yrs)"
+      | "Fair (16-20 yrs)"
+      | "Poor (20+ yrs)"
+      | "Needs Replacement"
+      | "";
+    age: string;
+    roofYear?: number; // Year roof was installed/replaced
+    leaks: boolean;
+    notes: string;
+  };
+  foundation: {
+    condition:
+      | "Excellent"
+      | "Good"
+      | "Minor Cracks"
+      | "Major Issues"
+      | "Needs Repair"
+      | "";
+    notes: string;
+  };
+  hvac: {
+    condition:
+      | "New (0-5 yrs)"
+      | "Good (6-10 yrs)"
+      | "Fair (11-15 yrs)"
+      | "Old (15+ yrs)"
+      | "Not Working"
+      | "";
+    age: string;
+    systemType?:
+      | "Central AC"
+      | "Mini-Split"
+      | "Window Units"
+      | "Package Unit"
+      | "Heat Pump"
+      | "None"
+      | "";
+    numberOfUnits: string;
+    notes: string;
+  };
+  plumbing: {
+    condition: "Excellent" | "Good" | "Has Issues" | "Needs Replacement" | "";
+    pipeMaterial:
+      | "Copper"
+      | "PEX"
+      | "PVC"
+      | "Galvanized"
+      | "Mixed"
+      | "Unknown"
+      | "";
+    pipeAge?: "Original" | "10-20 yrs" | "20+ yrs" | "Recently Updated" | "";
+    waterHeater: "New" | "Good" | "Old" | "Needs Replacement" | "";
+    leaks: boolean;
+    notes: string;
+  };
+  electrical: {
+    condition: "Updated" | "Adequate" | "Needs Work" | "Unsafe" | "";
+    panelSize: string;
+    panelAmperage?: "100A" | "150A" | "200A" | "200A+" | "Unknown" | "";
+    wiringType: "Modern" | "Aluminum" | "Knob & Tube" | "Mixed" | "";
+    notes: string;
+  };
+
+  // Exterior
+  exterior: {
+    siding:
+      | "Excellent"
+      | "Good"
+      | "Needs Paint"
+      | "Needs Repair"
+      | "Needs Replacement"
+      | "";
+    sidingType: "Stucco" | "Vinyl" | "Wood" | "Brick" | "Concrete Block" | "";
+    windows: "New" | "Good" | "Old Single Pane" | "Broken/Missing" | "";
+    windowsType?:
+      | "Impact-Rated"
+      | "Hurricane"
+      | "Double Pane"
+      | "Single Pane"
+      | "Mixed"
+      | "Unknown"
+      | "";
+    windowsCondition?:
+      | "Excellent"
+      | "Good"
+      | "Some Broken"
+      | "Many Broken"
+      | "All Need Replacement"
+      | "";
+    doors: "Excellent" | "Good" | "Worn" | "Needs Replacement" | "";
+    gutters: "Good" | "Needs Repair" | "Missing" | "";
+    landscaping: "Well Maintained" | "Overgrown" | "Minimal" | "";
+    fencing: "Good" | "Needs Repair" | "None" | "";
+    driveway: "Excellent" | "Good" | "Cracked" | "Needs Replacement" | "";
+    notes: string;
+  };
+
+  // Interior - Kitchen
+  kitchen: {
+    condition: "Modern" | "Updated" | "Dated" | "Needs Full Rehab" | "";
+    cabinets: "Excellent" | "Good" | "Worn" | "Needs Replacement" | "";
+    countertops:
+      | "Granite/Quartz"
+      | "Laminate Good"
+      | "Laminate Worn"
+      | "Needs Replacement"
+      | "";
+    appliances: "All New" | "Most Good" | "Old" | "Missing/Broken" | "";
+    flooring: "Tile" | "Vinyl" | "Wood" | "Needs Replacement" | "";
+    notes: string;
+  };
+
+  // Interior - Bathrooms
+  bathrooms: Array<{
+    location: string; // e.g., "Master", "Hall Bath", "Guest"
+    condition: "Excellent" | "Good" | "Dated" | "Poor" | "";
+    vanity: "Modern" | "Good" | "Worn" | "Needs Replacement" | "";
+    toilet: "Good" | "Needs Replacement" | "";
+    tubShower: "Excellent" | "Good" | "Worn/Stained" | "Cracked/Damaged" | "";
+    tile: "Modern" | "Good" | "Dated" | "Cracked/Missing" | "";
+    notes: string;
+  }>;
+
+  // Interior - Bedrooms
+  bedrooms: Array<{
+    location: string; // e.g., "Master", "Bedroom 2"
+    flooring:
+      | "Tile"
+      | "Wood"
+      | "Carpet Good"
+      | "Carpet Worn"
+      | "Needs Replacement"
+      | "";
+    closets: "Excellent" | "Adequate" | "Small" | "None" | "";
+    condition: "Excellent" | "Good" | "Needs Paint" | "Needs Work" | "";
+    notes: string;
+  }>;
+
+  // Interior - General
+  interior: {
+    flooring: "Excellent" | "Good" | "Mixed" | "Needs Replacement" | "";
+    walls: "Excellent" | "Good" | "Needs Paint" | "Needs Repair" | "";
+    ceilings: "Excellent" | "Good" | "Stains/Cracks" | "Needs Repair" | "";
+    lighting: "Modern" | "Adequate" | "Outdated" | "";
+    openFloorPlan: boolean;
+    notes: string;
+  };
+
+  // Special Features
+  pool: {
+    hasPool: boolean;
+    condition: "Excellent" | "Good" | "Needs Repair" | "Not Working" | "";
+    equipment: "New" | "Good" | "Old" | "Needs Replacement" | "";
+    notes: string;
+  };
+
+  // Additional Issues
+  additionalIssues: {
+    mold: boolean;
+    moldDetails?: string;
+    termites: boolean;
+    termitesDetails?: string;
+    waterDamage: boolean;
+    waterDamageDetails?: string;
+    fireDamage: boolean;
+    fireDamageDetails?: string;
+    structuralIssues: boolean;
+    structuralIssuesDetails?: string;
+    codeViolations: boolean;
+    codeViolationsDetails?: string;
+    other: string;
+  };
+
+  // General notes
+  generalNotes: string;
+  lastUpdated: string;
+  isScopeFinalized?: boolean; // Track if scope of work is finalized
+  lineItems?: Array<{
+    id: string;
+    category: "structural" | "systems" | "interior" | "exterior";
+    description: string;
+    estimatedCost: number;
+  }>; // Scope of work line items
+
+  // Hidden logic fields for enhanced calculations
+  floodZone?: boolean; // In FEMA flood zone (affects insurance and foundation concerns)
+  confidenceScore?: number; // 0-100 calculated based on data completeness
+
+  // v255_change: Derived/calculated fields (non-breaking additions)
+  _rehabLevel?: "light" | "medium" | "heavy";
+  _rehabCostPsqft?: number;
+  _rehabCostEstimate?: number;
+  _riskScore?: number;
+  _followUp?: string[]; // Fields marked as "Unknown" that need follow-up
+  _calc?: {
+    version: number;
+    timestamp: string;
+  };
+
+  // v255_change: Enhanced condition fields for VA workflow
+  foundationType?: "Slab" | "Crawl" | "Basement" | "Unknown" | "";
+  roofAge?: number;
+  structuralIssues?: boolean;
+  hvacType?: "Central" | "Window" | "Both" | "None" | "";
+  hvacCount?: number;
+  hvacAge?: number;
+  hvacWorking?: "Yes" | "No" | "Partial" | "Unknown" | "";
+  electricalUpdated?: "Yes" | "No" | "Unknown" | "";
+  electricalIssues?: string;
+  waterHeaterAge?: number;
+  waterHeaterWorking?: "Yes" | "No" | "Unknown" | "";
+  kitchenConditionLevel?: "New" | "Average" | "Old" | "Full Gut" | "";
+  bathroomsConditionLevel?: "New" | "Average" | "Old" | "Full Gut" | "";
+  flooringCondition?: "Tile" | "Vinyl" | "Wood" | "Carpet" | "Damaged" | "";
+  interiorPaintNeeded?: boolean;
+  windowsType?: "Impact" | "Original" | "Broken" | "Unknown" | "";
+  ceilingStains?: boolean;
+  neighborhoodTier?: "A" | "B" | "C" | "D" | "";
+  crimeRisk?: "Low" | "Medium" | "High" | "";
+  insuranceZone?: "Standard" | "Flood" | "Windstorm" | "";
+  proximityToWater?: number; // feet
+  sellingReason?:
+    | "Retiring"
+    | "Relocating"
+    | "Tenant Issue"
+    | "Out-of-State"
+    | "Estate"
+    | "Vacant"
+    | "Other"
+    | "";
+  timelinePressure?: boolean;
+  flexibleOnPrice?: boolean;
+  asIsAccepted?: boolean;
+}